@@ -4,6 +4,8 @@
  */
 require("dotenv").config();
 
+// QEZU_CONCURRENCY はプロセス・キューごとの並列数
+// エージェントごとのクラスター全体の上限は qezu.config.yaml の limits で設定する
 const concurrency = parseInt(process.env.QEZU_CONCURRENCY || "2", 10);
 const instances = process.env.QEZU_PROCS || "max";
 
@@ -17,6 +19,8 @@ module.exports = {
       env: {
         NODE_ENV: "production",
         QEZU_CONCURRENCY: concurrency.toString(),
+        // ログはJSON形式で出力（ログの収集基盤で相関IDごとに検索できるようにする）
+        QEZU_LOG_FORMAT: process.env.QEZU_LOG_FORMAT || "json",
         // 環境変数を.envから読み込む
         REDIS_HOST: process.env.REDIS_HOST || "localhost",
         REDIS_PORT: process.env.REDIS_PORT || "6379",
@@ -42,6 +46,7 @@ module.exports = {
       env: {
         NODE_ENV: "production",
         PORT: process.env.PORT || "3000",
+        QEZU_LOG_FORMAT: process.env.QEZU_LOG_FORMAT || "json",
         // 環境変数を.envから読み込む
         CODEX_CLI_PATH: process.env.CODEX_CLI_PATH || "/Users/tacyan/.npm-global/bin/codex",
         CLAUDE_CLI_PATH: process.env.CLAUDE_CLI_PATH || "/Users/tacyan/.npm-global/bin/claude",
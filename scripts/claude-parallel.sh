@@ -16,11 +16,17 @@ echo "投入数: $COUNT"
 echo "メッセージプレフィックス: $MESSAGE_PREFIX"
 echo ""
 
+# 投入するジョブをCSVに書き出し、batchコマンドで1回の接続でまとめて投入
+BATCH_DIR="$(mktemp -d)"
+BATCH_FILE="$BATCH_DIR/jobs.csv"
+trap 'rm -rf "$BATCH_DIR"' EXIT
+
+echo "prefix,n" > "$BATCH_FILE"
 for i in $(seq 1 $COUNT); do
-  $QEZU_CMD run claude chat message="${MESSAGE_PREFIX}${i}: 並列処理、非同期処理、パフォーマンス最適化について教えてください" model=claude-3-opus &
+  echo "\"${MESSAGE_PREFIX//\"/\"\"}\",$i" >> "$BATCH_FILE"
 done
 
-wait
+$QEZU_CMD batch "$BATCH_FILE" --template '{"kind":"claude","command":"chat","params":{"message":"{{prefix}}{{n}}: 並列処理、非同期処理、パフォーマンス最適化について教えてください","options":{"model":"claude-3-opus"}}}'
 
 echo ""
 echo "Claudeジョブを${COUNT}件投入しました"
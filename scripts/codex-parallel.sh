@@ -16,11 +16,17 @@ echo "投入数: $COUNT"
 echo "プロンプトプレフィックス: $PROMPT_PREFIX"
 echo ""
 
+# 投入するジョブをCSVに書き出し、batchコマンドで1回の接続でまとめて投入
+BATCH_DIR="$(mktemp -d)"
+BATCH_FILE="$BATCH_DIR/jobs.csv"
+trap 'rm -rf "$BATCH_DIR"' EXIT
+
+echo "prefix,n" > "$BATCH_FILE"
 for i in $(seq 1 $COUNT); do
-  $QEZU_CMD run codex generate prompt="${PROMPT_PREFIX}${i}: 配列操作、文字列処理、日付操作のいずれか" language=typescript maxTokens=800 &
+  echo "\"${PROMPT_PREFIX//\"/\"\"}\",$i" >> "$BATCH_FILE"
 done
 
-wait
+$QEZU_CMD batch "$BATCH_FILE" --template '{"kind":"codex","command":"generate","params":{"prompt":"{{prefix}}{{n}}: 配列操作、文字列処理、日付操作のいずれか","options":{"language":"typescript","maxTokens":800}}}'
 
 echo ""
 echo "Codexジョブを${COUNT}件投入しました"
@@ -16,11 +16,17 @@ echo "投入数: $COUNT"
 echo "プロンプトプレフィックス: $PROMPT_PREFIX"
 echo ""
 
+# 投入するジョブをCSVに書き出し、batchコマンドで1回の接続でまとめて投入
+BATCH_DIR="$(mktemp -d)"
+BATCH_FILE="$BATCH_DIR/jobs.csv"
+trap 'rm -rf "$BATCH_DIR"' EXIT
+
+echo "prefix,n" > "$BATCH_FILE"
 for i in $(seq 1 $COUNT); do
-  $QEZU_CMD run gemini generate prompt="${PROMPT_PREFIX}${i}: データ処理、API呼び出し、ファイル操作のいずれか" language=python model=gemini-pro &
+  echo "\"${PROMPT_PREFIX//\"/\"\"}\",$i" >> "$BATCH_FILE"
 done
 
-wait
+$QEZU_CMD batch "$BATCH_FILE" --template '{"kind":"gemini","command":"generate","params":{"prompt":"{{prefix}}{{n}}: データ処理、API呼び出し、ファイル操作のいずれか","options":{"language":"python","model":"gemini-pro"}}}'
 
 echo ""
 echo "Geminiジョブを${COUNT}件投入しました"
@@ -7,35 +7,48 @@
 SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
 PROJECT_DIR="$(cd "$SCRIPT_DIR/.." && pwd)"
 QEZU_CMD="node $PROJECT_DIR/dist/cli.js"
+PIDS=()
 
 COUNT=${1:-10}  # 第1引数で各エージェントの投入数を指定（デフォルト: 10）
 
-echo "マルチエージェント並列テスト開始"
+echo "マルチエージェント並列テスト開始（各ジョブの完了を待って結果を検証）"
 echo "各エージェントの投入数: $COUNT"
 echo ""
 
 # Codexでコード生成を並列投入
 echo "Codex: コード生成タスクを投入中..."
 for i in $(seq 1 $COUNT); do
-  $QEZU_CMD run codex generate prompt="TypeScriptのユーティリティ関数${i}を生成: 配列操作関数" language=typescript maxTokens=500 &
+  $QEZU_CMD run --wait codex generate prompt="TypeScriptのユーティリティ関数${i}を生成: 配列操作関数" language=typescript maxTokens=500 &
+  PIDS+=($!)
 done
 
 # Claudeでチャットを並列投入
 echo "Claude: チャットタスクを投入中..."
 for i in $(seq 1 $COUNT); do
-  $QEZU_CMD run claude chat message="質問${i}: 並列処理のベストプラクティスについて教えてください" model=claude-3-opus &
+  $QEZU_CMD run --wait claude chat message="質問${i}: 並列処理のベストプラクティスについて教えてください" model=claude-3-opus &
+  PIDS+=($!)
 done
 
 # Geminiでコード生成を並列投入
 echo "Gemini: コード生成タスクを投入中..."
 for i in $(seq 1 $COUNT); do
-  $QEZU_CMD run gemini generate prompt="Pythonのデータ処理関数${i}を生成: JSONパース処理" language=python model=gemini-pro &
+  $QEZU_CMD run --wait gemini generate prompt="Pythonのデータ処理関数${i}を生成: JSONパース処理" language=python model=gemini-pro &
+  PIDS+=($!)
 done
 
-wait
+# 各ジョブの完了を待って成否を集計（--waitはジョブ失敗時に終了コード1を返す）
+FAILED=0
+for pid in "${PIDS[@]}"; do
+  if ! wait "$pid"; then
+    FAILED=$((FAILED + 1))
+  fi
+done
 
 echo ""
-echo "すべてのジョブを投入しました（合計: $((COUNT * 3))件）"
+echo "すべてのジョブが完了しました（合計: $((COUNT * 3))件、失敗: ${FAILED}件）"
 echo "キュー状態を確認: $QEZU_CMD status"
 echo "ログを確認: npm run logs"
 
+if [ "$FAILED" -gt 0 ]; then
+  exit 1
+fi
@@ -6,6 +6,13 @@
  */
 
 import { execa } from "execa";
+import type { AgentAdapter } from "./registry.js";
+import type { ReportedUsage } from "../services/usage.js";
+import { AgentError, classifyAgentError } from "./errors.js";
+import { observeChildProcess } from "../services/metrics.js";
+import { correlationEnv } from "../services/logger.js";
+import { traceChildProcess } from "../services/tracing.js";
+import { readCliLines } from "./cli-stream.js";
 
 /**
  * Claude CLIを実行する
@@ -23,6 +30,7 @@ export async function callClaude(
     cwd?: string;
     env?: Record<string, string>;
     timeout?: number;
+    signal?: AbortSignal; // 中断時に子プロセスを終了する
   }
 ): Promise<{ stdout: string; stderr: string; exitCode: number }> {
   const claudeCmd = process.env.CLAUDE_CLI_PATH || "claude";
@@ -30,15 +38,20 @@ export async function callClaude(
   const fullArgs = command ? [command, ...args] : args;
 
   try {
-    const result = await execa(claudeCmd, fullArgs, {
+    const subprocess = execa(claudeCmd, fullArgs, {
       cwd: options?.cwd || process.cwd(),
       env: {
         ...process.env,
+        ...correlationEnv(),
         ...options?.env,
       },
       timeout: options?.timeout || 1200000, // デフォルト20分（スライド生成を考慮）
       shell: false,
+      signal: options?.signal,
     });
+    observeChildProcess("claude", subprocess);
+    traceChildProcess("claude", claudeCmd, subprocess);
+    const result = await subprocess;
 
     return {
       stdout: result.stdout,
@@ -47,10 +60,55 @@ export async function callClaude(
     };
   } catch (error: any) {
     const errorMessage = `Claude CLI実行エラー [command=${command}, args=${JSON.stringify(args)}, error=${error.message}, exitCode=${error.exitCode}]`;
-    throw new Error(errorMessage);
+    throw new AgentError(errorMessage, classifyAgentError(error));
   }
 }
 
+/**
+ * Claude CLIの結果（json・stream-jsonのresult）から使用量を報告する
+ */
+function reportClaudeUsage(json: any, onUsage?: (usage: ReportedUsage) => void): void {
+  if (!onUsage || !json?.usage) {
+    return;
+  }
+  const usage = json.usage;
+  onUsage({
+    // キャッシュの作成・読み取りも入力トークンとして数える
+    inputTokens:
+      (usage.input_tokens || 0) + (usage.cache_creation_input_tokens || 0) + (usage.cache_read_input_tokens || 0),
+    outputTokens: usage.output_tokens || 0,
+    costUsd: typeof json.total_cost_usd === "number" ? json.total_cost_usd : undefined,
+    model: json.modelUsage ? Object.keys(json.modelUsage)[0] : undefined,
+  });
+}
+
+/**
+ * `--output-format json` の出力から応答テキストを取り出し、使用量を報告する
+ * JSONでない場合（json出力未対応のCLI）はstdoutをそのまま返す
+ *
+ * @param stdout Claude CLIの出力
+ * @param onUsage 使用量の報告先
+ * @returns 応答テキスト
+ * @throws CLIがエラーを返した場合
+ */
+function parseClaudeJsonOutput(stdout: string, onUsage?: (usage: ReportedUsage) => void): string {
+  let json: any;
+  try {
+    json = JSON.parse(stdout);
+  } catch {
+    return stdout;
+  }
+  if (typeof json?.result !== "string") {
+    return stdout;
+  }
+  if (json.is_error) {
+    const error = new Error(`Claude CLIがエラーを返しました [subtype=${json.subtype}, result=${json.result}]`);
+    throw new AgentError(error.message, classifyAgentError(error));
+  }
+  reportClaudeUsage(json, onUsage);
+  return json.result;
+}
+
 /**
  * Claude CLIでチャットを実行する
  * 
@@ -66,9 +124,11 @@ export async function chatWithClaude(
     temperature?: number;
     cwd?: string;
     timeout?: number;
+    signal?: AbortSignal;
+    onUsage?: (usage: ReportedUsage) => void;
   }
 ): Promise<string> {
-  const args: string[] = ["--print"];
+  const args: string[] = ["--print", "--output-format", "json"];
 
   if (options?.model) {
     args.push("--model", options.model);
@@ -80,8 +140,16 @@ export async function chatWithClaude(
   const result = await callClaude("", args, { 
     cwd: options?.cwd,
     timeout: options?.timeout || 1200000, // デフォルト20分
+    signal: options?.signal,
   });
-  return result.stdout;
+  return parseClaudeJsonOutput(result.stdout, options?.onUsage);
+}
+
+/**
+ * コード生成のプロンプトを作成する
+ */
+function toCodePrompt(prompt: string, language?: string): string {
+  return language ? `Generate ${language} code: ${prompt}` : `Generate code: ${prompt}`;
 }
 
 /**
@@ -98,22 +166,203 @@ export async function generateCodeWithClaude(
     model?: string;
     maxTokens?: number;
     cwd?: string;
+    timeout?: number;
+    signal?: AbortSignal;
+    onUsage?: (usage: ReportedUsage) => void;
   }
 ): Promise<string> {
-  const args: string[] = ["--print"];
+  const args: string[] = ["--print", "--output-format", "json"];
+
+  if (options?.model) {
+    args.push("--model", options.model);
+  }
+
+  args.push(toCodePrompt(prompt, options?.language));
+
+  const result = await callClaude("", args, {
+    cwd: options?.cwd,
+    timeout: options?.timeout || 1200000, // デフォルト20分
+    signal: options?.signal,
+  });
+  return parseClaudeJsonOutput(result.stdout, options?.onUsage);
+}
+
+/**
+ * Claude CLIでチャットをストリーミング実行する（トークン単位で出力を取得）
+ *
+ * `--output-format stream-json` の出力を行単位で読み取り、テキストの差分をyieldする。
+ * JSON以外の行（stream-json未対応のCLI）はそのままyieldする。
+ *
+ * @param message メッセージ
+ * @param options オプション設定
+ * @returns 応答テキストを順にyieldする
+ */
+export async function* chatWithClaudeStream(
+  message: string,
+  options?: {
+    model?: string;
+    maxTokens?: number;
+    temperature?: number;
+    cwd?: string;
+    timeout?: number;
+    signal?: AbortSignal;
+    onUsage?: (usage: ReportedUsage) => void;
+  }
+): AsyncGenerator<string, void, unknown> {
+  const claudeCmd = process.env.CLAUDE_CLI_PATH || "claude";
+  const args: string[] = ["--print", "--output-format", "stream-json", "--verbose", "--include-partial-messages"];
 
   if (options?.model) {
     args.push("--model", options.model);
   }
 
-  // コード生成のプロンプト
-  const codePrompt = options?.language
-    ? `Generate ${options.language} code: ${prompt}`
-    : `Generate code: ${prompt}`;
+  args.push(message);
+
+  const childProcess = execa(claudeCmd, args, {
+    cwd: options?.cwd || process.cwd(),
+    env: {
+      ...process.env,
+      ...correlationEnv(),
+    },
+    timeout: options?.timeout || 1200000, // デフォルト20分
+    shell: false,
+    signal: options?.signal,
+    // stdoutは逐次読み取るため、終了の監視（then）でexecaに出力を読み取らせない
+    buffer: false,
+  });
+  observeChildProcess("claude", childProcess);
+  traceChildProcess("claude", claudeCmd, childProcess);
 
-  args.push(codePrompt);
+  // 差分（text_delta）を受信した場合、確定したメッセージ全体は重複するため送信しない
+  let streamed = false;
 
-  const result = await callClaude("", args, { cwd: options?.cwd });
-  return result.stdout;
+  try {
+    if (childProcess.stdout) {
+      for await (const { line, json } of readCliLines(childProcess.stdout)) {
+        if (!json) {
+          yield `${line}\n`;
+        } else if (json.type === "stream_event" && json.event?.delta?.type === "text_delta") {
+          streamed = true;
+          yield json.event.delta.text;
+        } else if (json.type === "assistant" && !streamed) {
+          for (const block of json.message?.content || []) {
+            if (block.type === "text" && block.text) {
+              yield block.text;
+            }
+          }
+        } else if (json.type === "result") {
+          if (json.is_error) {
+            throw new Error(`Claude CLIがエラーを返しました [subtype=${json.subtype}, result=${json.result}]`);
+          }
+          reportClaudeUsage(json, options?.onUsage);
+        }
+      }
+    }
+
+    await childProcess;
+  } catch (error: any) {
+    const errorMessage = `Claude CLIストリーミングエラー [error=${error.message}, exitCode=${error.exitCode}]`;
+    throw new AgentError(errorMessage, classifyAgentError(error));
+  } finally {
+    // 途中で読み取りを終了した場合は子プロセスも終了する（終了時のエラーは処理済みのため無視）
+    if (childProcess.exitCode === null) {
+      childProcess.kill();
+    }
+    childProcess.catch(() => {});
+  }
 }
 
+/**
+ * Claude CLIでコード生成をストリーミング実行する
+ *
+ * @param prompt 生成プロンプト
+ * @param options オプション設定
+ * @returns 生成されたコードを順にyieldする
+ */
+export function generateCodeWithClaudeStream(
+  prompt: string,
+  options?: {
+    language?: string;
+    model?: string;
+    maxTokens?: number;
+    cwd?: string;
+    timeout?: number;
+    signal?: AbortSignal;
+    onUsage?: (usage: ReportedUsage) => void;
+  }
+): AsyncGenerator<string, void, unknown> {
+  return chatWithClaudeStream(toCodePrompt(prompt, options?.language), options);
+}
+
+/**
+ * Claudeエージェントアダプタ
+ */
+export const claudeAdapter: AgentAdapter = {
+  id: "claude",
+  name: "Claude",
+  description: "Anthropic Claude - 汎用AIアシスタント",
+  capabilities: ["code-generation", "chat", "general"],
+  defaultModel: "claude-3-opus",
+
+  async run(request) {
+    if (request.taskType === "code-generation") {
+      return generateCodeWithClaude(request.prompt, {
+        language: request.language,
+        model: request.model,
+        maxTokens: request.maxTokens,
+        cwd: request.cwd,
+        timeout: request.timeout,
+        signal: request.signal,
+        onUsage: request.onUsage,
+      });
+    }
+    return chatWithClaude(request.prompt, {
+      model: request.model,
+      maxTokens: request.maxTokens,
+      temperature: request.temperature,
+      cwd: request.cwd,
+      timeout: request.timeout,
+      signal: request.signal,
+      onUsage: request.onUsage,
+    });
+  },
+
+  stream(request) {
+    if (request.taskType === "code-generation") {
+      return generateCodeWithClaudeStream(request.prompt, {
+        language: request.language,
+        model: request.model,
+        maxTokens: request.maxTokens,
+        cwd: request.cwd,
+        timeout: request.timeout,
+        signal: request.signal,
+        onUsage: request.onUsage,
+      });
+    }
+    return chatWithClaudeStream(request.prompt, {
+      model: request.model,
+      maxTokens: request.maxTokens,
+      temperature: request.temperature,
+      cwd: request.cwd,
+      timeout: request.timeout,
+      signal: request.signal,
+      onUsage: request.onUsage,
+    });
+  },
+
+  async runJob(params, context) {
+    const { command, args } = params;
+    const options = { ...params.options, signal: context?.signal, onUsage: context?.onUsage };
+    let result;
+
+    if (command === "chat") {
+      result = await chatWithClaude(params.message, options);
+    } else if (command === "generate") {
+      result = await generateCodeWithClaude(params.prompt, options);
+    } else {
+      result = await callClaude(command, args || [], options);
+    }
+
+    return { ok: true, result };
+  },
+};
@@ -0,0 +1,57 @@
+/**
+ * CLI出力のストリーム読み取り
+ * 子プロセスのstdoutを行単位で読み取り、JSON Lines形式（stream-json）の出力をパースする
+ *
+ * @module adapters/cli-stream
+ */
+
+import { StringDecoder } from "string_decoder";
+
+/**
+ * stdoutの1行
+ */
+export interface CliOutputLine {
+  /** 行の文字列（改行を除く） */
+  line: string;
+  /** JSONとしてパースできた場合のオブジェクト */
+  json?: any;
+}
+
+/**
+ * stdoutを行単位で読み取る
+ *
+ * @param stdout 子プロセスのstdout
+ * @returns 行（JSONの場合はパース結果付き）を順にyieldする
+ */
+export async function* readCliLines(
+  stdout: AsyncIterable<Buffer | string>
+): AsyncGenerator<CliOutputLine, void, unknown> {
+  // チャンク境界で分割されたマルチバイト文字を正しく復元する
+  const decoder = new StringDecoder("utf8");
+  let buffer = "";
+
+  const toLine = (line: string): CliOutputLine => {
+    if (line.startsWith("{")) {
+      try {
+        return { line, json: JSON.parse(line) };
+      } catch {
+        // JSONでない行はそのまま返す
+      }
+    }
+    return { line };
+  };
+
+  for await (const chunk of stdout) {
+    buffer += typeof chunk === "string" ? chunk : decoder.write(chunk);
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      yield toLine(line.replace(/\r$/, ""));
+    }
+  }
+
+  buffer += decoder.end();
+  if (buffer) {
+    yield toLine(buffer);
+  }
+}
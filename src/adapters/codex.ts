@@ -6,6 +6,12 @@
  */
 
 import { execa } from "execa";
+import type { AgentAdapter, AgentRunRequest } from "./registry.js";
+import type { ReportedUsage } from "../services/usage.js";
+import { AgentError, classifyAgentError } from "./errors.js";
+import { observeChildProcess } from "../services/metrics.js";
+import { correlationEnv } from "../services/logger.js";
+import { traceChildProcess } from "../services/tracing.js";
 
 /**
  * Codex CLIを実行する
@@ -23,6 +29,7 @@ export async function callCodex(
     cwd?: string;
     env?: Record<string, string>;
     timeout?: number;
+    signal?: AbortSignal; // 中断時に子プロセスを終了する
   }
 ): Promise<{ stdout: string; stderr: string; exitCode: number }> {
   const codexCmd = process.env.CODEX_CLI_PATH || "codex";
@@ -30,15 +37,20 @@ export async function callCodex(
   const fullArgs = command ? [command, ...args] : args;
 
   try {
-    const result = await execa(codexCmd, fullArgs, {
+    const subprocess = execa(codexCmd, fullArgs, {
       cwd: options?.cwd || process.cwd(),
       env: {
         ...process.env,
+        ...correlationEnv(),
         ...options?.env,
       },
       timeout: options?.timeout || 600000, // デフォルト10分（スライド生成を考慮）
       shell: false,
+      signal: options?.signal,
     });
+    observeChildProcess("codex", subprocess);
+    traceChildProcess("codex", codexCmd, subprocess);
+    const result = await subprocess;
 
     return {
       stdout: result.stdout,
@@ -47,10 +59,46 @@ export async function callCodex(
     };
   } catch (error: any) {
     const errorMessage = `Codex CLI実行エラー [command=${command}, args=${JSON.stringify(args)}, error=${error.message}, exitCode=${error.exitCode}]`;
-    throw new Error(errorMessage);
+    throw new AgentError(errorMessage, classifyAgentError(error));
   }
 }
 
+/**
+ * `exec --json` の出力（JSONL）から応答テキストを取り出し、使用量を報告する
+ * JSONの行がない場合（json出力未対応のCLI）はstdoutをそのまま返す
+ *
+ * @param stdout Codex CLIの出力
+ * @param onUsage 使用量の報告先（turn.completed ごとに報告する）
+ * @returns 応答テキスト
+ * @throws CLIがエラーを返した場合
+ */
+function parseCodexJsonOutput(stdout: string, onUsage?: (usage: ReportedUsage) => void): string {
+  const messages: string[] = [];
+  let parsed = false;
+  for (const line of stdout.split("\n")) {
+    let json: any;
+    try {
+      json = JSON.parse(line);
+    } catch {
+      continue;
+    }
+    if (typeof json?.type !== "string") {
+      continue;
+    }
+    parsed = true;
+    if (json.type === "item.completed" && json.item?.type === "agent_message" && typeof json.item.text === "string") {
+      messages.push(json.item.text);
+    } else if (json.type === "turn.completed" && json.usage) {
+      // キャッシュされた入力（cached_input_tokens）は input_tokens に含まれる
+      onUsage?.({ inputTokens: json.usage.input_tokens || 0, outputTokens: json.usage.output_tokens || 0 });
+    } else if (json.type === "turn.failed" || json.type === "error") {
+      const error = new Error(`Codex CLIがエラーを返しました [error=${json.error?.message ?? json.message}]`);
+      throw new AgentError(error.message, classifyAgentError(error));
+    }
+  }
+  return parsed ? messages.join("\n\n") : stdout;
+}
+
 /**
  * Codex CLIでコード生成を実行する
  * 
@@ -66,11 +114,13 @@ export async function generateCode(
     temperature?: number;
     cwd?: string;
     search?: boolean; // --searchオプション
+    signal?: AbortSignal;
+    onUsage?: (usage: ReportedUsage) => void;
   }
 ): Promise<string> {
   // Codex CLIは直接プロンプトを受け取るか、execコマンドを使用
-  // オプションは --config で設定
-  const args: string[] = ["--skip-git-repo-check"];
+  // オプションは --config で設定（--json で使用量を含むイベントを出力する）
+  const args: string[] = ["--json", "--skip-git-repo-check"];
 
   // --searchオプションはCodex CLIでサポートされていないため、
   // プロンプト内に検索指示を含める
@@ -88,8 +138,8 @@ export async function generateCode(
   // Codexは直接プロンプトを引数として受け取る
   args.push(prompt);
 
-  const result = await callCodex("exec", args, { cwd: options?.cwd });
-  return result.stdout;
+  const result = await callCodex("exec", args, { cwd: options?.cwd, signal: options?.signal });
+  return parseCodexJsonOutput(result.stdout, options?.onUsage);
 }
 
 /**
@@ -103,6 +153,7 @@ export async function* generateCodeStream(
     temperature?: number;
     cwd?: string;
     search?: boolean; // --searchオプション
+    signal?: AbortSignal;
   }
 ): AsyncGenerator<string, void, unknown> {
   const { execa } = await import("execa");
@@ -133,10 +184,16 @@ export async function* generateCodeStream(
     cwd: options?.cwd || process.cwd(),
     env: {
       ...process.env,
+      ...correlationEnv(),
     },
     timeout: timeout,
     shell: false,
+    signal: options?.signal,
+    // stdoutは逐次読み取るため、終了の監視（then）でexecaに出力を読み取らせない
+    buffer: false,
   });
+  observeChildProcess("codex", childProcess);
+  traceChildProcess("codex", codexCmd, childProcess);
 
   // stdoutをストリーミングで読み取る
   try {
@@ -155,9 +212,9 @@ export async function* generateCodeStream(
   } catch (error: any) {
     // タイムアウトエラーの場合は、より分かりやすいメッセージを提供
     if (error.timedOut || error.message?.includes('Timed out')) {
-      throw new Error(`Codex CLIの実行がタイムアウトしました（${timeout / 1000}秒経過）。スライド生成に時間がかかっている可能性があります。`);
+      throw new AgentError(`Codex CLIの実行がタイムアウトしました（${timeout / 1000}秒経過）。スライド生成に時間がかかっている可能性があります。`, "retryable");
     }
-    throw error;
+    throw new AgentError(error.message, classifyAgentError(error));
   }
 }
 
@@ -174,9 +231,11 @@ export async function completeCode(
     language?: string;
     maxTokens?: number;
     cwd?: string;
+    signal?: AbortSignal;
+    onUsage?: (usage: ReportedUsage) => void;
   }
 ): Promise<string> {
-  const args: string[] = ["--skip-git-repo-check"];
+  const args: string[] = ["--json", "--skip-git-repo-check"];
 
   if (options?.language) {
     args.push("--config", `language=${options.language}`);
@@ -188,7 +247,63 @@ export async function completeCode(
   // コード補完のプロンプト
   args.push(`Complete this code: ${code}`);
 
-  const result = await callCodex("exec", args, { cwd: options?.cwd });
-  return result.stdout;
+  const result = await callCodex("exec", args, { cwd: options?.cwd, signal: options?.signal });
+  return parseCodexJsonOutput(result.stdout, options?.onUsage);
 }
 
+
+/**
+ * 生成するコードの言語を決定する
+ * コード生成・補完以外のタスクもTypeScriptのコード生成として扱う
+ */
+function resolveCodexLanguage(request: AgentRunRequest): string | undefined {
+  const isCodeTask = request.taskType === "code-generation" || request.taskType === "code-completion";
+  return isCodeTask ? request.language : request.language || "typescript";
+}
+
+/**
+ * Codexエージェントアダプタ
+ */
+export const codexAdapter: AgentAdapter = {
+  id: "codex",
+  name: "Codex",
+  description: "OpenAI Codex - コード生成に特化",
+  capabilities: ["code-generation", "code-completion"],
+
+  async run(request) {
+    return generateCode(request.prompt, {
+      language: resolveCodexLanguage(request),
+      maxTokens: request.maxTokens,
+      temperature: request.temperature,
+      cwd: request.cwd,
+      signal: request.signal,
+      onUsage: request.onUsage,
+    });
+  },
+
+  stream(request) {
+    return generateCodeStream(request.prompt, {
+      language: resolveCodexLanguage(request),
+      maxTokens: request.maxTokens,
+      temperature: request.temperature,
+      cwd: request.cwd,
+      signal: request.signal,
+    });
+  },
+
+  async runJob(params, context) {
+    const { command, args } = params;
+    const options = { ...params.options, signal: context?.signal, onUsage: context?.onUsage };
+    let result;
+
+    if (command === "generate") {
+      result = await generateCode(params.prompt, options);
+    } else if (command === "complete") {
+      result = await completeCode(params.code, options);
+    } else {
+      result = await callCodex(command, args || [], options);
+    }
+
+    return { ok: true, result };
+  },
+};
@@ -0,0 +1,115 @@
+/**
+ * アダプタエラー分類
+ * エージェント呼び出しのエラーを再試行可能（retryable）と致命的（fatal）に分類する
+ *
+ * @module adapters/errors
+ */
+
+/**
+ * エラーの分類
+ * - retryable: タイムアウト、レート制限（429）、接続エラーなど再試行で回復しうるもの
+ * - fatal: 認証情報の不足、CLI未インストール、存在しないflowId、未登録のエージェント、キャンセルなど再試行しても失敗するもの
+ */
+export type AgentErrorClass = "retryable" | "fatal";
+
+/**
+ * 分類済みのアダプタエラー
+ */
+export class AgentError extends Error {
+  readonly errorClass: AgentErrorClass;
+
+  constructor(message: string, errorClass: AgentErrorClass) {
+    super(message);
+    this.name = "AgentError";
+    this.errorClass = errorClass;
+  }
+}
+
+/**
+ * 再試行可能とみなすエラーコード（Node.jsのシステムエラー）
+ */
+const RETRYABLE_CODES = new Set(["ECONNREFUSED", "ECONNRESET", "ETIMEDOUT", "EAI_AGAIN", "EPIPE", "EHOSTUNREACH"]);
+
+/**
+ * 致命的とみなすメッセージのパターン（認証・設定・入力の問題）
+ */
+const FATAL_PATTERNS = [
+  /auth(entication)? method/i,
+  /unauthori[sz]ed/i,
+  /\b40[13]\b/,
+  /\b404\b/,
+  /api[_ ]?key/i,
+  /not logged in/i,
+  /please (log ?in|login)/i,
+  /invalid (flow ?id|model)/i,
+  /chatflow .* not found/i,
+  /unknown agent kind/i,
+];
+
+/**
+ * 再試行可能とみなすメッセージのパターン（一時的な障害）
+ */
+const RETRYABLE_PATTERNS = [
+  /\b429\b/,
+  /rate[ _-]?limit/i,
+  /too many requests/i,
+  /quota/i,
+  /overloaded/i,
+  /\b50[234]\b/,
+  /timed? ?out/i,
+  /タイムアウト/,
+  /ECONNREFUSED|ECONNRESET|ETIMEDOUT|EAI_AGAIN/,
+  /connection refused|failed to connect/i,
+  /socket hang up/i,
+];
+
+/**
+ * エラーを分類する
+ *
+ * AgentErrorはその分類を、それ以外（プラグインのエラーやexecaのエラー）は
+ * エラーコードとメッセージ・stderrから推定する。判定できない場合は再試行可能とする。
+ *
+ * @param error 分類対象のエラー
+ * @returns エラーの分類
+ */
+export function classifyAgentError(error: any): AgentErrorClass {
+  if (error instanceof AgentError) {
+    return error.errorClass;
+  }
+
+  // キャンセルされたジョブとCLIが見つからない場合は再試行しない
+  if (error?.isCanceled || error?.name === "AbortError" || error?.code === "ENOENT") {
+    return "fatal";
+  }
+  // fetchの接続エラーはcauseにシステムエラーのコードを持つ。AbortSignal.timeoutはTimeoutError
+  if (error?.timedOut || error?.name === "TimeoutError" || RETRYABLE_CODES.has(error?.code ?? error?.cause?.code)) {
+    return "retryable";
+  }
+
+  // execaのエラーはメッセージにコマンドライン（プロンプト）を含むため、stderrと元のエラーのみを見る
+  const text =
+    error?.stderr !== undefined
+      ? `${error.stderr}\n${error.originalMessage ?? ""}`
+      : String(error?.message ?? error ?? "");
+  // レート制限のメッセージはAPIキーに言及することがあるため先に判定する
+  if (RETRYABLE_PATTERNS.some((p) => p.test(text))) {
+    return "retryable";
+  }
+  if (FATAL_PATTERNS.some((p) => p.test(text))) {
+    return "fatal";
+  }
+  return "retryable";
+}
+
+/**
+ * HTTPステータスコードからエラーを分類する
+ *
+ * @param status HTTPステータスコード
+ * @returns エラーの分類
+ */
+export function classifyHttpStatus(status: number): AgentErrorClass {
+  if (status === 408 || status === 429 || status >= 500) {
+    return "retryable";
+  }
+  return "fatal";
+}
@@ -1,88 +1,460 @@
 /**
  * Flowiseアダプタ
- * Flowiseの公開エンドポイントをcurlで呼び出す
- * 
+ * Flowiseの公開エンドポイント（Prediction API）をfetchで呼び出す
+ *
  * @module adapters/flowise
  */
 
-import { execa } from "execa";
+import { readFile } from "fs/promises";
+import { basename, extname } from "path";
+import type { AgentAdapter } from "./registry.js";
+import { AgentError, classifyAgentError, classifyHttpStatus } from "./errors.js";
 
 /**
- * curlコマンドの引数を構築する
- * @param url FlowiseのエンドポイントURL
- * @param body リクエストボディ（JSONオブジェクト）
- * @param apiKey FlowiseのAPIキー（オプション）
- * @returns curlコマンドの引数配列
+ * Flowiseに渡す会話履歴の1件
  */
-function buildCurlArgs(url: string, body: any, apiKey?: string): string[] {
-  const args = [
-    "-sS",
-    "-X",
-    "POST",
-    url,
-    "-H",
-    "content-type: application/json",
-    "-d",
-    JSON.stringify(body),
-  ];
+export interface FlowiseHistoryMessage {
+  role: "apiMessage" | "userMessage";
+  content: string;
+}
 
-  if (apiKey) {
-    args.push("-H", `Authorization: Bearer ${apiKey}`);
-  }
+/**
+ * Flowiseにアップロードするファイル（dataはdata URLまたはURL）
+ */
+export interface FlowiseUpload {
+  data: string;
+  type: "file" | "url" | "audio";
+  name: string;
+  mime: string;
+}
 
-  return args;
+/**
+ * Flowise呼び出しのオプション
+ */
+export interface FlowiseOptions {
+  /** 提供UIに合わせて "chat" | "prompt" など。未指定なら "prompt" */
+  mode?: string;
+  /** フローの設定上書き（モデル、温度、変数など） */
+  overrideConfig?: Record<string, any>;
+  /** 会話履歴 */
+  history?: FlowiseHistoryMessage[];
+  /** 会話のセッションID（overrideConfig.sessionId として送信） */
+  sessionId?: string;
+  /** アップロードするファイル（画像・音声など） */
+  uploads?: FlowiseUpload[];
+  /** タイムアウト（ミリ秒、未指定時は無制限） */
+  timeout?: number;
+  /** 中断用シグナル */
+  signal?: AbortSignal;
 }
 
 /**
- * Flowiseの公開エンドポイントを叩く（curl 子プロセスでAPI不要の方針を維持）
- * 
- * @param flowId Flowise側で公開されたフローID
+ * Flowiseのレスポンス
+ */
+export interface FlowiseResponse {
+  /** レスポンス本文（JSONの場合はパース結果、ストリーミングの場合はtoken以外のイベント） */
+  raw: any;
+  /** 回答テキスト */
+  text: string;
+  /** HTTPステータスコード */
+  status: number;
+  /** レスポンスヘッダー */
+  headers: Record<string, string>;
+}
+
+/**
+ * アップロードファイルの拡張子ごとのMIMEタイプ
+ */
+const MIME_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".pdf": "application/pdf",
+  ".txt": "text/plain",
+  ".csv": "text/csv",
+  ".json": "application/json",
+  ".mp3": "audio/mpeg",
+  ".wav": "audio/wav",
+  ".webm": "audio/webm",
+};
+
+/**
+ * ローカルファイルをFlowiseのアップロード形式（base64のdata URL）に変換する
+ *
+ * @param path ファイルパス
+ * @param mime MIMEタイプ（未指定時は拡張子から推定）
+ * @returns アップロードファイル
+ */
+export async function loadFlowiseUpload(path: string, mime?: string): Promise<FlowiseUpload> {
+  const type = mime || MIME_TYPES[extname(path).toLowerCase()] || "application/octet-stream";
+  const data = await readFile(path);
+  return {
+    data: `data:${type};base64,${data.toString("base64")}`,
+    type: type.startsWith("audio/") ? "audio" : "file",
+    name: basename(path),
+    mime: type,
+  };
+}
+
+/**
+ * リクエストボディを構築する
  * @param variables フローに渡すパラメータ（変数）
- * @param options mode: 提供UIに合わせて "chat" | "prompt" など。未指定なら "prompt"
- * @returns Flowiseのレスポンス（rawとtextを抽出）
- * @throws エラー発生時は詳細なエラーメッセージを出力
+ * @param options 呼び出しオプション
+ * @param streaming ストリーミングで受け取る場合true
+ * @returns Prediction APIのリクエストボディ
  */
-export async function callFlowise(
-  flowId: string,
-  variables: Record<string, any>,
-  options?: { mode?: string }
-): Promise<{ raw: any; text: string }> {
-  const base = process.env.QEZU_FLOWISE_URL || "http://127.0.0.1:3000/api/v1/prediction/";
-  const apiKey = process.env.QEZU_FLOWISE_KEY;
-  const url = `${base}${flowId}`;
+function buildRequestBody(variables: Record<string, any>, options: FlowiseOptions | undefined, streaming: boolean): any {
+  const overrideConfig = { ...options?.overrideConfig };
+  if (options?.sessionId) {
+    overrideConfig.sessionId = options.sessionId;
+  }
 
-  // Flowiseのtypical body（必要に応じて合わせてください）
   const body: any = {
     question:
       options?.mode === "chat"
         ? variables.question ?? JSON.stringify(variables)
         : JSON.stringify(variables),
-    overrideConfig: {}, // Model設定上書きしたい場合はここに
-    // metadata: { ... }  // 必要に応じて
+    overrideConfig,
   };
+  if (options?.history?.length) {
+    body.history = options.history;
+  }
+  if (options?.uploads?.length) {
+    body.uploads = options.uploads;
+  }
+  if (streaming) {
+    body.streaming = true;
+  }
+  return body;
+}
 
+/**
+ * Prediction APIにPOSTする（2xx以外はステータスに応じて分類したエラー）
+ * @param flowId Flowise側で公開されたフローID
+ * @param body リクエストボディ
+ * @param options 呼び出しオプション
+ * @returns レスポンス
+ */
+async function postPrediction(flowId: string, body: any, options?: FlowiseOptions): Promise<Response> {
+  if (!flowId) {
+    throw new AgentError("callFlowiseエラー [flowId が指定されていません]", "fatal");
+  }
+
+  const base = process.env.QEZU_FLOWISE_URL || "http://127.0.0.1:3000/api/v1/prediction/";
+  const apiKey = process.env.QEZU_FLOWISE_KEY;
+  const url = `${base}${flowId}`;
+
+  const headers: Record<string, string> = { "content-type": "application/json" };
+  if (apiKey) {
+    headers.authorization = `Bearer ${apiKey}`;
+  }
+
+  const signals = [options?.signal, options?.timeout ? AbortSignal.timeout(options.timeout) : undefined].filter(
+    (s): s is AbortSignal => s !== undefined
+  );
+
+  let res: Response;
   try {
-    const { stdout, stderr } = await execa("curl", buildCurlArgs(url, body, apiKey));
+    res = await fetch(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(body),
+      signal: signals.length > 0 ? AbortSignal.any(signals) : undefined,
+    });
+  } catch (error: any) {
+    throw new AgentError(
+      `Flowise呼び出しエラー [flowId=${flowId}, url=${url}, error=${error.cause?.message ?? error.message}]`,
+      classifyAgentError(error)
+    );
+  }
 
-    if (stderr && !stdout) {
-      throw new Error(
-        `Flowise呼び出しエラー [flowId=${flowId}, url=${url}, stderr=${stderr}]`
-      );
+  if (!res.ok) {
+    // エラーレスポンス（例: { statusCode: 404, message: "Chatflow ... not found" }）
+    const text = await res.text().catch(() => "");
+    let message = text;
+    try {
+      message = JSON.parse(text).message ?? text;
+    } catch {
+      // JSONでない場合は本文をそのまま使用
     }
+    throw new AgentError(
+      `Flowiseエラーレスポンス [flowId=${flowId}, status=${res.status}, message=${message}]`,
+      classifyHttpStatus(res.status)
+    );
+  }
+
+  return res;
+}
+
+/**
+ * レスポンスヘッダーをオブジェクトに変換する
+ */
+function headersToObject(headers: Headers): Record<string, string> {
+  return Object.fromEntries(headers.entries());
+}
+
+/**
+ * JSON（またはテキスト）のレスポンスから回答を取り出す
+ */
+async function readPredictionResponse(res: Response): Promise<FlowiseResponse> {
+  const status = res.status;
+  const headers = headersToObject(res.headers);
+  const body = await res.text();
+
+  // Flowiseのレスポンス形式に合わせて抽出
+  let json: any;
+  try {
+    json = JSON.parse(body);
+  } catch {
+    // JSONパース失敗時は本文をそのまま返す
+    return { raw: body, text: body, status, headers };
+  }
+
+  // 代表的なケース： { text: "...", ... } または { data: "...", ... }
+  const text = json?.text ?? json?.data ?? body;
+  return { raw: json, text: String(text), status, headers };
+}
 
-    // Flowiseのレスポンス形式に合わせて抽出
+/**
+ * SSEのレスポンス本文をイベント単位に分割する
+ *
+ * Flowiseは `data: {"event":"token","data":"..."}` 形式で送信するため、
+ * dataがeventを含むJSONの場合はその値をイベント名として扱う。
+ *
+ * @param body レスポンス本文（イベントの区切りやマルチバイト文字の途中で分割されていてもよい）
+ * @returns イベント名とデータ（JSONの場合はパース結果）を順にyieldする
+ */
+export async function* readSseEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<{ event: string; data: any }, void, unknown> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const parseBlock = (block: string): { event: string; data: any } | undefined => {
+    let event = "message";
+    const dataLines: string[] = [];
+    for (const line of block.split(/\r?\n/)) {
+      if (line.startsWith("event:")) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith("data:")) {
+        dataLines.push(line.slice(5).replace(/^ /, ""));
+      }
+    }
+    if (dataLines.length === 0) {
+      return undefined;
+    }
+
+    const data = dataLines.join("\n");
     try {
-      const json = JSON.parse(stdout);
-      // 代表的なケース： { text: "...", ... } または { data: "...", ... }
-      const text = json.text ?? json.data ?? stdout;
-      return { raw: json, text: String(text) };
-    } catch (parseError) {
-      // JSONパース失敗時はstdoutをそのまま返す
-      return { raw: stdout, text: stdout };
+      const parsed = JSON.parse(data);
+      if (parsed && typeof parsed === "object" && typeof parsed.event === "string") {
+        return { event: parsed.event, data: parsed.data };
+      }
+      return { event, data: parsed };
+    } catch {
+      return { event, data };
+    }
+  };
+
+  for await (const chunk of body as unknown as AsyncIterable<Uint8Array>) {
+    buffer += decoder.decode(chunk, { stream: true });
+    const blocks = buffer.split(/\r?\n\r?\n/);
+    buffer = blocks.pop() ?? "";
+    for (const block of blocks) {
+      const parsed = parseBlock(block);
+      if (parsed) {
+        yield parsed;
+      }
+    }
+  }
+
+  buffer += decoder.decode();
+  const parsed = parseBlock(buffer);
+  if (parsed) {
+    yield parsed;
+  }
+}
+
+/**
+ * Flowiseの公開エンドポイントを叩く
+ *
+ * @param flowId Flowise側で公開されたフローID
+ * @param variables フローに渡すパラメータ（変数）
+ * @param options 呼び出しオプション（mode、overrideConfig、history、sessionId、uploads、signalなど）
+ * @returns Flowiseのレスポンス（raw・text・ステータス・ヘッダー）
+ * @throws エラー発生時は詳細なエラーメッセージを出力
+ */
+export async function callFlowise(
+  flowId: string,
+  variables: Record<string, any>,
+  options?: FlowiseOptions
+): Promise<FlowiseResponse> {
+  try {
+    const res = await postPrediction(flowId, buildRequestBody(variables, options, false), options);
+    return await readPredictionResponse(res);
+  } catch (error: any) {
+    const errorMessage = `callFlowiseエラー [flowId=${flowId}, variables=${JSON.stringify(variables)}, mode=${options?.mode}, error=${error.message}]`;
+    throw new AgentError(errorMessage, classifyAgentError(error));
+  }
+}
+
+/**
+ * Flowiseのフローをストリーミングで実行する（トークン単位で出力を取得）
+ *
+ * ストリーミングに対応していないフローの場合は、回答全体を1回でyieldする。
+ *
+ * @param flowId Flowise側で公開されたフローID
+ * @param variables フローに渡すパラメータ（変数）
+ * @param options 呼び出しオプション
+ * @returns トークンを順にyieldし、終了時にレスポンス全体（rawはtoken以外のイベント）を返す
+ */
+export async function* callFlowiseStream(
+  flowId: string,
+  variables: Record<string, any>,
+  options?: FlowiseOptions
+): AsyncGenerator<string, FlowiseResponse, unknown> {
+  try {
+    const res = await postPrediction(flowId, buildRequestBody(variables, options, true), options);
+
+    if (!res.headers.get("content-type")?.includes("text/event-stream") || !res.body) {
+      const response = await readPredictionResponse(res);
+      yield response.text;
+      return response;
     }
+
+    let text = "";
+    const raw: Record<string, any> = {};
+    for await (const { event, data } of readSseEvents(res.body)) {
+      if (event === "token") {
+        text += String(data ?? "");
+        yield String(data ?? "");
+      } else if (event === "error") {
+        throw new Error(`Flowiseストリームエラー [error=${typeof data === "string" ? data : JSON.stringify(data)}]`);
+      } else if (event === "end") {
+        break;
+      } else if (event !== "start") {
+        // metadata・sourceDocuments・agentReasoning など
+        raw[event] = data;
+      }
+    }
+
+    return { raw, text, status: res.status, headers: headersToObject(res.headers) };
   } catch (error: any) {
-    const errorMessage = `callFlowiseエラー [flowId=${flowId}, url=${url}, variables=${JSON.stringify(variables)}, mode=${options?.mode}, error=${error.message}]`;
-    throw new Error(errorMessage);
+    const errorMessage = `callFlowiseStreamエラー [flowId=${flowId}, mode=${options?.mode}, error=${error.message}]`;
+    throw new AgentError(errorMessage, classifyAgentError(error));
   }
 }
 
+/**
+ * JSON文字列をパースする（失敗時はそのまま返す）
+ * @param v パース対象の文字列
+ * @returns パース結果または元の文字列
+ */
+function tryParse(v: string): any {
+  try {
+    return JSON.parse(v);
+  } catch {
+    return v;
+  }
+}
+
+/**
+ * CLI引数のうちフロー変数ではなく呼び出しオプションとして扱うキー
+ */
+const OPTION_KEYS = new Set(["mode", "sessionId", "overrideConfig", "history", "upload"]);
+
+/**
+ * ジョブのparamsから呼び出しオプションを作成する
+ * uploads にはFlowiseUploadのほか、ローカルファイルのパス（文字列）も指定できる
+ */
+async function toFlowiseOptions(params: any, signal?: AbortSignal): Promise<FlowiseOptions> {
+  const uploads = await Promise.all(
+    (params.uploads || []).map((upload: FlowiseUpload | string) =>
+      typeof upload === "string" ? loadFlowiseUpload(upload) : upload
+    )
+  );
+  return {
+    mode: params.mode,
+    overrideConfig: params.overrideConfig,
+    history: params.history,
+    sessionId: params.sessionId,
+    uploads,
+    timeout: params.timeout,
+    signal,
+  };
+}
+
+/**
+ * Flowiseエージェントアダプタ
+ * プロンプト実行時は環境変数 QEZU_FLOWISE_FLOW_ID のフローをchatモードで呼び出す
+ */
+export const flowiseAdapter: AgentAdapter = {
+  id: "flowise",
+  name: "Flowise",
+  description: "Flowise - 公開フローを実行（QEZU_FLOWISE_FLOW_ID を使用）",
+  capabilities: ["chat", "general"],
+
+  async run(request) {
+    const flowId = process.env.QEZU_FLOWISE_FLOW_ID;
+    if (!flowId) {
+      throw new Error("QEZU_FLOWISE_FLOW_ID が設定されていません");
+    }
+    const res = await callFlowise(
+      flowId,
+      { question: request.prompt },
+      { mode: "chat", timeout: request.timeout, signal: request.signal }
+    );
+    return res.text;
+  },
+
+  async *stream(request) {
+    const flowId = process.env.QEZU_FLOWISE_FLOW_ID;
+    if (!flowId) {
+      throw new Error("QEZU_FLOWISE_FLOW_ID が設定されていません");
+    }
+    yield* callFlowiseStream(
+      flowId,
+      { question: request.prompt },
+      { mode: "chat", timeout: request.timeout, signal: request.signal }
+    );
+  },
+
+  async runJob(params, context) {
+    // params.flowId と params.vars を想定（sessionId・history・uploads などは任意）
+    const res = await callFlowise(params.flowId, params.vars || {}, await toFlowiseOptions(params, context?.signal));
+    return { ok: true, text: res.text, raw: res.raw, status: res.status };
+  },
+
+  // 例: qezu run flowise FLOW_ID topic="生成AIの歴史" format=html mode=prompt
+  //     qezu run flowise FLOW_ID question="この画像は？" mode=chat sessionId=s1 upload=./image.png
+  parseCliArgs(args) {
+    const [flowId, ...kv] = args;
+
+    if (!flowId) {
+      throw new Error(
+        "usage: qezu run flowise <flowId> [key=value ...] [mode=prompt|chat] [sessionId=...] [upload=<file> ...]"
+      );
+    }
+
+    // key=value形式の引数をパース（値に = を含む場合は最初の = で分割）
+    const pairs = kv
+      .filter((s) => s.includes("="))
+      .map((s): [string, string] => [s.slice(0, s.indexOf("=")), s.slice(s.indexOf("=") + 1)]);
+    const vars = Object.fromEntries(
+      pairs.filter(([k]) => !OPTION_KEYS.has(k)).map(([k, v]) => [k, tryParse(v)])
+    );
+    const option = (key: string) => pairs.find(([k]) => k === key)?.[1];
+
+    return {
+      flowId,
+      vars,
+      mode: option("mode"),
+      sessionId: option("sessionId"),
+      overrideConfig: option("overrideConfig") !== undefined ? tryParse(option("overrideConfig")!) : undefined,
+      history: option("history") !== undefined ? tryParse(option("history")!) : undefined,
+      uploads: pairs.filter(([k]) => k === "upload").map(([, v]) => v),
+    };
+  },
+};
@@ -6,6 +6,13 @@
  */
 
 import { execa } from "execa";
+import type { AgentAdapter } from "./registry.js";
+import type { ReportedUsage } from "../services/usage.js";
+import { AgentError, classifyAgentError } from "./errors.js";
+import { observeChildProcess } from "../services/metrics.js";
+import { correlationEnv } from "../services/logger.js";
+import { traceChildProcess } from "../services/tracing.js";
+import { readCliLines } from "./cli-stream.js";
 
 /**
  * Gemini CLIを実行する
@@ -23,6 +30,7 @@ export async function callGemini(
     cwd?: string;
     env?: Record<string, string>;
     timeout?: number;
+    signal?: AbortSignal; // 中断時に子プロセスを終了する
   }
 ): Promise<{ stdout: string; stderr: string; exitCode: number }> {
   const geminiCmd = process.env.GEMINI_CLI_PATH || "gemini";
@@ -30,15 +38,20 @@ export async function callGemini(
   const fullArgs = command ? [command, ...args] : args;
 
   try {
-    const result = await execa(geminiCmd, fullArgs, {
+    const subprocess = execa(geminiCmd, fullArgs, {
       cwd: options?.cwd || process.cwd(),
       env: {
         ...process.env,
+        ...correlationEnv(),
         ...options?.env,
       },
       timeout: options?.timeout || 300000, // デフォルト5分
       shell: false,
+      signal: options?.signal,
     });
+    observeChildProcess("gemini", subprocess);
+    traceChildProcess("gemini", geminiCmd, subprocess);
+    const result = await subprocess;
 
     return {
       stdout: result.stdout,
@@ -47,10 +60,56 @@ export async function callGemini(
     };
   } catch (error: any) {
     const errorMessage = `Gemini CLI実行エラー [command=${command}, args=${JSON.stringify(args)}, error=${error.message}, exitCode=${error.exitCode}]`;
-    throw new Error(errorMessage);
+    throw new AgentError(describeGeminiError(errorMessage), classifyAgentError(error));
   }
 }
 
+/**
+ * APIキーが設定されていない場合のエラーを分かりやすいメッセージに置き換える
+ */
+function describeGeminiError(message: string): string {
+  if (message.includes("Auth method") || message.includes("GEMINI_API_KEY")) {
+    return "Gemini APIキーが設定されていません。環境変数 GEMINI_API_KEY を設定するか、~/.gemini/settings.json を設定してください。";
+  }
+  return message;
+}
+
+/**
+ * `--output-format json` の出力から応答テキストを取り出し、使用量を報告する
+ * JSONでない場合（json出力未対応のCLI）はstdoutをそのまま返す
+ *
+ * @param stdout Gemini CLIの出力
+ * @param onUsage 使用量の報告先
+ * @returns 応答テキスト
+ * @throws CLIがエラーを返した場合
+ */
+function parseGeminiJsonOutput(stdout: string, onUsage?: (usage: ReportedUsage) => void): string {
+  let json: any;
+  try {
+    json = JSON.parse(stdout);
+  } catch {
+    return stdout;
+  }
+  if (json?.error) {
+    const error = new Error(`Gemini CLIがエラーを返しました [error=${json.error.message ?? JSON.stringify(json.error)}]`);
+    throw new AgentError(error.message, classifyAgentError(error));
+  }
+  if (typeof json?.response !== "string") {
+    return stdout;
+  }
+
+  // stats.models にモデルごとのトークン数（prompt・candidates）が含まれる
+  const models = Object.entries<any>(json.stats?.models || {});
+  if (onUsage && models.length > 0) {
+    onUsage({
+      inputTokens: models.reduce((sum, [, m]) => sum + (m.tokens?.prompt || 0), 0),
+      outputTokens: models.reduce((sum, [, m]) => sum + (m.tokens?.candidates || 0), 0),
+      model: models[0][0],
+    });
+  }
+  return json.response;
+}
+
 /**
  * Gemini CLIでチャットを実行する
  * 
@@ -65,9 +124,12 @@ export async function chatWithGemini(
     maxTokens?: number;
     temperature?: number;
     cwd?: string;
+    timeout?: number;
+    signal?: AbortSignal;
+    onUsage?: (usage: ReportedUsage) => void;
   }
 ): Promise<string> {
-  const args: string[] = [];
+  const args: string[] = ["--output-format", "json"];
 
   if (options?.model) {
     args.push("--model", options.model);
@@ -76,8 +138,19 @@ export async function chatWithGemini(
   // Geminiは直接プロンプトを引数として受け取る
   args.push(message);
 
-  const result = await callGemini("", args, { cwd: options?.cwd });
-  return result.stdout;
+  const result = await callGemini("", args, {
+    cwd: options?.cwd,
+    timeout: options?.timeout || 300000, // デフォルト5分
+    signal: options?.signal,
+  });
+  return parseGeminiJsonOutput(result.stdout, options?.onUsage);
+}
+
+/**
+ * コード生成のプロンプトを作成する
+ */
+function toCodePrompt(prompt: string, language?: string): string {
+  return language ? `Generate ${language} code: ${prompt}` : `Generate code: ${prompt}`;
 }
 
 /**
@@ -94,22 +167,196 @@ export async function generateCodeWithGemini(
     model?: string;
     maxTokens?: number;
     cwd?: string;
+    timeout?: number;
+    signal?: AbortSignal;
+    onUsage?: (usage: ReportedUsage) => void;
   }
 ): Promise<string> {
-  const args: string[] = [];
+  const args: string[] = ["--output-format", "json"];
 
   if (options?.model) {
     args.push("--model", options.model);
   }
 
-  // コード生成のプロンプト
-  const codePrompt = options?.language
-    ? `Generate ${options.language} code: ${prompt}`
-    : `Generate code: ${prompt}`;
+  args.push(toCodePrompt(prompt, options?.language));
 
-  args.push(codePrompt);
+  const result = await callGemini("", args, {
+    cwd: options?.cwd,
+    timeout: options?.timeout || 300000, // デフォルト5分
+    signal: options?.signal,
+  });
+  return parseGeminiJsonOutput(result.stdout, options?.onUsage);
+}
 
-  const result = await callGemini("", args, { cwd: options?.cwd });
-  return result.stdout;
+/**
+ * Gemini CLIでチャットをストリーミング実行する（トークン単位で出力を取得）
+ *
+ * `--output-format stream-json` の出力を行単位で読み取り、アシスタントのメッセージをyieldする。
+ * JSON以外の行（stream-json未対応のCLI）はそのままyieldする。
+ *
+ * @param message メッセージ
+ * @param options オプション設定
+ * @returns 応答テキストを順にyieldする
+ */
+export async function* chatWithGeminiStream(
+  message: string,
+  options?: {
+    model?: string;
+    maxTokens?: number;
+    temperature?: number;
+    cwd?: string;
+    timeout?: number;
+    signal?: AbortSignal;
+    onUsage?: (usage: ReportedUsage) => void;
+  }
+): AsyncGenerator<string, void, unknown> {
+  const geminiCmd = process.env.GEMINI_CLI_PATH || "gemini";
+  const args: string[] = ["--output-format", "stream-json"];
+
+  if (options?.model) {
+    args.push("--model", options.model);
+  }
+
+  args.push(message);
+
+  const childProcess = execa(geminiCmd, args, {
+    cwd: options?.cwd || process.cwd(),
+    env: {
+      ...process.env,
+      ...correlationEnv(),
+    },
+    timeout: options?.timeout || 300000, // デフォルト5分
+    shell: false,
+    signal: options?.signal,
+    // stdoutは逐次読み取るため、終了の監視（then）でexecaに出力を読み取らせない
+    buffer: false,
+  });
+  observeChildProcess("gemini", childProcess);
+  traceChildProcess("gemini", geminiCmd, childProcess);
+
+  try {
+    if (childProcess.stdout) {
+      for await (const { line, json } of readCliLines(childProcess.stdout)) {
+        if (!json) {
+          yield `${line}\n`;
+        } else if (json.type === "message" && json.role === "assistant" && json.content) {
+          yield json.content;
+        } else if (json.type === "error" || (json.type === "result" && json.status === "error")) {
+          const detail = json.error?.message ?? json.message ?? JSON.stringify(json);
+          throw new Error(`Gemini CLIがエラーを返しました [error=${detail}]`);
+        } else if (json.type === "result" && json.stats && options?.onUsage) {
+          options.onUsage({
+            inputTokens: json.stats.input_tokens || 0,
+            outputTokens: json.stats.output_tokens || 0,
+          });
+        }
+      }
+    }
+
+    await childProcess;
+  } catch (error: any) {
+    const errorMessage = `Gemini CLIストリーミングエラー [error=${error.message}, exitCode=${error.exitCode}]`;
+    throw new AgentError(describeGeminiError(errorMessage), classifyAgentError(error));
+  } finally {
+    // 途中で読み取りを終了した場合は子プロセスも終了する（終了時のエラーは処理済みのため無視）
+    if (childProcess.exitCode === null) {
+      childProcess.kill();
+    }
+    childProcess.catch(() => {});
+  }
 }
 
+/**
+ * Gemini CLIでコード生成をストリーミング実行する
+ *
+ * @param prompt 生成プロンプト
+ * @param options オプション設定
+ * @returns 生成されたコードを順にyieldする
+ */
+export function generateCodeWithGeminiStream(
+  prompt: string,
+  options?: {
+    language?: string;
+    model?: string;
+    maxTokens?: number;
+    cwd?: string;
+    timeout?: number;
+    signal?: AbortSignal;
+    onUsage?: (usage: ReportedUsage) => void;
+  }
+): AsyncGenerator<string, void, unknown> {
+  return chatWithGeminiStream(toCodePrompt(prompt, options?.language), options);
+}
+
+/**
+ * Geminiエージェントアダプタ
+ */
+export const geminiAdapter: AgentAdapter = {
+  id: "gemini",
+  name: "Gemini",
+  description: "Google Gemini - マルチモーダルAI",
+  capabilities: ["code-generation", "chat", "general"],
+  defaultModel: "gemini-pro",
+
+  async run(request) {
+    if (request.taskType === "code-generation") {
+      return generateCodeWithGemini(request.prompt, {
+        language: request.language,
+        model: request.model,
+        maxTokens: request.maxTokens,
+        cwd: request.cwd,
+        timeout: request.timeout,
+        signal: request.signal,
+        onUsage: request.onUsage,
+      });
+    }
+    return chatWithGemini(request.prompt, {
+      model: request.model,
+      maxTokens: request.maxTokens,
+      temperature: request.temperature,
+      cwd: request.cwd,
+      timeout: request.timeout,
+      signal: request.signal,
+      onUsage: request.onUsage,
+    });
+  },
+
+  stream(request) {
+    if (request.taskType === "code-generation") {
+      return generateCodeWithGeminiStream(request.prompt, {
+        language: request.language,
+        model: request.model,
+        maxTokens: request.maxTokens,
+        cwd: request.cwd,
+        timeout: request.timeout,
+        signal: request.signal,
+        onUsage: request.onUsage,
+      });
+    }
+    return chatWithGeminiStream(request.prompt, {
+      model: request.model,
+      maxTokens: request.maxTokens,
+      temperature: request.temperature,
+      cwd: request.cwd,
+      timeout: request.timeout,
+      signal: request.signal,
+      onUsage: request.onUsage,
+    });
+  },
+
+  async runJob(params, context) {
+    const { command, args } = params;
+    const options = { ...params.options, signal: context?.signal, onUsage: context?.onUsage };
+    let result;
+
+    if (command === "chat") {
+      result = await chatWithGemini(params.message, options);
+    } else if (command === "generate") {
+      result = await generateCodeWithGemini(params.prompt, options);
+    } else {
+      result = await callGemini(command, args || [], options);
+    }
+
+    return { ok: true, result };
+  },
+};
@@ -0,0 +1,173 @@
+/**
+ * エージェントアダプタレジストリ
+ * ワーカー・オーケストレーター・サーバー・CLIが共通で参照するエージェント定義を管理する
+ *
+ * @module adapters/registry
+ */
+
+import { isAbsolute, resolve } from "path";
+import { pathToFileURL } from "url";
+import { codexAdapter } from "./codex.js";
+import { claudeAdapter } from "./claude.js";
+import { geminiAdapter } from "./gemini.js";
+import { flowiseAdapter } from "./flowise.js";
+import { AgentError } from "./errors.js";
+import { loadQezuConfig } from "../services/qezu-config.js";
+import type { ReportedUsage } from "../services/usage.js";
+
+/**
+ * エージェントが対応するタスクの種類
+ */
+export type AgentTaskType = "code-generation" | "chat" | "code-completion" | "general" | "slide";
+
+/**
+ * タスクの種類の一覧（リクエストの検証に使用）
+ */
+export const AGENT_TASK_TYPES: AgentTaskType[] = ["code-generation", "chat", "code-completion", "general", "slide"];
+
+/**
+ * プロンプト実行リクエスト（オーケストレーター・スライド生成から利用）
+ */
+export interface AgentRunRequest {
+  prompt: string;
+  taskType?: AgentTaskType;
+  language?: string;
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  cwd?: string;
+  timeout?: number;
+  /** 中断用シグナル（abort時に子プロセスを終了する） */
+  signal?: AbortSignal;
+  /** CLIの出力からトークン使用量を取得できた場合に呼び出される */
+  onUsage?: (usage: ReportedUsage) => void;
+}
+
+/**
+ * ワーカーのジョブ実行コンテキスト
+ */
+export interface AgentJobContext {
+  /** ジョブのキャンセル時にabortされるシグナル */
+  signal?: AbortSignal;
+  /** CLIの出力からトークン使用量を取得できた場合に呼び出される */
+  onUsage?: (usage: ReportedUsage) => void;
+}
+
+/**
+ * エージェントアダプタ
+ */
+export interface AgentAdapter {
+  /** エージェントID（ジョブのkind、APIのagentsに使用） */
+  id: string;
+  /** 表示名 */
+  name: string;
+  /** 説明 */
+  description: string;
+  /** 対応するタスクの種類 */
+  capabilities: AgentTaskType[];
+  /** モデル未指定時に使用するモデル */
+  defaultModel?: string;
+  /** プロンプトを実行して結果テキストを返す */
+  run(request: AgentRunRequest): Promise<string>;
+  /** プロンプトを実行して結果をストリーミングで返す（対応エージェントのみ） */
+  stream?(request: AgentRunRequest): AsyncGenerator<string, void, unknown>;
+  /** ワーカーが受け取ったジョブのparamsを実行する */
+  runJob(params: any, context?: AgentJobContext): Promise<Record<string, any>>;
+  /** `qezu run <id> ...` の引数をジョブのparamsに変換する（未指定時は共通のkey=value形式） */
+  parseCliArgs?(args: string[]): any;
+}
+
+/**
+ * 登録済みアダプタ（登録順を保持）
+ */
+const adapters = new Map<string, AgentAdapter>();
+
+/**
+ * エージェントアダプタを登録する（同じIDは上書き）
+ *
+ * @param adapter 登録するアダプタ
+ */
+export function registerAgent(adapter: AgentAdapter): void {
+  if (!adapter?.id || typeof adapter.run !== "function" || typeof adapter.runJob !== "function") {
+    throw new Error(`不正なエージェントアダプタです [id=${adapter?.id}]`);
+  }
+  adapters.set(adapter.id, adapter);
+}
+
+/**
+ * エージェントアダプタを取得する
+ *
+ * @param id エージェントID
+ * @returns アダプタ（未登録の場合はundefined）
+ */
+export function getAgent(id: string): AgentAdapter | undefined {
+  return adapters.get(id);
+}
+
+/**
+ * エージェントアダプタを取得する（未登録の場合はエラー）
+ *
+ * @param id エージェントID
+ * @returns アダプタ
+ * @throws {AgentError} 未登録の場合（fatal）
+ */
+export function requireAgent(id: string): AgentAdapter {
+  const adapter = adapters.get(id);
+  if (!adapter) {
+    // 再試行しても登録されないため致命的なエラーとする
+    throw new AgentError(`unknown agent kind: ${id}`, "fatal");
+  }
+  return adapter;
+}
+
+/**
+ * 登録済みのエージェントアダプタ一覧を取得する
+ */
+export function listAgents(): AgentAdapter[] {
+  return Array.from(adapters.values());
+}
+
+/**
+ * プラグインモジュールを読み込んでエージェントを登録する
+ *
+ * 読み込み対象は環境変数 QEZU_PLUGINS（カンマ区切り）と qezu.config.yaml の plugins。
+ * モジュールのdefaultエクスポートは AgentAdapter、その配列、
+ * または `({ registerAgent }) => void` 形式の関数のいずれか。
+ *
+ * @throws プラグインの読み込みに失敗した場合
+ */
+export async function loadAgentPlugins(): Promise<void> {
+  const specifiers = [
+    ...(process.env.QEZU_PLUGINS || "").split(",").map((s) => s.trim()).filter(Boolean),
+    ...(loadQezuConfig().plugins || []),
+  ];
+
+  for (const specifier of specifiers) {
+    // 相対パス・絶対パスはカレントディレクトリ基準のファイルURLに変換
+    const target =
+      specifier.startsWith(".") || isAbsolute(specifier)
+        ? pathToFileURL(resolve(process.cwd(), specifier)).href
+        : specifier;
+
+    try {
+      const mod = await import(target);
+      const exported = mod.default ?? mod;
+
+      if (typeof exported === "function") {
+        await exported({ registerAgent });
+      } else if (Array.isArray(exported)) {
+        exported.forEach(registerAgent);
+      } else {
+        registerAgent(exported);
+      }
+    } catch (error: any) {
+      throw new Error(`プラグインの読み込みに失敗しました [plugin=${specifier}, error=${error.message}]`);
+    }
+  }
+}
+
+// 組み込みエージェントを登録
+registerAgent(codexAdapter);
+registerAgent(claudeAdapter);
+registerAgent(geminiAdapter);
+registerAgent(flowiseAdapter);
@@ -7,31 +7,47 @@
  * @module cli
  */
 
+import { randomUUID } from "crypto";
 import { program } from "commander";
-import { Queue } from "bullmq";
-import IORedis from "ioredis";
+import { FlowProducer, QueueEvents } from "bullmq";
 import { config } from "dotenv";
-import { readFileSync } from "fs";
-import { parse } from "yaml";
-import { join } from "path";
+import { writeFileSync } from "fs";
+import { getAgent, listAgents, loadAgentPlugins } from "./adapters/registry.js";
+import { loadQezuConfig } from "./services/qezu-config.js";
+import { enqueueWorkflow } from "./services/workflow-engine.js";
+import { loadBatchJobs, BatchJob } from "./services/batch-loader.js";
+import { resolveRetryOptions } from "./services/retry-policy.js";
+import { createRedisConnection } from "./services/redis-connection.js";
+import { createQueuePool, findJob, listQueueNames, queueNameForKind } from "./services/job-queues.js";
+import { requestJobCancel } from "./services/job-cancellation.js";
+import { getDayUsage, getRunUsage } from "./services/usage-store.js";
+import { getRun, listRuns, RunSource } from "./services/run-history.js";
+import { CORRELATION_ID_ENV, withLogContext } from "./services/logger.js";
+import { initTracing, injectTraceContext, shutdownTracing, withEnqueueSpan } from "./services/tracing.js";
 
 // 環境変数を読み込み
 config();
 
+// プラグインのエージェントを登録
+await loadAgentPlugins();
+
+// ジョブの投入をトレースに記録（tracing.enabled の場合のみ）
+initTracing("cli");
+
 /**
  * Redis接続設定
  */
-const connection = new IORedis({
-  host: process.env.REDIS_HOST || "localhost",
-  port: parseInt(process.env.REDIS_PORT || "6379", 10),
-  db: parseInt(process.env.REDIS_DB || "0", 10),
-  maxRetriesPerRequest: null,
-});
+const connection = createRedisConnection();
 
 /**
- * BullMQキューインスタンス
+ * BullMQキューインスタンス（キュー名ごとに使い回す）
  */
-const Q = new Queue("qezu-jobs", { connection });
+const queues = createQueuePool(connection);
+
+/**
+ * 相関ID（投入するジョブの meta.correlationId、QEZU_CORRELATION_ID で指定可能）
+ */
+const correlationId = process.env[CORRELATION_ID_ENV] || randomUUID();
 
 /**
  * JSON文字列をパースする（失敗時はそのまま返す）
@@ -55,312 +71,422 @@ program
   .version("1.0.0");
 
 /**
- * run flowise サブコマンド
- * Flowiseフローを実行する
+ * ジョブの完了待ち結果
+ */
+type JobOutcome = { jobId: string; ok: boolean; result?: any; error?: string };
+
+/**
+ * 複数ジョブの完了を待つ（キューごとに1つのQueueEventsを共有）
+ *
+ * @param jobIds ジョブIDの一覧
+ * @param timeout 最大待機時間（ミリ秒、未指定時は無制限）
+ * @returns ジョブごとの結果（ジョブIDの順）
+ */
+async function waitForJobs(jobIds: string[], timeout?: number): Promise<JobOutcome[]> {
+  const queueEvents = new Map<string, QueueEvents>();
+  const getQueueEvents = async (name: string): Promise<QueueEvents> => {
+    let events = queueEvents.get(name);
+    if (!events) {
+      events = new QueueEvents(name, { connection });
+      queueEvents.set(name, events);
+    }
+    await events.waitUntilReady();
+    return events;
+  };
+
+  try {
+    return await Promise.all(
+      jobIds.map(async (jobId): Promise<JobOutcome> => {
+        try {
+          const job = await findJob(queues, jobId);
+          if (!job) {
+            throw new Error(`ジョブが見つかりません [jobId=${jobId}]`);
+          }
+          const events = await getQueueEvents(job.queueName);
+          const result = await job.waitUntilFinished(events, timeout);
+          return { jobId, ok: true, result };
+        } catch (error: any) {
+          return { jobId, ok: false, error: error.message };
+        }
+      })
+    );
+  } finally {
+    await Promise.all(Array.from(queueEvents.values()).map((events) => events.close()));
+  }
+}
+
+/**
+ * ジョブの完了を待って結果を表示する
+ *
+ * @param jobId ジョブID
+ * @param timeout 最大待機時間（ミリ秒、未指定時は無制限）
+ * @returns ジョブが成功した場合true
+ */
+async function waitForJob(jobId: string, timeout?: number): Promise<boolean> {
+  const [outcome] = await waitForJobs([jobId], timeout);
+  if (outcome.ok) {
+    console.log({ jobId, state: "completed", result: outcome.result });
+  } else {
+    console.error({ jobId, state: "failed", error: outcome.error });
+  }
+  return outcome.ok;
+}
+
+/**
+ * runコマンドの終了処理（--wait指定時は完了を待つ）
+ *
+ * @param jobId 投入したジョブID
+ * @param opts runコマンドのオプション
+ */
+async function finishRun(
+  jobId: string | undefined,
+  opts: { wait?: boolean; timeout?: number }
+): Promise<never> {
+  // 投入のスパンは完了を待たずに送信する
+  await shutdownTracing();
+  const ok = opts.wait && jobId ? await waitForJob(jobId, opts.timeout) : true;
+  await connection.quit();
+  process.exit(ok ? 0 : 1);
+}
+
+/**
+ * `qezu run <agent> <command> [key=value ...]` の引数をジョブのparamsに変換する
+ * （parseCliArgsを持たないエージェントの共通形式）
+ *
+ * @param kind エージェントID
+ * @param rest コマンド以降の引数
+ * @returns ジョブのparams
+ */
+function parseCommandArgs(kind: string, rest: string[]): any {
+  const [command, ...kv] = rest;
+
+  if (!command) {
+    throw new Error(`usage: qezu run ${kind} <command> [key=value ...]`);
+  }
+
+  const params: any = { command };
+  const options: any = {};
+
+  // key=value形式の引数をパース
+  for (const kvPair of kv) {
+    if (kvPair.includes("=")) {
+      const [k, v] = kvPair.split("=");
+      const parsed = tryParse(v);
+
+      if (k === "prompt" || k === "code" || k === "message") {
+        params[k] = parsed;
+      } else if (k === "args") {
+        params.args = Array.isArray(parsed) ? parsed : [parsed];
+      } else {
+        options[k] = parsed;
+      }
+    } else {
+      // 引数として追加
+      if (!params.args) params.args = [];
+      params.args.push(kvPair);
+    }
+  }
+
+  params.options = options;
+  return params;
+}
+
+/**
+ * run サブコマンド
+ * 登録済みエージェントのジョブ、またはワークフローを投入する
  * 
  * 使用例:
  *   qezu run flowise flow_abc123 topic="生成AIの歴史" mode=prompt
- *   qezu run flowise flow_abc123 topic="生成AIの歴史" format=html
+ *   qezu run codex generate prompt="TypeScriptの関数を生成" language=typescript
+ *   qezu run claude chat message="こんにちは" model=claude-3-opus
+ *   qezu run gemini generate prompt="Pythonの関数を生成" language=python
+ *   qezu run flow-slides
+ *   qezu run --wait codex generate prompt="..."   # 完了を待って結果を表示
  */
 program
   .command("run")
-  .argument("<subcommand>", "サブコマンド（flowise など）")
+  .argument("<subcommand>", "サブコマンド（エージェントID または flow-<name>）")
   .argument("[args...]", "追加引数")
-  .action(async (sub: string, rest: string[]) => {
-    if (sub === "flowise") {
-      // 例: qezu run flowise FLOW_ID topic="生成AIの歴史" format=html
-      const [flowId, ...kv] = rest;
+  .option("-w, --wait", "ジョブの完了を待って結果を表示する")
+  .option("-t, --timeout <ms>", "--wait時の最大待機時間（ミリ秒）", (v) => parseInt(v, 10))
+  .option("--attempts <n>", "最大試行回数（qezu.config.yaml の retry を上書き）", (v) => parseInt(v, 10))
+  .option("--backoff <ms>", "指数バックオフの初期遅延（ミリ秒）", (v) => parseInt(v, 10))
+  .action(async (
+    sub: string,
+    rest: string[],
+    opts: { wait?: boolean; timeout?: number; attempts?: number; backoff?: number }
+  ) => {
+    let jobId: string | undefined;
 
-      if (!flowId) {
-        console.error("エラー: usage: qezu run flowise <flowId> [key=value ...] [mode=prompt|chat]");
-        process.exit(1);
-      }
+    // ワークフロー実行（qezu.config.yamlから読み込み）
+    if (sub.startsWith("flow-")) {
+      try {
+        const workflowName = sub;
+        const workflow = loadQezuConfig().workflows?.[workflowName];
 
-      // key=value形式の引数をパース
-      const vars = Object.fromEntries(
-        kv
-          .filter((s) => s.includes("=") && !s.startsWith("mode="))
-          .map((s) => {
-            const [k, v] = s.split("=");
-            return [k, tryParse(v)];
-          })
-      );
+        if (!workflow) {
+          console.error(`エラー: ワークフロー '${workflowName}' が見つかりません`);
+          process.exit(1);
+        }
 
-      // mode引数を抽出
-      const modeArg = kv.find((s) => s.startsWith("mode="));
-      const mode = modeArg ? modeArg.split("=")[1] : undefined;
+        for (const step of workflow.steps || []) {
+          if (!getAgent(step.agent)) {
+            throw new Error(`不明なエージェント: ${step.agent}`);
+          }
+        }
 
-      try {
-        await Q.add(
-          "task",
-          { kind: "flowise", params: { flowId, vars, mode } },
-          { priority: 2 }
-        );
-        console.log({ enqueued: "flowise", flowId, vars, mode });
+        // 依存関係（needs）に従って親子ジョブのフローとして投入
+        const flowProducer = new FlowProducer({ connection });
+        const enqueued = await enqueueWorkflow(flowProducer, workflowName, workflow);
+        await flowProducer.close();
+        jobId = enqueued.jobId;
+
+        console.log({
+          enqueued: workflowName,
+          jobId,
+          correlationId,
+          levels: enqueued.levels.map((level) => level.map((step) => `${step.id}(${step.agent})`)),
+        });
       } catch (error: any) {
         console.error(
-          `エラー: ジョブの投入に失敗しました [error=${error.message}]`
+          `エラー: ワークフローの実行に失敗しました [error=${error.message}]`
         );
         process.exit(1);
       }
 
-      await connection.quit();
-      process.exit(0);
+      await finishRun(jobId, opts);
+    }
+
+    const adapter = getAgent(sub);
+    if (!adapter) {
+      console.error(`エラー: 不明なサブコマンド: ${sub}`);
+      console.error(
+        `使用可能なコマンド: ${[...listAgents().map((a) => a.id), "flow-<name>"].join(", ")}`
+      );
+      process.exit(1);
     }
 
-    if (sub === "codex") {
-      // 例: qezu run codex generate prompt="TypeScriptの関数を生成" language=typescript
-      const [command, ...kv] = rest;
+    let params: any;
+    try {
+      params = adapter.parseCliArgs ? adapter.parseCliArgs(rest) : parseCommandArgs(sub, rest);
+    } catch (error: any) {
+      console.error(`エラー: ${error.message}`);
+      process.exit(1);
+    }
 
-      if (!command) {
-        console.error("エラー: usage: qezu run codex <command> [key=value ...]");
-        console.error("  例: qezu run codex generate prompt=\"...\" language=typescript");
-        process.exit(1);
-      }
+    try {
+      const retry = resolveRetryOptions(sub, { attempts: opts.attempts, backoff: opts.backoff });
+      const queueName = queueNameForKind(sub);
+      const job = await withEnqueueSpan(sub, queueName, () =>
+        queues.get(queueName).add(
+          "task",
+          { kind: sub, params, meta: { correlationId, trace: injectTraceContext() } },
+          { priority: 2, ...retry }
+        )
+      );
+      jobId = job.id;
+      console.log({ enqueued: sub, jobId, correlationId, params });
+    } catch (error: any) {
+      console.error(`エラー: ジョブの投入に失敗しました [error=${error.message}]`);
+      process.exit(1);
+    }
+
+    await finishRun(jobId, opts);
+  });
 
-      const params: any = { command };
-      const options: any = {};
-
-      // key=value形式の引数をパース
-      for (const kvPair of kv) {
-        if (kvPair.includes("=")) {
-          const [k, v] = kvPair.split("=");
-          const parsed = tryParse(v);
-
-          if (k === "prompt" || k === "code" || k === "message") {
-            params[k] = parsed;
-          } else if (k === "args") {
-            params.args = Array.isArray(parsed) ? parsed : [parsed];
-          } else {
-            options[k] = parsed;
+/**
+ * batch コマンド
+ * JSONL（1行1ジョブ）またはCSV＋テンプレートからジョブをまとめて投入する
+ *
+ * 使用例:
+ *   qezu batch jobs.jsonl
+ *     # {"kind":"codex","command":"generate","params":{"prompt":"...","options":{"language":"typescript"}}}
+ *   qezu batch prompts.csv --template '{"kind":"claude","command":"chat","params":{"message":"{{question}}"}}'
+ *   qezu batch jobs.jsonl --wait --out results.jsonl
+ */
+program
+  .command("batch")
+  .description("JSONL/CSVファイルからジョブをまとめて投入する")
+  .argument("<file>", "ジョブファイル（.jsonl または .csv）")
+  .option("--template <json>", "CSVの各行に適用するジョブテンプレート（JSONファイルのパスまたはJSON文字列）")
+  .option("-w, --wait", "すべてのジョブの完了を待って集計を表示する")
+  .option("-t, --timeout <ms>", "--wait時の各ジョブの最大待機時間（ミリ秒）", (v) => parseInt(v, 10))
+  .option("-o, --out <file>", "--wait時に各ジョブの結果をJSONLで書き出す")
+  .action(
+    async (
+      file: string,
+      opts: { template?: string; wait?: boolean; timeout?: number; out?: string }
+    ) => {
+      let jobs: BatchJob[];
+      let retries: ReturnType<typeof resolveRetryOptions>[];
+      let queueNames: string[];
+      try {
+        jobs = loadBatchJobs(file, opts.template);
+        const config = loadQezuConfig();
+        for (const job of jobs) {
+          if (!getAgent(job.kind)) {
+            throw new Error(`不明なエージェント: ${job.kind} [line=${job.line}]`);
           }
-        } else {
-          // 引数として追加
-          if (!params.args) params.args = [];
-          params.args.push(kvPair);
         }
+        retries = jobs.map((job) => resolveRetryOptions(job.kind, job.retry, config));
+        queueNames = jobs.map((job) => queueNameForKind(job.kind, config));
+      } catch (error: any) {
+        console.error(`エラー: バッチファイルの読み込みに失敗しました [error=${error.message}]`);
+        process.exit(1);
       }
 
-      params.options = options;
-
+      const jobIds: string[] = new Array(jobs.length);
       try {
-        await Q.add("task", { kind: "codex", params }, { priority: 2 });
-        console.log({ enqueued: "codex", params });
+        // 投入先キューごとにまとめてaddBulkし、ジョブIDを元の順序に戻す
+        for (const name of new Set(queueNames)) {
+          const indexes = jobs.map((_, idx) => idx).filter((idx) => queueNames[idx] === name);
+          const added = await withEnqueueSpan("batch", name, () => {
+            const meta = { correlationId, trace: injectTraceContext() };
+            return queues.get(name).addBulk(
+              indexes.map((idx) => ({
+                name: "task",
+                data: { kind: jobs[idx].kind, params: jobs[idx].params, meta },
+                opts: { priority: 2, ...retries[idx] },
+              }))
+            );
+          });
+          added.forEach((job, i) => {
+            jobIds[indexes[i]] = job.id as string;
+          });
+        }
+        console.log({ enqueued: jobIds.length, file, correlationId, jobIds });
       } catch (error: any) {
         console.error(`エラー: ジョブの投入に失敗しました [error=${error.message}]`);
         process.exit(1);
       }
+      await shutdownTracing();
 
-      await connection.quit();
-      process.exit(0);
-    }
+      if (!opts.wait) {
+        await connection.quit();
+        process.exit(0);
+      }
 
-    if (sub === "claude") {
-      // 例: qezu run claude chat message="こんにちは" model=claude-3-opus
-      const [command, ...kv] = rest;
+      const outcomes = await waitForJobs(jobIds, opts.timeout);
+      const failures = outcomes
+        .map((outcome, idx) => ({ ...outcome, line: jobs[idx].line, kind: jobs[idx].kind }))
+        .filter((outcome) => !outcome.ok);
 
-      if (!command) {
-        console.error("エラー: usage: qezu run claude <command> [key=value ...]");
-        console.error("  例: qezu run claude chat message=\"...\" model=claude-3-opus");
-        process.exit(1);
+      if (opts.out) {
+        const lines = outcomes.map((outcome, idx) =>
+          JSON.stringify({ line: jobs[idx].line, kind: jobs[idx].kind, ...outcome })
+        );
+        writeFileSync(opts.out, lines.join("\n") + "\n");
       }
 
-      const params: any = { command };
-      const options: any = {};
-
-      // key=value形式の引数をパース
-      for (const kvPair of kv) {
-        if (kvPair.includes("=")) {
-          const [k, v] = kvPair.split("=");
-          const parsed = tryParse(v);
-
-          if (k === "prompt" || k === "message") {
-            params[k] = parsed;
-          } else if (k === "args") {
-            params.args = Array.isArray(parsed) ? parsed : [parsed];
-          } else {
-            options[k] = parsed;
-          }
-        } else {
-          // 引数として追加
-          if (!params.args) params.args = [];
-          params.args.push(kvPair);
-        }
-      }
+      console.log({
+        total: outcomes.length,
+        completed: outcomes.length - failures.length,
+        failed: failures.length,
+        failures: failures.map(({ jobId, line, kind, error }) => ({ jobId, line, kind, error })),
+        out: opts.out,
+      });
 
-      params.options = options;
+      await connection.quit();
+      process.exit(failures.length > 0 ? 1 : 0);
+    }
+  );
 
-      try {
-        await Q.add("task", { kind: "claude", params }, { priority: 2 });
-        console.log({ enqueued: "claude", params });
-      } catch (error: any) {
-        console.error(`エラー: ジョブの投入に失敗しました [error=${error.message}]`);
+/**
+ * result コマンド
+ * ジョブの状態と結果を表示する
+ */
+program
+  .command("result")
+  .description("ジョブの状態と結果を表示する")
+  .argument("<jobId>", "ジョブID")
+  .action(async (jobId: string) => {
+    try {
+      const job = await findJob(queues, jobId);
+      if (!job) {
+        console.error(`エラー: ジョブが見つかりません [jobId=${jobId}]`);
         process.exit(1);
       }
 
-      await connection.quit();
-      process.exit(0);
+      console.log({
+        jobId: job.id,
+        queue: job.queueName,
+        kind: job.data.kind,
+        state: await job.getState(),
+        attemptsMade: job.attemptsMade,
+        result: job.returnvalue,
+        failedReason: job.failedReason,
+        createdAt: new Date(job.timestamp).toISOString(),
+        finishedAt: job.finishedOn ? new Date(job.finishedOn).toISOString() : undefined,
+      });
+    } catch (error: any) {
+      console.error(`エラー: ジョブの取得に失敗しました [error=${error.message}]`);
+      process.exit(1);
     }
 
-    if (sub === "gemini") {
-      // 例: qezu run gemini chat message="こんにちは" model=gemini-pro
-      const [command, ...kv] = rest;
+    await connection.quit();
+    process.exit(0);
+  });
 
-      if (!command) {
-        console.error("エラー: usage: qezu run gemini <command> [key=value ...]");
-        console.error("  例: qezu run gemini chat message=\"...\" model=gemini-pro");
+/**
+ * logs コマンド
+ * ワーカーが記録したジョブのログを表示する
+ */
+program
+  .command("logs")
+  .description("ジョブのログを表示する")
+  .argument("<jobId>", "ジョブID")
+  .action(async (jobId: string) => {
+    try {
+      const job = await findJob(queues, jobId);
+      if (!job) {
+        console.error(`エラー: ジョブが見つかりません [jobId=${jobId}]`);
         process.exit(1);
       }
 
-      const params: any = { command };
-      const options: any = {};
-
-      // key=value形式の引数をパース
-      for (const kvPair of kv) {
-        if (kvPair.includes("=")) {
-          const [k, v] = kvPair.split("=");
-          const parsed = tryParse(v);
-
-          if (k === "prompt" || k === "message") {
-            params[k] = parsed;
-          } else if (k === "args") {
-            params.args = Array.isArray(parsed) ? parsed : [parsed];
-          } else {
-            options[k] = parsed;
-          }
-        } else {
-          // 引数として追加
-          if (!params.args) params.args = [];
-          params.args.push(kvPair);
-        }
+      const { logs } = await queues.get(job.queueName).getJobLogs(jobId);
+      for (const line of logs) {
+        console.log(line);
       }
+    } catch (error: any) {
+      console.error(`エラー: ログの取得に失敗しました [error=${error.message}]`);
+      process.exit(1);
+    }
 
-      params.options = options;
+    await connection.quit();
+    process.exit(0);
+  });
 
-      try {
-        await Q.add("task", { kind: "gemini", params }, { priority: 2 });
-        console.log({ enqueued: "gemini", params });
-      } catch (error: any) {
-        console.error(`エラー: ジョブの投入に失敗しました [error=${error.message}]`);
+/**
+ * cancel コマンド
+ * 待機中・実行中のジョブをキャンセルする（実行中のエージェントの子プロセスも終了する）
+ */
+program
+  .command("cancel")
+  .description("ジョブをキャンセルする")
+  .argument("<jobId>", "ジョブID")
+  .action(async (jobId: string) => {
+    try {
+      const job = await findJob(queues, jobId);
+      if (!job) {
+        console.error(`エラー: ジョブが見つかりません [jobId=${jobId}]`);
         process.exit(1);
       }
 
-      await connection.quit();
-      process.exit(0);
-    }
-
-    // ワークフロー実行（qezu.config.yamlから読み込み）
-    if (sub.startsWith("flow-")) {
-      try {
-        const configPath = join(process.cwd(), "qezu.config.yaml");
-        const configContent = readFileSync(configPath, "utf-8");
-        const config = parse(configContent) as any;
-
-        const workflowName = sub;
-        const workflow = config.workflows?.[workflowName];
-
-        if (!workflow) {
-          console.error(`エラー: ワークフロー '${workflowName}' が見つかりません`);
-          process.exit(1);
-        }
-
-        // ワークフローの各ステップを実行
-        for (const step of workflow.steps || []) {
-          if (step.agent === "flowise") {
-            await Q.add(
-              "task",
-              {
-                kind: "flowise",
-                params: {
-                  flowId: step.flowId,
-                  vars: step.vars || {},
-                  mode: step.mode,
-                },
-              },
-              { priority: 2 }
-            );
-            console.log({
-              enqueued: "flowise",
-              flowId: step.flowId,
-              vars: step.vars,
-              mode: step.mode,
-            });
-          } else if (step.agent === "codex") {
-            await Q.add(
-              "task",
-              {
-                kind: "codex",
-                params: {
-                  command: step.command,
-                  prompt: step.prompt,
-                  code: step.code,
-                  args: step.args,
-                  options: step.options || {},
-                },
-              },
-              { priority: 2 }
-            );
-            console.log({
-              enqueued: "codex",
-              command: step.command,
-              options: step.options,
-            });
-          } else if (step.agent === "claude") {
-            await Q.add(
-              "task",
-              {
-                kind: "claude",
-                params: {
-                  command: step.command,
-                  message: step.message,
-                  prompt: step.prompt,
-                  args: step.args,
-                  options: step.options || {},
-                },
-              },
-              { priority: 2 }
-            );
-            console.log({
-              enqueued: "claude",
-              command: step.command,
-              options: step.options,
-            });
-          } else if (step.agent === "gemini") {
-            await Q.add(
-              "task",
-              {
-                kind: "gemini",
-                params: {
-                  command: step.command,
-                  message: step.message,
-                  prompt: step.prompt,
-                  args: step.args,
-                  options: step.options || {},
-                },
-              },
-              { priority: 2 }
-            );
-            console.log({
-              enqueued: "gemini",
-              command: step.command,
-              options: step.options,
-            });
-          }
-        }
-      } catch (error: any) {
-        console.error(
-          `エラー: ワークフローの実行に失敗しました [error=${error.message}]`
-        );
+      const { state, cancelled, removed } = await requestJobCancel(connection, job);
+      if (cancelled.length === 0) {
+        console.error(`エラー: 終了済みのジョブはキャンセルできません [jobId=${jobId}, state=${state}]`);
         process.exit(1);
       }
-
-      await connection.quit();
-      process.exit(0);
+      console.log(
+        `キャンセルを要求しました [jobId=${jobId}, state=${state}, jobs=${cancelled.join(",")}, removed=${removed.join(",")}]`
+      );
+    } catch (error: any) {
+      console.error(`エラー: ジョブのキャンセルに失敗しました [error=${error.message}]`);
+      process.exit(1);
     }
 
-    console.error(`エラー: 不明なサブコマンド: ${sub}`);
-    console.error("使用可能なコマンド: flowise, codex, claude, gemini, flow-<name>");
-    process.exit(1);
+    await connection.quit();
+    process.exit(0);
   });
 
 /**
@@ -369,20 +495,46 @@ program
  */
 program
   .command("status")
-  .description("キューの状態を確認する")
-  .action(async () => {
+  .description("キューの状態とトークン・コストの使用量を確認する")
+  .option("--date <date>", "使用量を集計する日付（YYYY-MM-DD、デフォルトは当日）")
+  .option("--run <runId>", "指定した実行（ワークフロー・ジョブ・Webの実行）の使用量を表示する")
+  .action(async (opts: { date?: string; run?: string }) => {
     try {
-      const waiting = await Q.getWaitingCount();
-      const active = await Q.getActiveCount();
-      const completed = await Q.getCompletedCount();
-      const failed = await Q.getFailedCount();
+      if (opts.run) {
+        console.dir({ runId: opts.run, usage: await getRunUsage(connection, opts.run) }, { depth: null });
+        await connection.quit();
+        process.exit(0);
+      }
 
-      console.log({
-        waiting,
-        active,
-        completed,
-        failed,
-      });
+
+      const totals = { waiting: 0, active: 0, completed: 0, failed: 0 };
+      const byQueue: Record<string, typeof totals> = {};
+
+      for (const name of listQueueNames()) {
+        const counts = await queues
+          .get(name)
+          .getJobCounts("waiting", "prioritized", "active", "completed", "failed");
+        byQueue[name] = {
+          // 優先度付きで投入したジョブは prioritized として数えられる
+          waiting: (counts.waiting || 0) + (counts.prioritized || 0),
+          active: counts.active || 0,
+          completed: counts.completed || 0,
+          failed: counts.failed || 0,
+        };
+        for (const key of Object.keys(totals) as (keyof typeof totals)[]) {
+          totals[key] += byQueue[name][key];
+        }
+      }
+
+      // エージェントごとの使用量まで表示するため深さを制限しない
+      console.dir(
+        {
+          ...totals,
+          queues: byQueue,
+          usage: await getDayUsage(connection, opts.date),
+        },
+        { depth: null }
+      );
     } catch (error: any) {
       console.error(`エラー: ステータスの取得に失敗しました [error=${error.message}]`);
       process.exit(1);
@@ -392,5 +544,64 @@ program
     process.exit(0);
   });
 
-program.parse();
+/**
+ * history コマンド
+ * 保存された実行履歴（Webの実行・ジョブ）を表示する
+ */
+program
+  .command("history")
+  .description("実行履歴を表示する（IDを指定した場合は結果を含む詳細）")
+  .argument("[runId]", "実行ID")
+  .option("--prompt <text>", "プロンプトに含まれる文字列で絞り込む")
+  .option("--source <source>", "実行の種類で絞り込む（execute, stream, job）")
+  .option("--since <date>", "この日時以降の実行のみ表示する（ISO 8601）")
+  .option("--until <date>", "この日時より前の実行のみ表示する（ISO 8601）")
+  .option("--limit <n>", "表示件数", "20")
+  .action(
+    async (
+      runId: string | undefined,
+      opts: { prompt?: string; source?: RunSource; since?: string; until?: string; limit: string }
+    ) => {
+      try {
+        if (runId) {
+          const run = getRun(runId);
+          if (!run) {
+            console.error(`エラー: 実行履歴が見つかりません [runId=${runId}]`);
+            process.exit(1);
+          }
+          console.dir(run, { depth: null });
+        } else {
+          const { total, runs } = listRuns({
+            prompt: opts.prompt,
+            source: opts.source,
+            since: opts.since,
+            until: opts.until,
+            limit: parseInt(opts.limit, 10),
+          });
+          console.log(`${runs.length}/${total}件`);
+          console.table(
+            runs.map((r) => ({
+              id: r.id,
+              source: r.source,
+              status: r.status,
+              createdAt: r.createdAt,
+              time: `${r.totalExecutionTime}ms`,
+              agents: r.agents?.join(","),
+              success: r.success !== undefined ? `${r.success}/${(r.success || 0) + (r.failed || 0)}` : undefined,
+              prompt: (r.prompt || "").substring(0, 40),
+            }))
+          );
+        }
+      } catch (error: any) {
+        console.error(`エラー: 実行履歴の取得に失敗しました [error=${error.message}]`);
+        process.exit(1);
+      }
+
+      await connection.quit();
+      process.exit(0);
+    }
+  );
+
+// ワークフローの子ジョブにも相関IDを引き継ぐ
+withLogContext({ correlationId }, () => program.parse());
 
@@ -4,5 +4,32 @@
  * @module index
  */
 
-export { callFlowise } from "./adapters/flowise.js";
+export {
+  callFlowise,
+  callFlowiseStream,
+  loadFlowiseUpload,
+  type FlowiseOptions,
+  type FlowiseResponse,
+  type FlowiseUpload,
+  type FlowiseHistoryMessage,
+} from "./adapters/flowise.js";
 
+export {
+  registerAgent,
+  getAgent,
+  listAgents,
+  type AgentAdapter,
+  type AgentRunRequest,
+  type AgentTaskType,
+} from "./adapters/registry.js";
+
+export type { AgentUsage, ReportedUsage } from "./services/usage.js";
+
+export {
+  executeMultiAgent,
+  streamMultiAgent,
+  type AgentResult,
+  type MultiAgentOptions,
+  type MultiAgentResult,
+  type OrchestratorEvent,
+} from "./services/agent-orchestrator.js";
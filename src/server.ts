@@ -10,498 +10,1598 @@ import cors from "cors";
 import { config } from "dotenv";
 import { fileURLToPath } from "url";
 import { dirname, join } from "path";
-import { executeMultiAgent, MultiAgentOptions } from "./services/agent-orchestrator.js";
+import { randomUUID } from "crypto";
+import { IncomingMessage, STATUS_CODES } from "http";
+import { Duplex } from "stream";
+import { WebSocket, WebSocketServer } from "ws";
+import { executeMultiAgent, MultiAgentOptions, MultiAgentResult, streamMultiAgent } from "./services/agent-orchestrator.js";
 import { parseSlidesFromMarkdown, generateSlideHTML, generateMarpMarkdown, SlideDeck } from "./services/slide-generator.js";
-import { IncrementalSlideParser } from "./services/incremental-slide-parser.js";
+import { listAgents, loadAgentPlugins } from "./adapters/registry.js";
+import IORedis from "ioredis";
+import { FlowProducer, Job, QueueEvents } from "bullmq";
+import { createRedisConnection } from "./services/redis-connection.js";
+import {
+  createQueuePool,
+  describeJob,
+  findJob,
+  ListJobState,
+  listJobs,
+  listQueueNames,
+  QueuePool,
+} from "./services/job-queues.js";
+import { requestJobCancel } from "./services/job-cancellation.js";
+import { AgentUsage, exceedsBudget, getBudget, hasBudget } from "./services/usage.js";
+import {
+  checkBudget,
+  checkReports,
+  getDayUsage,
+  getKeyUsage,
+  getRunUsage,
+  recordUsage,
+  reserveKeyRun,
+} from "./services/usage-store.js";
+import { getRun, listRuns, recordRun, RunSource } from "./services/run-history.js";
+import {
+  ExecutionMode,
+  executeMultiAgentViaQueue,
+  getExecutionMode,
+  QueueExecutionContext,
+  streamMultiAgentViaQueue,
+} from "./services/queued-execution.js";
+import {
+  authenticateApiKey,
+  canAccess,
+  canManageJob,
+  createSessionToken,
+  findDisallowedAgents,
+  getCorsOrigins,
+  getSessionConfig,
+  loadApiKeys,
+  Principal,
+  SESSION_COOKIE,
+  verifySessionToken,
+} from "./services/auth.js";
+import { appendAuditLog, getAuditLogPath } from "./services/audit-log.js";
+import { ApiError, toErrorResponse, validationError } from "./services/api-errors.js";
+import {
+  CLEAN_QUEUE_REQUEST_SCHEMA,
+  executeRequestSchema,
+  GENERATE_SLIDES_REQUEST_SCHEMA,
+  JsonSchema,
+  LIST_JOBS_QUERY_SCHEMA,
+  LIST_RUNS_QUERY_SCHEMA,
+  LOGIN_REQUEST_SCHEMA,
+  RUN_EVENTS_QUERY_SCHEMA,
+  SOCKET_MESSAGE_SCHEMA,
+  SocketMessageType,
+  socketMessageSchemas,
+  USAGE_QUERY_SCHEMA,
+  validateSchema,
+} from "./services/api-schema.js";
+import { buildOpenApiDocument } from "./services/openapi.js";
+import { getStreamConfig, RunEvent, RunEventBuffer } from "./services/run-events.js";
+import { RunControl } from "./services/run-control.js";
+import {
+  getMetricsConfig,
+  initMetrics,
+  renderMetrics,
+  trackQueueDepth,
+  trackSseConnection,
+  trackWebSocketConnection,
+} from "./services/metrics.js";
+import { createLogger, withLogContext } from "./services/logger.js";
+import { context, SpanKind, SpanStatusCode, trace } from "@opentelemetry/api";
+import { extractTraceContext, initTracing, shutdownTracing, tracer, withSpan } from "./services/tracing.js";
+
+const log = createLogger("Server");
 
 // 環境変数を読み込み
 config();
 
+// プラグインのエージェントを登録
+await loadAgentPlugins();
+
+// HTTPリクエストと実行をトレースに記録（tracing.enabled の場合のみ）
+initTracing("server");
+
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
 const app = express();
 const PORT = parseInt(process.env.PORT || "3000", 10);
 
+/**
+ * APIキー（設定がない場合は認証を行わない）
+ */
+const apiKeys = loadApiKeys();
+
+/**
+ * セッションの設定（QEZU_SESSION_SECRET が未設定の場合はセッション認証を行わない）
+ */
+const session = getSessionConfig();
+
+/**
+ * CORSを許可するオリジン（未設定の場合はすべてのオリジン）
+ */
+const corsOrigins = getCorsOrigins();
+
+/**
+ * 監査ログのパス
+ */
+const auditLogPath = getAuditLogPath();
+
+/**
+ * ストリーミング実行の設定（切断後に再接続を待つ時間・イベントの保持期間）
+ */
+const streamConfig = getStreamConfig();
+
+/**
+ * ストリーミング実行のイベント（GET /api/runs/:id/events での再接続に使用）
+ */
+const runEvents = new RunEventBuffer(streamConfig);
+
+/**
+ * メトリクスの設定（metrics.enabled が false の場合は /metrics を公開しない）
+ */
+const metricsConfig = getMetricsConfig();
+
+/**
+ * 受け付ける相関IDの形式（ログに出力するため英数字と一部の記号のみ）
+ */
+const CORRELATION_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * SSEの接続を維持するためのコメントを送信する間隔（ミリ秒）
+ */
+const SSE_HEARTBEAT_INTERVAL = 15000;
+
 // ミドルウェア
-app.use(cors());
+app.use(cors(corsOrigins ? { origin: corsOrigins, credentials: true } : undefined));
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
+/**
+ * 相関ID（X-Correlation-ID・X-Request-ID、ない場合は生成）をレスポンスヘッダーとリクエスト中のログに付与する
+ * ボディの読み込み後のコールバックではコンテキストが引き継がれないため、ボディのパーサーの後に設定する
+ */
+app.use((req, res, next) => {
+  const correlationId = resolveCorrelationId(req);
+  res.setHeader("X-Correlation-ID", correlationId);
+  withLogContext({ correlationId }, next);
+});
+
+/**
+ * HTTPリクエストのスパン（traceparent ヘッダーがある場合は呼び出し元のスパンの子）
+ * ストリーミング実行ではレスポンスの終了（切断）までを記録する。スパン名はルートが決まった後に更新する
+ */
+app.use((req, res, next) => {
+  const span = tracer.startSpan(
+    `${req.method}`,
+    {
+      kind: SpanKind.SERVER,
+      attributes: {
+        "http.request.method": req.method,
+        "url.path": req.path,
+        "qezu.correlation_id": res.getHeader("X-Correlation-ID") as string,
+      },
+    },
+    extractTraceContext(req.headers)
+  );
+  res.on("close", () => {
+    if (req.route) {
+      span.updateName(`${req.method} ${req.baseUrl}${req.route.path}`);
+      span.setAttribute("http.route", `${req.baseUrl}${req.route.path}`);
+    }
+    span.setAttribute("http.response.status_code", res.statusCode);
+    if (res.statusCode >= 500) {
+      span.setStatus({ code: SpanStatusCode.ERROR });
+    }
+    span.end();
+  });
+  context.with(trace.setSpan(context.active(), span), next);
+});
+
 // 静的ファイルの配信
 app.use(express.static(join(__dirname, "../public")));
 
 /**
- * ヘルスチェックエンドポイント
+ * 監査ログ（GET以外の操作と、認証・認可に失敗したリクエストを記録）
+ * 実行の場合は各エンドポイントが res.locals.audit に実行ID・プロンプト・エージェントを設定する
  */
-app.get("/health", (req, res) => {
-  res.json({ status: "ok", timestamp: new Date().toISOString() });
+app.use("/api", (req, res, next) => {
+  const startTime = Date.now();
+  res.on("close", () => {
+    if (req.method === "GET" && res.statusCode !== 401 && res.statusCode !== 403) {
+      return;
+    }
+    const principal = res.locals.principal as Principal | undefined;
+    appendAuditLog(
+      {
+        timestamp: new Date(startTime).toISOString(),
+        keyId: principal?.keyId,
+        via: principal?.via,
+        ip: req.ip,
+        method: req.method,
+        path: req.originalUrl,
+        status: res.statusCode,
+        durationMs: Date.now() - startTime,
+        ...res.locals.audit,
+      },
+      auditLogPath
+    );
+  });
+  next();
 });
 
 /**
- * マルチエージェント実行エンドポイント（ストリーミング版）
- * 
- * POST /api/execute/stream
- * Body: {
- *   prompt: string,
- *   taskType?: "code-generation" | "chat" | "code-completion" | "general" | "slide",
- *   language?: string,
- *   agents?: ("codex" | "claude" | "gemini")[],
- *   model?: { codex?: string, claude?: string, gemini?: string },
- *   timeout?: number
- * }
+ * リクエストのCookieを取得する
+ *
+ * @param req リクエスト
+ * @param name Cookie名
+ * @returns Cookieの値（ない場合・値のエンコードが不正な場合はundefined）
  */
-app.post("/api/execute/stream", async (req, res) => {
-  try {
-    const { prompt, taskType, language, agents, model, timeout } = req.body;
-
-    if (!prompt || typeof prompt !== "string") {
-      return res.status(400).json({
-        error: "prompt is required and must be a string",
-      });
+function readCookie(req: IncomingMessage, name: string): string | undefined {
+  for (const pair of (req.headers.cookie || "").split(";")) {
+    const idx = pair.indexOf("=");
+    if (idx > 0 && pair.slice(0, idx).trim() === name) {
+      try {
+        return decodeURIComponent(pair.slice(idx + 1).trim());
+      } catch {
+        // 不正な % エスケープはCookieがないものとして扱う（認証エラーになる）
+        return undefined;
+      }
     }
+  }
+  return undefined;
+}
 
-    const options: MultiAgentOptions = {
-      taskType: taskType || "general",
-      language,
-      model,
-      agents: agents || ["codex", "claude", "gemini"],
-      timeout: timeout || 300000,
-    };
+/**
+ * リクエストの相関IDを取得する（X-Correlation-ID・X-Request-ID の形式が不正な場合やない場合は生成する）
+ *
+ * @param req リクエスト
+ * @returns 相関ID
+ */
+function resolveCorrelationId(req: IncomingMessage): string {
+  for (const name of ["x-correlation-id", "x-request-id"]) {
+    const value = req.headers[name];
+    if (typeof value === "string" && CORRELATION_ID_PATTERN.test(value)) {
+      return value;
+    }
+  }
+  return randomUUID();
+}
 
-    // SSE設定
-    res.setHeader("Content-Type", "text/event-stream");
-    res.setHeader("Cache-Control", "no-cache");
-    res.setHeader("Connection", "keep-alive");
-    res.setHeader("Access-Control-Allow-Origin", "*");
+/**
+ * エラーレスポンスを共通の形式（{ success: false, code, error, details?, timestamp }）で送信する
+ *
+ * @param res レスポンス
+ * @param error エラー（ApiError 以外は internal_error）
+ */
+function sendError(res: express.Response, error: unknown): void {
+  const { status, body } = toErrorResponse(error);
+  res.status(status).json(body);
+}
 
-    const sendEvent = (event: string, data: any) => {
-      res.write(`event: ${event}\n`);
-      res.write(`data: ${JSON.stringify(data)}\n\n`);
-    };
+/**
+ * リクエストの値をスキーマで検証し、不正な場合は invalid_request を送信する
+ *
+ * @param res レスポンス
+ * @param schema スキーマ
+ * @param value 検証する値（リクエストボディ・クエリ）
+ * @param location エラーに表示する値の位置（body・query）
+ * @returns 不正な場合true（エラーレスポンスを送信済み）
+ */
+function rejectInvalid(res: express.Response, schema: JsonSchema, value: unknown, location: string): boolean {
+  const issues = validateSchema(schema, value ?? {}, location);
+  if (issues.length === 0) {
+    return false;
+  }
+  sendError(res, validationError(issues));
+  return true;
+}
 
-    console.log(`[Server] マルチエージェント実行開始（ストリーミング） [prompt=${prompt.substring(0, 50)}..., agents=${options.agents?.join(",")}]`);
+/**
+ * OpenAPIドキュメントエンドポイント（認証不要、Web UIの /docs.html で表示）
+ *
+ * GET /api/openapi.json
+ */
+app.get("/api/openapi.json", (req, res) => {
+  try {
+    res.json(buildOpenApiDocument(listAgents().map((agent) => agent.id), apiKeys.length > 0));
+  } catch (error: any) {
+    log.error("OpenAPIドキュメントの生成エラー", { error });
+    sendError(res, error);
+  }
+});
 
-    sendEvent("start", { message: "マルチエージェント実行を開始しました", prompt, options });
+/**
+ * セッションログインエンドポイント（APIキーを検証してセッションCookieを発行）
+ *
+ * POST /api/auth/login
+ * Body: { apiKey: string }
+ */
+app.post("/api/auth/login", (req, res) => {
+  if (!session || apiKeys.length === 0) {
+    return sendError(res, new ApiError("not_found", "session authentication is not enabled"));
+  }
+  if (rejectInvalid(res, LOGIN_REQUEST_SCHEMA, req.body, "body")) {
+    return;
+  }
 
-    const startTime = Date.now();
-    const agentResults: any[] = [];
-    const slideParsers = new Map<string, IncrementalSlideParser>();
+  const key = authenticateApiKey(apiKeys, req.body.apiKey);
+  if (!key) {
+    return sendError(res, new ApiError("unauthorized", "invalid API key"));
+  }
 
-    // プロンプトからテーマを抽出（スライド生成の場合）
-    let theme: string | undefined;
-    if (taskType === "slide") {
-      const { extractTheme } = await import("./services/prompt-parser.js");
-      theme = extractTheme(prompt);
-    }
+  res.locals.principal = { keyId: key.id, via: "session" } satisfies Principal;
+  res.cookie(SESSION_COOKIE, createSessionToken(key.id, session), {
+    httpOnly: true,
+    sameSite: "strict",
+    secure: req.secure,
+    maxAge: session.ttl * 1000,
+  });
+  log.info("セッションを開始しました", { keyId: key.id });
+  res.json({ success: true, keyId: key.id, expiresAt: new Date(Date.now() + session.ttl * 1000).toISOString() });
+});
 
-    // 各エージェントを並列実行
-    const agentPromises = options.agents?.map(async (agentName) => {
-      // スライド生成の場合はインクリメンタルパーサーを初期化
-      if (taskType === "slide") {
-        const parser = new IncrementalSlideParser();
-        if (theme) {
-          parser.setTheme(theme);
-        }
-        slideParsers.set(agentName, parser);
-      }
-      const agentStartTime = Date.now();
-      sendEvent("agent-start", { agent: agentName, message: `${agentName}の実行を開始しました` });
+/**
+ * セッションログアウトエンドポイント
+ *
+ * POST /api/auth/logout
+ */
+app.post("/api/auth/logout", (req, res) => {
+  res.clearCookie(SESSION_COOKIE);
+  res.json({ success: true });
+});
 
-      try {
-        let result: string;
-        const agentOptions = { language, cwd: process.cwd() };
-
-        if (agentName === "codex") {
-          const { generateCode, generateCodeStream } = await import("./adapters/codex.js");
-          if (taskType === "slide") {
-            // 並列スライド生成を使用（高速化）
-            const { generateSlidesInParallel } = await import("./services/parallel-slide-generator.js");
-            
-            try {
-              // プロンプトからスライド枚数を抽出
-              const { extractSlideCount, extractTheme } = await import("./services/prompt-parser.js");
-              const slideCount = extractSlideCount(prompt);
-              const theme = extractTheme(prompt);
-              
-              // 並列数を決定（デフォルト16、スライド枚数が多い場合はスライド枚数を使用）
-              const parallelCount = Math.max(slideCount, 16);
-              
-              console.log(`[Server] スライド枚数: ${slideCount}枚, テーマ: ${theme}, 並列数: ${parallelCount}`);
-              
-              // 並列スライド生成を開始（Figma Makeを参考）
-              const slides: any[] = [];
-              for await (const slideBatch of generateSlidesInParallel(
-                prompt,
-                slideCount,
-                options.agents || ["codex"],
-                sendEvent,
-                true, // Web検索とFigma Make参照を有効化（プロンプト内に含まれる）
-                theme, // テーマを渡す
-                parallelCount // 並列数を渡す
-              )) {
-                slides.push(...slideBatch);
-              }
-              
-              // 結果を統合
-              result = slides.map(s => `## ${s.title}\n\n${s.content}`).join('\n\n---\n\n');
-              
-              // 最終スライドデッキを送信
-              if (slides.length > 0) {
-                const finalSlideDeck: SlideDeck = {
-                  title: prompt.substring(0, 50) + "...",
-                  slides: slides,
-                  createdAt: new Date().toISOString(),
-                };
-                finalSlideDeck.marpMarkdown = generateMarpMarkdown(finalSlideDeck);
-                sendEvent("slide-complete", {
-                  agent: agentName,
-                  slideDeck: finalSlideDeck,
-                });
-              }
-            } catch (parallelError: any) {
-              // 並列生成が失敗した場合は通常のストリーミングで実行
-              console.error(`[Server] 並列スライド生成エラー [agent=${agentName}, error=${parallelError.message}]`);
-              
-              let streamedResult = "";
-              // Figma Makeを参考にした高品質なスライド生成プロンプト
-            const slidePrompt = `IMPORTANT: Reference Figma Make's design principles and search for the latest professional slide design best practices. Use web search to find information about Figma Make and modern presentation design trends.
-
-Create a professional slide deck presentation about: ${prompt}. 
-
-CRITICAL DESIGN REQUIREMENTS (Figma Make level quality):
-1. Each slide must have ONE powerful sentence (max 15 words, impactful and memorable)
-2. Format: ## Slide Title (one line, bold and clear)
-3. Content: One compelling sentence that delivers the message (max 15 words)
-4. Separate slides with --- on a new line
-5. Design thinking: Each slide should be visually stunning, with clear hierarchy
-6. Professional presentation standards: Clean, modern, and engaging
-7. Visual storytelling: Each slide tells a story, not just information
-8. Typography: Use clear, readable fonts and proper spacing
-9. Color psychology: Suggest appropriate colors based on content (e.g., tech=blue, business=purple, creative=pink)
-10. Layout: Balanced composition with proper white space
-
-Example format:
-## Introduction
-Multi-agent systems revolutionize how AI agents collaborate and solve complex problems.
-
----
-
-## Core Architecture
-Distributed agents communicate through message passing and shared knowledge bases.
-
----
-
-Generate 12-16 slides following this format. Make each slide visually distinct and professionally designed.`;
-              const parser = slideParsers.get(agentName);
-              
-              try {
-                for await (const chunk of generateCodeStream(slidePrompt, {
-                  ...agentOptions,
-                  maxTokens: 4000,
-                })) {
-                  streamedResult += chunk;
-                  // インクリメンタルパーサーでスライドを更新
-                  if (parser) {
-                    const previousSlideCount = parser.getSlideDeck("").slides.length;
-                    await parser.append(chunk);
-                    const partialSlideDeck = parser.getSlideDeck(prompt.substring(0, 50) + "...");
-                    const currentSlideCount = partialSlideDeck.slides.length;
-                    
-                    // スライドが追加された場合、または定期的に更新（より頻繁に）
-                    if (currentSlideCount > previousSlideCount || chunk.length > 0) {
-                      partialSlideDeck.marpMarkdown = generateMarpMarkdown(partialSlideDeck);
-                      sendEvent("slide-stream", {
-                        agent: agentName,
-                        chunk,
-                        currentText: streamedResult,
-                        slideDeck: partialSlideDeck,
-                        newSlideCount: currentSlideCount,
-                        previousSlideCount: previousSlideCount,
-                      });
-                    }
-                  }
-                }
-                result = streamedResult;
-              } catch (streamError: any) {
-                console.error(`[Server] ストリーミングエラー [agent=${agentName}, error=${streamError.message}]`);
-                result = await generateCode(slidePrompt, {
-                  ...agentOptions,
-                  maxTokens: 4000,
-                });
-              }
-            }
-          } else {
-            result = await generateCode(prompt, {
-              ...agentOptions,
-              maxTokens: 2000,
-            });
-          }
-        } else if (agentName === "claude") {
-          const { chatWithClaude, generateCodeWithClaude } = await import("./adapters/claude.js");
-          if (taskType === "slide") {
-            result = await chatWithClaude(`Create a slide deck presentation about: ${prompt}. Format each slide with ## Slide Title followed by content. Use --- to separate slides. Generate 10-16 slides.`, {
-              model: model?.claude || "claude-3-opus",
-              cwd: process.cwd(),
-            });
-          } else if (taskType === "code-generation") {
-            result = await generateCodeWithClaude(prompt, {
-              ...agentOptions,
-              model: model?.claude || "claude-3-opus",
-            });
-          } else {
-            result = await chatWithClaude(prompt, {
-              model: model?.claude || "claude-3-opus",
-              cwd: process.cwd(),
-            });
-          }
-        } else if (agentName === "gemini") {
-          const { chatWithGemini, generateCodeWithGemini } = await import("./adapters/gemini.js");
-          try {
-            if (taskType === "slide") {
-              result = await chatWithGemini(`Create a slide deck presentation about: ${prompt}. Format each slide with ## Slide Title followed by content. Use --- to separate slides. Generate 10-16 slides.`, {
-                model: model?.gemini || "gemini-pro",
-                cwd: process.cwd(),
-              });
-            } else if (taskType === "code-generation") {
-              result = await generateCodeWithGemini(prompt, {
-                ...agentOptions,
-                model: model?.gemini || "gemini-pro",
-              });
-            } else {
-              result = await chatWithGemini(prompt, {
-                model: model?.gemini || "gemini-pro",
-                cwd: process.cwd(),
-              });
-            }
-          } catch (error: any) {
-            // GeminiのAPIキーエラーの場合、より分かりやすいメッセージを表示
-            if (error.message.includes("Auth method") || error.message.includes("GEMINI_API_KEY")) {
-              throw new Error("Gemini APIキーが設定されていません。環境変数 GEMINI_API_KEY を設定するか、~/.gemini/settings.json を設定してください。");
-            }
-            throw error;
-          }
-        } else {
-          throw new Error(`Unknown agent: ${agentName}`);
-        }
+/**
+ * リクエストの利用者を識別する（Authorization: Bearer <key>・X-API-Key ヘッダー、またはセッションCookie）
+ *
+ * @param req リクエスト（WebSocketの接続要求を含む）
+ * @returns 利用者
+ * @throws {ApiError} APIキーが不正な場合・認証情報がない場合（unauthorized）
+ */
+function authenticateRequest(req: IncomingMessage): Principal {
+  const authorization = req.headers.authorization;
+  const header = req.headers["x-api-key"];
+  const apiKey = authorization?.startsWith("Bearer ")
+    ? authorization.slice(7).trim()
+    : Array.isArray(header)
+      ? header[0]
+      : header;
+  let principal: Principal | undefined;
+  if (apiKey) {
+    const key = authenticateApiKey(apiKeys, apiKey);
+    principal = key && { keyId: key.id, via: "api-key", agents: key.agents, quota: key.quota, admin: key.admin };
+  } else {
+    const token = session ? readCookie(req, SESSION_COOKIE) : undefined;
+    const keyId = token && session ? verifySessionToken(token, session.secret) : undefined;
+    // 設定から削除されたキーのセッションは無効
+    const key = keyId ? apiKeys.find((k) => k.id === keyId) : undefined;
+    principal = key && { keyId: key.id, via: "session", agents: key.agents, quota: key.quota, admin: key.admin };
+  }
 
-        const executionTime = Date.now() - agentStartTime;
-        const agentResult = {
-          agent: agentName,
-          success: true,
-          result,
-          executionTime,
-        };
+  if (!principal) {
+    throw new ApiError("unauthorized", apiKey ? "invalid API key" : "authentication required");
+  }
+  return principal;
+}
 
-        agentResults.push(agentResult);
-        sendEvent("agent-complete", {
-          agent: agentName,
-          message: `${agentName}の実行が完了しました`,
-          executionTime,
-          result: result.substring(0, 200) + (result.length > 200 ? "..." : ""),
-        });
+/**
+ * 認証（APIキーが設定されている場合のみ）
+ * 利用者を識別して res.locals.principal に設定する
+ */
+app.use("/api", (req, res, next) => {
+  if (apiKeys.length === 0) {
+    return next();
+  }
 
-        // スライド生成の場合、最初の成功した結果でスライドを生成
-        if (taskType === "slide") {
-          try {
-            const slides = parseSlidesFromMarkdown(result);
-            if (slides.length > 0) {
-              const slideDeck: SlideDeck = {
-                title: prompt.substring(0, 50) + "...",
-                slides,
-                createdAt: new Date().toISOString(),
-              };
-              // Marp形式のMarkdownを生成
-              slideDeck.marpMarkdown = generateMarpMarkdown(slideDeck);
-              sendEvent("slide-generated", {
-                message: `${agentName}からスライドが生成されました（${slides.length}枚）`,
-                agent: agentName,
-                slideDeck,
-              });
-            }
-          } catch (error: any) {
-            console.error(`[Server] スライド生成エラー [agent=${agentName}, error=${error.message}]`);
-          }
-        }
+  try {
+    res.locals.principal = authenticateRequest(req);
+  } catch (error) {
+    res.setHeader("WWW-Authenticate", 'Bearer realm="qezu"');
+    return sendError(res, error);
+  }
+  next();
+});
 
-        return agentResult;
-      } catch (error: any) {
-        const executionTime = Date.now() - agentStartTime;
-        const agentResult = {
-          agent: agentName,
-          success: false,
-          error: error.message,
-          executionTime,
-        };
+/**
+ * 認証中の利用者エンドポイント（許可されたエージェント・利用枠と当日の利用状況）
+ *
+ * GET /api/auth/me
+ */
+app.get("/api/auth/me", async (req, res) => {
+  try {
+    const principal = res.locals.principal as Principal | undefined;
+    if (!principal) {
+      return res.json({ authenticated: false, authEnabled: false });
+    }
+    res.json({
+      authenticated: true,
+      authEnabled: true,
+      ...principal,
+      today: await getKeyUsage(getJobStore().connection, principal.keyId),
+    });
+  } catch (error: any) {
+    log.error("利用状況の取得エラー", { error });
+    sendError(res, error);
+  }
+});
 
-        agentResults.push(agentResult);
-        sendEvent("agent-error", {
-          agent: agentName,
-          message: `${agentName}の実行でエラーが発生しました`,
-          error: error.message,
-          executionTime,
-        });
+/**
+ * ジョブキューへの接続（ジョブ操作APIの初回呼び出し時に接続）
+ */
+let jobStore: { connection: IORedis; queues: QueuePool } | undefined;
 
-        return agentResult;
-      }
-    }) || [];
+/**
+ * ジョブキューへの接続を取得する
+ */
+function getJobStore(): { connection: IORedis; queues: QueuePool } {
+  if (!jobStore) {
+    const connection = createRedisConnection();
+    jobStore = { connection, queues: createQueuePool(connection) };
+  }
+  return jobStore;
+}
 
-    // すべてのエージェントの完了を待つ
-    await Promise.all(agentPromises);
+/**
+ * キュー経由の実行に使用する接続（queue モードの初回実行時に接続）
+ */
+let queueExecution: QueueExecutionContext | undefined;
 
-    const totalTime = Date.now() - startTime;
-    const successfulResults = agentResults.filter((r) => r.success && r.result);
-    const aggregated = successfulResults
-      .map((r, idx) => `## ${r.agent.toUpperCase()}\n\n${r.result}`)
-      .join("\n\n---\n\n");
-
-    const summary = {
-      total: agentResults.length,
-      success: successfulResults.length,
-      failed: agentResults.length - successfulResults.length,
-      averageTime:
-        agentResults.reduce((sum, r) => sum + r.executionTime, 0) / agentResults.length || 0,
-      totalExecutionTime: totalTime,
+/**
+ * キュー経由の実行に使用する接続を取得する
+ */
+function getQueueExecution(): QueueExecutionContext {
+  if (!queueExecution) {
+    const { connection, queues } = getJobStore();
+    const queueEvents = new Map<string, QueueEvents>();
+    queueExecution = {
+      connection,
+      queues,
+      flowProducer: new FlowProducer({ connection }),
+      getQueueEvents: (queueName) => {
+        let events = queueEvents.get(queueName);
+        if (!events) {
+          events = new QueueEvents(queueName, { connection });
+          // 実行中のリクエストごとに progress のリスナーを登録するため上限を設けない
+          events.setMaxListeners(0);
+          events.on("error", (error: Error) => {
+            log.error("QueueEventsエラー", { queueName, error });
+          });
+          queueEvents.set(queueName, events);
+        }
+        return events;
+      },
     };
+  }
+  return queueExecution;
+}
 
-    // スライド生成の場合、スライドを生成
-    let slideDeck: SlideDeck | null = null;
-    if (taskType === "slide" && successfulResults.length > 0) {
-      try {
-        const bestResult = successfulResults[0]; // 最初の成功した結果を使用
-        const slides = parseSlidesFromMarkdown(bestResult.result);
-        slideDeck = {
-          title: prompt.substring(0, 50) + "...",
-          slides,
-          createdAt: new Date().toISOString(),
-        };
-        // Marp形式のMarkdownを生成
-        slideDeck.marpMarkdown = generateMarpMarkdown(slideDeck);
-        sendEvent("slide-generated", {
-          message: "スライドが生成されました",
-          slideDeck,
-        });
-      } catch (error: any) {
-        console.error(`[Server] スライド生成エラー [error=${error.message}]`);
-      }
-    }
+/**
+ * Webからの実行の使用量を記録する（認証が有効な場合はAPIキーの利用枠にも計上する）
+ *
+ * 記録に失敗しても実行は継続する（警告のみ）。
+ *
+ * @param runId 実行ID
+ * @param agent エージェントID
+ * @param usage 使用量
+ * @param principal 実行した利用者
+ * @returns 予算・利用枠の上限を超えた場合はその理由
+ */
+async function trackRunUsage(
+  runId: string,
+  agent: string,
+  usage: AgentUsage,
+  principal?: Principal
+): Promise<string | undefined> {
+  try {
+    const reports = await recordUsage(getJobStore().connection, runId, agent, usage, principal?.keyId);
+    const quota = principal?.quota && reports.key ? exceedsBudget(reports.key.total, principal.quota) : undefined;
+    return checkReports(reports) ?? (quota ? `quota ${quota}` : undefined);
+  } catch (error: any) {
+    log.warn("使用量の記録に失敗しました", { runId, agent, error });
+    return undefined;
+  }
+}
 
-    // 完了イベントを確実に送信
-    sendEvent("complete", {
-      message: "すべてのエージェントの実行が完了しました",
-      results: agentResults,
-      aggregated,
-      summary,
-      slideDeck,
-    });
-    
-    // 最終結果も送信（クライアント側で処理しやすくするため）
-    sendEvent("final", {
-      results: agentResults,
-      aggregated,
-      summary,
-      slideDeck,
+/**
+ * 予算が設定されている場合、実行前に当日の使用量を確認する
+ *
+ * @param runId 実行ID
+ * @returns 予算の上限を超えている場合はその理由
+ */
+async function checkRunBudget(runId: string): Promise<string | undefined> {
+  const budget = getBudget();
+  return hasBudget(budget) ? checkBudget(getJobStore().connection, runId, budget) : undefined;
+}
+
+/**
+ * 利用者が実行できるか確認し、実行できる場合は当日の実行回数に計上する
+ *
+ * @param principal 利用者（認証が無効な場合はundefined）
+ * @param options 実行オプション
+ * @throws {ApiError} 許可されていないエージェントを使用する場合（forbidden）、利用枠に達している場合（quota_exceeded）
+ */
+async function authorizeRun(principal: Principal | undefined, options: MultiAgentOptions): Promise<void> {
+  if (!principal) {
+    return;
+  }
+
+  const disallowed = findDisallowedAgents(principal, options);
+  if (disallowed.length > 0) {
+    throw new ApiError("forbidden", `agents not allowed for this API key: ${disallowed.join(", ")}`, {
+      agents: disallowed,
     });
-    
-    // SSEストリームを確実に終了
-    console.log(`[Server] すべてのエージェントの実行が完了しました [totalTime=${totalTime}ms]`);
-    res.write(`event: end\n`);
-    res.write(`data: ${JSON.stringify({ message: "ストリーム終了" })}\n\n`);
-    res.end();
-  } catch (error: any) {
-    console.error(`[Server] エラー [error=${error.message}]`);
-    res.write(`event: error\n`);
-    res.write(`data: ${JSON.stringify({ error: error.message })}\n\n`);
-    res.end();
   }
+
+  await reserveQuota(principal);
+}
+
+/**
+ * 利用者の当日の実行回数に1回分を計上する（利用枠がない場合は何もしない）
+ *
+ * @param principal 利用者（認証が無効な場合はundefined）
+ * @throws {ApiError} 利用枠に達している場合（quota_exceeded）
+ */
+async function reserveQuota(principal: Principal | undefined): Promise<void> {
+  if (principal?.quota) {
+    const { connection } = getJobStore();
+    const exceeded = await reserveKeyRun(connection, principal.keyId, principal.quota);
+    if (exceeded) {
+      throw new ApiError("quota_exceeded", `quota exceeded: ${exceeded}`);
+    }
+  }
+}
+
+/**
+ * ヘルスチェックエンドポイント（認証不要）
+ */
+app.get("/health", (req, res) => {
+  res.json({ status: "ok", timestamp: new Date().toISOString() });
 });
 
 /**
- * マルチエージェント実行エンドポイント
- * 
- * POST /api/execute
- * Body: {
- *   prompt: string,
- *   taskType?: "code-generation" | "chat" | "code-completion" | "general",
- *   language?: string,
- *   agents?: ("codex" | "claude" | "gemini")[],
- *   model?: { codex?: string, claude?: string, gemini?: string },
- *   timeout?: number
- * }
+ * Prometheusメトリクスエンドポイント（認証不要、公開範囲はネットワークで制限する）
+ * キューの深さはメトリクスの取得時にRedisから集計する
+ *
+ * GET /metrics
  */
-app.post("/api/execute", async (req, res) => {
-  try {
-    const { prompt, taskType, language, agents, model, timeout } = req.body;
+if (metricsConfig.enabled) {
+  initMetrics("server");
+  trackQueueDepth(() => getJobStore().queues);
 
-    if (!prompt || typeof prompt !== "string") {
-      return res.status(400).json({
-        error: "prompt is required and must be a string",
-      });
+  app.get("/metrics", async (req, res) => {
+    try {
+      const { contentType, body } = await renderMetrics();
+      res.setHeader("Content-Type", contentType);
+      res.send(body);
+    } catch (error: any) {
+      log.error("メトリクスの取得エラー", { error });
+      sendError(res, error);
     }
+  });
+}
+
+/**
+ * 検証済みのマルチエージェント実行リクエスト
+ */
+interface ExecuteRequest {
+  prompt: string;
+  options: MultiAgentOptions;
+  /** 実行モード（リクエストで未指定の場合は QEZU_EXECUTION_MODE・qezu.config.yaml の execution.mode） */
+  execution: ExecutionMode;
+}
+
+/**
+ * マルチエージェント実行リクエストを検証して実行オプションに変換する
+ *
+ * @param body リクエストボディ
+ * @returns プロンプトと実行オプション
+ * @throws {ApiError} リクエストが不正な場合（invalid_request）
+ */
+function parseExecuteRequest(body: any): ExecuteRequest {
+  const issues = validateSchema(executeRequestSchema(listAgents().map((agent) => agent.id)), body ?? {}, "body");
+  if (issues.length > 0) {
+    throw validationError(issues);
+  }
 
-    const options: MultiAgentOptions = {
+  const { prompt, taskType, language, agents, model, timeout, aggregation, judge, rounds, fallbacks, hedgeAfter, execution } =
+    body;
+  const mode = execution || getExecutionMode();
+  // キュー経由の実行ではエージェントを子ジョブとして順に投入するため、ヘッジ実行はできない
+  if (mode === "queue" && hedgeAfter !== undefined) {
+    throw validationError([{ path: "body.hedgeAfter", message: "is not supported with queue execution" }]);
+  }
+  return {
+    prompt,
+    options: {
       taskType: taskType || "general",
       language,
       model,
       agents: agents || ["codex", "claude", "gemini"],
       timeout: timeout || 300000,
-    };
+      aggregation,
+      judge,
+      rounds,
+      fallbacks,
+      hedgeAfter,
+    },
+    execution: mode,
+  };
+}
+
+/**
+ * マルチエージェントを実行して結果をJSONで返し、実行履歴に保存する（/api/execute・再実行で共通）
+ *
+ * @param res レスポンス
+ * @param request 検証済みのリクエスト
+ * @param replayOf 再実行の場合の元の実行ID
+ */
+async function respondExecute(res: express.Response, request: ExecuteRequest, replayOf?: string): Promise<void> {
+  const { prompt, options, execution } = request;
+  const principal = res.locals.principal as Principal | undefined;
+  res.locals.audit = { prompt: prompt.substring(0, 200), agents: options.agents };
+  await authorizeRun(principal, options);
 
-    console.log(`[Server] マルチエージェント実行開始 [prompt=${prompt.substring(0, 50)}..., agents=${options.agents?.join(",")}]`);
+  // 当日の予算を使い切っている場合は実行しない
+  const runId = randomUUID();
+  res.locals.audit.runId = runId;
+  const overBudget = await checkRunBudget(runId);
+  if (overBudget) {
+    throw new ApiError("budget_exceeded", `budget exceeded: ${overBudget}`);
+  }
 
-    const startTime = Date.now();
-    const result = await executeMultiAgent(prompt, options);
-    const totalTime = Date.now() - startTime;
+  // クライアントが切断した場合・予算の上限を超えた場合は実行中のエージェントを中断
+  const abortController = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) {
+      abortController.abort();
+    }
+  });
 
-    console.log(`[Server] マルチエージェント実行完了 [totalTime=${totalTime}ms, success=${result.summary.success}/${result.summary.total}]`);
+  let budgetExceeded: string | undefined;
+  const onUsage = async (agent: string, usage: AgentUsage) => {
+    const exceeded = await trackRunUsage(runId, agent, usage, principal);
+    if (exceeded && !budgetExceeded) {
+      budgetExceeded = exceeded;
+      log.warn("予算の上限を超えたため実行を中断します", { runId, reason: exceeded });
+      abortController.abort();
+    }
+  };
 
-    res.json({
-      success: true,
+  log.info("マルチエージェント実行開始", {
+    runId,
+    execution,
+    prompt: prompt.substring(0, 50),
+    agents: options.agents,
+    replayOf,
+  });
+
+  const startTime = Date.now();
+  const runOptions: MultiAgentOptions = { ...options, signal: abortController.signal, onUsage };
+  let result: MultiAgentResult;
+  try {
+    result =
+      execution === "queue"
+        ? await executeMultiAgentViaQueue(getQueueExecution(), runId, prompt, runOptions, principal?.keyId)
+        : await executeMultiAgent(prompt, runOptions);
+  } catch (error: any) {
+    // 失敗した実行も履歴に保存し、確認・再実行できるようにする
+    recordRun({
+      id: runId,
+      source: "execute",
+      status: "failed",
       prompt,
       options,
-      results: result.results,
-      aggregated: result.aggregated,
-      summary: {
-        ...result.summary,
-        totalExecutionTime: totalTime,
-      },
-      timestamp: new Date().toISOString(),
-    });
-  } catch (error: any) {
-    console.error(`[Server] エラー [error=${error.message}]`);
-    res.status(500).json({
-      success: false,
       error: error.message,
-      timestamp: new Date().toISOString(),
+      budgetExceeded,
+      replayOf,
+      keyId: principal?.keyId,
+      createdAt: new Date(startTime).toISOString(),
+      completedAt: new Date().toISOString(),
+      totalExecutionTime: Date.now() - startTime,
     });
+    throw error;
   }
-});
+  const totalTime = Date.now() - startTime;
+
+  log.info("マルチエージェント実行完了", {
+    totalTimeMs: totalTime,
+    success: `${result.summary.success}/${result.summary.total}`,
+  });
+
+  const summary = {
+    ...result.summary,
+    totalExecutionTime: totalTime,
+  };
+  recordRun({
+    id: runId,
+    source: "execute",
+    status: "completed",
+    prompt,
+    options,
+    results: result.results,
+    aggregated: result.aggregated,
+    aggregation: result.aggregation,
+    rounds: result.rounds,
+    summary,
+    budgetExceeded,
+    replayOf,
+    keyId: principal?.keyId,
+    createdAt: new Date(startTime).toISOString(),
+    completedAt: new Date().toISOString(),
+    totalExecutionTime: totalTime,
+  });
+
+  res.json({
+    success: true,
+    runId,
+    prompt,
+    options,
+    execution,
+    results: result.results,
+    aggregated: result.aggregated,
+    aggregation: result.aggregation,
+    rounds: result.rounds,
+    summary,
+    budgetExceeded,
+    replayOf,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+/**
+ * 実行のイベントをSSEで送信する（lastEventId より後の記録済みのイベントを送信した後、実行の終了まで新しいイベントを送信）
+ *
+ * @param res レスポンス
+ * @param runId 実行ID（runEvents に記録済みであること）
+ * @param lastEventId クライアントが受信済みの最後のイベントID（0の場合は最初から）
+ */
+function pipeRunEvents(res: express.Response, runId: string, lastEventId: number): void {
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.flushHeaders();
+
+  trackSseConnection(1);
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), SSE_HEARTBEAT_INTERVAL);
+  const unsubscribe = runEvents.subscribe(runId, lastEventId, {
+    onEvent: ({ id, event, data }: RunEvent) => {
+      res.write(`id: ${id}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    onEnd: () => {
+      clearInterval(heartbeat);
+      res.end();
+    },
+  });
+  res.on("close", () => {
+    trackSseConnection(-1);
+    clearInterval(heartbeat);
+    unsubscribe?.();
+  });
+}
+
+/**
+ * 実行中のストリーミング実行
+ */
+interface StreamRun {
+  runId: string;
+  /** 実行を中断する（実行中のエージェントを中断し、それまでの結果で完了する） */
+  cancel: () => void;
+  /** 実行中の操作（inline 実行のみ、queue 実行ではワーカーで実行するため操作できない） */
+  control?: RunControl;
+}
+
+/**
+ * 実行中のストリーミング実行（WebSocketからの操作に使用、実行の終了時に削除）
+ */
+const streamRuns = new Map<string, StreamRun>();
+
+/**
+ * ストリーミング実行を開始する（/api/execute/stream・WebSocketで共通）
+ *
+ * 利用者の認可と当日の予算を確認した後、イベントを runEvents に記録しながら実行する。
+ * すべての購読者が切断し、stream.resumeTimeout の間に再接続がない場合は実行を中断する。
+ *
+ * @param request 検証済みのリクエスト
+ * @param principal 実行する利用者
+ * @returns 実行ID・中断する関数・実行中の操作（イベントは runEvents.subscribe で受信する）
+ * @throws {ApiError} 許可されていないエージェント・利用枠の超過・予算の超過
+ */
+async function startStreamRun(request: ExecuteRequest, principal?: Principal): Promise<StreamRun> {
+  const { prompt, options, execution } = request;
+  await authorizeRun(principal, options);
+
+  // 当日の予算を使い切っている場合は実行しない
+  const runId = randomUUID();
+  const overBudget = await checkRunBudget(runId);
+  if (overBudget) {
+    throw new ApiError("budget_exceeded", `budget exceeded: ${overBudget}`);
+  }
+
+  // クライアントが再接続しなかった場合・予算の上限を超えた場合は実行中のエージェントを中断（子プロセスを終了）
+  const abortController = new AbortController();
+  const { signal } = abortController;
+  let clientClosed = false;
+  let idleTimer: NodeJS.Timeout | undefined;
+  runEvents.create(runId, {
+    keyId: principal?.keyId,
+    onIdle: () => {
+      log.info("クライアントが切断しました、再接続を待機します", { runId, timeoutMs: streamConfig.resumeTimeout });
+      clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => {
+        const stream = runEvents.get(runId);
+        if (stream && !stream.finished && stream.subscribers === 0) {
+          log.info("クライアントが再接続しなかったため、エージェントの実行を中断します", { runId });
+          clientClosed = true;
+          abortController.abort();
+        }
+      }, streamConfig.resumeTimeout);
+    },
+  });
+
+  const sendEvent = (event: string, data: any) => {
+    runEvents.publish(runId, event, data);
+  };
+  const control = execution === "inline" ? new RunControl() : undefined;
+  const startTime = Date.now();
+
+  const run = async () => {
+    log.info("マルチエージェント実行開始（ストリーミング）", {
+      runId,
+      execution,
+      prompt: prompt.substring(0, 50),
+      agents: options.agents,
+    });
+
+    sendEvent("start", { message: "マルチエージェント実行を開始しました", runId, prompt, options, execution });
+
+    // エージェントの使用量を記録し、予算の上限を超えた場合は残りのエージェントを中断
+    let budgetExceeded: string | undefined;
+    const trackUsage = async (agentName: string, usage: AgentUsage) => {
+      const exceeded = await trackRunUsage(runId, agentName, usage, principal);
+      if (exceeded && !budgetExceeded) {
+        budgetExceeded = exceeded;
+        log.warn("予算の上限を超えたため実行を中断します", { runId, reason: exceeded });
+        sendEvent("budget-exceeded", {
+          runId,
+          reason: exceeded,
+          message: `予算の上限を超えたため実行を中断しました [${exceeded}]`,
+        });
+        abortController.abort();
+      }
+    };
+
+    const runOptions: MultiAgentOptions = {
+      ...options,
+      signal,
+      // Redisへの記録を待たずに実行を続ける（予算超過時は記録後に残りのエージェントを中断）
+      onUsage: (agentName, usage) => void trackUsage(agentName, usage),
+      control,
+    };
+    const events =
+      execution === "queue"
+        ? streamMultiAgentViaQueue(getQueueExecution(), runId, prompt, runOptions, principal?.keyId)
+        : streamMultiAgent(prompt, runOptions);
+
+    let next = await events.next();
+    while (!next.done) {
+      const event = next.value;
+      switch (event.type) {
+        case "agent-start":
+          sendEvent("agent-start", {
+            agent: event.agent,
+            round: event.round,
+            message: `${event.agent}の実行を開始しました`,
+          });
+          break;
+
+        case "chunk":
+          sendEvent("agent-chunk", { agent: event.agent, chunk: event.chunk, round: event.round });
+          break;
+
+        case "agent-complete": {
+          const { result, executionTime, usage } = event.result;
+          sendEvent("agent-complete", {
+            agent: event.agent,
+            round: event.round,
+            message: `${event.agent}の実行が完了しました`,
+            executionTime,
+            usage,
+            result: (result || "").substring(0, 200) + ((result || "").length > 200 ? "..." : ""),
+          });
+
+          // スライド生成の場合、完了したエージェントの結果でスライドを生成
+          if (options.taskType === "slide" && result) {
+            try {
+              const slides = parseSlidesFromMarkdown(result);
+              if (slides.length > 0) {
+                const slideDeck: SlideDeck = {
+                  title: prompt.substring(0, 50) + "...",
+                  slides,
+                  createdAt: new Date().toISOString(),
+                };
+                // Marp形式のMarkdownを生成
+                slideDeck.marpMarkdown = generateMarpMarkdown(slideDeck);
+                sendEvent("slide-generated", {
+                  message: `${event.agent}からスライドが生成されました（${slides.length}枚）`,
+                  agent: event.agent,
+                  slideDeck,
+                });
+              }
+            } catch (error: any) {
+              log.error("スライド生成エラー", { agent: event.agent, error });
+            }
+          }
+          break;
+        }
+
+        case "agent-error":
+          sendEvent("agent-error", {
+            agent: event.agent,
+            round: event.round,
+            message: `${event.agent}の実行でエラーが発生しました`,
+            error: event.result.error,
+            executionTime: event.result.executionTime,
+          });
+          break;
+
+        case "round-complete":
+          sendEvent("debate-round", {
+            message: `ディベートのラウンド${event.round.round}/${event.round.rounds}が完了しました`,
+            ...event.round,
+          });
+          break;
+
+        case "slide":
+          sendEvent(event.event, event.data);
+          break;
+      }
+      next = await events.next();
+    }
+    const result = next.value;
+    const totalTime = Date.now() - startTime;
+
+    if (clientClosed) {
+      log.info("クライアント切断により実行を中断しました", { totalTimeMs: totalTime });
+      recordRun({
+        id: runId,
+        source: "stream",
+        status: "failed",
+        prompt,
+        options,
+        results: result.results,
+        summary: result.summary,
+        error: "client disconnected",
+        keyId: principal?.keyId,
+        createdAt: new Date(startTime).toISOString(),
+        completedAt: new Date().toISOString(),
+        totalExecutionTime: totalTime,
+      });
+      runEvents.finish(runId);
+      return;
+    }
+
+    // スライド生成の場合、最初の成功した結果でスライドを生成
+    let slideDeck: SlideDeck | null = null;
+    const bestResult = result.results.find((r) => r.success && r.result);
+    if (options.taskType === "slide" && bestResult?.result) {
+      try {
+        const slides = parseSlidesFromMarkdown(bestResult.result);
+        slideDeck = {
+          title: prompt.substring(0, 50) + "...",
+          slides,
+          createdAt: new Date().toISOString(),
+        };
+        // Marp形式のMarkdownを生成
+        slideDeck.marpMarkdown = generateMarpMarkdown(slideDeck);
+        sendEvent("slide-generated", {
+          message: "スライドが生成されました",
+          slideDeck,
+        });
+      } catch (error: any) {
+        log.error("スライド生成エラー", { error });
+      }
+    }
+
+    const completion = {
+      runId,
+      results: result.results,
+      aggregated: result.aggregated,
+      aggregation: result.aggregation,
+      rounds: result.rounds,
+      summary: { ...result.summary, totalExecutionTime: totalTime },
+      slideDeck,
+      budgetExceeded,
+    };
+
+    recordRun({
+      id: runId,
+      source: "stream",
+      status: "completed",
+      prompt,
+      options,
+      ...completion,
+      keyId: principal?.keyId,
+      createdAt: new Date(startTime).toISOString(),
+      completedAt: new Date().toISOString(),
+      totalExecutionTime: totalTime,
+    });
+
+    // 完了イベントを送信
+    sendEvent("complete", { message: "すべてのエージェントの実行が完了しました", ...completion });
+    // 最終結果も送信（クライアント側で処理しやすくするため）
+    sendEvent("final", completion);
+
+    // SSEストリームを確実に終了（再接続中のクライアントにも送信）
+    log.info("すべてのエージェントの実行が完了しました", { totalTimeMs: totalTime });
+    clearTimeout(idleTimer);
+    sendEvent("end", { message: "ストリーム終了" });
+    runEvents.finish(runId);
+  };
+  const streamRun: StreamRun = { runId, cancel: () => abortController.abort(), control };
+  streamRuns.set(runId, streamRun);
+  run()
+    .catch((error: any) => {
+      log.error("エラー", { runId, error });
+      recordRun({
+        id: runId,
+        source: "stream",
+        status: "failed",
+        prompt,
+        options,
+        error: error.message,
+        keyId: principal?.keyId,
+        createdAt: new Date(startTime).toISOString(),
+        completedAt: new Date().toISOString(),
+        totalExecutionTime: Date.now() - startTime,
+      });
+      const { body } = toErrorResponse(error);
+      sendEvent("error", { code: body.code, error: body.error });
+      runEvents.finish(runId);
+    })
+    .finally(() => streamRuns.delete(runId));
+
+  return streamRun;
+}
+
+/**
+ * マルチエージェント実行エンドポイント（ストリーミング版）
+ *
+ * /api/execute と同じオーケストレーターで実行し（execution: "queue" の場合はワーカーで実行）、実行中のイベントをSSEで送信する。
+ * イベントには連番の id が付き、切断した場合は GET /api/runs/:id/events（Last-Event-ID）で再接続できる。
+ * すべてのクライアントが切断し、stream.resumeTimeout の間に再接続がない場合は実行を中断する。
+ *
+ * POST /api/execute/stream
+ * Body: /api/execute と同じ（taskType に "slide" も指定可能）
+ *
+ * イベント: start, agent-start, agent-chunk, agent-complete, agent-error, debate-round,
+ *           slide-progress, slide-stream, slide-complete, slide-generated, budget-exceeded, complete, final, end
+ */
+app.post("/api/execute/stream", async (req, res) => {
+  try {
+    const request = parseExecuteRequest(req.body);
+    res.locals.audit = { prompt: request.prompt.substring(0, 200), agents: request.options.agents };
+    const { runId } = await startStreamRun(request, res.locals.principal);
+    res.locals.audit.runId = runId;
+    pipeRunEvents(res, runId, 0);
+  } catch (error: any) {
+    if (!(error instanceof ApiError)) {
+      log.error("エラー", { error });
+    }
+    // SSEの開始前（実行オプションの不正など）はJSONで返す
+    if (!res.headersSent && !res.destroyed) {
+      sendError(res, error);
+    }
+  }
+});
+
+/**
+ * マルチエージェント実行エンドポイント
+ * 
+ * POST /api/execute
+ * Body: {
+ *   prompt: string,
+ *   taskType?: "code-generation" | "chat" | "code-completion" | "general" | "slide" | "debate",
+ *   language?: string,
+ *   agents?: string[],  // 登録済みエージェントID（GET /api/agents）
+ *   model?: { codex?: string, claude?: string, gemini?: string },
+ *   timeout?: number,  // エージェントごとの実行期限（ミリ秒）
+ *   aggregation?: "concat" | "first-success" | "majority" | "judge" | "synthesis",
+ *   judge?: string,  // judge・synthesis で審査・統合を行うエージェントID（デフォルトは claude）
+ *   rounds?: number,  // ディベートのラウンド数（2以上、または taskType: "debate" でディベートモード）
+ *   fallbacks?: { [agent: string]: string[] },  // 失敗時に順に実行するエージェント（例: { gemini: ["claude", "codex"] }）
+ *   hedgeAfter?: number,  // この時間（ミリ秒）内に応答がない場合、フォールバックの次のエージェントを並行して開始
+ *   execution?: "inline" | "queue"  // queue の場合はジョブとして qezu-jobs に投入し、ワーカーで実行
+ * }
+ */
+app.post("/api/execute", async (req, res) => {
+  try {
+    await respondExecute(res, parseExecuteRequest(req.body));
+  } catch (error: any) {
+    if (!(error instanceof ApiError)) {
+      log.error("エラー", { error });
+    }
+    sendError(res, error);
+  }
+});
+
+/**
+ * 実行したAPIキーを確認する（認証が有効な場合は同じキーで開始した実行のみ操作できる）
+ *
+ * @param principal 利用者（認証が無効な場合はundefined）
+ * @param keyId 実行を開始したAPIキーID
+ * @param runId 実行ID
+ * @throws {ApiError} 別のAPIキーで開始した実行の場合（forbidden）
+ */
+function assertRunAccess(principal: Principal | undefined, keyId: string | undefined, runId: string): void {
+  if (!canAccess(principal, keyId)) {
+    throw new ApiError("forbidden", `run was started by another API key: ${runId}`);
+  }
+}
+
+/**
+ * 実行履歴一覧エンドポイント（新しい順、認証が有効な場合は利用者のキーの実行のみ）
+ *
+ * GET /api/runs?prompt=&source=&since=&until=&limit=&offset=
+ */
+app.get("/api/runs", (req, res) => {
+  try {
+    const principal = res.locals.principal as Principal | undefined;
+    if (rejectInvalid(res, LIST_RUNS_QUERY_SCHEMA, req.query, "query")) {
+      return;
+    }
+    const { prompt, source, since, until, limit, offset } = req.query as Record<string, string | undefined>;
+    for (const [key, value] of Object.entries({ since, until })) {
+      if (value && Number.isNaN(Date.parse(value))) {
+        return sendError(res, new ApiError("invalid_request", `query.${key} must be an ISO 8601 date`));
+      }
+    }
+    res.json(
+      listRuns({
+        prompt,
+        source: source as RunSource | undefined,
+        since,
+        until,
+        keyId: principal?.keyId,
+        limit: limit ? parseInt(limit, 10) : undefined,
+        offset: offset ? parseInt(offset, 10) : undefined,
+      })
+    );
+  } catch (error: any) {
+    log.error("実行履歴の取得エラー", { error });
+    sendError(res, error);
+  }
+});
+
+/**
+ * 実行履歴エンドポイント
+ *
+ * GET /api/runs/:id
+ */
+app.get("/api/runs/:id", (req, res) => {
+  try {
+    const run = getRun(req.params.id);
+    if (!run) {
+      return sendError(res, new ApiError("not_found", `run not found: ${req.params.id}`));
+    }
+    assertRunAccess(res.locals.principal, run.keyId, run.id);
+    res.json(run);
+  } catch (error: any) {
+    if (!(error instanceof ApiError)) {
+      log.error("実行履歴の取得エラー", { id: req.params.id, error });
+    }
+    sendError(res, error);
+  }
+});
+
+/**
+ * 実行イベントの再接続エンドポイント（SSE、EventSourceで接続可能）
+ * Last-Event-ID ヘッダー（または lastEventId クエリ）より後のイベントを送信し、実行中の場合は終了まで新しいイベントを送信する。
+ * イベントは実行の終了後 stream.retention の間保持される（それ以降は GET /api/runs/:id で結果を取得）
+ *
+ * GET /api/runs/:id/events?lastEventId=
+ */
+app.get("/api/runs/:id/events", (req, res) => {
+  try {
+    if (rejectInvalid(res, RUN_EVENTS_QUERY_SCHEMA, req.query, "query")) {
+      return;
+    }
+    const header = req.get("last-event-id");
+    if (header !== undefined && !/^[0-9]+$/.test(header)) {
+      return sendError(res, new ApiError("invalid_request", "Last-Event-ID must be a non-negative integer"));
+    }
+
+    const { id } = req.params;
+    const stream = runEvents.get(id);
+    if (!stream) {
+      return sendError(res, new ApiError("not_found", `run events not found: ${id}`));
+    }
+    // 認証が有効な場合は実行したAPIキーのみ再接続できる
+    assertRunAccess(res.locals.principal, stream.keyId, id);
+
+    const lastEventId = Number(header ?? req.query.lastEventId ?? 0);
+    log.info("実行イベントに再接続しました", { runId: id, lastEventId, finished: stream.finished });
+    pipeRunEvents(res, id, lastEventId);
+  } catch (error: any) {
+    if (!(error instanceof ApiError)) {
+      log.error("実行イベントの取得エラー", { id: req.params.id, error });
+    }
+    sendError(res, error);
+  }
+});
+
+/**
+ * 再実行エンドポイント
+ * 保存されたプロンプトと実行オプションで再実行し、/api/execute と同じ形式で結果を返す（新しい実行として保存）
+ *
+ * POST /api/runs/:id/replay
+ */
+app.post("/api/runs/:id/replay", async (req, res) => {
+  try {
+    const run = getRun(req.params.id);
+    if (!run) {
+      return sendError(res, new ApiError("not_found", `run not found: ${req.params.id}`));
+    }
+    assertRunAccess(res.locals.principal, run.keyId, run.id);
+    if (run.source === "job") {
+      return sendError(
+        res,
+        new ApiError("invalid_request", "only /api/execute and /api/execute/stream runs can be replayed")
+      );
+    }
+
+    // 保存後にエージェントが削除された場合などは invalid_request
+    await respondExecute(res, parseExecuteRequest({ ...run.options, prompt: run.prompt }), run.id);
+  } catch (error: any) {
+    if (!(error instanceof ApiError)) {
+      log.error("再実行エラー", { id: req.params.id, error });
+    }
+    sendError(res, error);
+  }
+});
+
+/**
+ * 管理者でない場合は forbidden とする（認証が無効な場合は誰でも操作できる）
+ */
+function assertAdmin(principal: Principal | undefined): void {
+  if (principal && !principal.admin) {
+    throw new ApiError("forbidden", "admin API key required");
+  }
+}
+
+/**
+ * ジョブを操作できない場合は forbidden とする（管理者以外は同じキーで投入したジョブのみ）
+ */
+function assertJobAccess(principal: Principal | undefined, job: Job): void {
+  if (!canManageJob(principal, job.data?.meta?.keyId)) {
+    throw new ApiError("forbidden", `job was enqueued by another API key: ${job.id}`);
+  }
+}
+
+/**
+ * ジョブキャンセルエンドポイント
+ * 待機中のジョブは実行されず、実行中のジョブはエージェントの子プロセスが終了される
+ *
+ * DELETE /api/jobs/:id
+ */
+app.delete("/api/jobs/:id", async (req, res) => {
+  try {
+    const { connection, queues } = getJobStore();
+    const job = await findJob(queues, req.params.id);
+    if (!job) {
+      return sendError(res, new ApiError("not_found", `job not found: ${req.params.id}`));
+    }
+    assertJobAccess(res.locals.principal, job);
+
+    const { jobId, state, cancelled, removed } = await requestJobCancel(connection, job);
+    if (cancelled.length === 0) {
+      return sendError(res, new ApiError("conflict", `job already finished: ${jobId}`, { state }));
+    }
+
+    log.info("ジョブのキャンセルを要求しました", { jobId, state, jobs: cancelled, removed });
+    res.json({
+      success: true,
+      jobId,
+      state,
+      cancelled,
+      removed,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    if (!(error instanceof ApiError)) {
+      log.error("ジョブキャンセルエラー", { error });
+    }
+    sendError(res, error);
+  }
+});
+
+/**
+ * ジョブ一覧エンドポイント（新しい順）
+ *
+ * GET /api/jobs?state=waiting|active|delayed|completed|failed|waiting-children|paused&queue=&offset=&limit=
+ */
+app.get("/api/jobs", async (req, res) => {
+  try {
+    assertAdmin(res.locals.principal);
+    if (rejectInvalid(res, LIST_JOBS_QUERY_SCHEMA, req.query, "query")) {
+      return;
+    }
+    const { state = "waiting", queue, offset, limit } = req.query as Record<string, string | undefined>;
+    if (queue && !listQueueNames().includes(queue)) {
+      return sendError(res, new ApiError("not_found", `queue not found: ${queue}`));
+    }
+
+    const { queues } = getJobStore();
+    res.json({
+      state,
+      ...(await listJobs(queues, state as ListJobState, {
+        queue,
+        offset: offset ? parseInt(offset, 10) : undefined,
+        limit: limit ? parseInt(limit, 10) : undefined,
+      })),
+    });
+  } catch (error: any) {
+    if (!(error instanceof ApiError)) {
+      log.error("ジョブ一覧の取得エラー", { error });
+    }
+    sendError(res, error);
+  }
+});
+
+/**
+ * ジョブ詳細エンドポイント（データ・結果・失敗理由・試行回数・ログ）
+ *
+ * GET /api/jobs/:id
+ */
+app.get("/api/jobs/:id", async (req, res) => {
+  try {
+    const { queues } = getJobStore();
+    const job = await findJob(queues, req.params.id);
+    if (!job) {
+      return sendError(res, new ApiError("not_found", `job not found: ${req.params.id}`));
+    }
+    assertJobAccess(res.locals.principal, job);
+    res.json(await describeJob(queues, job));
+  } catch (error: any) {
+    if (!(error instanceof ApiError)) {
+      log.error("ジョブの取得エラー", { jobId: req.params.id, error });
+    }
+    sendError(res, error);
+  }
+});
+
+/**
+ * ジョブ再試行エンドポイント（失敗したジョブのみ）
+ *
+ * POST /api/jobs/:id/retry
+ */
+app.post("/api/jobs/:id/retry", async (req, res) => {
+  try {
+    const job = await findJob(getJobStore().queues, req.params.id);
+    if (!job) {
+      return sendError(res, new ApiError("not_found", `job not found: ${req.params.id}`));
+    }
+    assertJobAccess(res.locals.principal, job);
+
+    const state = await job.getState();
+    if (state !== "failed") {
+      return sendError(res, new ApiError("conflict", `only failed jobs can be retried: ${job.id}`, { state }));
+    }
+
+    // 再試行も1回の実行として利用枠に計上する
+    await reserveQuota(res.locals.principal);
+    await job.retry("failed");
+    log.info("ジョブを再試行します", { jobId: job.id, queue: job.queueName });
+    res.json({ success: true, jobId: job.id, queue: job.queueName, timestamp: new Date().toISOString() });
+  } catch (error: any) {
+    if (!(error instanceof ApiError)) {
+      log.error("ジョブ再試行エラー", { jobId: req.params.id, error });
+    }
+    sendError(res, error);
+  }
+});
+
+/**
+ * ジョブ削除エンドポイント
+ * 実行中のジョブは削除できない（DELETE /api/jobs/:id でキャンセルする）。ワークフローの親ジョブは子ジョブも削除する
+ *
+ * POST /api/jobs/:id/remove
+ */
+app.post("/api/jobs/:id/remove", async (req, res) => {
+  try {
+    const job = await findJob(getJobStore().queues, req.params.id);
+    if (!job) {
+      return sendError(res, new ApiError("not_found", `job not found: ${req.params.id}`));
+    }
+    assertJobAccess(res.locals.principal, job);
+
+    const state = await job.getState();
+    if (state === "active") {
+      return sendError(res, new ApiError("conflict", `active jobs cannot be removed: ${job.id}`, { state }));
+    }
+
+    await job.remove({ removeChildren: true });
+    log.info("ジョブを削除しました", { jobId: job.id, queue: job.queueName, state });
+    res.json({ success: true, jobId: job.id, queue: job.queueName, state, timestamp: new Date().toISOString() });
+  } catch (error: any) {
+    if (!(error instanceof ApiError)) {
+      log.error("ジョブ削除エラー", { jobId: req.params.id, error });
+    }
+    sendError(res, error);
+  }
+});
+
+/**
+ * キュー一覧エンドポイント（状態ごとのジョブ数と一時停止中かどうか、管理者のみ）
+ *
+ * GET /api/queues
+ */
+app.get("/api/queues", async (req, res) => {
+  try {
+    assertAdmin(res.locals.principal);
+    const { queues } = getJobStore();
+    const result = [];
+    for (const name of listQueueNames()) {
+      const queue = queues.get(name);
+      const counts = await queue.getJobCounts(
+        "waiting",
+        "prioritized",
+        "active",
+        "delayed",
+        "completed",
+        "failed",
+        "waiting-children",
+        "paused"
+      );
+      result.push({
+        name,
+        paused: await queue.isPaused(),
+        counts: {
+          // 優先度付きで投入したジョブは prioritized として数えられる
+          waiting: (counts.waiting || 0) + (counts.prioritized || 0),
+          active: counts.active || 0,
+          delayed: counts.delayed || 0,
+          completed: counts.completed || 0,
+          failed: counts.failed || 0,
+          "waiting-children": counts["waiting-children"] || 0,
+          paused: counts.paused || 0,
+        },
+      });
+    }
+    res.json({ queues: result });
+  } catch (error: any) {
+    if (!(error instanceof ApiError)) {
+      log.error("キュー一覧の取得エラー", { error });
+    }
+    sendError(res, error);
+  }
+});
+
+/**
+ * キュー一時停止・再開エンドポイント（PM2クラスター全体のワーカーに適用、実行中のジョブは継続）
+ *
+ * POST /api/queues/:name/pause
+ * POST /api/queues/:name/resume
+ */
+app.post("/api/queues/:name/:action(pause|resume)", async (req, res) => {
+  try {
+    assertAdmin(res.locals.principal);
+    const { name, action } = req.params;
+    if (!listQueueNames().includes(name)) {
+      return sendError(res, new ApiError("not_found", `queue not found: ${name}`));
+    }
+
+    const queue = getJobStore().queues.get(name);
+    if (action === "pause") {
+      await queue.pause();
+    } else {
+      await queue.resume();
+    }
+    log.info(`キューを${action === "pause" ? "一時停止" : "再開"}しました`, { queue: name });
+    res.json({ success: true, queue: name, paused: await queue.isPaused(), timestamp: new Date().toISOString() });
+  } catch (error: any) {
+    if (!(error instanceof ApiError)) {
+      log.error("キュー操作エラー", { queue: req.params.name, error });
+    }
+    sendError(res, error);
+  }
+});
+
+/**
+ * キュー掃除エンドポイント（指定した時間より前に作成・終了したジョブを削除）
+ *
+ * POST /api/queues/:name/clean
+ * Body: {
+ *   olderThan: number,  // この時間（ミリ秒）より前のジョブを削除
+ *   state?: "completed" | "failed" | "delayed" | "waiting",  // デフォルトは completed
+ *   limit?: number  // 削除する最大件数（デフォルト1000）
+ * }
+ */
+app.post("/api/queues/:name/clean", async (req, res) => {
+  try {
+    assertAdmin(res.locals.principal);
+    const { name } = req.params;
+    if (!listQueueNames().includes(name)) {
+      return sendError(res, new ApiError("not_found", `queue not found: ${name}`));
+    }
+    if (rejectInvalid(res, CLEAN_QUEUE_REQUEST_SCHEMA, req.body, "body")) {
+      return;
+    }
+    const { olderThan, state = "completed", limit = 1000 } = req.body;
+
+    const queue = getJobStore().queues.get(name);
+    const removed = await queue.clean(olderThan, limit, state);
+    // 優先度付きで投入した待機中のジョブは prioritized として別に管理される
+    if (state === "waiting" && removed.length < limit) {
+      removed.push(...(await queue.clean(olderThan, limit - removed.length, "prioritized")));
+    }
+
+    log.info("キューを掃除しました", { queue: name, state, olderThanMs: olderThan, removed: removed.length });
+    res.json({ success: true, queue: name, state, removed, timestamp: new Date().toISOString() });
+  } catch (error: any) {
+    if (!(error instanceof ApiError)) {
+      log.error("キュー掃除エラー", { queue: req.params.name, error });
+    }
+    sendError(res, error);
+  }
+});
+
+/**
+ * 使用量取得エンドポイント（日ごと、すべてのキーの合計のため管理者のみ。キーごとの当日の使用量は /api/auth/me）
+ *
+ * GET /api/usage?date=YYYY-MM-DD  // 未指定時は当日
+ */
+app.get("/api/usage", async (req, res) => {
+  try {
+    assertAdmin(res.locals.principal);
+    if (rejectInvalid(res, USAGE_QUERY_SCHEMA, req.query, "query")) {
+      return;
+    }
+    const date = req.query.date as string | undefined;
+    const usage = await getDayUsage(getJobStore().connection, date);
+    res.json({ date: date || "today", usage, budget: getBudget() });
+  } catch (error: any) {
+    if (!(error instanceof ApiError)) {
+      log.error("使用量取得エラー", { error });
+    }
+    sendError(res, error);
+  }
+});
+
+/**
+ * 使用量取得エンドポイント（実行ごと）
+ * runId は /api/execute のレスポンス、またはワークフロー・ジョブのID
+ * 認証が有効な場合は利用者のキーで開始した実行のみ（実行中のストリーミング実行を含む）
+ *
+ * GET /api/usage/runs/:id
+ */
+app.get("/api/usage/runs/:id", async (req, res) => {
+  try {
+    const { id } = req.params;
+    assertRunAccess(res.locals.principal, getRun(id)?.keyId ?? runEvents.get(id)?.keyId, id);
+    const usage = await getRunUsage(getJobStore().connection, id);
+    res.json({ runId: id, usage });
+  } catch (error: any) {
+    if (!(error instanceof ApiError)) {
+      log.error("使用量取得エラー", { error });
+    }
+    sendError(res, error);
+  }
+});
 
 /**
  * エージェント一覧取得エンドポイント
  */
 app.get("/api/agents", (req, res) => {
   res.json({
-    agents: [
-      {
-        id: "codex",
-        name: "Codex",
-        description: "OpenAI Codex - コード生成に特化",
-        capabilities: ["code-generation", "code-completion"],
-      },
-      {
-        id: "claude",
-        name: "Claude",
-        description: "Anthropic Claude - 汎用AIアシスタント",
-        capabilities: ["code-generation", "chat", "general"],
-      },
-      {
-        id: "gemini",
-        name: "Gemini",
-        description: "Google Gemini - マルチモーダルAI",
-        capabilities: ["code-generation", "chat", "general"],
-      },
-    ],
+    agents: listAgents().map(({ id, name, description, capabilities }) => ({
+      id,
+      name,
+      description,
+      capabilities,
+    })),
   });
 });
 
@@ -510,28 +1610,315 @@ app.get("/api/agents", (req, res) => {
  */
 app.post("/api/slides/generate", async (req, res) => {
   try {
-    const { slideDeck } = req.body;
-    if (!slideDeck || !slideDeck.slides) {
-      return res.status(400).json({ error: "slideDeck is required" });
+    if (rejectInvalid(res, GENERATE_SLIDES_REQUEST_SCHEMA, req.body, "body")) {
+      return;
     }
-    const html = generateSlideHTML(slideDeck);
+    const html = generateSlideHTML(req.body.slideDeck);
     res.setHeader("Content-Type", "text/html");
     res.send(html);
   } catch (error: any) {
-    console.error(`[Server] スライド生成エラー [error=${error.message}]`);
-    res.status(500).json({ error: error.message });
+    log.error("スライド生成エラー", { error });
+    sendError(res, error);
+  }
+});
+
+/**
+ * 存在しないAPIへのリクエスト
+ */
+app.use("/api", (req, res) => {
+  sendError(res, new ApiError("not_found", `route not found: ${req.method} ${req.originalUrl}`));
+});
+
+/**
+ * エラーハンドリング（JSONの構文エラーなど、ルートの外で発生したエラーを共通の形式で返す）
+ */
+app.use((error: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (res.headersSent) {
+    return next(error);
+  }
+  if (error.type === "entity.parse.failed") {
+    return sendError(res, new ApiError("invalid_request", `invalid JSON body: ${error.message}`));
   }
+  if (error.type === "entity.too.large") {
+    return sendError(res, new ApiError("invalid_request", "request body is too large"));
+  }
+  log.error("エラー", { method: req.method, path: req.originalUrl, error });
+  sendError(res, error);
 });
 
+/**
+ * WebSocket APIのパス
+ */
+const SOCKET_PATH = "/api/ws";
+
+/**
+ * WebSocket API（接続要求はHTTPサーバーの upgrade で受け付ける）
+ */
+const sockets = new WebSocketServer({ noServer: true, maxPayload: 1024 * 1024 });
+
+/**
+ * WebSocket APIの接続を処理する
+ * 実行の開始（start）・再接続（attach）と、実行中の操作（中断・エージェント単位の中断・スライドの再生成・テーマ変更・キューの一時停止・再開）を受け付け、
+ * 実行のイベントを /api/execute/stream と同じ名前・データで送信する
+ *
+ * クライアント → サーバー: { type, id?, ... }（services/api-schema の socketMessageSchemas）
+ * サーバー → クライアント: { type: "event", runId, id, event, data }・{ type: "ack", id?, command, ... }・{ type: "error", id?, code, error, details? }
+ *
+ * @param socket 接続
+ * @param req 接続要求
+ * @param principal 利用者（認証が無効な場合はundefined）
+ * @param correlationId 接続の相関ID（この接続で開始した実行のログ・ジョブに付与する）
+ */
+function handleSocket(
+  socket: WebSocket,
+  req: IncomingMessage,
+  principal: Principal | undefined,
+  correlationId: string
+): void {
+  const schemas = socketMessageSchemas(listAgents().map((agent) => agent.id));
+  // 接続ごとに1つの実行を購読する（実行の終了後は次の実行を開始できる）
+  let current: { runId: string; run?: StreamRun } | undefined;
+  let unsubscribe: (() => void) | undefined;
+
+  const send = (message: Record<string, unknown>) => {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  };
+
+  const subscribe = (runId: string, lastEventId: number, run?: StreamRun) => {
+    unsubscribe?.();
+    current = { runId, run };
+    unsubscribe = runEvents.subscribe(runId, lastEventId, {
+      onEvent: ({ id, event, data }: RunEvent) => send({ type: "event", runId, id, event, data }),
+      onEnd: () => {
+        if (current?.runId === runId) {
+          current = undefined;
+          unsubscribe = undefined;
+        }
+      },
+    });
+  };
+
+  const requireControl = (): RunControl => {
+    if (!current) {
+      throw new ApiError("conflict", "no run is active on this connection");
+    }
+    if (!current.run?.control) {
+      throw new ApiError("invalid_request", `run cannot be controlled (queue execution or finished): ${current.runId}`);
+    }
+    return current.run.control;
+  };
+
+  const handleMessage = async (message: any, ack: (result?: Record<string, unknown>) => void): Promise<void> => {
+    switch (message.type as SocketMessageType) {
+      case "start": {
+        if (current) {
+          throw new ApiError("conflict", `a run is already active on this connection: ${current.runId}`, {
+            runId: current.runId,
+          });
+        }
+        const request = parseExecuteRequest(message.request);
+        const startTime = Date.now();
+        const audit = { prompt: request.prompt.substring(0, 200), agents: request.options.agents };
+        const writeAudit = (status: number, runId?: string) =>
+          appendAuditLog(
+            {
+              timestamp: new Date(startTime).toISOString(),
+              keyId: principal?.keyId,
+              via: principal?.via,
+              ip: req.socket.remoteAddress,
+              method: "WS",
+              path: SOCKET_PATH,
+              status,
+              durationMs: Date.now() - startTime,
+              runId,
+              ...audit,
+            },
+            auditLogPath
+          );
+        try {
+          const run = await startStreamRun(request, principal);
+          writeAudit(200, run.runId);
+          ack({ runId: run.runId, controllable: Boolean(run.control) });
+          subscribe(run.runId, 0, run);
+          return;
+        } catch (error) {
+          writeAudit(toErrorResponse(error).status);
+          throw error;
+        }
+      }
+
+      case "attach": {
+        const { runId, lastEventId = 0 } = message;
+        const stream = runEvents.get(runId);
+        if (!stream) {
+          throw new ApiError("not_found", `run events not found: ${runId}`);
+        }
+        // 認証が有効な場合は実行したAPIキーのみ再接続できる
+        assertRunAccess(principal, stream.keyId, runId);
+        log.info("WebSocketで実行イベントに再接続しました", { runId, lastEventId, finished: stream.finished });
+        const run = streamRuns.get(runId);
+        ack({ runId, finished: stream.finished, controllable: Boolean(run?.control) });
+        subscribe(runId, lastEventId, run);
+        return;
+      }
+
+      case "cancel": {
+        if (!current?.run) {
+          throw new ApiError("conflict", "no run is active on this connection");
+        }
+        log.info("WebSocketから実行を中断します", { runId: current.runId });
+        current.run.cancel();
+        return ack({ runId: current.runId });
+      }
+
+      case "cancel-agent":
+        requireControl().cancelAgent(message.agent);
+        return ack({ agent: message.agent });
+
+      case "regenerate-slide":
+        requireControl().slides().regenerate(message.slideNumber);
+        return ack({ slideNumber: message.slideNumber });
+
+      case "set-theme": {
+        const slides = requireControl().slides();
+        slides.setTheme(message.theme);
+        return ack(slides.status());
+      }
+
+      case "pause-slides":
+      case "resume-slides": {
+        const slides = requireControl().slides();
+        if (message.type === "pause-slides") {
+          slides.pause();
+        } else {
+          slides.resume();
+        }
+        return ack(slides.status());
+      }
+    }
+  };
+
+  // メッセージは受信した順に処理する（start の完了前に操作を受け付けない）
+  let pending = Promise.resolve();
+  socket.on("message", (raw) => {
+    // 受信イベントには接続時のコンテキストが引き継がれないため、メッセージごとに相関IDを設定する
+    pending = withLogContext({ correlationId }, () => pending.then(async () => {
+      let message: any;
+      let id: string | undefined;
+      try {
+        try {
+          message = JSON.parse(raw.toString());
+        } catch (error: any) {
+          throw new ApiError("invalid_request", `invalid JSON message: ${error.message}`);
+        }
+        id = typeof message?.id === "string" ? message.id : undefined;
+        const issues = validateSchema(SOCKET_MESSAGE_SCHEMA, message, "message");
+        if (issues.length === 0) {
+          issues.push(...validateSchema(schemas[message.type as SocketMessageType], message, "message"));
+        }
+        if (issues.length > 0) {
+          throw validationError(issues);
+        }
+        // 操作ごとにスパンを作成する（start で開始した実行のスパンはこのスパンの子になる）
+        await withSpan(
+          `WS ${message.type}`,
+          { kind: SpanKind.SERVER, attributes: { "qezu.correlation_id": correlationId } },
+          () => handleMessage(message, (result) => send({ type: "ack", id, command: message.type, ...result }))
+        );
+      } catch (error: any) {
+        if (!(error instanceof ApiError)) {
+          log.error("WebSocketのメッセージの処理エラー", { type: message?.type, error });
+        }
+        const { body } = toErrorResponse(error);
+        send({ type: "error", id, command: message?.type, code: body.code, error: body.error, details: body.details });
+      }
+    }));
+  });
+
+  // プロキシに切断されないよう定期的に ping を送信
+  trackWebSocketConnection(1);
+  const heartbeat = setInterval(() => socket.ping(), SSE_HEARTBEAT_INTERVAL);
+  socket.on("close", () => {
+    trackWebSocketConnection(-1);
+    clearInterval(heartbeat);
+    // 購読者がいなくなった実行は stream.resumeTimeout の後に中断される（attach で再接続可能）
+    unsubscribe?.();
+  });
+  socket.on("error", (error) => {
+    log.error("WebSocketエラー", { error });
+  });
+}
+
 /**
  * サーバー起動
  */
 const server = app.listen(PORT, () => {
-  console.log(`[Server] サーバー起動 [port=${PORT}]`);
-  console.log(`[Server] Web UI: http://localhost:${PORT}`);
-  console.log(`[Server] ヘルスチェック: http://localhost:${PORT}/health`);
-  console.log(`[Server] API実行: http://localhost:${PORT}/api/execute`);
-  console.log(`[Server] エージェント一覧: http://localhost:${PORT}/api/agents`);
+  log.info("サーバー起動", { port: PORT });
+  log.info(`Web UI: http://localhost:${PORT}`);
+  log.info(`ヘルスチェック: http://localhost:${PORT}/health`);
+  log.info(`API実行: http://localhost:${PORT}/api/execute`);
+  log.info(`エージェント一覧: http://localhost:${PORT}/api/agents`);
+  log.info(`APIドキュメント: http://localhost:${PORT}/docs.html`);
+  log.info(`WebSocket API: ws://localhost:${PORT}${SOCKET_PATH}`);
+  if (metricsConfig.enabled) {
+    log.info(`メトリクス: http://localhost:${PORT}/metrics`);
+  }
+  if (apiKeys.length > 0) {
+    log.info("認証: 有効", { keys: apiKeys.length, session: session ? "有効" : "無効", audit: auditLogPath });
+  } else {
+    log.warn("認証: 無効（APIキーが設定されていないため、すべてのリクエストを受け付けます）");
+  }
+});
+
+/**
+ * WebSocketの接続要求（/api/ws）
+ * CORSのオリジンが設定されている場合はオリジンを確認し、認証が有効な場合は /api と同じ認証情報（ブラウザではセッションCookie）で利用者を識別する
+ */
+server.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+  const rejectUpgrade = (error: ApiError) => {
+    const { status, body } = toErrorResponse(error);
+    const payload = JSON.stringify(body);
+    socket.end(
+      `HTTP/1.1 ${status} ${STATUS_CODES[status]}\r\nContent-Type: application/json\r\nContent-Length: ${Buffer.byteLength(payload)}\r\nConnection: close\r\n\r\n${payload}`
+    );
+  };
+
+  const { pathname } = new URL(req.url || "/", "http://localhost");
+  if (pathname !== SOCKET_PATH) {
+    return rejectUpgrade(new ApiError("not_found", `route not found: ${pathname}`));
+  }
+  const origin = req.headers.origin;
+  if (corsOrigins && origin && !corsOrigins.includes(origin)) {
+    return rejectUpgrade(new ApiError("forbidden", `origin not allowed: ${origin}`));
+  }
+
+  let principal: Principal | undefined;
+  if (apiKeys.length > 0) {
+    try {
+      principal = authenticateRequest(req);
+    } catch (error: any) {
+      appendAuditLog(
+        {
+          timestamp: new Date().toISOString(),
+          ip: req.socket.remoteAddress,
+          method: "WS",
+          path: SOCKET_PATH,
+          status: 401,
+          durationMs: 0,
+        },
+        auditLogPath
+      );
+      return rejectUpgrade(error);
+    }
+  }
+
+  const correlationId = resolveCorrelationId(req);
+  sockets.handleUpgrade(req, socket, head, (ws) => {
+    log.info("WebSocketが接続しました", { keyId: principal?.keyId, correlationId });
+    handleSocket(ws, req, principal, correlationId);
+  });
 });
 
 /**
@@ -539,24 +1926,26 @@ const server = app.listen(PORT, () => {
  */
 server.on("error", (error: NodeJS.ErrnoException) => {
   if (error.code === "EADDRINUSE") {
-    console.error(`[Server] エラー: ポート ${PORT} は既に使用されています`);
-    console.error(`[Server] 解決方法: ポート ${PORT} を使用しているプロセスを停止するか、環境変数 PORT で別のポートを指定してください`);
-    console.error(`[Server] 例: PORT=3001 npm run server`);
-    console.error(`[Server] または: npm run kill-port ${PORT}`);
+    log.error(`エラー: ポート ${PORT} は既に使用されています`);
+    log.error(`解決方法: ポート ${PORT} を使用しているプロセスを停止するか、環境変数 PORT で別のポートを指定してください`);
+    log.error("例: PORT=3001 npm run server");
+    log.error(`または: npm run kill-port ${PORT}`);
     process.exit(1);
   } else {
-    console.error(`[Server] エラー: ${error.message}`);
+    log.error("エラー", { error });
     process.exit(1);
   }
 });
 
 // グレースフルシャットダウン
-process.on("SIGTERM", () => {
-  console.log("[Server] SIGTERM受信、サーバーを停止します");
+process.on("SIGTERM", async () => {
+  log.info("SIGTERM受信、サーバーを停止します");
+  await shutdownTracing();
   process.exit(0);
 });
 
-process.on("SIGINT", () => {
-  console.log("[Server] SIGINT受信、サーバーを停止します");
+process.on("SIGINT", async () => {
+  log.info("SIGINT受信、サーバーを停止します");
+  await shutdownTracing();
   process.exit(0);
 });
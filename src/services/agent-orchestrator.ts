@@ -1,13 +1,27 @@
 /**
  * マルチエージェントオーケストレーター
  * 複数のエージェント（Codex、Claude、Gemini）を並列で実行し、結果を統合する
+ * 実行中の状況はイベント（onEvent、streamMultiAgent）として通知する
  * 
  * @module services/agent-orchestrator
  */
 
-import { generateCode } from "../adapters/codex.js";
-import { chatWithClaude, generateCodeWithClaude } from "../adapters/claude.js";
-import { chatWithGemini, generateCodeWithGemini } from "../adapters/gemini.js";
+import { AGENT_TASK_TYPES, AgentTaskType, getAgent } from "../adapters/registry.js";
+import { AgentUsage, ReportedUsage, UsageTotals, addReportedUsage, resolveUsage, sumUsage } from "./usage.js";
+import { AggregationResult, AggregationStrategy, aggregateResults } from "./aggregation.js";
+import {
+  DEFAULT_DEBATE_ROUNDS,
+  DebateRound,
+  MAX_DEBATE_ROUNDS,
+  buildDebatePrompt,
+  splitDebateOutput,
+} from "./debate.js";
+import { HEDGE_CANCELLED_ERROR, runWithFallback } from "./fallback.js";
+import { buildSlidePrompt, generateSlidesWithCodex } from "./slide-task.js";
+import type { RunControl } from "./run-control.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("Orchestrator");
 
 /**
  * エージェントの実行結果
@@ -18,12 +32,35 @@ export interface AgentResult {
   result?: string;
   error?: string;
   executionTime: number;
+  /** トークン使用量（CLIが報告しない場合は推定値） */
+  usage?: AgentUsage;
+  /** ディベートの2ラウンド目以降で、他のエージェントの回答に対する批評 */
+  critique?: string;
+  /** フォールバック・ヘッジ実行で別のエージェントが回答した場合の本来のエージェント */
+  fallbackFrom?: string;
+  /** フォールバック・ヘッジ実行で失敗・中断したエージェントの結果 */
+  attempts?: AgentResult[];
 }
 
 /**
- * タスクの種類
+ * 期限までに完了しなかったエージェントの error
+ */
+export const TIMEOUT_ERROR = "timeout";
+
+/**
+ * 実行中の操作（control.cancelAgent）で中断したエージェントの error
+ */
+export const CANCELLED_ERROR = "cancelled";
+
+/**
+ * タスクの種類（debate は各エージェントが互いの回答を批評・改訂するディベートモード）
+ */
+export type TaskType = AgentTaskType | "debate";
+
+/**
+ * タスクの種類の一覧（リクエストの検証に使用）
  */
-export type TaskType = "code-generation" | "chat" | "code-completion" | "general" | "slide";
+export const TASK_TYPES: TaskType[] = [...AGENT_TASK_TYPES, "debate"];
 
 /**
  * マルチエージェント実行オプション
@@ -35,187 +72,489 @@ export interface MultiAgentOptions {
     codex?: string;
     claude?: string;
     gemini?: string;
+    [agent: string]: string | undefined;
   };
-  agents?: ("codex" | "claude" | "gemini")[];
+  agents?: string[];
+  /** エージェントごとの実行期限（ミリ秒、デフォルト5分） */
   timeout?: number;
+  /** 中断用シグナル（abort時に実行中のエージェントの子プロセスを終了する） */
+  signal?: AbortSignal;
+  /** エージェントの実行が完了するごとに使用量を受け取る（予算の確認などに使用） */
+  onUsage?: (agent: string, usage: AgentUsage) => void;
+  /** 結果の統合戦略（デフォルトは concat） */
+  aggregation?: AggregationStrategy;
+  /** judge・synthesis で審査・統合を行うエージェントID（デフォルトは claude） */
+  judge?: string;
+  /**
+   * ディベートのラウンド数（2以上でディベートモード、taskType が debate の場合のデフォルトは2）
+   * 2ラウンド目以降、各エージェントは前のラウンドの他のエージェントの回答を受け取り、批評して回答を改訂する
+   */
+  rounds?: number;
+  /** 実行中のイベント（エージェントの開始・出力・完了・エラーなど）を受け取る */
+  onEvent?: (event: OrchestratorEvent) => void;
+  /**
+   * エージェントごとのフォールバックチェーン（例: `{ gemini: ["claude", "codex"] }`）
+   * エージェントが失敗した場合、チェーンの次のエージェントで実行する
+   */
+  fallbacks?: Record<string, string[]>;
+  /**
+   * ヘッジ実行の待ち時間（ミリ秒、fallbacks が指定されたエージェントのみ）
+   * この時間内に応答がない場合はチェーンの次のエージェントを並行して開始し、先に完了した結果を採用する
+   */
+  hedgeAfter?: number;
+  /**
+   * 実行中の操作（エージェント単位の中断、並列スライド生成の一時停止・再生成など）
+   * 実行中のエージェントと並列スライド生成のキューが登録される
+   */
+  control?: RunControl;
 }
 
 /**
- * マルチエージェントを並列実行して結果を統合する
- * 
- * @param prompt 実行するプロンプト
- * @param options 実行オプション
- * @returns 各エージェントの結果と統合結果
+ * 統合の詳細（統合後の回答を除く）
  */
-export async function executeMultiAgent(
-  prompt: string,
-  options: MultiAgentOptions = {}
-): Promise<{
+export type AggregationInfo = Omit<AggregationResult, "aggregated">;
+
+/**
+ * オーケストレーターのイベント
+ * - agent-start: エージェントの実行開始（フォールバック・ヘッジで開始したエージェントを含む）
+ * - chunk: エージェントの出力（ストリーミング対応のエージェントはトークン単位）
+ * - agent-complete / agent-error: エージェントの実行完了・失敗（期限切れ・ヘッジでの中断を含む）
+ * - round-complete: ディベートの各ラウンドの完了
+ * - slide: スライド生成の進捗（slide-progress・slide-stream・slide-complete）
+ *
+ * round はディベートモードの場合のみ設定される
+ */
+export type OrchestratorEvent =
+  | { type: "agent-start"; agent: string; round?: number }
+  | { type: "chunk"; agent: string; chunk: string; round?: number }
+  | { type: "agent-complete"; agent: string; result: AgentResult; round?: number }
+  | { type: "agent-error"; agent: string; result: AgentResult; round?: number }
+  | { type: "round-complete"; round: DebateRound }
+  | { type: "slide"; agent: string; event: string; data: any };
+
+/**
+ * マルチエージェント実行の結果
+ */
+export interface MultiAgentResult {
   results: AgentResult[];
   aggregated: string;
+  aggregation: AggregationInfo;
+  /** ディベートモードの各ラウンドの結果（results は最終ラウンドの結果） */
+  rounds?: DebateRound[];
   summary: {
+    /** 指定したエージェント数（登録されていないエージェントを含む） */
     total: number;
     success: number;
     failed: number;
+    /** failed のうち期限までに完了しなかったエージェント数 */
+    timedOut: number;
     averageTime: number;
+    usage: UsageTotals;
   };
-}> {
-  const {
-    taskType = "general",
-    language,
-    model = {},
-    agents = ["codex", "claude", "gemini"],
-    timeout = 300000,
-  } = options;
+}
 
-  const startTime = Date.now();
-  const tasks: Promise<AgentResult>[] = [];
+/**
+ * 実行オプションから決まる実行計画
+ */
+export interface MultiAgentPlan {
+  /** ディベートモード（2ラウンド目以降で各エージェントが互いの回答を批評・改訂する） */
+  debate: boolean;
+  /** ラウンド数（ディベート以外は1） */
+  rounds: number;
+  aggregation: AggregationStrategy;
+  /** 各エージェントに渡すタスクの種類（ディベートは general） */
+  taskType: AgentTaskType;
+}
 
-  // Codexエージェントの実行
-  if (agents.includes("codex")) {
-    tasks.push(
-      (async (): Promise<AgentResult> => {
-        const taskStart = Date.now();
-        try {
-          let result: string;
-
-          if (taskType === "code-generation" || taskType === "code-completion") {
-            result = await generateCode(prompt, {
-              language,
-              maxTokens: 2000,
-              cwd: process.cwd(),
-            });
-          } else {
-            // 一般的なタスクもコード生成として扱う
-            result = await generateCode(prompt, {
-              language: language || "typescript",
-              maxTokens: 2000,
-              cwd: process.cwd(),
-            });
-          }
+/**
+ * 実行オプションから実行計画を作成する（executeMultiAgent・キュー経由の実行で共通）
+ *
+ * @param options 実行オプション
+ * @returns 実行計画
+ * @throws rounds が範囲外の場合
+ */
+export function planMultiAgent(options: MultiAgentOptions): MultiAgentPlan {
+  const taskType = options.taskType ?? "general";
+  // ディベートモードでは最終ラウンドの回答を統合役のエージェントが1つの合意回答にまとめる
+  const debate = taskType === "debate" || (options.rounds ?? 1) > 1;
+  const rounds = debate ? options.rounds ?? DEFAULT_DEBATE_ROUNDS : 1;
 
-          return {
-            agent: "codex",
-            success: true,
-            result,
-            executionTime: Date.now() - taskStart,
-          };
-        } catch (error: any) {
-          return {
-            agent: "codex",
-            success: false,
-            error: error.message,
-            executionTime: Date.now() - taskStart,
-          };
-        }
-      })()
-    );
+  if (!Number.isInteger(rounds) || rounds < 1 || rounds > MAX_DEBATE_ROUNDS) {
+    throw new Error(`rounds は1〜${MAX_DEBATE_ROUNDS}の整数で指定してください [rounds=${options.rounds}]`);
   }
 
-  // Claudeエージェントの実行
-  if (agents.includes("claude")) {
-    tasks.push(
-      (async (): Promise<AgentResult> => {
-        const taskStart = Date.now();
-        try {
-          let result: string;
-
-          if (taskType === "code-generation") {
-            result = await generateCodeWithClaude(prompt, {
-              language,
-              model: model.claude || "claude-3-opus",
-              cwd: process.cwd(),
-            });
-          } else {
-            result = await chatWithClaude(prompt, {
-              model: model.claude || "claude-3-opus",
-              cwd: process.cwd(),
-            });
-          }
+  return {
+    debate,
+    rounds,
+    aggregation: options.aggregation || (debate ? "synthesis" : "concat"),
+    taskType: taskType === "debate" ? "general" : taskType,
+  };
+}
 
-          return {
-            agent: "claude",
-            success: true,
-            result,
-            executionTime: Date.now() - taskStart,
-          };
-        } catch (error: any) {
-          return {
-            agent: "claude",
-            success: false,
-            error: error.message,
-            executionTime: Date.now() - taskStart,
-          };
-        }
-      })()
-    );
-  }
+/**
+ * エージェント1回の実行オプション
+ */
+export interface AgentTaskOptions {
+  taskType: AgentTaskType;
+  language?: string;
+  model?: MultiAgentOptions["model"];
+  /** 実行するエージェントの一覧（Codexの並列スライド生成で使用） */
+  agents: string[];
+  /** ラウンド番号（1から開始、2以降はディベートの改訂） */
+  round: number;
+  /** ディベートモードの場合はイベントにラウンド番号を設定する */
+  debate: boolean;
+  /** エージェントの中断用シグナル（期限切れ・ヘッジ・control での中断を含む） */
+  signal: AbortSignal;
+  /** 実行全体の中断用シグナル */
+  runSignal?: AbortSignal;
+  control?: RunControl;
+  onEvent?: (event: OrchestratorEvent) => void;
+  onUsage?: (agent: string, usage: AgentUsage) => void;
+}
 
-  // Geminiエージェントの実行
-  if (agents.includes("gemini")) {
-    tasks.push(
-      (async (): Promise<AgentResult> => {
-        const taskStart = Date.now();
-        try {
-          let result: string;
-
-          if (taskType === "code-generation") {
-            result = await generateCodeWithGemini(prompt, {
-              language,
-              model: model.gemini || "gemini-pro",
-              cwd: process.cwd(),
-            });
-          } else {
-            result = await chatWithGemini(prompt, {
-              model: model.gemini || "gemini-pro",
-              cwd: process.cwd(),
-            });
-          }
+/**
+ * エージェントを1回実行する（executeMultiAgent・キュー経由の実行で共通）
+ *
+ * エージェントをレジストリから解決して実行し、ストリーミング対応のエージェントは出力を逐次通知する。
+ * signal だけがabortされた場合（期限切れ・ヘッジ・control での中断）の完了・エラーのイベントは中断した側で通知する。
+ *
+ * @param agent エージェントID
+ * @param prompt プロンプト（ディベートの2ラウンド目以降は buildDebatePrompt の結果）
+ * @param options 実行オプション
+ * @returns 実行結果（失敗した場合は success: false）
+ */
+export async function runAgentTask(agent: string, prompt: string, options: AgentTaskOptions): Promise<AgentResult> {
+  const { taskType, language, model = {}, agents, round, debate, signal, runSignal, control, onEvent, onUsage } =
+    options;
+  const emit = (event: OrchestratorEvent) => onEvent?.(event);
+  const roundOf = debate ? round : undefined;
+  const taskStart = Date.now();
+  emit({ type: "agent-start", agent, round: roundOf });
 
-          return {
-            agent: "gemini",
-            success: true,
-            result,
-            executionTime: Date.now() - taskStart,
-          };
-        } catch (error: any) {
-          return {
-            agent: "gemini",
-            success: false,
-            error: error.message,
-            executionTime: Date.now() - taskStart,
-          };
-        }
-      })()
-    );
-  }
+  let agentResult: AgentResult;
+  try {
+    const adapter = getAgent(agent);
+    if (!adapter) {
+      throw new Error(`Unknown agent: ${agent}`);
+    }
 
-  // タイムアウト付きで並列実行
-  const timeoutPromise = new Promise<AgentResult[]>((resolve) => {
-    setTimeout(() => resolve([]), timeout);
-  });
+    let reported: ReportedUsage | undefined;
+    const agentModel = model[agent] || adapter.defaultModel;
+    // スライド生成の最初の回答はスライド形式のプロンプトで実行（Codexはスライドごとに並列生成）
+    const slide = taskType === "slide" && round === 1;
+    const request = {
+      prompt: slide ? buildSlidePrompt(prompt) : prompt,
+      taskType,
+      language,
+      model: agentModel,
+      maxTokens: 2000,
+      cwd: process.cwd(),
+      signal,
+      onUsage: (usage: ReportedUsage) => {
+        reported = addReportedUsage(reported, usage);
+      },
+    };
+    const onChunk = (chunk: string) => emit({ type: "chunk", agent, chunk, round: roundOf });
 
-  const resultsPromise = Promise.all(tasks);
-  const results = await Promise.race([resultsPromise, timeoutPromise]);
+    let result: string;
+    if (slide && agent === "codex") {
+      result = await generateSlidesWithCodex(prompt, {
+        agents,
+        language,
+        signal,
+        onSlideEvent: (event, data) => emit({ type: "slide", agent, event, data }),
+        onChunk,
+        control,
+      });
+    } else if (adapter.stream) {
+      result = "";
+      for await (const chunk of adapter.stream(request)) {
+        result += chunk;
+        onChunk(chunk);
+      }
+    } else {
+      result = await adapter.run(request);
+    }
 
-  // 結果の統合
+    const usage = resolveUsage(agent, agentModel, reported, request.prompt, result);
+    onUsage?.(agent, usage);
+
+    agentResult = {
+      agent,
+      success: true,
+      result,
+      executionTime: Date.now() - taskStart,
+      usage,
+    };
+    // ディベートの2ラウンド目以降は批評と改訂後の回答に分ける
+    if (round > 1) {
+      const { answer, critique } = splitDebateOutput(result);
+      agentResult = { ...agentResult, result: answer, critique };
+    }
+  } catch (error: any) {
+    agentResult = {
+      agent,
+      success: false,
+      error: error.message,
+      executionTime: Date.now() - taskStart,
+    };
+  }
+
+  // 期限切れ・ヘッジで中断した場合は中断した側で通知する
+  if (!signal.aborted || runSignal?.aborted) {
+    emit({ type: agentResult.success ? "agent-complete" : "agent-error", agent, result: agentResult, round: roundOf });
+  }
+  return agentResult;
+}
+
+/**
+ * 最終ラウンドの結果を統合し、実行結果にまとめる（executeMultiAgent・キュー経由の実行で共通）
+ *
+ * @param prompt 元のプロンプト
+ * @param results 最終ラウンドの各エージェントの結果
+ * @param rounds ディベートモードの各ラウンドの結果（ディベート以外はundefined）
+ * @param options 統合戦略・審査役・中断用シグナル・審査の使用量の通知先
+ * @returns 実行結果
+ */
+export async function completeMultiAgent(
+  prompt: string,
+  results: AgentResult[],
+  rounds: DebateRound[] | undefined,
+  options: Pick<MultiAgentOptions, "judge" | "signal" | "onUsage"> & { aggregation: AggregationStrategy }
+): Promise<MultiAgentResult> {
+  const { aggregation, judge, signal, onUsage } = options;
   const successfulResults = results.filter((r) => r.success && r.result);
-  const aggregated = successfulResults
-    .map((r, idx) => `## ${r.agent.toUpperCase()}\n\n${r.result}`)
-    .join("\n\n---\n\n");
+  const { aggregated, usage: judgeUsage, ...aggregationInfo } = await aggregateResults(prompt, results, {
+    strategy: aggregation,
+    judge,
+    signal,
+  });
+  if (judgeUsage && aggregationInfo.judge) {
+    onUsage?.(aggregationInfo.judge, judgeUsage);
+  }
 
   const summary = {
     total: results.length,
     success: successfulResults.length,
     failed: results.length - successfulResults.length,
+    timedOut: results.filter((r) => r.error === TIMEOUT_ERROR).length,
     averageTime:
       results.reduce((sum, r) => sum + r.executionTime, 0) / results.length || 0,
+    // ディベートの全ラウンド・審査・統合の使用量も含める
+    usage: sumUsage([
+      ...(rounds ? rounds.flatMap((round) => round.results) : results).flatMap((r) => (r.usage ? [r.usage] : [])),
+      ...(judgeUsage ? [judgeUsage] : []),
+    ]),
   };
 
   return {
-    results: results as AgentResult[],
-    aggregated: aggregated || "すべてのエージェントが失敗しました",
+    results,
+    aggregated,
+    aggregation: { ...aggregationInfo, usage: judgeUsage },
+    rounds,
     summary,
   };
 }
 
+/**
+ * マルチエージェントを並列実行して結果を統合する
+ *
+ * 登録されていないエージェントIDは除外せず、`{ success: false, error: "Unknown agent: <id>" }` の結果として
+ * results・summary に含める（Web API ではリクエストの検証で拒否される）。
+ *
+ * @param prompt 実行するプロンプト
+ * @param options 実行オプション
+ * @returns 各エージェントの結果と統合結果（期限までに完了しなかったエージェントは `{ success: false, error: "timeout" }`）
+ */
+export async function executeMultiAgent(
+  prompt: string,
+  options: MultiAgentOptions = {}
+): Promise<MultiAgentResult> {
+  const {
+    language,
+    model = {},
+    agents = ["codex", "claude", "gemini"],
+    timeout = 300000,
+    signal,
+    onUsage,
+    judge,
+    onEvent,
+    fallbacks = {},
+    hedgeAfter,
+    control,
+  } = options;
+  const { debate, rounds: roundCount, aggregation, taskType: agentTaskType } = planMultiAgent(options);
+
+  // ディベートモードの場合のみイベントにラウンド番号を設定
+  const emit = (event: OrchestratorEvent) => onEvent?.(event);
+  const roundOf = (round: number) => (debate ? round : undefined);
+
+  // 各エージェントをレジストリから解決して実行（ストリーミング対応のエージェントは出力を逐次通知）
+  const runAgent = (agent: string, agentPrompt: string, agentSignal: AbortSignal, round: number) =>
+    runAgentTask(agent, agentPrompt, {
+      taskType: agentTaskType,
+      language,
+      model,
+      agents,
+      round,
+      debate,
+      signal: agentSignal,
+      runSignal: signal,
+      control,
+      onEvent,
+      onUsage,
+    });
+
+  // エージェントごとに期限を設け（フォールバックチェーン全体に適用）、期限を過ぎたエージェントは中断して
+  // "timeout" として扱う（完了済みのエージェントの結果は保持する）。control で中断したエージェントは "cancelled"
+  const runRound = (round: number, promptFor: (agent: string) => string): Promise<AgentResult[]> =>
+    Promise.all(
+      agents.map(async (agent) => {
+        const controller = new AbortController();
+        const agentSignal = signal ? AbortSignal.any([signal, controller.signal]) : controller.signal;
+        const taskStart = Date.now();
+        let timer: NodeJS.Timeout | undefined;
+
+        const deadline = new Promise<AgentResult>((resolve) => {
+          timer = setTimeout(() => {
+            log.warn("エージェントがタイムアウトしました", { agent, timeoutMs: timeout });
+            const timedOut = {
+              agent,
+              success: false,
+              error: TIMEOUT_ERROR,
+              executionTime: Date.now() - taskStart,
+            };
+            emit({ type: "agent-error", agent, result: timedOut, round: roundOf(round) });
+            controller.abort();
+            resolve(timedOut);
+          }, timeout);
+        });
+
+        let unregister: (() => void) | undefined;
+        const cancelled = new Promise<AgentResult>((resolve) => {
+          unregister = control?.registerAgent(agent, () => {
+            log.info("エージェントを中断しました", { agent });
+            const cancelledResult = {
+              agent,
+              success: false,
+              error: CANCELLED_ERROR,
+              executionTime: Date.now() - taskStart,
+            };
+            emit({ type: "agent-error", agent, result: cancelledResult, round: roundOf(round) });
+            controller.abort();
+            resolve(cancelledResult);
+          });
+        });
+
+        // フォールバックチェーンがある場合は失敗時・ヘッジ時に次のエージェントで実行
+        const agentPrompt = promptFor(agent);
+        const chain = [agent, ...(fallbacks[agent] || [])];
+        const task =
+          chain.length > 1
+            ? runWithFallback(chain, (next, nextSignal) => runAgent(next, agentPrompt, nextSignal, round), {
+                signal: agentSignal,
+                hedgeAfter,
+              })
+            : runAgent(agent, agentPrompt, agentSignal, round);
+
+        const result = await Promise.race([task, deadline, cancelled]).finally(() => {
+          clearTimeout(timer);
+          unregister?.();
+        });
+        for (const attempt of result.attempts || []) {
+          if (attempt.error === HEDGE_CANCELLED_ERROR) {
+            emit({ type: "agent-error", agent: attempt.agent, result: attempt, round: roundOf(round) });
+          }
+        }
+        return result;
+      })
+    );
+
+  let results = await runRound(1, () => prompt);
+  const rounds: DebateRound[] = [];
+
+  if (debate) {
+    rounds.push({ round: 1, rounds: roundCount, results });
+    emit({ type: "round-complete", round: rounds[0] });
+
+    for (let round = 2; round <= roundCount && !signal?.aborted; round++) {
+      const previous = results;
+      results = await runRound(round, (agent) => buildDebatePrompt(prompt, agent, previous));
+      rounds.push({ round, rounds: roundCount, results });
+      emit({ type: "round-complete", round: rounds[rounds.length - 1] });
+    }
+  }
+
+  return completeMultiAgent(prompt, results, debate ? rounds : undefined, { aggregation, judge, signal, onUsage });
+}
+
+
+/**
+ * マルチエージェントを並列実行し、実行中のイベントを順にyieldする
+ *
+ * executeMultiAgent と同じ処理を行い、onEvent で受け取るイベントを非同期イテレーターとして返す。
+ * 途中で読み取りを終了しても実行は継続するため、中断する場合は signal を使用する。
+ *
+ * @param prompt 実行するプロンプト
+ * @param options 実行オプション
+ * @returns イベントを順にyieldし、最後に executeMultiAgent と同じ結果を返す
+ */
+export function streamMultiAgent(
+  prompt: string,
+  options: MultiAgentOptions = {}
+): AsyncGenerator<OrchestratorEvent, MultiAgentResult, unknown> {
+  return streamEvents((onEvent) =>
+    executeMultiAgent(prompt, {
+      ...options,
+      onEvent: (event) => {
+        options.onEvent?.(event);
+        onEvent(event);
+      },
+    })
+  );
+}
+
+/**
+ * コールバックで通知されるイベントを非同期イテレーターに変換する（streamMultiAgent・キュー経由の実行で共通）
+ *
+ * @param start イベントの通知先を受け取って実行を開始する関数
+ * @returns イベントを順にyieldし、最後に実行結果を返す（実行が失敗した場合は例外）
+ */
+export async function* streamEvents<E, R>(
+  start: (onEvent: (event: E) => void) => Promise<R>
+): AsyncGenerator<E, R, unknown> {
+  const queue: E[] = [];
+  let wake: (() => void) | undefined;
+  let finished = false;
+
+  const execution = start((event) => {
+    queue.push(event);
+    wake?.();
+  });
+  execution.then(
+    () => {
+      finished = true;
+      wake?.();
+    },
+    () => {
+      finished = true;
+      wake?.();
+    }
+  );
+
+  while (true) {
+    if (queue.length > 0) {
+      yield queue.shift() as E;
+    } else if (finished) {
+      break;
+    } else {
+      await new Promise<void>((resolve) => {
+        wake = resolve;
+      });
+      wake = undefined;
+    }
+  }
+
+  return execution;
+}
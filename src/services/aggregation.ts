@@ -0,0 +1,323 @@
+/**
+ * マルチエージェントの結果統合
+ * 各エージェントの結果を戦略（連結・最初の成功・多数決・LLMによる審査・統合）に従って1つの回答にまとめる
+ *
+ * @module services/aggregation
+ */
+
+import { getAgent } from "../adapters/registry.js";
+import type { AgentResult } from "./agent-orchestrator.js";
+import { AgentUsage, ReportedUsage, addReportedUsage, resolveUsage } from "./usage.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("Aggregation");
+
+/**
+ * 統合戦略
+ * - concat: すべての成功結果をエージェントごとの見出し付きで連結（デフォルト）
+ * - first-success: 最初に成功したエージェントの結果を採用
+ * - majority: 同じ回答が最も多いものを採用（短い回答向け）
+ * - judge: 審査役のエージェントが各結果を採点し、最も評価の高い結果を採用
+ * - synthesis: 統合役のエージェントが各結果を1つの回答にまとめる
+ */
+export type AggregationStrategy = "concat" | "first-success" | "majority" | "judge" | "synthesis";
+
+/**
+ * 統合戦略の一覧（リクエストの検証に使用）
+ */
+export const AGGREGATION_STRATEGIES: AggregationStrategy[] = [
+  "concat",
+  "first-success",
+  "majority",
+  "judge",
+  "synthesis",
+];
+
+/**
+ * 審査・統合を行うエージェントのデフォルト
+ */
+const DEFAULT_JUDGE = "claude";
+
+/**
+ * 統合オプション
+ */
+export interface AggregationOptions {
+  strategy?: AggregationStrategy;
+  /** judge・synthesis で審査・統合を行うエージェントID（デフォルトは claude） */
+  judge?: string;
+  /** 審査・統合のモデル（未指定時はエージェントのデフォルト） */
+  model?: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * 統合結果
+ */
+export interface AggregationResult {
+  strategy: AggregationStrategy;
+  /** 統合後の回答 */
+  aggregated: string;
+  /** 採用した結果のエージェント（concat・synthesis以外） */
+  winner?: string;
+  /** 採用理由（審査役の講評、多数決の票数など） */
+  rationale?: string;
+  /** judge の場合のエージェントごとの点数（0〜10、同じエージェントが複数ある場合は最高点） */
+  scores?: Record<string, number>;
+  /** 審査・統合を行ったエージェント */
+  judge?: string;
+  /** 審査・統合のトークン使用量 */
+  usage?: AgentUsage;
+}
+
+/**
+ * 成功結果が1件もない場合の回答
+ */
+const ALL_FAILED_MESSAGE = "すべてのエージェントが失敗しました";
+
+/**
+ * すべての成功結果を見出し付きで連結する
+ */
+function concatResults(results: AgentResult[]): string {
+  return results.map((r) => `## ${r.agent.toUpperCase()}\n\n${r.result}`).join("\n\n---\n\n");
+}
+
+/**
+ * 多数決の比較用に回答を正規化する（大文字小文字・空白・末尾の句読点の違いを無視）
+ */
+function normalizeAnswer(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .replace(/[。．.!！?？]+$/, "");
+}
+
+/**
+ * 各結果を候補として列挙したプロンプトの本文を作成する
+ * 同じエージェントが複数含まれる場合があるため、候補は1から始まる番号で区別する
+ */
+function formatCandidates(results: AgentResult[]): string {
+  return results.map((r, idx) => `### Candidate ${idx + 1}\n${r.result}`).join("\n\n");
+}
+
+/**
+ * 審査結果の候補の番号（"2"・2・"Candidate 2" など）から結果を取得する
+ */
+function findCandidate(results: AgentResult[], label: unknown): AgentResult | undefined {
+  const match = /^(?:candidate\s*)?(\d+)$/i.exec(String(label ?? "").trim());
+  return match ? results[Number(match[1]) - 1] : undefined;
+}
+
+/**
+ * 審査結果の点数を検証し、エージェントごとの点数にする
+ * 候補の番号に対応しないキーと、0〜10の有限の数値でない点数は除外する
+ */
+function parseScores(results: AgentResult[], scores: unknown): Record<string, number> | undefined {
+  if (!scores || typeof scores !== "object") {
+    return undefined;
+  }
+  const parsed: Record<string, number> = {};
+  for (const [label, score] of Object.entries(scores)) {
+    const candidate = findCandidate(results, label);
+    if (!candidate || typeof score !== "number" || !Number.isFinite(score) || score < 0 || score > 10) {
+      continue;
+    }
+    parsed[candidate.agent] = Math.max(parsed[candidate.agent] ?? score, score);
+  }
+  return Object.keys(parsed).length > 0 ? parsed : undefined;
+}
+
+/**
+ * テキストから最初のJSONオブジェクトを取り出す
+ */
+function extractJson(text: string): any {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start < 0 || end <= start) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text.slice(start, end + 1));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 審査・統合役のエージェントでプロンプトを実行する
+ */
+async function runJudge(
+  judgeId: string,
+  prompt: string,
+  options: AggregationOptions
+): Promise<{ output: string; usage: AgentUsage }> {
+  const adapter = getAgent(judgeId);
+  if (!adapter) {
+    throw new Error(`Unknown judge agent: ${judgeId}`);
+  }
+
+  let reported: ReportedUsage | undefined;
+  const model = options.model || adapter.defaultModel;
+  const output = await adapter.run({
+    prompt,
+    taskType: "general",
+    model,
+    cwd: process.cwd(),
+    signal: options.signal,
+    onUsage: (usage) => {
+      reported = addReportedUsage(reported, usage);
+    },
+  });
+  return { output, usage: resolveUsage(judgeId, model, reported, prompt, output) };
+}
+
+/**
+ * 審査・統合に失敗した場合の結果（すべての成功結果を連結）
+ */
+function judgeFailed(
+  successful: AgentResult[],
+  strategy: AggregationStrategy,
+  judge: string,
+  error: Error
+): AggregationResult {
+  log.error("審査・統合エラー", { strategy, judge, error });
+  return {
+    strategy,
+    aggregated: concatResults(successful),
+    rationale: `審査・統合に失敗したためすべての結果を連結しました [judge=${judge}, error=${error.message}]`,
+    judge,
+  };
+}
+
+/**
+ * 各エージェントの結果を統合する
+ *
+ * @param prompt 元のプロンプト（judge・synthesis で使用）
+ * @param results 各エージェントの実行結果
+ * @param options 統合オプション
+ * @returns 統合結果（審査・統合に失敗した場合はすべての結果を連結し、rationaleに理由を記録）
+ * @throws 不明な統合戦略の場合
+ */
+export async function aggregateResults(
+  prompt: string,
+  results: AgentResult[],
+  options: AggregationOptions = {}
+): Promise<AggregationResult> {
+  const strategy = options.strategy || "concat";
+  const successful = results.filter((r) => r.success && r.result);
+
+  if (successful.length === 0) {
+    return { strategy, aggregated: ALL_FAILED_MESSAGE };
+  }
+
+  // 最初に完了した成功結果（全エージェントを同時に開始するため実行時間が最短のもの）
+  const first = successful.reduce((a, b) => (b.executionTime < a.executionTime ? b : a));
+
+  switch (strategy) {
+    case "first-success":
+      return {
+        strategy,
+        aggregated: first.result as string,
+        winner: first.agent,
+        rationale: `${first.agent}が最初に成功しました（${first.executionTime}ms）`,
+      };
+
+    case "majority": {
+      const groups = new Map<string, AgentResult[]>();
+      for (const r of successful) {
+        const key = normalizeAnswer(r.result as string);
+        groups.set(key, [...(groups.get(key) || []), r]);
+      }
+      // 票数が同じ場合は先に完了したグループを優先
+      const best = Array.from(groups.values()).sort(
+        (a, b) =>
+          b.length - a.length ||
+          Math.min(...a.map((r) => r.executionTime)) - Math.min(...b.map((r) => r.executionTime))
+      )[0];
+      return {
+        strategy,
+        aggregated: best[0].result as string,
+        winner: best[0].agent,
+        rationale: `${successful.length}件中${best.length}件が同じ回答でした [agents=${best.map((r) => r.agent).join(",")}]`,
+      };
+    }
+
+    case "judge": {
+      const judge = options.judge || DEFAULT_JUDGE;
+      const judgePrompt = `You are a strict reviewer. Score each candidate answer to the task below from 0 to 10 for correctness, completeness and clarity.
+
+## Task
+${prompt}
+
+## Candidates
+${formatCandidates(successful)}
+
+Respond with JSON only, in this format:
+{"scores": {"<candidate number>": <0-10>, ...}, "winner": "<candidate number>", "rationale": "<why the winner is best>"}`;
+
+      let judged: { output: string; usage: AgentUsage };
+      try {
+        judged = await runJudge(judge, judgePrompt, options);
+      } catch (error: any) {
+        return judgeFailed(successful, strategy, judge, error);
+      }
+      const { output, usage } = judged;
+      const verdict = extractJson(output);
+      const winner = findCandidate(successful, verdict?.winner);
+
+      if (!winner) {
+        // 審査結果を解釈できない場合は最初の成功結果を採用
+        return {
+          strategy,
+          aggregated: first.result as string,
+          winner: first.agent,
+          rationale: `審査結果を解釈できなかったため最初の成功結果を採用しました [judge=${judge}]`,
+          judge,
+          usage,
+        };
+      }
+
+      return {
+        strategy,
+        aggregated: winner.result as string,
+        winner: winner.agent,
+        rationale: String(verdict.rationale ?? ""),
+        scores: parseScores(successful, verdict.scores),
+        judge,
+        usage,
+      };
+    }
+
+    case "synthesis": {
+      const judge = options.judge || DEFAULT_JUDGE;
+      const synthesisPrompt = `Several assistants answered the task below. Merge their answers into one best answer: keep what is correct, resolve contradictions, and drop duplication. Output only the merged answer.
+
+## Task
+${prompt}
+
+## Answers
+${formatCandidates(successful)}`;
+
+      let merged: { output: string; usage: AgentUsage };
+      try {
+        merged = await runJudge(judge, synthesisPrompt, options);
+      } catch (error: any) {
+        return judgeFailed(successful, strategy, judge, error);
+      }
+      const { output, usage } = merged;
+      return {
+        strategy,
+        aggregated: output,
+        rationale: `${judge}が${successful.length}件の回答を統合しました [agents=${successful.map((r) => r.agent).join(",")}]`,
+        judge,
+        usage,
+      };
+    }
+
+    case "concat":
+      return { strategy, aggregated: concatResults(successful) };
+
+    default:
+      throw new Error(`Unknown aggregation strategy: ${strategy}`);
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * APIエラー
+ * Webサーバーのエラーレスポンスを共通の形式（エラーコード・メッセージ・詳細）にそろえる
+ *
+ * エラーレスポンスは `{ success: false, code, error, details?, timestamp }` の形式で、
+ * error にはこれまでどおり人が読めるメッセージ（文字列）を設定する。
+ *
+ * @module services/api-errors
+ */
+
+/**
+ * エラーコード
+ * - invalid_request: リクエストの形式・値が不正（400）
+ * - unauthorized: 認証が必要、またはAPIキーが不正（401）
+ * - forbidden: 許可されていない操作（403）
+ * - not_found: 対象が存在しない、または機能が無効（404）
+ * - conflict: 対象の状態が操作に適さない（409）
+ * - budget_exceeded: 予算の上限を超えている（429）
+ * - quota_exceeded: APIキーの利用枠に達している（429）
+ * - internal_error: サーバー内部のエラー（500）
+ * - timeout: 期限までに処理が完了しなかった（504）
+ */
+export type ApiErrorCode =
+  | "invalid_request"
+  | "unauthorized"
+  | "forbidden"
+  | "not_found"
+  | "conflict"
+  | "budget_exceeded"
+  | "quota_exceeded"
+  | "internal_error"
+  | "timeout";
+
+/**
+ * エラーコードごとのHTTPステータス
+ */
+export const API_ERROR_STATUS: Record<ApiErrorCode, number> = {
+  invalid_request: 400,
+  unauthorized: 401,
+  forbidden: 403,
+  not_found: 404,
+  conflict: 409,
+  budget_exceeded: 429,
+  quota_exceeded: 429,
+  internal_error: 500,
+  timeout: 504,
+};
+
+/**
+ * リクエストの検証エラーの詳細
+ */
+export interface ValidationIssue {
+  /** 不正な値の位置（例: `body.agents[1]`） */
+  path: string;
+  message: string;
+}
+
+/**
+ * エラーレスポンスの本文
+ */
+export interface ApiErrorBody {
+  success: false;
+  code: ApiErrorCode;
+  error: string;
+  /** 検証エラーの一覧、または操作対象の状態など */
+  details?: unknown;
+  timestamp: string;
+}
+
+/**
+ * エラーコード付きのAPIエラー（ルートで throw すると共通の形式で返される）
+ */
+export class ApiError extends Error {
+  readonly code: ApiErrorCode;
+  readonly details?: unknown;
+
+  constructor(code: ApiErrorCode, message: string, details?: unknown) {
+    super(message);
+    this.name = "ApiError";
+    this.code = code;
+    this.details = details;
+  }
+
+  /**
+   * HTTPステータス
+   */
+  get status(): number {
+    return API_ERROR_STATUS[this.code];
+  }
+}
+
+/**
+ * エラーをレスポンスのステータスと本文に変換する（ApiError以外は internal_error）
+ *
+ * @param error 発生したエラー
+ * @returns HTTPステータスとエラーレスポンスの本文
+ */
+export function toErrorResponse(error: any): { status: number; body: ApiErrorBody } {
+  const apiError =
+    error instanceof ApiError ? error : new ApiError("internal_error", error?.message || String(error));
+  return {
+    status: apiError.status,
+    body: {
+      success: false,
+      code: apiError.code,
+      error: apiError.message,
+      details: apiError.details,
+      timestamp: new Date().toISOString(),
+    },
+  };
+}
+
+/**
+ * リクエストの検証エラーを作成する（メッセージは最初の検証エラー）
+ *
+ * @param issues 検証エラーの一覧
+ * @returns invalid_request のAPIエラー（details に検証エラーの一覧）
+ */
+export function validationError(issues: ValidationIssue[]): ApiError {
+  const [first] = issues;
+  return new ApiError("invalid_request", `${first.path} ${first.message}`, issues);
+}
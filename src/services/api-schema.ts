@@ -0,0 +1,378 @@
+/**
+ * APIのリクエストスキーマ
+ * Webサーバーの各ルートのリクエスト（ボディ・クエリ）をJSON Schemaで定義し、検証する
+ *
+ * 同じスキーマからOpenAPIのドキュメント（services/openapi）を生成する。
+ * 検証はサーバーで使用するJSON Schemaのサブセット（type・enum・範囲・必須・追加プロパティ）のみに対応する。
+ *
+ * @module services/api-schema
+ */
+
+import { TASK_TYPES } from "./agent-orchestrator.js";
+import { AGGREGATION_STRATEGIES } from "./aggregation.js";
+import { MAX_DEBATE_ROUNDS } from "./debate.js";
+import { EXECUTION_MODES } from "./queued-execution.js";
+import { CLEAN_JOB_STATES, LIST_JOB_STATES } from "./job-queues.js";
+import type { ValidationIssue } from "./api-errors.js";
+
+/**
+ * JSON Schema（検証・OpenAPIで使用するサブセット）
+ */
+export interface JsonSchema {
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  /** false の場合は properties 以外のキーを拒否する */
+  additionalProperties?: boolean | JsonSchema;
+  /** オブジェクトのキーのスキーマ */
+  propertyNames?: JsonSchema;
+  items?: JsonSchema;
+  enum?: readonly (string | number)[];
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  pattern?: string;
+  default?: unknown;
+}
+
+/**
+ * エージェントごとの実行期限の範囲（ミリ秒）
+ */
+export const TIMEOUT_RANGE = { minimum: 1000, maximum: 3600000 };
+
+/**
+ * 値の型名を取得する（JSON Schemaの type と比較するため）
+ */
+function typeOf(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  if (typeof value === "number" && Number.isInteger(value)) {
+    return "integer";
+  }
+  return typeof value;
+}
+
+/**
+ * 値をスキーマで検証する
+ *
+ * @param schema スキーマ
+ * @param value 検証する値
+ * @param path エラーに表示する値の位置
+ * @returns 検証エラーの一覧（正しい場合は空）
+ */
+export function validateSchema(schema: JsonSchema, value: unknown, path: string): ValidationIssue[] {
+  const actual = typeOf(value);
+  if (schema.type && actual !== schema.type && !(schema.type === "number" && actual === "integer")) {
+    return [{ path, message: `must be of type ${schema.type}` }];
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    return [{ path, message: `must be one of: ${schema.enum.join(", ")}` }];
+  }
+
+  const issues: ValidationIssue[] = [];
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path, message: `must be <= ${schema.maximum}` });
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      issues.push({ path, message: `must be > ${schema.exclusiveMinimum}` });
+    }
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issues.push({ path, message: schema.minLength === 1 ? "must not be empty" : `must be at least ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      issues.push({ path, message: `must be at most ${schema.maxLength} characters` });
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      issues.push({ path, message: `must match ${schema.pattern}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({ path, message: `must contain at least ${schema.minItems} item(s)` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issues.push({ path, message: `must contain at most ${schema.maxItems} item(s)` });
+    }
+    if (schema.items) {
+      value.forEach((item, i) => issues.push(...validateSchema(schema.items as JsonSchema, item, `${path}[${i}]`)));
+    }
+  }
+
+  if (actual === "object") {
+    const object = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (object[key] === undefined) {
+        issues.push({ path: `${path}.${key}`, message: "is required" });
+      }
+    }
+    for (const [key, item] of Object.entries(object)) {
+      if (item === undefined) {
+        continue;
+      }
+      if (schema.propertyNames) {
+        issues.push(...validateSchema(schema.propertyNames, key, `${path}.${key}`));
+      }
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        issues.push(...validateSchema(propertySchema, item, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: `${path}.${key}`, message: "is not allowed" });
+      } else if (typeof schema.additionalProperties === "object") {
+        issues.push(...validateSchema(schema.additionalProperties, item, `${path}.${key}`));
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * マルチエージェント実行リクエスト（/api/execute・/api/execute/stream）のスキーマ
+ *
+ * @param agentIds 登録済みのエージェントID（プラグインを含む）
+ */
+export function executeRequestSchema(agentIds: string[]): JsonSchema {
+  const agent: JsonSchema = { type: "string", enum: agentIds };
+  return {
+    type: "object",
+    required: ["prompt"],
+    additionalProperties: false,
+    properties: {
+      prompt: { type: "string", minLength: 1, description: "実行するプロンプト" },
+      taskType: { type: "string", enum: TASK_TYPES, default: "general" },
+      language: { type: "string", maxLength: 50, description: "コード生成の言語" },
+      agents: {
+        type: "array",
+        items: agent,
+        minItems: 1,
+        description: "実行するエージェントID（デフォルトは codex, claude, gemini）",
+      },
+      model: {
+        type: "object",
+        propertyNames: agent,
+        additionalProperties: { type: "string", minLength: 1 },
+        description: "エージェントID → モデル名",
+      },
+      timeout: {
+        type: "integer",
+        ...TIMEOUT_RANGE,
+        default: 300000,
+        description: "エージェントごとの実行期限（ミリ秒、ディベートモードではラウンドごと）",
+      },
+      aggregation: { type: "string", enum: AGGREGATION_STRATEGIES, description: "結果の統合戦略" },
+      judge: { ...agent, description: "judge・synthesis で審査・統合を行うエージェントID（デフォルトは claude）" },
+      rounds: { type: "integer", minimum: 1, maximum: MAX_DEBATE_ROUNDS, description: "ディベートのラウンド数" },
+      fallbacks: {
+        type: "object",
+        propertyNames: agent,
+        additionalProperties: { type: "array", items: agent },
+        description: "エージェントID → 失敗時に順に実行するエージェントID",
+      },
+      hedgeAfter: {
+        type: "number",
+        exclusiveMinimum: 0,
+        description: "この時間（ミリ秒）内に応答がない場合、フォールバックの次のエージェントを並行して開始",
+      },
+      execution: { type: "string", enum: EXECUTION_MODES, description: "実行モード（queue の場合はワーカーで実行）" },
+    },
+  };
+}
+
+/**
+ * セッションログイン（/api/auth/login）のスキーマ
+ */
+export const LOGIN_REQUEST_SCHEMA: JsonSchema = {
+  type: "object",
+  required: ["apiKey"],
+  additionalProperties: false,
+  properties: {
+    apiKey: { type: "string", minLength: 1 },
+  },
+};
+
+/**
+ * キュー掃除（/api/queues/:name/clean）のスキーマ
+ */
+export const CLEAN_QUEUE_REQUEST_SCHEMA: JsonSchema = {
+  type: "object",
+  required: ["olderThan"],
+  additionalProperties: false,
+  properties: {
+    olderThan: { type: "integer", minimum: 0, description: "この時間（ミリ秒）より前のジョブを削除" },
+    state: { type: "string", enum: CLEAN_JOB_STATES, default: "completed" },
+    limit: { type: "integer", minimum: 1, default: 1000, description: "削除する最大件数" },
+  },
+};
+
+/**
+ * スライドHTML生成（/api/slides/generate）のスキーマ
+ */
+export const GENERATE_SLIDES_REQUEST_SCHEMA: JsonSchema = {
+  type: "object",
+  required: ["slideDeck"],
+  additionalProperties: false,
+  properties: {
+    slideDeck: {
+      type: "object",
+      required: ["slides"],
+      properties: {
+        title: { type: "string" },
+        createdAt: { type: "string" },
+        marpMarkdown: { type: "string" },
+        slides: {
+          type: "array",
+          minItems: 1,
+          items: {
+            type: "object",
+            required: ["title", "content"],
+            properties: {
+              title: { type: "string" },
+              content: { type: "string" },
+              slideNumber: { type: "integer", minimum: 1 },
+              imageUrl: { type: "string" },
+              colorPalette: { type: "object", additionalProperties: { type: "string" } },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * 0以上の整数を表すクエリ文字列
+ */
+const INTEGER_QUERY: JsonSchema = { type: "string", pattern: "^[0-9]+$" };
+
+/**
+ * 実行履歴一覧（/api/runs）のクエリのスキーマ
+ */
+export const LIST_RUNS_QUERY_SCHEMA: JsonSchema = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    prompt: { type: "string", description: "プロンプトに含まれる文字列" },
+    source: { type: "string", enum: ["execute", "stream", "job"] },
+    since: { type: "string", description: "この日時以降に作成された実行（ISO 8601）" },
+    until: { type: "string", description: "この日時より前に作成された実行（ISO 8601）" },
+    limit: { ...INTEGER_QUERY, description: "件数の上限（デフォルト50）" },
+    offset: INTEGER_QUERY,
+  },
+};
+
+/**
+ * 実行イベントの再接続（/api/runs/:id/events）のクエリのスキーマ
+ */
+export const RUN_EVENTS_QUERY_SCHEMA: JsonSchema = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    lastEventId: { ...INTEGER_QUERY, description: "受信済みの最後のイベントID（Last-Event-ID ヘッダーが優先）" },
+  },
+};
+
+/**
+ * ジョブ一覧（/api/jobs）のクエリのスキーマ
+ */
+export const LIST_JOBS_QUERY_SCHEMA: JsonSchema = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    state: { type: "string", enum: LIST_JOB_STATES, default: "waiting" },
+    queue: { type: "string", description: "キュー名（未指定時はすべてのキュー）" },
+    limit: { ...INTEGER_QUERY, description: "件数の上限（デフォルト50）" },
+    offset: INTEGER_QUERY,
+  },
+};
+
+/**
+ * 使用量（/api/usage）のクエリのスキーマ
+ */
+export const USAGE_QUERY_SCHEMA: JsonSchema = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    date: { type: "string", pattern: "^\\d{4}-\\d{2}-\\d{2}$", description: "YYYY-MM-DD（未指定時は当日）" },
+  },
+};
+
+/**
+ * WebSocket（/api/ws）でクライアントが送信するメッセージの種類
+ */
+export const SOCKET_MESSAGE_TYPES = [
+  "start",
+  "attach",
+  "cancel",
+  "cancel-agent",
+  "regenerate-slide",
+  "set-theme",
+  "pause-slides",
+  "resume-slides",
+] as const;
+export type SocketMessageType = (typeof SOCKET_MESSAGE_TYPES)[number];
+
+/**
+ * WebSocketのメッセージの種類を判定するスキーマ（種類ごとのスキーマで検証する前に使用）
+ */
+export const SOCKET_MESSAGE_SCHEMA: JsonSchema = {
+  type: "object",
+  required: ["type"],
+  properties: {
+    type: { type: "string", enum: SOCKET_MESSAGE_TYPES },
+  },
+};
+
+/**
+ * WebSocketのメッセージの種類ごとのスキーマ
+ *
+ * @param agentIds 登録済みのエージェントID（start の request の検証に使用）
+ */
+export function socketMessageSchemas(agentIds: string[]): Record<SocketMessageType, JsonSchema> {
+  const message = (
+    type: SocketMessageType,
+    required: Record<string, JsonSchema> = {},
+    optional: Record<string, JsonSchema> = {}
+  ): JsonSchema => ({
+    type: "object",
+    required: ["type", ...Object.keys(required)],
+    additionalProperties: false,
+    properties: {
+      type: { type: "string", enum: [type] },
+      id: { type: "string", maxLength: 100, description: "応答（ack・error）に含める任意のID" },
+      ...required,
+      ...optional,
+    },
+  });
+  return {
+    start: message("start", { request: executeRequestSchema(agentIds) }),
+    attach: message(
+      "attach",
+      { runId: { type: "string", minLength: 1 } },
+      { lastEventId: { type: "integer", minimum: 0, description: "受信済みの最後のイベントID（デフォルト0）" } }
+    ),
+    cancel: message("cancel"),
+    "cancel-agent": message("cancel-agent", { agent: { type: "string", enum: agentIds } }),
+    "regenerate-slide": message("regenerate-slide", { slideNumber: { type: "integer", minimum: 1 } }),
+    "set-theme": message("set-theme", { theme: { type: "string", minLength: 1, maxLength: 200 } }),
+    "pause-slides": message("pause-slides"),
+    "resume-slides": message("resume-slides"),
+  };
+}
@@ -0,0 +1,59 @@
+/**
+ * 監査ログ
+ * Webサーバーへの操作（実行・ジョブやキューの操作・認証の失敗）を、誰がいつ何をしたかとともにJSON Lines形式で追記する
+ *
+ * @module services/audit-log
+ */
+
+import { appendFileSync, mkdirSync } from "fs";
+import { dirname, join, resolve } from "path";
+import { loadQezuConfig, QezuConfig } from "./qezu-config.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("AuditLog");
+
+/**
+ * 監査ログの1行
+ */
+export interface AuditEntry {
+  timestamp: string;
+  /** APIキーID（認証が無効・認証前の場合はundefined） */
+  keyId?: string;
+  /** 認証方法 */
+  via?: "api-key" | "session";
+  ip?: string;
+  method: string;
+  path: string;
+  status: number;
+  durationMs: number;
+  /** 実行の場合の実行ID */
+  runId?: string;
+  /** 実行の場合のプロンプト（先頭200文字） */
+  prompt?: string;
+  agents?: string[];
+  error?: string;
+}
+
+/**
+ * 監査ログのパスを取得する（優先順位: QEZU_AUDIT_LOG > auth.auditLog > .qezu/audit.log）
+ *
+ * @param config 設定（未指定時は qezu.config.yaml を読み込む）
+ */
+export function getAuditLogPath(config: QezuConfig = loadQezuConfig()): string {
+  return resolve(process.env.QEZU_AUDIT_LOG || config.auth?.auditLog || join(process.cwd(), ".qezu", "audit.log"));
+}
+
+/**
+ * 監査ログに追記する（失敗しても呼び出し元の処理は継続する）
+ *
+ * @param entry 監査ログの1行
+ * @param path 監査ログのパス
+ */
+export function appendAuditLog(entry: AuditEntry, path: string): void {
+  try {
+    mkdirSync(dirname(path), { recursive: true });
+    appendFileSync(path, `${JSON.stringify(entry)}\n`);
+  } catch (error: any) {
+    log.warn("監査ログの書き込みに失敗しました", { path, error });
+  }
+}
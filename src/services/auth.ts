@@ -0,0 +1,298 @@
+/**
+ * Webサーバーの認証
+ * APIキー（Authorization: Bearer / X-API-Key）とセッションCookieで利用者を識別し、
+ * キーごとに実行できるエージェントと1日あたりの利用枠を適用する
+ *
+ * キーは qezu.config.yaml の auth.keys、または環境変数 QEZU_API_KEYS（`id=key` のカンマ区切り）で設定する。
+ * キーが1つも設定されていない場合は認証を行わない（従来どおりの動作）。
+ *
+ * @module services/auth
+ */
+
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import type { MultiAgentOptions } from "./agent-orchestrator.js";
+import { loadQezuConfig, QezuConfig } from "./qezu-config.js";
+import type { UsageBudget } from "./usage.js";
+
+/**
+ * セッションCookieの名前
+ */
+export const SESSION_COOKIE = "qezu_session";
+
+/**
+ * セッションの有効期間のデフォルト（秒）
+ */
+const DEFAULT_SESSION_TTL_SECONDS = 12 * 3600;
+
+/**
+ * キーIDとして使用できる文字（監査ログ・Redisのキーに使用するため）
+ */
+const KEY_ID_PATTERN = /^[A-Za-z0-9_.-]+$/;
+
+/**
+ * APIキーごとの1日あたりの利用枠（いずれかに達した時点で超過）
+ */
+export interface ApiKeyQuota extends UsageBudget {
+  /** 実行（/api/execute・/api/execute/stream・再実行）の回数の上限 */
+  maxRuns?: number;
+}
+
+/**
+ * APIキーの設定（qezu.config.yaml の auth.keys）
+ * key・keyHash・keyEnv のいずれか1つを指定する
+ */
+export interface ApiKeyConfig {
+  /** 利用者の識別子（監査ログ・実行履歴に記録される） */
+  id: string;
+  /** キー（平文、設定ファイルに書く場合は keyHash を推奨） */
+  key?: string;
+  /** キーのSHA-256（16進数） */
+  keyHash?: string;
+  /** キーを保持する環境変数名 */
+  keyEnv?: string;
+  /** 実行できるエージェントID（未指定時はすべて） */
+  agents?: string[];
+  /** 1日あたりの利用枠 */
+  quota?: ApiKeyQuota;
+  /** キュー全体の操作（一時停止・再開・掃除・ジョブの一覧）と、ほかのキーが投入したジョブの操作を許可する（デフォルトfalse） */
+  admin?: boolean;
+}
+
+/**
+ * 認証の設定（qezu.config.yaml の auth）
+ */
+export interface AuthConfig {
+  keys?: ApiKeyConfig[];
+  /** セッション（QEZU_SESSION_SECRET を設定した場合に有効） */
+  session?: {
+    /** 有効期間（秒、デフォルト12時間） */
+    ttl?: number;
+  };
+  /** CORSを許可するオリジン（QEZU_CORS_ORIGINS で上書き可能、未指定時はすべてのオリジン） */
+  corsOrigins?: string[];
+  /** 監査ログのパス（QEZU_AUDIT_LOG で上書き可能、デフォルトは .qezu/audit.log） */
+  auditLog?: string;
+}
+
+/**
+ * 検証用に解決したAPIキー
+ */
+export interface ApiKey {
+  id: string;
+  /** キーのSHA-256 */
+  hash: Buffer;
+  agents?: string[];
+  quota?: ApiKeyQuota;
+  admin?: boolean;
+}
+
+/**
+ * 認証された利用者
+ */
+export interface Principal {
+  keyId: string;
+  /** 認証方法 */
+  via: "api-key" | "session";
+  agents?: string[];
+  quota?: ApiKeyQuota;
+  /** 管理者（キュー全体の操作・すべてのジョブの操作が可能） */
+  admin?: boolean;
+}
+
+/**
+ * 利用者が実行にアクセスできるか判定する（認証が無効な場合はすべての実行にアクセスできる）
+ *
+ * @param principal 利用者（認証が無効な場合はundefined）
+ * @param keyId 実行を開始したAPIキーID（記録がない場合はundefined）
+ * @returns 同じAPIキーで開始した実行の場合true
+ */
+export function canAccess(principal: Principal | undefined, keyId: string | undefined): boolean {
+  return !principal || keyId === principal.keyId;
+}
+
+/**
+ * 利用者がジョブを操作できるか判定する（管理者はすべてのジョブ、それ以外は同じキーで投入したジョブのみ）
+ *
+ * @param principal 利用者（認証が無効な場合はundefined）
+ * @param keyId ジョブを投入したAPIキーID（CLIなどで投入したジョブはundefined）
+ * @returns 操作できる場合true
+ */
+export function canManageJob(principal: Principal | undefined, keyId: string | undefined): boolean {
+  return Boolean(principal?.admin) || canAccess(principal, keyId);
+}
+
+/**
+ * キーのSHA-256を計算する
+ */
+function hashKey(key: string): Buffer {
+  return createHash("sha256").update(key).digest();
+}
+
+/**
+ * 設定からAPIキーを読み込む（QEZU_API_KEYS のキーはすべてのエージェントを実行でき、利用枠はない。管理者にはならない）
+ *
+ * @param config 設定（未指定時は qezu.config.yaml を読み込む）
+ * @returns APIキーの一覧（空の場合は認証を行わない）
+ * @throws キーの設定が不正な場合
+ */
+export function loadApiKeys(config: QezuConfig = loadQezuConfig()): ApiKey[] {
+  const keys: ApiKey[] = [];
+
+  for (const entry of config.auth?.keys || []) {
+    const sources = [entry.key, entry.keyHash, entry.keyEnv].filter((v) => v !== undefined);
+    if (sources.length !== 1) {
+      throw new Error(`auth.keys には key・keyHash・keyEnv のいずれか1つを指定してください [id=${entry.id}]`);
+    }
+    if (entry.admin !== undefined && typeof entry.admin !== "boolean") {
+      throw new Error(`admin は true または false で指定してください [id=${entry.id}]`);
+    }
+    for (const [name, value] of Object.entries(entry.quota || {})) {
+      if (value !== undefined && (typeof value !== "number" || value <= 0)) {
+        throw new Error(`quota の値は正の数で指定してください [id=${entry.id}, ${name}=${value}]`);
+      }
+    }
+
+    let hash: Buffer;
+    if (entry.keyHash !== undefined) {
+      if (!/^[0-9a-fA-F]{64}$/.test(entry.keyHash)) {
+        throw new Error(`keyHash はSHA-256の16進数で指定してください [id=${entry.id}]`);
+      }
+      hash = Buffer.from(entry.keyHash, "hex");
+    } else {
+      const key = entry.key ?? process.env[entry.keyEnv as string];
+      if (!key) {
+        throw new Error(`APIキーが設定されていません [id=${entry.id}, keyEnv=${entry.keyEnv}]`);
+      }
+      hash = hashKey(key);
+    }
+    keys.push({ id: entry.id, hash, agents: entry.agents, quota: entry.quota, admin: entry.admin });
+  }
+
+  for (const pair of (process.env.QEZU_API_KEYS || "").split(",").filter((p) => p.trim())) {
+    const idx = pair.indexOf("=");
+    if (idx <= 0 || idx === pair.length - 1) {
+      // キーを含むため値は出力しない
+      throw new Error("QEZU_API_KEYS は id=key のカンマ区切りで指定してください");
+    }
+    keys.push({ id: pair.slice(0, idx).trim(), hash: hashKey(pair.slice(idx + 1).trim()) });
+  }
+
+  const ids = new Set<string>();
+  for (const { id } of keys) {
+    if (!id || !KEY_ID_PATTERN.test(id)) {
+      throw new Error(`APIキーのIDは英数字・_・.・- で指定してください [id=${id}]`);
+    }
+    if (ids.has(id)) {
+      throw new Error(`APIキーのIDが重複しています [id=${id}]`);
+    }
+    ids.add(id);
+  }
+
+  return keys;
+}
+
+/**
+ * APIキーを検証する
+ *
+ * @param keys APIキーの一覧
+ * @param apiKey リクエストのキー
+ * @returns 一致したキー（一致しない場合はundefined）
+ */
+export function authenticateApiKey(keys: ApiKey[], apiKey: string): ApiKey | undefined {
+  const hash = hashKey(apiKey);
+  return keys.find((key) => timingSafeEqual(key.hash, hash));
+}
+
+/**
+ * セッションの設定を取得する
+ *
+ * @param config 設定（未指定時は qezu.config.yaml を読み込む）
+ * @returns 署名用の秘密鍵と有効期間（QEZU_SESSION_SECRET が未設定の場合はundefined）
+ */
+export function getSessionConfig(config: QezuConfig = loadQezuConfig()): { secret: string; ttl: number } | undefined {
+  const secret = process.env.QEZU_SESSION_SECRET;
+  return secret ? { secret, ttl: config.auth?.session?.ttl || DEFAULT_SESSION_TTL_SECONDS } : undefined;
+}
+
+/**
+ * セッショントークンの署名を計算する
+ */
+function signSession(payload: string, secret: string): string {
+  return createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+/**
+ * セッショントークンを作成する（`<キーID>.<有効期限>.<署名>`）
+ *
+ * @param keyId キーID
+ * @param session セッションの設定
+ * @returns セッショントークン
+ */
+export function createSessionToken(keyId: string, session: { secret: string; ttl: number }): string {
+  const payload = `${keyId}.${Math.floor(Date.now() / 1000) + session.ttl}`;
+  return `${payload}.${signSession(payload, session.secret)}`;
+}
+
+/**
+ * セッショントークンを検証する
+ *
+ * @param token セッショントークン
+ * @param secret 署名用の秘密鍵
+ * @returns キーID（署名が不正・期限切れの場合はundefined）
+ */
+export function verifySessionToken(token: string, secret: string): string | undefined {
+  const idx = token.lastIndexOf(".");
+  if (idx < 0) {
+    return undefined;
+  }
+  const payload = token.slice(0, idx);
+  const signature = Buffer.from(token.slice(idx + 1));
+  const expected = Buffer.from(signSession(payload, secret));
+  if (signature.length !== expected.length || !timingSafeEqual(signature, expected)) {
+    return undefined;
+  }
+
+  // キーIDには . を含められるため、有効期限は末尾から取り出す
+  const expiresIdx = payload.lastIndexOf(".");
+  const expires = Number(payload.slice(expiresIdx + 1));
+  return expires * 1000 > Date.now() ? payload.slice(0, expiresIdx) : undefined;
+}
+
+/**
+ * CORSを許可するオリジンを取得する（優先順位: QEZU_CORS_ORIGINS > auth.corsOrigins）
+ *
+ * @param config 設定（未指定時は qezu.config.yaml を読み込む）
+ * @returns オリジンの一覧（未設定の場合はundefined）
+ */
+export function getCorsOrigins(config: QezuConfig = loadQezuConfig()): string[] | undefined {
+  const env = process.env.QEZU_CORS_ORIGINS;
+  if (env) {
+    return env.split(",").map((origin) => origin.trim()).filter(Boolean);
+  }
+  return config.auth?.corsOrigins;
+}
+
+/**
+ * 実行オプションで使用するエージェントのうち、利用者に許可されていないものを取得する
+ *
+ * 実行するエージェント・フォールバックチェーン・統合（judge・synthesis、ディベートの合意）を行うエージェントが対象。
+ *
+ * @param principal 利用者
+ * @param options 実行オプション
+ * @returns 許可されていないエージェントID（すべて許可されている場合は空）
+ */
+export function findDisallowedAgents(principal: Principal, options: MultiAgentOptions): string[] {
+  if (!principal.agents) {
+    return [];
+  }
+
+  const agents = options.agents || ["codex", "claude", "gemini"];
+  const used = new Set([...agents, ...agents.flatMap((agent) => options.fallbacks?.[agent] || [])]);
+  const debate = options.taskType === "debate" || (options.rounds ?? 1) > 1;
+  const aggregation = options.aggregation || (debate ? "synthesis" : "concat");
+  if (aggregation === "judge" || aggregation === "synthesis") {
+    used.add(options.judge || "claude");
+  }
+
+  return Array.from(used).filter((agent) => !principal.agents?.includes(agent));
+}
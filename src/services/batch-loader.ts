@@ -0,0 +1,201 @@
+/**
+ * バッチ投入ファイルローダー
+ * JSONL（1行1ジョブ）またはCSV（1行1組の変数）＋テンプレートからジョブ一覧を作成する
+ *
+ * @module services/batch-loader
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { extname } from "path";
+import type { RetryPolicy } from "./retry-policy.js";
+
+/**
+ * バッチ投入するジョブ
+ */
+export interface BatchJob {
+  /** 元ファイルの行番号（1始まり、CSVはヘッダー行を除いたデータ行の位置） */
+  line: number;
+  kind: string;
+  params: any;
+  retry?: RetryPolicy;
+}
+
+/**
+ * JSONL・テンプレートの1ジョブ分の記述
+ * command を指定した場合は params.command に設定される
+ */
+interface JobSpec {
+  kind: string;
+  command?: string;
+  params?: any;
+  retry?: RetryPolicy;
+}
+
+/**
+ * ジョブ記述をBatchJobに変換する
+ */
+function toBatchJob(spec: JobSpec, line: number): BatchJob {
+  if (!spec || typeof spec.kind !== "string" || !spec.kind) {
+    throw new Error(`kind が指定されていません [line=${line}]`);
+  }
+  const params = { ...(spec.params || {}) };
+  if (spec.command !== undefined) {
+    params.command = spec.command;
+  }
+  return { line, kind: spec.kind, params, retry: spec.retry };
+}
+
+/**
+ * JSONLテキストをパースする（空行と # で始まる行は無視）
+ *
+ * @param text JSONLテキスト
+ * @returns ジョブ一覧
+ * @throws JSONのパースに失敗した場合
+ */
+export function parseJsonlJobs(text: string): BatchJob[] {
+  const jobs: BatchJob[] = [];
+  const lines = text.split(/\r?\n/);
+
+  lines.forEach((raw, idx) => {
+    const line = raw.trim();
+    if (!line || line.startsWith("#")) {
+      return;
+    }
+    let spec: JobSpec;
+    try {
+      spec = JSON.parse(line);
+    } catch (error: any) {
+      throw new Error(`JSONのパースに失敗しました [line=${idx + 1}, error=${error.message}]`);
+    }
+    jobs.push(toBatchJob(spec, idx + 1));
+  });
+
+  return jobs;
+}
+
+/**
+ * CSVテキストをパースする（ダブルクォートによるエスケープ・改行を含むフィールドに対応）
+ *
+ * @param text CSVテキスト
+ * @returns ヘッダー行をキーとした行オブジェクトの一覧
+ * @throws クォートが閉じられていない場合
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error("CSVのクォートが閉じられていません");
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // 空行を除外
+  const nonEmpty = rows.filter((r) => r.some((v) => v.trim() !== ""));
+  if (nonEmpty.length === 0) {
+    return [];
+  }
+
+  const [header, ...data] = nonEmpty;
+  const keys = header.map((h) => h.trim());
+  return data.map((r) => Object.fromEntries(keys.map((k, idx) => [k, r[idx] ?? ""])));
+}
+
+/**
+ * テンプレート内の `{{列名}}` を変数で置換する
+ *
+ * @param value 置換対象（文字列・配列・オブジェクトを再帰的に処理）
+ * @param vars CSVの1行分の変数
+ * @returns 置換後の値
+ * @throws CSVに存在しない列を参照した場合
+ */
+export function fillTemplate(value: any, vars: Record<string, string>): any {
+  if (typeof value === "string") {
+    return value.replace(/\{\{\s*([^{}\s]+)\s*\}\}/g, (_, key: string) => {
+      if (!(key in vars)) {
+        throw new Error(`CSVに列がありません [column=${key}]`);
+      }
+      return vars[key];
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map((v) => fillTemplate(v, vars));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, fillTemplate(v, vars)]));
+  }
+  return value;
+}
+
+/**
+ * テンプレート指定（JSONファイルのパスまたはJSON文字列）を読み込む
+ */
+function loadTemplate(template: string): JobSpec {
+  const source = existsSync(template) ? readFileSync(template, "utf-8") : template;
+  try {
+    return JSON.parse(source);
+  } catch (error: any) {
+    throw new Error(`テンプレートのパースに失敗しました [error=${error.message}]`);
+  }
+}
+
+/**
+ * バッチファイルを読み込んでジョブ一覧を作成する
+ *
+ * @param path JSONLまたはCSVファイルのパス
+ * @param template CSVの場合のジョブテンプレート（JSONファイルのパスまたはJSON文字列）
+ * @returns ジョブ一覧
+ * @throws ファイル形式が不明な場合、CSVでテンプレートが未指定の場合
+ */
+export function loadBatchJobs(path: string, template?: string): BatchJob[] {
+  const text = readFileSync(path, "utf-8");
+  const ext = extname(path).toLowerCase();
+
+  if (ext === ".jsonl" || ext === ".ndjson") {
+    return parseJsonlJobs(text);
+  }
+
+  if (ext === ".csv") {
+    if (!template) {
+      throw new Error("CSVを投入する場合は --template でジョブテンプレートを指定してください");
+    }
+    const spec = loadTemplate(template);
+    return parseCsv(text).map((vars, idx) => toBatchJob(fillTemplate(spec, vars), idx + 1));
+  }
+
+  throw new Error(`対応していないファイル形式です [file=${path}]（.jsonl / .csv）`);
+}
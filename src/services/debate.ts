@@ -0,0 +1,90 @@
+/**
+ * ディベート（相互レビュー）モード
+ * 各エージェントが前のラウンドの他のエージェントの回答を批評し、自分の回答を改訂するためのプロンプトを作成する
+ *
+ * @module services/debate
+ */
+
+import type { AgentResult } from "./agent-orchestrator.js";
+
+/**
+ * ディベートのラウンド数のデフォルト（最初の回答 + 批評・改訂1回）
+ */
+export const DEFAULT_DEBATE_ROUNDS = 2;
+
+/**
+ * ディベートのラウンド数の上限（ラウンドごとに全エージェントを実行するため）
+ */
+export const MAX_DEBATE_ROUNDS = 5;
+
+/**
+ * 改訂後の回答の見出し（批評と回答を分けるために使用）
+ */
+const ANSWER_HEADING = "## Revised answer";
+
+/**
+ * 批評の見出し
+ */
+const CRITIQUE_HEADING = "## Critique";
+
+/**
+ * ディベートの1ラウンドの結果
+ */
+export interface DebateRound {
+  /** ラウンド番号（1から） */
+  round: number;
+  /** ラウンド数 */
+  rounds: number;
+  results: AgentResult[];
+}
+
+/**
+ * 2ラウンド目以降のプロンプトを作成する
+ *
+ * @param prompt 元のプロンプト
+ * @param agent プロンプトを渡すエージェント
+ * @param previous 前のラウンドの結果
+ * @returns 前のラウンドの自分と他のエージェントの回答を含むプロンプト
+ */
+export function buildDebatePrompt(prompt: string, agent: string, previous: AgentResult[]): string {
+  const own = previous.find((r) => r.agent === agent && r.success && r.result);
+  const others = previous.filter((r) => r.agent !== agent && r.success && r.result);
+
+  const sections = [`## Task\n${prompt}`];
+  if (own) {
+    sections.push(`## Your previous answer\n${own.result}`);
+  }
+  sections.push(
+    others.length > 0
+      ? `## Other participants' answers\n${others.map((r) => `### ${r.agent}\n${r.result}`).join("\n\n")}`
+      : "## Other participants' answers\n(none)"
+  );
+
+  return `You are taking part in a review discussion with other assistants. Read the other participants' answers to the task below critically: point out errors, gaps and weaker choices, and adopt what they got right. Then give your own improved answer.
+
+${sections.join("\n\n")}
+
+Respond in this format:
+${CRITIQUE_HEADING}
+<your critique of the other answers>
+
+${ANSWER_HEADING}
+<your complete revised answer to the task>`;
+}
+
+/**
+ * 2ラウンド目以降の出力を批評と改訂後の回答に分ける
+ * 見出しがない場合は出力全体を回答として扱う
+ *
+ * @param output エージェントの出力
+ * @returns 改訂後の回答と批評
+ */
+export function splitDebateOutput(output: string): { answer: string; critique?: string } {
+  const idx = output.lastIndexOf(ANSWER_HEADING);
+  if (idx < 0) {
+    return { answer: output };
+  }
+  const answer = output.slice(idx + ANSWER_HEADING.length).trim();
+  const critique = output.slice(0, idx).replace(CRITIQUE_HEADING, "").trim();
+  return { answer: answer || output, critique: critique || undefined };
+}
@@ -0,0 +1,146 @@
+/**
+ * フォールバックチェーン・ヘッジ実行
+ * エージェントが失敗した場合に次のエージェントで実行し、ヘッジ実行では一定時間応答がない場合に次のエージェントを並行して開始する
+ *
+ * @module services/fallback
+ */
+
+import type { AgentResult } from "./agent-orchestrator.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("Fallback");
+
+/**
+ * ヘッジ実行で先に完了したエージェントがあったため中断したエージェントの error
+ * （control.cancelAgent で中断した場合の CANCELLED_ERROR と区別する）
+ */
+export const HEDGE_CANCELLED_ERROR = "hedge-cancelled";
+
+/**
+ * フォールバックチェーンの実行オプション
+ */
+export interface FallbackOptions {
+  /** 中断用シグナル（abort時に実行中のすべてのエージェントを中断し、次のエージェントは開始しない） */
+  signal?: AbortSignal;
+  /**
+   * ヘッジ実行の待ち時間（ミリ秒）
+   * 実行中のエージェントがこの時間内に応答しない場合、チェーンの次のエージェントを並行して開始する
+   */
+  hedgeAfter?: number;
+}
+
+/**
+ * エージェントのチェーンを実行し、最初に成功した結果を返す
+ *
+ * 実行中のエージェントがすべて失敗した場合はチェーンの次のエージェントを開始する。
+ * ヘッジ実行では先に成功したエージェントの結果を採用し、残りのエージェントは中断する。
+ *
+ * @param chain 実行するエージェントの順序（先頭が本来のエージェント）
+ * @param run エージェントを実行する関数（失敗時は success: false の結果を返す）
+ * @param options 実行オプション
+ * @returns 成功した結果（フォールバック・ヘッジした場合は fallbackFrom と attempts 付き）、
+ *          すべて失敗した場合は本来のエージェントの失敗（ほかのエージェントの失敗は attempts）
+ */
+export function runWithFallback(
+  chain: string[],
+  run: (agent: string, signal: AbortSignal) => Promise<AgentResult>,
+  options: FallbackOptions = {}
+): Promise<AgentResult> {
+  const { signal, hedgeAfter } = options;
+  const startTime = Date.now();
+  const attempts: AgentResult[] = [];
+  // チェーンに同じエージェントが複数回含まれる場合があるため、チェーン内の位置をキーにする
+  const running = new Map<number, { agent: string; controller: AbortController; startedAt: number }>();
+  /** 本来のエージェント（チェーンの先頭）の失敗 */
+  let primary: AgentResult | undefined;
+  let next = 0;
+  let settled = false;
+  let hedgeTimer: NodeJS.Timeout | undefined;
+
+  return new Promise<AgentResult>((resolve) => {
+    const finish = (result: AgentResult) => {
+      settled = true;
+      clearTimeout(hedgeTimer);
+      const previous = attempts.filter((a) => a !== result);
+      resolve({
+        ...result,
+        fallbackFrom: result.agent !== chain[0] ? chain[0] : undefined,
+        attempts: previous.length > 0 ? previous : undefined,
+      });
+    };
+
+    const start = (): boolean => {
+      if (next >= chain.length || signal?.aborted) {
+        return false;
+      }
+      const index = next++;
+      const agent = chain[index];
+      const controller = new AbortController();
+      running.set(index, { agent, controller, startedAt: Date.now() });
+      run(agent, signal ? AbortSignal.any([signal, controller.signal]) : controller.signal).then(
+        (result) => onSettled(index, result),
+        (error: Error) =>
+          onSettled(index, { agent, success: false, error: error.message, executionTime: Date.now() - startTime })
+      );
+
+      // 一定時間内に応答がない場合は次のエージェントを並行して開始する
+      clearTimeout(hedgeTimer);
+      if (hedgeAfter !== undefined && next < chain.length) {
+        hedgeTimer = setTimeout(() => {
+          if (!settled) {
+            log.warn("応答がないため次のエージェントを並行して開始します", { agent, hedgeAfterMs: hedgeAfter });
+            start();
+          }
+        }, hedgeAfter);
+      }
+      return true;
+    };
+
+    const onSettled = (index: number, result: AgentResult) => {
+      running.delete(index);
+      if (settled) {
+        return;
+      }
+
+      if (result.success) {
+        // 並行して実行中のエージェントは中断する
+        for (const { agent: other, controller, startedAt } of running.values()) {
+          controller.abort();
+          attempts.push({
+            agent: other,
+            success: false,
+            error: HEDGE_CANCELLED_ERROR,
+            executionTime: Date.now() - startedAt,
+          });
+        }
+        running.clear();
+        finish(result);
+        return;
+      }
+
+      attempts.push(result);
+      if (index === 0) {
+        primary = result;
+      }
+      if (running.size > 0) {
+        // ヘッジ実行中の他のエージェントの結果を待つ
+        return;
+      }
+      if (start()) {
+        log.warn("エージェントが失敗したため次のエージェントで実行します", {
+          agent: result.agent,
+          error: result.error,
+          next: chain[next - 1],
+        });
+        return;
+      }
+
+      // すべて失敗した場合は本来のエージェント自身の失敗を返す
+      const own = primary ?? result;
+      attempts.splice(attempts.indexOf(own), 1);
+      finish({ ...own, executionTime: Date.now() - startTime });
+    };
+
+    start();
+  });
+}
@@ -0,0 +1,145 @@
+/**
+ * ジョブキャンセル
+ * Redisのキャンセルフラグとpub/subで、PM2クラスター内の実行中ジョブにキャンセルを伝える
+ *
+ * キャンセル要求はフラグ（待機中のジョブは処理開始時に確認）とチャネルへの通知（実行中のジョブは
+ * ワーカーがAbortControllerをabortして子プロセスを終了する）の両方で伝える。
+ * 処理が開始されていないジョブ（待機中・遅延中）はキャンセル時にキューから削除する。
+ *
+ * @module services/job-cancellation
+ */
+
+import { Job } from "bullmq";
+import IORedis from "ioredis";
+
+/**
+ * キャンセル通知のチャネル名
+ */
+export const CANCEL_CHANNEL = "qezu:cancel";
+
+/**
+ * キャンセルされたジョブの失敗理由
+ */
+export const JOB_CANCELLED_MESSAGE = "ジョブはキャンセルされました";
+
+/**
+ * キャンセルフラグのキー接頭辞
+ */
+const CANCEL_KEY_PREFIX = "qezu:cancelled:";
+
+/**
+ * キャンセルフラグの保持期間（秒）
+ */
+const CANCEL_TTL_SECONDS = 86400;
+
+/**
+ * キャンセル時にキューから削除するジョブの状態（処理が開始されていない）
+ */
+const REMOVABLE_STATES = ["waiting", "delayed", "prioritized", "paused"];
+
+/**
+ * キャンセル要求の結果
+ */
+export interface CancelResult {
+  jobId: string;
+  /** キャンセル要求時のジョブの状態 */
+  state: string;
+  /** キャンセルを要求したジョブID（ワークフローの場合は未完了の子ジョブを含む） */
+  cancelled: string[];
+  /** cancelled のうち、処理が開始されていなかったためキューから削除したジョブID */
+  removed: string[];
+}
+
+/**
+ * 未完了の子ジョブのIDを取得する（子ジョブのキーは "bull:<queue>:<jobId>" 形式）
+ */
+async function getUnprocessedChildIds(job: Job): Promise<string[]> {
+  const { unprocessed = [] } = await job.getDependencies({ unprocessed: {} });
+  return unprocessed.map((key) => key.split(":").pop() as string);
+}
+
+/**
+ * キャンセルフラグを設定し、実行中のワーカーに通知する
+ */
+async function flagCancel(connection: IORedis, id: string): Promise<void> {
+  await connection.set(`${CANCEL_KEY_PREFIX}${id}`, "1", "EX", CANCEL_TTL_SECONDS);
+  await connection.publish(CANCEL_CHANNEL, id);
+}
+
+/**
+ * ジョブのキャンセルを要求する
+ *
+ * 完了・失敗済みのジョブは対象外。処理が開始されていないジョブはキューから削除する
+ * （親ジョブの結果に影響するため、ワークフローの子ジョブは削除せずに処理開始時に失敗させる）。
+ * ワークフローの親ジョブの場合は、処理が開始されていない子ジョブを削除し、実行中の子ジョブにキャンセルを伝える。
+ * 親ジョブは子ジョブの終了後に処理を再開した時点でキャンセルされる。
+ *
+ * @param connection Redis接続
+ * @param job キャンセルするジョブ
+ * @returns キャンセル要求の結果
+ */
+export async function requestJobCancel(connection: IORedis, job: Job): Promise<CancelResult> {
+  const jobId = job.id as string;
+  const state = await job.getState();
+
+  if (state === "completed" || state === "failed") {
+    return { jobId, state, cancelled: [], removed: [] };
+  }
+
+  if (REMOVABLE_STATES.includes(state) && !job.parentKey) {
+    try {
+      await job.remove();
+      return { jobId, state, cancelled: [jobId], removed: [jobId] };
+    } catch {
+      // 削除までの間に処理が開始された場合（ロック中）は実行中のジョブとしてキャンセルする
+    }
+  }
+
+  // 子ジョブの削除で親ジョブが待機状態に戻る前にフラグを設定する
+  await flagCancel(connection, jobId);
+  if (state !== "waiting-children") {
+    return { jobId, state, cancelled: [jobId], removed: [] };
+  }
+
+  // ロックされていない（処理が開始されていない）子ジョブを削除し、残った実行中の子ジョブにキャンセルを伝える
+  const children = await getUnprocessedChildIds(job);
+  await job.removeUnprocessedChildren();
+  const running = await getUnprocessedChildIds(job);
+  for (const id of running) {
+    await flagCancel(connection, id);
+  }
+  const removed = children.filter((id) => !running.includes(id));
+  return { jobId, state, cancelled: [jobId, ...removed, ...running], removed };
+}
+
+/**
+ * ジョブのキャンセルが要求されているか確認する
+ *
+ * @param connection Redis接続
+ * @param jobId ジョブID
+ * @returns キャンセルが要求されている場合true
+ */
+export async function isCancelRequested(connection: IORedis, jobId: string): Promise<boolean> {
+  return (await connection.exists(`${CANCEL_KEY_PREFIX}${jobId}`)) === 1;
+}
+
+/**
+ * キャンセル通知を購読する
+ *
+ * @param connection Redis接続（購読用に複製して使用）
+ * @param onCancel キャンセルされたジョブIDを受け取るコールバック
+ * @returns 購読用の接続（終了時にquitする）
+ */
+export async function subscribeJobCancellation(
+  connection: IORedis,
+  onCancel: (jobId: string) => void
+): Promise<IORedis> {
+  const subscriber = connection.duplicate();
+  subscriber.on("message", (channel: string, jobId: string) => {
+    if (channel === CANCEL_CHANNEL) {
+      onCancel(jobId);
+    }
+  });
+  await subscriber.subscribe(CANCEL_CHANNEL);
+  return subscriber;
+}
@@ -0,0 +1,255 @@
+/**
+ * ジョブキューのルーティング
+ * qezu.config.yaml の limits に従って、エージェントの種類ごとに投入先キューを決定する
+ *
+ * 制限（limits）を設定したエージェントは専用キュー `qezu-jobs-<kind>` に振り分け、
+ * BullMQのグローバル同時実行数とレートリミッターでPM2クラスター全体の実行数を制限する。
+ * 制限のないエージェントとワークフローの親ジョブは共通キュー `qezu-jobs` を使用する。
+ * あわせて、すべてのキューを横断したジョブの検索・一覧・詳細の取得を提供する。
+ *
+ * @module services/job-queues
+ */
+
+import { Job, JobType, Queue } from "bullmq";
+import IORedis from "ioredis";
+import { loadQezuConfig, QezuConfig } from "./qezu-config.js";
+
+/**
+ * 共通キュー名
+ */
+export const DEFAULT_QUEUE_NAME = "qezu-jobs";
+
+/**
+ * エージェントごとの実行制限（PM2クラスター全体で適用）
+ */
+export interface AgentLimit {
+  /** 同時実行数の上限 */
+  maxConcurrent?: number;
+  /** 1分あたりの実行開始数の上限 */
+  maxPerMinute?: number;
+}
+
+/**
+ * 設定から有効なエージェントごとの制限を取得する
+ *
+ * @param config 設定（未指定時は qezu.config.yaml を読み込む）
+ * @returns エージェントID → 制限
+ * @throws 制限値が正の整数でない場合
+ */
+export function getAgentLimits(config: QezuConfig = loadQezuConfig()): Record<string, AgentLimit> {
+  const limits: Record<string, AgentLimit> = {};
+
+  for (const [kind, limit] of Object.entries(config.limits || {})) {
+    for (const [key, value] of Object.entries(limit || {})) {
+      if (value !== undefined && (!Number.isInteger(value) || (value as number) < 1)) {
+        throw new Error(`limits の値は1以上の整数で指定してください [kind=${kind}, ${key}=${value}]`);
+      }
+    }
+    if (limit?.maxConcurrent || limit?.maxPerMinute) {
+      limits[kind] = limit;
+    }
+  }
+
+  return limits;
+}
+
+/**
+ * エージェントの種類に対応する投入先キュー名を取得する
+ *
+ * @param kind エージェントID
+ * @param config 設定（未指定時は qezu.config.yaml を読み込む）
+ * @returns キュー名
+ */
+export function queueNameForKind(kind: string, config: QezuConfig = loadQezuConfig()): string {
+  return getAgentLimits(config)[kind] ? `${DEFAULT_QUEUE_NAME}-${kind}` : DEFAULT_QUEUE_NAME;
+}
+
+/**
+ * 使用するすべてのキュー名を取得する（共通キュー＋制限付きエージェントの専用キュー）
+ *
+ * @param config 設定（未指定時は qezu.config.yaml を読み込む）
+ * @returns キュー名の一覧
+ */
+export function listQueueNames(config: QezuConfig = loadQezuConfig()): string[] {
+  return [
+    DEFAULT_QUEUE_NAME,
+    ...Object.keys(getAgentLimits(config)).map((kind) => `${DEFAULT_QUEUE_NAME}-${kind}`),
+  ];
+}
+
+/**
+ * キュー名ごとにQueueインスタンスを使い回すプール
+ */
+export interface QueuePool {
+  get(name: string): Queue;
+  close(): Promise<void>;
+}
+
+/**
+ * キュープールを作成する
+ *
+ * @param connection Redis接続
+ * @returns キュープール
+ */
+export function createQueuePool(connection: IORedis): QueuePool {
+  const queues = new Map<string, Queue>();
+
+  return {
+    get(name: string): Queue {
+      let queue = queues.get(name);
+      if (!queue) {
+        queue = new Queue(name, { connection });
+        queues.set(name, queue);
+      }
+      return queue;
+    },
+    async close(): Promise<void> {
+      await Promise.all(Array.from(queues.values()).map((queue) => queue.close()));
+      queues.clear();
+    },
+  };
+}
+
+/**
+ * すべてのキューからジョブを探す
+ *
+ * @param queues キュープール
+ * @param jobId ジョブID
+ * @returns ジョブ（見つからない場合はundefined）
+ */
+export async function findJob(queues: QueuePool, jobId: string): Promise<Job | undefined> {
+  for (const name of listQueueNames()) {
+    const job = await Job.fromId(queues.get(name), jobId);
+    if (job) {
+      return job;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 一覧で指定できるジョブの状態（waiting は優先度付きで投入した prioritized を含む）
+ */
+export const LIST_JOB_STATES = ["waiting", "active", "delayed", "completed", "failed", "waiting-children", "paused"] as const;
+
+/**
+ * 一覧で指定できるジョブの状態
+ */
+export type ListJobState = (typeof LIST_JOB_STATES)[number];
+
+/**
+ * clean で削除できるジョブの状態
+ */
+export const CLEAN_JOB_STATES = ["completed", "failed", "delayed", "waiting"] as const;
+
+/**
+ * ジョブの概要（一覧表示用）
+ */
+export interface JobSummary {
+  jobId: string;
+  queue: string;
+  name: string;
+  kind?: string;
+  state: string;
+  attemptsMade: number;
+  /** 最大試行回数 */
+  attempts: number;
+  failedReason?: string;
+  /** ワークフローの子ジョブの場合の親ジョブID */
+  parentId?: string;
+  createdAt: string;
+  processedAt?: string;
+  finishedAt?: string;
+}
+
+/**
+ * ジョブの詳細
+ */
+export interface JobDetail extends JobSummary {
+  data: any;
+  result?: any;
+  stacktrace: string[];
+  progress: unknown;
+  /** ワーカーが記録したログ */
+  logs: string[];
+}
+
+/**
+ * ジョブの概要を作成する
+ *
+ * @param job ジョブ
+ * @param state ジョブの状態
+ * @returns ジョブの概要
+ */
+export function summarizeJob(job: Job, state: string): JobSummary {
+  return {
+    jobId: job.id as string,
+    queue: job.queueName,
+    name: job.name,
+    kind: job.data?.kind,
+    state,
+    attemptsMade: job.attemptsMade,
+    attempts: job.opts.attempts || 1,
+    failedReason: job.failedReason || undefined,
+    parentId: job.parent?.id,
+    createdAt: new Date(job.timestamp).toISOString(),
+    processedAt: job.processedOn ? new Date(job.processedOn).toISOString() : undefined,
+    finishedAt: job.finishedOn ? new Date(job.finishedOn).toISOString() : undefined,
+  };
+}
+
+/**
+ * ジョブの詳細を取得する（データ・結果・失敗理由・試行回数・ログ）
+ *
+ * @param queues キュープール
+ * @param job ジョブ
+ * @returns ジョブの詳細
+ */
+export async function describeJob(queues: QueuePool, job: Job): Promise<JobDetail> {
+  const { logs } = await queues.get(job.queueName).getJobLogs(job.id as string);
+  return {
+    ...summarizeJob(job, await job.getState()),
+    data: job.data,
+    result: job.returnvalue ?? undefined,
+    stacktrace: job.stacktrace || [],
+    progress: job.progress,
+    logs,
+  };
+}
+
+/**
+ * 状態を指定してジョブの一覧を取得する（新しい順）
+ *
+ * キューを指定しない場合はすべてのキューのジョブを作成日時の新しい順に並べてページングする。
+ *
+ * @param queues キュープール
+ * @param state ジョブの状態
+ * @param options 対象のキュー（未指定時はすべてのキュー）・取得位置・件数
+ * @returns 状態に一致したジョブの件数と、ジョブの概要
+ */
+export async function listJobs(
+  queues: QueuePool,
+  state: ListJobState,
+  options: { queue?: string; offset?: number; limit?: number } = {}
+): Promise<{ total: number; jobs: JobSummary[] }> {
+  const offset = options.offset || 0;
+  const limit = options.limit || 50;
+  const types: JobType[] = state === "waiting" ? ["waiting", "prioritized"] : [state];
+
+  let total = 0;
+  const jobs: Job[] = [];
+  for (const name of options.queue ? [options.queue] : listQueueNames()) {
+    const queue = queues.get(name);
+    total += await queue.getJobCountByTypes(...types);
+    // 各キューから先頭の offset + limit 件を取得して全体で並べ替える
+    jobs.push(...(await queue.getJobs(types, 0, offset + limit - 1)).filter(Boolean));
+  }
+
+  return {
+    total,
+    jobs: jobs
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(offset, offset + limit)
+      .map((job) => summarizeJob(job, state)),
+  };
+}
@@ -0,0 +1,217 @@
+/**
+ * 構造化ログ
+ * レベル（debug・info・warn・error）と出力形式（pretty・json）を設定できるロガーと、
+ * 実行をサーバー・ワーカーのログをまたいで追跡するための相関ID（correlationId）を提供する
+ *
+ * 相関IDなどのコンテキストは AsyncLocalStorage で非同期処理に引き継がれ、withLogContext の中で出力したログに付与される。
+ * HTTPリクエスト・CLIでのジョブ投入で開始し、ジョブの meta.correlationId でワーカーに、環境変数 QEZU_CORRELATION_ID でエージェントのCLIに引き継ぐ。
+ *
+ * @module services/logger
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { inspect } from "util";
+import { loadQezuConfig, QezuConfig } from "./qezu-config.js";
+
+/**
+ * ログのレベル（この順に重要度が高い）
+ */
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+/**
+ * ログの出力形式（pretty は `[Module] メッセージ [key=value]`、json は1行1オブジェクト）
+ */
+export const LOG_FORMATS = ["pretty", "json"] as const;
+export type LogFormat = (typeof LOG_FORMATS)[number];
+
+/**
+ * ログの設定（qezu.config.yaml の logging）
+ */
+export interface LoggingConfig {
+  /** 出力する最低のレベル（デフォルト info） */
+  level?: LogLevel;
+  /** 出力形式（デフォルト pretty） */
+  format?: LogFormat;
+}
+
+/**
+ * ログに付与する値（Error は message・stack に展開する）
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * ロガー（モジュールごとに createLogger で作成する）
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+/**
+ * 相関IDを子プロセスに引き継ぐ環境変数
+ */
+export const CORRELATION_ID_ENV = "QEZU_CORRELATION_ID";
+
+/**
+ * 非同期処理に引き継ぐログのコンテキスト（correlationId・runId・jobId など）
+ */
+const storage = new AsyncLocalStorage<LogFields>();
+
+/**
+ * ログの設定（最初のログの出力時に読み込む）
+ */
+let settings: Required<LoggingConfig> | undefined;
+
+/**
+ * ログの設定を取得する（QEZU_LOG_LEVEL・QEZU_LOG_FORMAT で上書き可能）
+ *
+ * @param config 設定（未指定時は qezu.config.yaml を読み込む）
+ * @returns デフォルト値を適用した設定
+ * @throws レベル・出力形式が不正な場合
+ */
+export function getLoggingConfig(config: QezuConfig = loadQezuConfig()): Required<LoggingConfig> {
+  const level = (process.env.QEZU_LOG_LEVEL || config.logging?.level || "info") as LogLevel;
+  const format = (process.env.QEZU_LOG_FORMAT || config.logging?.format || "pretty") as LogFormat;
+  if (!LOG_LEVELS.includes(level)) {
+    throw new Error(`logging.level は ${LOG_LEVELS.join("・")} のいずれかで指定してください [level=${level}]`);
+  }
+  if (!LOG_FORMATS.includes(format)) {
+    throw new Error(`logging.format は ${LOG_FORMATS.join("・")} のいずれかで指定してください [format=${format}]`);
+  }
+  return { level, format };
+}
+
+/**
+ * ログの設定を取得する（設定が不正な場合はデフォルト値で出力を続ける）
+ */
+function getSettings(): Required<LoggingConfig> {
+  if (!settings) {
+    try {
+      settings = getLoggingConfig();
+    } catch (error: any) {
+      settings = { level: "info", format: "pretty" };
+      console.warn(`[Logger] ${error.message}`);
+    }
+  }
+  return settings;
+}
+
+/**
+ * コンテキストを追加して関数を実行する（関数内で開始した非同期処理のログにも付与される）
+ *
+ * @param fields 追加するコンテキスト（現在のコンテキストに上書きで追加）
+ * @param fn 実行する関数
+ * @returns 関数の戻り値
+ */
+export function withLogContext<T>(fields: LogFields, fn: () => T): T {
+  return storage.run({ ...storage.getStore(), ...fields }, fn);
+}
+
+/**
+ * 現在の相関IDを取得する
+ *
+ * @returns 相関ID（withLogContext の外ではundefined）
+ */
+export function getCorrelationId(): string | undefined {
+  const correlationId = storage.getStore()?.correlationId;
+  return typeof correlationId === "string" ? correlationId : undefined;
+}
+
+/**
+ * 子プロセスに相関IDを引き継ぐ環境変数（相関IDがない場合は空）
+ */
+export function correlationEnv(): Record<string, string> {
+  const correlationId = getCorrelationId();
+  return correlationId ? { [CORRELATION_ID_ENV]: correlationId } : {};
+}
+
+/**
+ * JSON形式で出力する値に変換する
+ */
+function toJsonValue(value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+}
+
+/**
+ * pretty形式で出力する値に変換する
+ */
+function toPrettyValue(value: unknown): string {
+  if (value instanceof Error) {
+    return value.message;
+  }
+  if (Array.isArray(value)) {
+    return value.join(",");
+  }
+  if (value !== null && typeof value === "object") {
+    try {
+      return JSON.stringify(value);
+    } catch {
+      // 循環参照を含む値
+      return inspect(value, { depth: 2, breakLength: Infinity });
+    }
+  }
+  return String(value);
+}
+
+/**
+ * ログを出力する
+ */
+function write(level: LogLevel, module: string, message: string, fields?: LogFields): void {
+  const { level: minLevel, format } = getSettings();
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(minLevel)) {
+    return;
+  }
+
+  // 呼び出し時の値をコンテキストより優先する
+  const entries = Object.entries({ ...storage.getStore(), ...fields }).filter(([, value]) => value !== undefined);
+  const output = level === "error" ? console.error : level === "warn" ? console.warn : console.log;
+
+  if (format === "json") {
+    const entry: LogFields = { time: new Date().toISOString(), level, module, message };
+    for (const [key, value] of entries) {
+      entry[key] = toJsonValue(value);
+    }
+    try {
+      output(JSON.stringify(entry));
+    } catch {
+      // 循環参照などでシリアライズできない値はpretty形式の文字列で出力する
+      output(JSON.stringify({ ...entry, ...Object.fromEntries(entries.map(([key, value]) => [key, toPrettyValue(value)])) }));
+    }
+    return;
+  }
+
+  // 相関IDは先頭8文字のみ表示（JSON形式では全体を出力）
+  const pairs = entries.map(([key, value]) =>
+    key === "correlationId" ? `cid=${String(value).slice(0, 8)}` : `${key}=${toPrettyValue(value)}`
+  );
+  output(`[${module}] ${message}${pairs.length > 0 ? ` [${pairs.join(", ")}]` : ""}`);
+  // debug レベルではエラーのスタックトレースも出力する
+  if (minLevel === "debug") {
+    for (const [, value] of entries) {
+      if (value instanceof Error && value.stack) {
+        output(value.stack);
+      }
+    }
+  }
+}
+
+/**
+ * モジュールのロガーを作成する
+ *
+ * @param module モジュール名（pretty形式の `[Module]`、json形式の module）
+ * @returns ロガー
+ */
+export function createLogger(module: string): Logger {
+  return {
+    debug: (message, fields) => write("debug", module, message, fields),
+    info: (message, fields) => write("info", module, message, fields),
+    warn: (message, fields) => write("warn", module, message, fields),
+    error: (message, fields) => write("error", module, message, fields),
+  };
+}
@@ -0,0 +1,271 @@
+/**
+ * Prometheusメトリクス
+ * サーバー（GET /metrics）とワーカー（プロセスごとのメトリクスポート）で、ジョブ・エージェントの子プロセス・キュー・スライド生成・SSEの接続数を公開する
+ *
+ * メトリクスはプロセスごとに集計する（PM2のクラスターではワーカーごとに別のポートで公開し、Prometheusで合算する）。
+ *
+ * @module services/metrics
+ */
+
+import { createServer, Server } from "http";
+import { collectDefaultMetrics, Counter, Gauge, Histogram, register } from "prom-client";
+import { loadQezuConfig, QezuConfig } from "./qezu-config.js";
+import { listQueueNames, QueuePool } from "./job-queues.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("Metrics");
+
+/**
+ * メトリクスの設定（qezu.config.yaml の metrics）
+ */
+export interface MetricsConfig {
+  /** メトリクスを公開する（デフォルトtrue） */
+  enabled?: boolean;
+  /** ワーカーのメトリクスポートの開始番号（PM2のインスタンス番号を加算、デフォルト9464） */
+  workerPort?: number;
+}
+
+/**
+ * ジョブの処理結果
+ */
+export type JobOutcome = "completed" | "failed" | "retrying" | "cancelled" | "waiting-children";
+
+/**
+ * キューの深さとして公開するジョブの状態
+ */
+const QUEUE_DEPTH_STATES = ["waiting", "prioritized", "active", "delayed", "waiting-children", "paused", "failed"] as const;
+
+/**
+ * キューの深さの取得を待つ時間（ミリ秒、Redisに接続できない場合にメトリクスの取得が止まらないようにする）
+ */
+const QUEUE_DEPTH_TIMEOUT = 3000;
+
+/**
+ * ジョブの処理数（ワーカー）
+ */
+const jobsTotal = new Counter({
+  name: "qezu_jobs_total",
+  help: "ワーカーが処理したジョブ数（kind・結果別）",
+  labelNames: ["kind", "state"] as const,
+});
+
+/**
+ * ジョブの処理時間（ワーカー）
+ */
+const jobDuration = new Histogram({
+  name: "qezu_job_duration_seconds",
+  help: "ワーカーでのジョブの処理時間（秒）",
+  labelNames: ["kind", "state"] as const,
+  buckets: [0.5, 1, 5, 15, 30, 60, 120, 300, 600, 1200],
+});
+
+/**
+ * エージェントの子プロセスの終了数
+ */
+const adapterExits = new Counter({
+  name: "qezu_adapter_exits_total",
+  help: "エージェントのCLI（子プロセス）の終了数（終了コード別、シグナル・タイムアウト・中断は理由）",
+  labelNames: ["agent", "exit_code"] as const,
+});
+
+/**
+ * スライドごとの生成時間
+ */
+const slideDuration = new Histogram({
+  name: "qezu_slide_generation_seconds",
+  help: "並列スライド生成での1枚あたりの生成時間（秒）",
+  labelNames: ["status"] as const,
+  buckets: [1, 5, 10, 30, 60, 120, 300, 600],
+});
+
+/**
+ * 接続中のSSE
+ */
+const sseConnections = new Gauge({
+  name: "qezu_sse_connections",
+  help: "接続中のSSE（/api/execute/stream・/api/runs/:id/events）",
+});
+
+/**
+ * 接続中のWebSocket
+ */
+const websocketConnections = new Gauge({
+  name: "qezu_websocket_connections",
+  help: "接続中のWebSocket（/api/ws）",
+});
+
+/**
+ * メトリクスの設定を取得する（QEZU_METRICS=false で無効化、QEZU_METRICS_PORT で workerPort を上書き可能）
+ *
+ * @param config 設定（未指定時は qezu.config.yaml を読み込む）
+ * @returns デフォルト値を適用した設定
+ * @throws ポート番号が不正な場合
+ */
+export function getMetricsConfig(config: QezuConfig = loadQezuConfig()): Required<MetricsConfig> {
+  const env = process.env.QEZU_METRICS;
+  const port = process.env.QEZU_METRICS_PORT;
+  const metrics = {
+    enabled: env !== undefined ? env !== "false" && env !== "0" : config.metrics?.enabled ?? true,
+    workerPort: port !== undefined ? Number(port) : config.metrics?.workerPort ?? 9464,
+  };
+  if (!Number.isInteger(metrics.workerPort) || metrics.workerPort <= 0 || metrics.workerPort > 65535) {
+    throw new Error(`metrics.workerPort は1〜65535の整数で指定してください [workerPort=${metrics.workerPort}]`);
+  }
+  return metrics;
+}
+
+/**
+ * プロセスのメトリクス（CPU・メモリ・イベントループ）の収集を開始し、すべてのメトリクスに共通のラベルを設定する
+ *
+ * @param service プロセスの種類（server・worker）
+ */
+export function initMetrics(service: "server" | "worker"): void {
+  register.setDefaultLabels({ service });
+  collectDefaultMetrics({ prefix: "qezu_" });
+}
+
+/**
+ * キューの深さ（状態ごとのジョブ数）をメトリクスの取得時に集計する
+ *
+ * @param getQueues キュープールを取得する関数（初回の取得時にRedisに接続する場合を考慮）
+ */
+export function trackQueueDepth(getQueues: () => QueuePool): void {
+  new Gauge({
+    name: "qezu_queue_jobs",
+    help: "キューごと・状態ごとのジョブ数",
+    labelNames: ["queue", "state"] as const,
+    async collect() {
+      this.reset();
+      let timer: NodeJS.Timeout | undefined;
+      try {
+        const queues = getQueues();
+        const names = listQueueNames();
+        const timeout = new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new Error(`timed out after ${QUEUE_DEPTH_TIMEOUT}ms`)), QUEUE_DEPTH_TIMEOUT);
+        });
+        const counts = await Promise.race([
+          Promise.all(names.map((name) => queues.get(name).getJobCounts(...QUEUE_DEPTH_STATES))),
+          timeout,
+        ]);
+        names.forEach((name, i) => {
+          for (const state of QUEUE_DEPTH_STATES) {
+            this.set({ queue: name, state }, counts[i][state] ?? 0);
+          }
+        });
+      } catch (error: any) {
+        // Redisに接続できない場合もほかのメトリクスは公開する
+        log.warn("キューの深さを取得できませんでした", { error });
+      } finally {
+        clearTimeout(timer);
+      }
+    },
+  });
+}
+
+/**
+ * ワーカーのジョブの処理を記録する
+ *
+ * @param kind ジョブの種類
+ * @param state 処理結果
+ * @param seconds 処理時間（秒）
+ */
+export function recordJob(kind: string, state: JobOutcome, seconds: number): void {
+  jobsTotal.inc({ kind, state });
+  jobDuration.observe({ kind, state }, seconds);
+}
+
+/**
+ * エージェントの子プロセスの終了を記録する
+ *
+ * @param agent エージェントID
+ * @param subprocess execa の子プロセス
+ */
+export function observeChildProcess(agent: string, subprocess: PromiseLike<unknown>): void {
+  subprocess.then(
+    () => adapterExits.inc({ agent, exit_code: "0" }),
+    (error: any) => adapterExits.inc({ agent, exit_code: exitCodeLabel(error) })
+  );
+}
+
+/**
+ * 子プロセスが失敗した理由をラベルにする（終了コード、またはシグナル・タイムアウト・中断）
+ */
+function exitCodeLabel(error: any): string {
+  if (error?.isCanceled) {
+    return "aborted";
+  }
+  if (error?.timedOut) {
+    return "timeout";
+  }
+  if (typeof error?.exitCode === "number") {
+    return String(error.exitCode);
+  }
+  return error?.signal || "error";
+}
+
+/**
+ * スライド1枚の生成を記録する
+ *
+ * @param status 生成結果（completed・timeout・failed）
+ * @param seconds 生成時間（秒）
+ */
+export function recordSlideGeneration(status: "completed" | "timeout" | "failed", seconds: number): void {
+  slideDuration.observe({ status }, seconds);
+}
+
+/**
+ * SSEの接続・切断を記録する
+ *
+ * @param delta 接続時は1、切断時は-1
+ */
+export function trackSseConnection(delta: 1 | -1): void {
+  sseConnections.inc(delta);
+}
+
+/**
+ * WebSocketの接続・切断を記録する
+ *
+ * @param delta 接続時は1、切断時は-1
+ */
+export function trackWebSocketConnection(delta: 1 | -1): void {
+  websocketConnections.inc(delta);
+}
+
+/**
+ * メトリクスをPrometheusのテキスト形式で取得する
+ *
+ * @returns Content-Type と本文
+ */
+export async function renderMetrics(): Promise<{ contentType: string; body: string }> {
+  return { contentType: register.contentType, body: await register.metrics() };
+}
+
+/**
+ * メトリクスを公開するHTTPサーバーを起動する（ワーカー用、GET /metrics）
+ *
+ * @param port ポート番号
+ * @returns HTTPサーバー
+ */
+export function startMetricsServer(port: number): Server {
+  const server = createServer(async (req, res) => {
+    if (req.method !== "GET" || req.url?.split("?")[0] !== "/metrics") {
+      res.writeHead(404).end();
+      return;
+    }
+    try {
+      const { contentType, body } = await renderMetrics();
+      res.writeHead(200, { "Content-Type": contentType }).end(body);
+    } catch (error: any) {
+      log.error("メトリクスの取得エラー", { error });
+      res.writeHead(500).end();
+    }
+  });
+  server.on("error", (error: NodeJS.ErrnoException) => {
+    // メトリクスを公開できなくてもジョブの処理は続ける
+    log.error("メトリクスサーバーを起動できませんでした", { port, error });
+  });
+  server.listen(port, () => {
+    log.info(`メトリクス: http://localhost:${port}/metrics`);
+  });
+  return server;
+}
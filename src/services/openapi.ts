@@ -0,0 +1,273 @@
+/**
+ * OpenAPIドキュメント
+ * Webサーバーのルートの一覧と、リクエストの検証に使用するスキーマ（services/api-schema）からOpenAPI 3.1のドキュメントを生成する
+ *
+ * @module services/openapi
+ */
+
+import {
+  CLEAN_QUEUE_REQUEST_SCHEMA,
+  executeRequestSchema,
+  GENERATE_SLIDES_REQUEST_SCHEMA,
+  JsonSchema,
+  LIST_JOBS_QUERY_SCHEMA,
+  LIST_RUNS_QUERY_SCHEMA,
+  LOGIN_REQUEST_SCHEMA,
+  RUN_EVENTS_QUERY_SCHEMA,
+  USAGE_QUERY_SCHEMA,
+} from "./api-schema.js";
+import { API_ERROR_STATUS, ApiErrorCode } from "./api-errors.js";
+
+/**
+ * ドキュメントに記載するルート
+ */
+interface ApiRoute {
+  method: "get" | "post" | "delete";
+  /** OpenAPI形式のパス（パラメーターは `{id}`） */
+  path: string;
+  tag: string;
+  summary: string;
+  body?: JsonSchema;
+  query?: JsonSchema;
+  /** 成功時のレスポンスの種類（デフォルトは application/json） */
+  contentType?: "application/json" | "text/event-stream" | "text/html";
+  /** 認証が不要なルート */
+  public?: boolean;
+  /** 返しうるエラーコード */
+  errors?: ApiErrorCode[];
+}
+
+/**
+ * ルートの一覧
+ *
+ * @param agentIds 登録済みのエージェントID（実行リクエストの agents の列挙値）
+ */
+function listRoutes(agentIds: string[]): ApiRoute[] {
+  const execute = executeRequestSchema(agentIds);
+  return [
+    { method: "get", path: "/health", tag: "system", summary: "ヘルスチェック", public: true },
+    { method: "get", path: "/api/openapi.json", tag: "system", summary: "OpenAPIドキュメント", public: true },
+    {
+      method: "post",
+      path: "/api/auth/login",
+      tag: "auth",
+      summary: "APIキーを検証してセッションCookieを発行する",
+      body: LOGIN_REQUEST_SCHEMA,
+      public: true,
+      errors: ["invalid_request", "unauthorized", "not_found"],
+    },
+    { method: "post", path: "/api/auth/logout", tag: "auth", summary: "セッションを終了する", public: true },
+    { method: "get", path: "/api/auth/me", tag: "auth", summary: "認証中の利用者と当日の利用状況" },
+    {
+      method: "post",
+      path: "/api/execute",
+      tag: "execute",
+      summary: "マルチエージェントを実行して結果を返す",
+      body: execute,
+      errors: ["invalid_request", "forbidden", "budget_exceeded", "quota_exceeded", "timeout"],
+    },
+    {
+      method: "post",
+      path: "/api/execute/stream",
+      tag: "execute",
+      summary: "マルチエージェントを実行し、実行中のイベントをSSEで送信する",
+      body: execute,
+      contentType: "text/event-stream",
+      errors: ["invalid_request", "forbidden", "budget_exceeded", "quota_exceeded"],
+    },
+    {
+      method: "get",
+      path: "/api/ws",
+      tag: "execute",
+      summary: "WebSocket API（Upgrade: websocket）。実行の開始・イベントの受信と、エージェント単位の中断・スライドの再生成・テーマ変更・キューの一時停止を行う",
+      errors: ["forbidden"],
+    },
+    {
+      method: "get",
+      path: "/api/runs",
+      tag: "runs",
+      summary: "実行履歴の一覧（新しい順、認証が有効な場合は利用者のキーの実行のみ）",
+      query: LIST_RUNS_QUERY_SCHEMA,
+      errors: ["invalid_request"],
+    },
+    { method: "get", path: "/api/runs/{id}", tag: "runs", summary: "実行履歴の詳細", errors: ["not_found", "forbidden"] },
+    {
+      method: "get",
+      path: "/api/runs/{id}/events",
+      tag: "runs",
+      summary: "ストリーミング実行のイベントに再接続する（Last-Event-ID より後のイベントを送信、破棄済みの場合は先に gap イベント）",
+      query: RUN_EVENTS_QUERY_SCHEMA,
+      contentType: "text/event-stream",
+      errors: ["invalid_request", "not_found", "forbidden"],
+    },
+    {
+      method: "post",
+      path: "/api/runs/{id}/replay",
+      tag: "runs",
+      summary: "保存されたプロンプトと実行オプションで再実行する",
+      errors: ["invalid_request", "not_found", "forbidden", "budget_exceeded", "quota_exceeded", "timeout"],
+    },
+    {
+      method: "get",
+      path: "/api/jobs",
+      tag: "jobs",
+      summary: "状態を指定したジョブの一覧（新しい順、管理者のみ）",
+      query: LIST_JOBS_QUERY_SCHEMA,
+      errors: ["invalid_request", "not_found", "forbidden"],
+    },
+    { method: "get", path: "/api/jobs/{id}", tag: "jobs", summary: "ジョブの詳細", errors: ["not_found", "forbidden"] },
+    {
+      method: "delete",
+      path: "/api/jobs/{id}",
+      tag: "jobs",
+      summary: "ジョブをキャンセルする",
+      errors: ["not_found", "forbidden", "conflict"],
+    },
+    {
+      method: "post",
+      path: "/api/jobs/{id}/retry",
+      tag: "jobs",
+      summary: "失敗したジョブを再試行する（利用枠に1回分を計上）",
+      errors: ["not_found", "forbidden", "conflict", "quota_exceeded"],
+    },
+    {
+      method: "post",
+      path: "/api/jobs/{id}/remove",
+      tag: "jobs",
+      summary: "ジョブを削除する",
+      errors: ["not_found", "forbidden", "conflict"],
+    },
+    { method: "get", path: "/api/queues", tag: "queues", summary: "キューごとのジョブ数と一時停止中かどうか（管理者のみ）", errors: ["forbidden"] },
+    {
+      method: "post",
+      path: "/api/queues/{name}/pause",
+      tag: "queues",
+      summary: "キューを一時停止する（管理者のみ）",
+      errors: ["not_found", "forbidden"],
+    },
+    {
+      method: "post",
+      path: "/api/queues/{name}/resume",
+      tag: "queues",
+      summary: "キューを再開する（管理者のみ）",
+      errors: ["not_found", "forbidden"],
+    },
+    {
+      method: "post",
+      path: "/api/queues/{name}/clean",
+      tag: "queues",
+      summary: "指定した時間より前のジョブを削除する（管理者のみ）",
+      body: CLEAN_QUEUE_REQUEST_SCHEMA,
+      errors: ["invalid_request", "not_found", "forbidden"],
+    },
+    {
+      method: "get",
+      path: "/api/usage",
+      tag: "usage",
+      summary: "日ごとの使用量（すべてのキーの合計、管理者のみ）",
+      query: USAGE_QUERY_SCHEMA,
+      errors: ["invalid_request", "forbidden"],
+    },
+    { method: "get", path: "/api/usage/runs/{id}", tag: "usage", summary: "実行ごとの使用量", errors: ["forbidden"] },
+    { method: "get", path: "/api/agents", tag: "agents", summary: "登録済みのエージェントの一覧" },
+    {
+      method: "post",
+      path: "/api/slides/generate",
+      tag: "slides",
+      summary: "スライドデッキからHTMLを生成する",
+      body: GENERATE_SLIDES_REQUEST_SCHEMA,
+      contentType: "text/html",
+      errors: ["invalid_request"],
+    },
+  ];
+}
+
+/**
+ * エラーレスポンスのスキーマ
+ */
+const ERROR_SCHEMA: JsonSchema = {
+  type: "object",
+  required: ["success", "code", "error", "timestamp"],
+  properties: {
+    success: { type: "boolean", description: "常に false" },
+    code: { type: "string", enum: Object.keys(API_ERROR_STATUS) },
+    error: { type: "string", description: "エラーメッセージ" },
+    details: { description: "検証エラーの一覧（{ path, message }）、または操作対象の状態など" },
+    timestamp: { type: "string" },
+  },
+};
+
+/**
+ * OpenAPIドキュメントを生成する
+ *
+ * @param agentIds 登録済みのエージェントID（プラグインを含む）
+ * @param authEnabled 認証が有効な場合true（APIキーのセキュリティスキームを記載する）
+ * @returns OpenAPI 3.1のドキュメント
+ */
+export function buildOpenApiDocument(agentIds: string[], authEnabled: boolean): Record<string, any> {
+  const paths: Record<string, Record<string, any>> = {};
+
+  for (const route of listRoutes(agentIds)) {
+    const pathParams = Array.from(route.path.matchAll(/\{(\w+)\}/g), ([, name]) => ({
+      name,
+      in: "path",
+      required: true,
+      schema: { type: "string" },
+    }));
+    const queryParams = Object.entries(route.query?.properties || {}).map(([name, schema]) => ({
+      name,
+      in: "query",
+      required: false,
+      description: schema.description,
+      schema: { ...schema, description: undefined },
+    }));
+
+    // 認証エラーは認証が必要なすべてのルートで返しうる
+    const errors = [...(route.errors || []), ...(authEnabled && !route.public ? (["unauthorized"] as const) : [])];
+    const responses: Record<string, any> = {
+      "200": {
+        description: "成功",
+        content: { [route.contentType || "application/json"]: {} },
+      },
+      "500": { description: "internal_error", content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } } },
+    };
+    for (const code of new Set(errors)) {
+      const status = String(API_ERROR_STATUS[code]);
+      const description = responses[status] ? `${responses[status].description}, ${code}` : code;
+      responses[status] = {
+        description,
+        content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+      };
+    }
+
+    paths[route.path] ??= {};
+    paths[route.path][route.method] = {
+      tags: [route.tag],
+      summary: route.summary,
+      parameters: [...pathParams, ...queryParams],
+      requestBody: route.body
+        ? { required: true, content: { "application/json": { schema: route.body } } }
+        : undefined,
+      responses,
+      security: authEnabled && !route.public ? [{ bearerAuth: [] }, { apiKeyHeader: [] }, { sessionCookie: [] }] : [],
+    };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "qezu API",
+      version: "1.0.0",
+      description: "マルチエージェント（Flowise/Codex/Claude/Gemini）の実行・ジョブ・キューを操作するREST API",
+    },
+    paths,
+    components: {
+      schemas: { Error: ERROR_SCHEMA },
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer" },
+        apiKeyHeader: { type: "apiKey", in: "header", name: "X-API-Key" },
+        sessionCookie: { type: "apiKey", in: "cookie", name: "qezu_session" },
+      },
+    },
+  };
+}
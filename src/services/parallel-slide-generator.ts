@@ -7,6 +7,14 @@
 
 import { Slide, SlideDeck } from "./slide-generator.js";
 import { IncrementalSlideParser } from "./incremental-slide-parser.js";
+import { ApiError } from "./api-errors.js";
+import type { RunControl } from "./run-control.js";
+import { recordSlideGeneration } from "./metrics.js";
+import { createLogger, withLogContext } from "./logger.js";
+import type { Span } from "@opentelemetry/api";
+import { failSpan, withSpan } from "./tracing.js";
+
+const log = createLogger("ParallelSlideGenerator");
 
 export interface SlideGenerationTask {
   slideNumber: number;
@@ -83,11 +91,12 @@ export async function* generateSingleSlideStream(
   task: SlideGenerationTask,
   sendProgress?: (slide: Slide | null, progress: number) => void,
   useSearch?: boolean, // --searchオプション
-  sendEvent?: (event: string, data: any) => void // イベント送信用
+  sendEvent?: (event: string, data: any) => void, // イベント送信用
+  signal?: AbortSignal // 中断用シグナル（abort時にエージェントの子プロセスを終了）
 ): AsyncGenerator<Slide | null, void, unknown> {
   const { generateCodeStream } = await import("../adapters/codex.js");
-  const { chatWithClaude } = await import("../adapters/claude.js");
-  const { chatWithGemini } = await import("../adapters/gemini.js");
+  const { chatWithClaudeStream } = await import("../adapters/claude.js");
+  const { chatWithGeminiStream } = await import("../adapters/gemini.js");
   
   const parser = new IncrementalSlideParser();
   // テーマを設定
@@ -103,42 +112,47 @@ export async function* generateSingleSlideStream(
       stream = generateCodeStream(task.prompt, {
         maxTokens: 800, // スライド生成のため適切なサイズ（1000から800に短縮して高速化）
         cwd: process.cwd(),
+        signal,
         // searchオプションはプロンプト内に含まれているため、ここでは不要
       });
     } else if (task.agent === "claude") {
-      // Claudeはストリーミング未対応のため、通常実行
-      const result = await chatWithClaude(task.prompt, {
+      stream = chatWithClaudeStream(task.prompt, {
         model: "claude-3-opus",
         cwd: process.cwd(),
         timeout: 1200000, // 20分のタイムアウト
+        signal,
       });
-      streamedResult = result;
-      await parser.append(result);
-      const slideDeck = parser.getSlideDeck("");
-      if (slideDeck.slides.length > 0) {
-        yield slideDeck.slides[0];
-        return;
-      }
-      yield null;
-      return;
     } else if (task.agent === "gemini") {
-      // Geminiはストリーミング未対応のため、通常実行
-      const result = await chatWithGemini(task.prompt, {
+      stream = chatWithGeminiStream(task.prompt, {
         model: "gemini-pro",
         cwd: process.cwd(),
+        signal,
       });
-      streamedResult = result;
-      await parser.append(result);
-      const slideDeck = parser.getSlideDeck("");
-      if (slideDeck.slides.length > 0) {
-        yield slideDeck.slides[0];
+    } else {
+      // プラグインなどで登録されたエージェントはレジストリから解決
+      const { getAgent } = await import("../adapters/registry.js");
+      const adapter = getAgent(task.agent);
+      if (!adapter) {
+        yield null;
+        return;
+      }
+      const request = {
+        prompt: task.prompt,
+        taskType: "slide" as const,
+        model: adapter.defaultModel,
+        cwd: process.cwd(),
+        signal,
+      };
+      if (adapter.stream) {
+        stream = adapter.stream(request);
+      } else {
+        const result = await adapter.run(request);
+        streamedResult = result;
+        await parser.append(result);
+        const slideDeck = parser.getSlideDeck("");
+        yield slideDeck.slides.length > 0 ? slideDeck.slides[0] : null;
         return;
       }
-      yield null;
-      return;
-    } else {
-      yield null;
-      return;
     }
     
     // ストリーミング処理
@@ -188,26 +202,27 @@ export async function* generateSingleSlideStream(
             task.theme
           );
         } catch (error) {
-          console.warn(`[ParallelSlideGenerator] 画像生成エラー [slide=${task.slideNumber}, error=${error}]`);
+          log.warn("画像生成エラー", { error });
           // フォールバック画像
           slide.imageUrl = `https://source.unsplash.com/1920x1080/?${encodeURIComponent(slide.title.substring(0, 30))}`;
         }
       }
       
-      console.log(`[ParallelSlideGenerator] スライド${task.slideNumber}が完成しました [title=${slide.title.substring(0, 30)}..., imageUrl=${slide.imageUrl ? 'あり' : 'なし'}]`);
+      log.info("スライドが完成しました", { title: slide.title.substring(0, 30), imageUrl: slide.imageUrl ? 'あり' : 'なし' });
       yield slide;
     } else {
-      console.warn(`[ParallelSlideGenerator] スライド${task.slideNumber}の生成に失敗しました（スライドが見つかりません）`);
+      log.warn("スライドの生成に失敗しました（スライドが見つかりません）");
       yield null;
     }
   } catch (error: any) {
-    console.error(`[ParallelSlideGenerator] エラー [task=${task.slideNumber}, agent=${task.agent}, error=${error.message}]`);
+    log.error("エラー", { agent: task.agent, error });
     yield null;
   }
 }
 
 /**
  * 複数のスライドを並列生成（ストリーミング対応）
+ * control を指定すると、実行中にキューの一時停止・再開、スライドの再生成、テーマの変更ができる（slide-queue イベントで状態を通知）
  */
 export async function* generateSlidesInParallel(
   topic: string,
@@ -216,7 +231,9 @@ export async function* generateSlidesInParallel(
   sendEvent?: (event: string, data: any) => void,
   useSearch?: boolean, // Web検索とFigma Make参照を有効化
   theme?: string, // テーマ（画像検索用）
-  parallelCount?: number // 並列数（デフォルト50）
+  parallelCount?: number, // 並列数（デフォルト50）
+  signal?: AbortSignal, // 中断用シグナル（abort後は新しいタスクを開始しない）
+  control?: RunControl // 実行中の操作（一時停止・再開・再生成・テーマ変更）
 ): AsyncGenerator<Slide[], void, unknown> {
   const actualParallelCount = parallelCount || 16; // デフォルト16並列
   const tasks = createSlideTasks(topic, slideCount, agents, useSearch, theme);
@@ -224,25 +241,89 @@ export async function* generateSlidesInParallel(
   const completedTasks = new Set<number>();
   const processingTasks = new Set<number>(); // 処理中のタスクを追跡（重複防止）
   
-  console.log(`[ParallelSlideGenerator] ${slideCount}枚のスライドを${tasks.length}個のタスクで並列実行開始（最大${actualParallelCount}並列、動的タスクキューイング）`);
-  console.log(`[ParallelSlideGenerator] 並列実行設定: 最大${actualParallelCount}並列、タイムアウト10分、maxTokens=800`);
+  log.info(`${slideCount}枚のスライドを${tasks.length}個のタスクで並列実行開始（最大${actualParallelCount}並列、動的タスクキューイング）`);
+  log.info(`並列実行設定: 最大${actualParallelCount}並列、タイムアウト10分、maxTokens=800`);
   
   // タスクキューイング：最大並列数で動的にタスクを処理
   const taskQueue: SlideGenerationTask[] = [...tasks];
   const activePromises: Set<Promise<void>> = new Set();
+
+  // 一時停止中・タスクの完了待ちのキューを起こす（再開・再生成・中断時）
+  let paused = false;
+  let currentTheme = theme;
+  let wakeQueue: (() => void) | undefined;
+  const wake = () => wakeQueue?.();
+  const notifyQueue = () => {
+    sendEvent?.("slide-queue", {
+      paused,
+      theme: currentTheme,
+      pending: taskQueue.map((task) => task.slideNumber),
+      processing: Array.from(processingTasks),
+    });
+  };
+
+  // 中断された場合は未開始のタスクを破棄
+  signal?.addEventListener("abort", () => {
+    log.info(`中断されました（未開始のタスク${taskQueue.length}件を破棄）`);
+    taskQueue.splice(0);
+    wake();
+  }, { once: true });
+
+  const detachControl = control?.attachSlideQueue({
+    pause: () => {
+      paused = true;
+      log.info(`キューを一時停止しました（未開始のタスク${taskQueue.length}件）`);
+      notifyQueue();
+    },
+    resume: () => {
+      paused = false;
+      log.info(`キューを再開しました（未開始のタスク${taskQueue.length}件）`);
+      notifyQueue();
+      wake();
+    },
+    regenerate: (slideNumber) => {
+      if (!Number.isInteger(slideNumber) || slideNumber < 1 || slideNumber > slideCount) {
+        throw new ApiError("invalid_request", `slideNumber must be an integer between 1 and ${slideCount}`);
+      }
+      if (processingTasks.has(slideNumber)) {
+        throw new ApiError("conflict", `slide ${slideNumber} is being generated`);
+      }
+      // 未開始のタスクは取り除き、現在のテーマで作り直して先頭に追加
+      const queued = taskQueue.findIndex((task) => task.slideNumber === slideNumber);
+      if (queued >= 0) {
+        taskQueue.splice(queued, 1);
+      }
+      taskQueue.unshift(createSlideTasks(topic, slideCount, agents, useSearch, currentTheme)[slideNumber - 1]);
+      completedTasks.delete(slideNumber);
+      log.info("スライドを再生成します", { slide: slideNumber, theme: currentTheme });
+      notifyQueue();
+      wake();
+    },
+    setTheme: (nextTheme) => {
+      currentTheme = nextTheme;
+      const retasked = createSlideTasks(topic, slideCount, agents, useSearch, nextTheme);
+      taskQueue.forEach((task, i) => {
+        taskQueue[i] = retasked[task.slideNumber - 1];
+      });
+      log.info("テーマを変更しました", { theme: nextTheme, pending: taskQueue.length });
+      notifyQueue();
+    },
+    status: () => ({ paused, theme: currentTheme }),
+  });
   
   // タスクを並列実行する関数
-  const executeTask = async (task: SlideGenerationTask): Promise<void> => {
+  const runTask = async (task: SlideGenerationTask, span: Span): Promise<void> => {
     const slideNumber = task.slideNumber; // スライド番号を変数に保存
     
     // 重複チェック：既に処理中の場合はスキップ
     if (processingTasks.has(slideNumber)) {
-      console.warn(`[ParallelSlideGenerator] スライド${slideNumber}は既に処理中です。スキップします。`);
+      log.warn("スライドは既に処理中です。スキップします。");
       return; // 早期リターン
     }
     
     // 処理中としてマーク
     processingTasks.add(slideNumber);
+    const startTime = Date.now();
     
     try {
       let lastSlide: Slide | null = null; // 最後に生成されたスライドを保持
@@ -266,7 +347,7 @@ export async function* generateSlidesInParallel(
             
             // 重複チェック：既に存在する場合は更新のみ
             if (slideMap.has(slideNumber)) {
-              console.log(`[ParallelSlideGenerator] スライド${slideNumber}を更新します`);
+              log.info("スライドを更新します");
             }
             
             lastSlide = currentSlide;
@@ -301,7 +382,7 @@ export async function* generateSlidesInParallel(
               timestamp: Date.now(), // タイムスタンプで順序を追跡
             });
           }
-        }, useSearch, sendEvent)) {
+        }, useSearch, sendEvent, signal)) {
           // 最後のスライドを保存（スライド番号を確実に設定）
           // lastSlideは既にslideNumberが設定されているため、そのまま使用
           if (lastSlide) {
@@ -316,12 +397,18 @@ export async function* generateSlidesInParallel(
       // 処理完了をマーク
       completedTasks.add(slideNumber);
       processingTasks.delete(slideNumber);
+      recordSlideGeneration("completed", (Date.now() - startTime) / 1000);
+      span.setAttribute("qezu.slide.status", "completed");
     } catch (error: any) {
       const errorMessage = error.message || String(error);
-      console.error(`[ParallelSlideGenerator] タスクエラー [task=${slideNumber}, error=${errorMessage}]`);
+      log.error("タスクエラー", { error });
+      const timedOut = errorMessage.includes('タイムアウト') || errorMessage.includes('Timed out');
+      recordSlideGeneration(timedOut ? "timeout" : "failed", (Date.now() - startTime) / 1000);
+      span.setAttribute("qezu.slide.status", timedOut ? "timeout" : "failed");
+      failSpan(span, error);
       
       // タイムアウトエラーの場合は、部分的な結果を送信
-      if (errorMessage.includes('タイムアウト') || errorMessage.includes('Timed out')) {
+      if (timedOut) {
         if (sendEvent) {
           sendEvent("slide-error", {
             slideNumber: slideNumber,
@@ -336,10 +423,20 @@ export async function* generateSlidesInParallel(
       processingTasks.delete(slideNumber);
     }
   };
+
+  // タスクごとにスパンを作成し、タスク内のログにスライド番号を付与する
+  const executeTask = (task: SlideGenerationTask): Promise<void> =>
+    withLogContext({ slide: task.slideNumber }, () =>
+      withSpan(
+        `slide ${task.slideNumber}`,
+        { attributes: { "qezu.slide.number": task.slideNumber, "qezu.agent": task.agent, "qezu.slide.theme": task.theme } },
+        (span) => runTask(task, span)
+      )
+    );
   
   // 動的タスクキューイング：最大並列数でタスクを処理
   // 開始時に最大並列数まで一気に開始（高速化）
-  const initialTasks = taskQueue.splice(0, actualParallelCount);
+  const initialTasks = signal?.aborted ? [] : taskQueue.splice(0, actualParallelCount);
   initialTasks.forEach(task => {
     const promise = executeTask(task).finally(() => {
       activePromises.delete(promise);
@@ -347,36 +444,39 @@ export async function* generateSlidesInParallel(
     activePromises.add(promise);
   });
   
-  console.log(`[ParallelSlideGenerator] ${initialTasks.length}個のタスクを同時に開始しました（最大${actualParallelCount}並列）`);
+  log.info(`${initialTasks.length}個のタスクを同時に開始しました（最大${actualParallelCount}並列）`);
   
   while (taskQueue.length > 0 || activePromises.size > 0) {
-    // 空きスロットがある場合は新しいタスクを開始
-    while (activePromises.size < actualParallelCount && taskQueue.length > 0) {
+    // 空きスロットがある場合は新しいタスクを開始（一時停止中は開始しない）
+    while (!paused && activePromises.size < actualParallelCount && taskQueue.length > 0) {
       const task = taskQueue.shift();
       if (task) {
         const promise = executeTask(task).finally(() => {
           activePromises.delete(promise);
         });
         activePromises.add(promise);
-        console.log(`[ParallelSlideGenerator] タスク${task.slideNumber}を開始しました（現在${activePromises.size}並列）`);
+        log.info("タスクを開始しました", { slide: task.slideNumber, active: activePromises.size });
       }
     }
     
-    // 1つでも完了するまで待つ
-    if (activePromises.size > 0) {
-      await Promise.race(Array.from(activePromises));
-    }
+    // 1つでも完了する、またはキューが操作される（再開・再生成・中断）まで待つ
+    const woken = new Promise<void>((resolve) => {
+      wakeQueue = resolve;
+    });
+    await Promise.race([...Array.from(activePromises), woken]);
+    wakeQueue = undefined;
   }
+  detachControl?.();
   
   // すべてのタスクが完了したことを確認
-  console.log(`[ParallelSlideGenerator] すべてのタスクが完了しました（${completedTasks.size}/${slideCount}）`);
+  log.info(`すべてのタスクが完了しました（${completedTasks.size}/${slideCount}）`);
   
   // 完了したスライドを送信（順序保証：スライド番号でソート）
   const finalSlides = Array.from(slideMap.values())
     .filter(s => s.slideNumber > 0) // 有効なスライドのみ
     .sort((a, b) => a.slideNumber - b.slideNumber); // スライド番号でソート（順序保証）
   
-  console.log(`[ParallelSlideGenerator] ${finalSlides.length}/${slideCount}枚のスライドが完成しました（順序: ${finalSlides.map(s => s.slideNumber).join(', ')}）`);
+  log.info(`${finalSlides.length}/${slideCount}枚のスライドが完成しました（順序: ${finalSlides.map(s => s.slideNumber).join(', ')}）`);
   
   // 最終結果を送信
   if (finalSlides.length > 0 && sendEvent) {
@@ -397,7 +497,7 @@ export async function* generateSlidesInParallel(
       message: `スライド生成が完了しました（${finalSlides.length}/${slideCount}枚）`,
     });
     
-    console.log(`[ParallelSlideGenerator] 完了イベントを送信しました [slides=${finalSlides.length}]`);
+    log.info("完了イベントを送信しました", { slides: finalSlides.length });
   }
   
   yield finalSlides;
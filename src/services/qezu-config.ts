@@ -0,0 +1,90 @@
+/**
+ * qezu設定ファイルローダー
+ * qezu.config.yaml を読み込んで型付きの設定オブジェクトを返す
+ *
+ * @module services/qezu-config
+ */
+
+import { readFileSync, statSync } from "fs";
+import { join } from "path";
+import { parse } from "yaml";
+import type { WorkflowDefinition } from "./workflow-engine.js";
+import type { RetryPolicy } from "./retry-policy.js";
+import type { AgentLimit } from "./job-queues.js";
+import type { BudgetConfig, TokenPrice } from "./usage.js";
+import type { RunHistoryConfig } from "./run-history.js";
+import type { ExecutionConfig } from "./queued-execution.js";
+import type { AuthConfig } from "./auth.js";
+import type { StreamConfig } from "./run-events.js";
+import type { MetricsConfig } from "./metrics.js";
+import type { LoggingConfig } from "./logger.js";
+import type { TracingConfig } from "./tracing.js";
+
+/**
+ * qezu.config.yaml の構造
+ */
+export interface QezuConfig {
+  workflows?: Record<string, WorkflowDefinition>;
+  plugins?: string[];
+  /** エージェントごとのリトライポリシー（default はすべてのエージェントに適用） */
+  retry?: Record<string, RetryPolicy>;
+  /** エージェントごとの実行制限（PM2クラスター全体で適用） */
+  limits?: Record<string, AgentLimit>;
+  /** 料金表（モデル名またはエージェントID → 100万トークンあたりのUSD） */
+  pricing?: Record<string, TokenPrice>;
+  /** 実行ごと・日ごとの予算の上限 */
+  budget?: BudgetConfig;
+  /** 実行履歴の保存先 */
+  history?: RunHistoryConfig;
+  /** Webからの実行（/api/execute・/api/execute/stream）の実行モード */
+  execution?: ExecutionConfig;
+  /** Webサーバーの認証（APIキー・セッション・CORS・監査ログ） */
+  auth?: AuthConfig;
+  /** ストリーミング実行の再接続（切断後に実行を継続する時間・イベントの保持期間） */
+  stream?: StreamConfig;
+  /** Prometheusメトリクス（サーバーの /metrics・ワーカーのメトリクスポート） */
+  metrics?: MetricsConfig;
+  /** ログのレベル・出力形式 */
+  logging?: LoggingConfig;
+  /** OpenTelemetryの分散トレーシング（OTLPでの送信先・記録する割合） */
+  tracing?: TracingConfig;
+}
+
+/**
+ * 設定ファイルのパスを取得する（QEZU_CONFIGで上書き可能）
+ */
+export function getConfigPath(): string {
+  return process.env.QEZU_CONFIG || join(process.cwd(), "qezu.config.yaml");
+}
+
+/**
+ * 読み込み済みの設定（使用量の計算などで実行ごとに呼び出されるため、ファイルが変更されるまで再利用する）
+ */
+let cached: { path: string; mtimeMs: number; size: number; config: QezuConfig } | undefined;
+
+/**
+ * qezu.config.yaml を読み込む
+ * 前回の読み込みからファイルのパス・更新日時・サイズが変わっていない場合は同じオブジェクトを返す（変更しないこと）
+ *
+ * @returns 設定オブジェクト（ファイルが存在しない場合は空オブジェクト）
+ * @throws YAMLのパースに失敗した場合
+ */
+export function loadQezuConfig(): QezuConfig {
+  const configPath = getConfigPath();
+  const stat = statSync(configPath, { throwIfNoEntry: false });
+  if (!stat) {
+    return {};
+  }
+  if (cached?.path === configPath && cached.mtimeMs === stat.mtimeMs && cached.size === stat.size) {
+    return cached.config;
+  }
+
+  let config: QezuConfig;
+  try {
+    config = (parse(readFileSync(configPath, "utf-8")) as QezuConfig) || {};
+  } catch (error: any) {
+    throw new Error(`設定ファイルの読み込みに失敗しました [path=${configPath}, error=${error.message}]`);
+  }
+  cached = { path: configPath, mtimeMs: stat.mtimeMs, size: stat.size, config };
+  return config;
+}
@@ -0,0 +1,620 @@
+/**
+ * キュー経由のマルチエージェント実行
+ * /api/execute・/api/execute/stream の実行をBullMQのフロー（親子ジョブ）として投入し、
+ * PM2のワーカーで実行する（サーバーはジョブの投入と結果の中継のみを行う）
+ *
+ * 実行モデル:
+ *   - 親ジョブ（kind=multi-agent）を共通キュー `qezu-jobs` に、エージェントごとの子ジョブ（kind=multi-agent-task）を
+ *     エージェントの投入先キューに投入する（limits を設定したエージェントは専用キューの実行制限が適用される）
+ *   - 子ジョブがすべて完了すると親ジョブが処理され、失敗したエージェントはフォールバックチェーンの次のエージェントを、
+ *     ディベートモードでは次のラウンドのエージェントを子ジョブとして追加する
+ *   - すべてのラウンドが完了すると親ジョブが結果を統合する
+ *
+ * ワーカーは実行中のイベントと使用量をジョブの進捗（job.updateProgress）として送信し、
+ * サーバーはすべてのキューのQueueEventsの progress イベントで受け取って、インプロセスの実行と同じイベントとして扱う。
+ *
+ * @module services/queued-execution
+ */
+
+import { FlowProducer, Job, QueueEvents, WaitingChildrenError } from "bullmq";
+import IORedis from "ioredis";
+import {
+  AgentResult,
+  CANCELLED_ERROR,
+  completeMultiAgent,
+  MultiAgentOptions,
+  MultiAgentResult,
+  OrchestratorEvent,
+  planMultiAgent,
+  runAgentTask,
+  streamEvents,
+  TIMEOUT_ERROR,
+} from "./agent-orchestrator.js";
+import { buildDebatePrompt, DebateRound } from "./debate.js";
+import { JOB_CANCELLED_MESSAGE, requestJobCancel } from "./job-cancellation.js";
+import { DEFAULT_QUEUE_NAME, listQueueNames, queueNameForKind, QueuePool } from "./job-queues.js";
+import { loadQezuConfig, QezuConfig } from "./qezu-config.js";
+import { ApiError } from "./api-errors.js";
+import type { AgentUsage } from "./usage.js";
+import { createLogger, getCorrelationId } from "./logger.js";
+import { injectTraceContext, withEnqueueSpan } from "./tracing.js";
+
+const log = createLogger("QueuedExecution");
+
+/**
+ * マルチエージェント実行ジョブ（親ジョブ）の kind
+ */
+export const MULTI_AGENT_KIND = "multi-agent";
+
+/**
+ * マルチエージェント実行のエージェントごとの子ジョブの kind
+ */
+export const MULTI_AGENT_TASK_KIND = "multi-agent-task";
+
+/**
+ * エージェントごとの実行期限のデフォルト（ミリ秒、executeMultiAgent と同じ）
+ */
+const DEFAULT_TIMEOUT = 300000;
+
+/**
+ * 完了を待つ時間に加える余裕（ミリ秒、ワーカーが空くまでのキューでの待ち時間）
+ */
+const QUEUE_WAIT_MARGIN = 60000;
+
+/**
+ * 実行モード
+ * - inline: サーバーのプロセス内でエージェントを実行する（デフォルト）
+ * - queue: ジョブとしてキューに投入し、ワーカーで実行する
+ */
+export type ExecutionMode = "inline" | "queue";
+
+/**
+ * 実行モードの一覧
+ */
+export const EXECUTION_MODES: ExecutionMode[] = ["inline", "queue"];
+
+/**
+ * Webからの実行の設定（qezu.config.yaml の execution）
+ */
+export interface ExecutionConfig {
+  /** 実行モード（QEZU_EXECUTION_MODE で上書き可能） */
+  mode?: ExecutionMode;
+}
+
+/**
+ * ジョブとして渡せる実行オプション（コールバック・シグナル・実行中の操作を除く）
+ */
+export type MultiAgentJobOptions = Omit<MultiAgentOptions, "signal" | "onUsage" | "onEvent" | "control">;
+
+/**
+ * エージェントの枠（agents の要素ごと）の実行状況
+ */
+export interface AgentSlot {
+  /** 実行中のエージェントのフォールバックチェーン内の位置 */
+  position: number;
+  /** 失敗したエージェントの結果 */
+  attempts: AgentResult[];
+  /** 確定した結果（未設定の場合は position のエージェントを実行中） */
+  result?: AgentResult;
+}
+
+/**
+ * マルチエージェント実行ジョブ（親ジョブ）のparams（子ジョブの完了ごとにワーカーが更新する）
+ */
+export interface MultiAgentJobParams {
+  prompt: string;
+  options: MultiAgentJobOptions;
+  /** 実行中のラウンド（1から開始） */
+  round: number;
+  /** 実行中のラウンドの開始時刻（UNIXミリ秒） */
+  roundStart: number;
+  /** 実行中のラウンドの期限（UNIXミリ秒、フォールバックチェーン全体に適用） */
+  deadline: number;
+  /** agents と同じ順の枠 */
+  slots: AgentSlot[];
+  /** 完了したラウンドの結果（ディベートモード） */
+  rounds: DebateRound[];
+}
+
+/**
+ * エージェントごとの子ジョブのparams
+ */
+export interface MultiAgentTaskParams {
+  agent: string;
+  prompt: string;
+  round: number;
+  /** ラウンドの期限（UNIXミリ秒、キューで待機した時間を含む） */
+  deadline: number;
+  options: MultiAgentJobOptions;
+}
+
+/**
+ * ワーカーからサーバーへ送信する進捗
+ * - event: オーケストレーターのイベント
+ * - usage: エージェントの使用量（サーバーが実行ごとの使用量として記録し、予算を確認する）
+ */
+export type MultiAgentProgress =
+  | { type: "event"; event: OrchestratorEvent }
+  | { type: "usage"; agent: string; usage: AgentUsage };
+
+/**
+ * キュー経由の実行に使用する接続
+ */
+export interface QueueExecutionContext {
+  connection: IORedis;
+  /** キャンセル時に親ジョブを取得するキューのプール */
+  queues: QueuePool;
+  /** 親ジョブと最初のラウンドの子ジョブの投入に使用 */
+  flowProducer: FlowProducer;
+  /** キューの進捗・完了イベントを取得する（キュー名ごとに使い回す） */
+  getQueueEvents: (queueName: string) => QueueEvents;
+}
+
+/**
+ * ジョブの meta（投入元の相関ID・トレースのコンテキスト・APIキーID）
+ */
+type JobMeta = { correlationId?: string; trace?: unknown; keyId?: string };
+
+/**
+ * 実行モードを取得する（優先順位: QEZU_EXECUTION_MODE > execution.mode > inline）
+ *
+ * @param config 設定（未指定時は qezu.config.yaml を読み込む）
+ * @returns 実行モード
+ * @throws 実行モードが不正な場合
+ */
+export function getExecutionMode(config: QezuConfig = loadQezuConfig()): ExecutionMode {
+  const mode = process.env.QEZU_EXECUTION_MODE || config.execution?.mode || "inline";
+  if (!EXECUTION_MODES.includes(mode as ExecutionMode)) {
+    throw new Error(`実行モードは ${EXECUTION_MODES.join(", ")} のいずれかを指定してください [mode=${mode}]`);
+  }
+  return mode as ExecutionMode;
+}
+
+/**
+ * 実行するエージェントの一覧
+ */
+function agentsOf(options: MultiAgentJobOptions): string[] {
+  return options.agents || ["codex", "claude", "gemini"];
+}
+
+/**
+ * 枠のフォールバックチェーン（先頭が本来のエージェント）
+ */
+function chainOf(options: MultiAgentJobOptions, slot: number): string[] {
+  const agent = agentsOf(options)[slot];
+  return [agent, ...(options.fallbacks?.[agent] || [])];
+}
+
+/**
+ * 子ジョブのジョブIDを生成する（ラウンド・枠・チェーン内の位置ごと）
+ */
+function taskJobId(runId: string, round: number, slot: number, position: number): string {
+  return `${runId}-r${round}-a${slot}-${position}`;
+}
+
+/**
+ * ラウンドを開始する（各枠をチェーンの先頭から実行し、期限を設定する）
+ */
+function beginRound(params: MultiAgentJobParams, round: number): MultiAgentJobParams {
+  const now = Date.now();
+  return {
+    ...params,
+    round,
+    roundStart: now,
+    deadline: now + (params.options.timeout ?? DEFAULT_TIMEOUT),
+    slots: agentsOf(params.options).map(() => ({ position: 0, attempts: [] })),
+  };
+}
+
+/**
+ * 枠のエージェントを子ジョブとして投入するための定義を作成する
+ * ディベートの2ラウンド目以降は、前のラウンドの他のエージェントの回答を含むプロンプトで実行する
+ */
+function buildTaskJob(runId: string, params: MultiAgentJobParams, slot: number, meta: JobMeta) {
+  const { position } = params.slots[slot];
+  const agent = chainOf(params.options, slot)[position];
+  const previous = params.rounds[params.rounds.length - 1];
+  const taskParams: MultiAgentTaskParams = {
+    agent,
+    prompt:
+      params.round > 1 && previous
+        ? buildDebatePrompt(params.prompt, agentsOf(params.options)[slot], previous.results)
+        : params.prompt,
+    round: params.round,
+    deadline: params.deadline,
+    options: params.options,
+  };
+
+  return {
+    name: MULTI_AGENT_TASK_KIND,
+    queueName: queueNameForKind(agent),
+    data: { kind: MULTI_AGENT_TASK_KIND, params: taskParams, meta },
+    opts: {
+      jobId: taskJobId(runId, params.round, slot, position),
+      priority: 1,
+      // エージェントの失敗は結果（success: false）として返し、フォールバックは親ジョブが行う
+      attempts: 1,
+      // 開始前にキャンセル・予算超過で失敗した場合も、親ジョブは残りのエージェントの結果で続行する
+      ignoreDependencyOnFailure: true,
+    },
+  };
+}
+
+/**
+ * 子ジョブの終了状態からエージェントの結果を作成する
+ *
+ * @param agent 子ジョブのエージェントID
+ * @param value 完了した場合の戻り値
+ * @param failedReason 開始前にキャンセル・予算超過などで失敗した場合の理由
+ * @returns エージェントの結果（キャンセル時に削除された子ジョブは "cancelled"）
+ */
+function taskOutcome(agent: string, value: AgentResult | undefined, failedReason: string | undefined): AgentResult {
+  if (value) {
+    return value;
+  }
+  const error = failedReason === undefined || failedReason === JOB_CANCELLED_MESSAGE ? CANCELLED_ERROR : failedReason;
+  return { agent, success: false, error, executionTime: 0 };
+}
+
+/**
+ * 子ジョブの結果から枠の状態を進める
+ *
+ * 成功した場合・期限を過ぎた場合・実行全体がキャンセルされた場合・チェーンの最後のエージェントの場合は結果を確定し、
+ * それ以外の失敗はチェーンの次のエージェントに進める。確定した結果の形式は runWithFallback と同じ
+ * （期限を過ぎた場合は本来のエージェントの "timeout"）。
+ *
+ * @param slot 枠の状態
+ * @param chain 枠のフォールバックチェーン
+ * @param outcome 実行中だったエージェントの結果
+ * @param context 現在時刻・ラウンドの開始時刻と期限・実行全体がキャンセルされたか
+ * @returns 更新した枠の状態（result が未設定の場合は position のエージェントを次に実行する）
+ */
+export function advanceSlot(
+  slot: AgentSlot,
+  chain: string[],
+  outcome: AgentResult,
+  context: { now: number; roundStart: number; deadline: number; cancelled: boolean }
+): AgentSlot {
+  const { now, roundStart, deadline, cancelled } = context;
+
+  if (outcome.success) {
+    return {
+      ...slot,
+      result: {
+        ...outcome,
+        fallbackFrom: outcome.agent !== chain[0] ? chain[0] : undefined,
+        attempts: slot.attempts.length > 0 ? slot.attempts : undefined,
+      },
+    };
+  }
+
+  // 期限はフォールバックチェーン全体に適用する
+  if (outcome.error === TIMEOUT_ERROR || now >= deadline) {
+    return {
+      ...slot,
+      result: { agent: chain[0], success: false, error: TIMEOUT_ERROR, executionTime: now - roundStart },
+    };
+  }
+
+  const attempts = [...slot.attempts, outcome];
+  if (!cancelled && slot.position + 1 < chain.length) {
+    return { position: slot.position + 1, attempts };
+  }
+
+  // すべて失敗した場合は本来のエージェント自身の失敗を返す
+  const [own, ...others] = attempts;
+  return {
+    ...slot,
+    attempts,
+    result: {
+      ...own,
+      executionTime: chain.length > 1 ? now - roundStart : own.executionTime,
+      attempts: others.length > 0 ? others : undefined,
+    },
+  };
+}
+
+/**
+ * 進捗の送信（送信順にRedisへ書き込み、完了イベントより前にすべて送信されるようにする）
+ */
+function createProgressReporter(job: Job): {
+  report: (progress: MultiAgentProgress) => void;
+  flush: () => Promise<void>;
+} {
+  let pending = Promise.resolve();
+  return {
+    report: (progress) => {
+      pending = pending
+        .then(() => job.updateProgress(progress))
+        .catch((error: Error) => {
+          log.warn("進捗の送信に失敗しました", { jobId: job.id, error });
+        });
+    },
+    flush: () => pending,
+  };
+}
+
+/**
+ * マルチエージェント実行をジョブとして投入し、実行中のイベントを順にyieldする
+ *
+ * streamMultiAgent と同じイベントと結果を返す。signal がabortされた場合はジョブのキャンセルを要求する
+ * （開始していないエージェントの子ジョブは削除し、実行中のエージェントは中断して、それまでの結果で完了する）。
+ * 各ラウンドの期限と統合の時間にキューでの待ち時間の余裕を加えた時間までに完了しない場合は、
+ * ジョブのキャンセルを要求して失敗する。
+ *
+ * @param context キューへの接続
+ * @param runId 実行ID（親ジョブのジョブIDとして使用）
+ * @param prompt 実行するプロンプト
+ * @param options 実行オプション（signal・onUsage・onEvent はサーバー側で処理する）
+ * @param keyId 実行を開始したAPIキーID（ジョブの meta.keyId に保存し、ジョブを操作できるキーの判定に使用）
+ * @returns イベントを順にyieldし、最後にワーカーでの実行結果を返す
+ * @throws {ApiError} ヘッジ実行を指定した場合（invalid_request）、期限までに完了しなかった場合（timeout）
+ */
+export function streamMultiAgentViaQueue(
+  context: QueueExecutionContext,
+  runId: string,
+  prompt: string,
+  options: MultiAgentOptions = {},
+  keyId?: string
+): AsyncGenerator<OrchestratorEvent, MultiAgentResult, unknown> {
+  // 実行中の操作（control）はワーカーには中継しない
+  const { signal, onUsage, onEvent, control, ...jobOptions } = options;
+
+  return streamEvents<OrchestratorEvent, MultiAgentResult>(async (emit) => {
+    // エージェントごとの子ジョブは親ジョブが子ジョブの完了時にのみ処理されるため、一定時間後の並行実行はできない
+    if (jobOptions.hedgeAfter !== undefined) {
+      throw new ApiError("invalid_request", "hedgeAfter is not supported with queue execution");
+    }
+    const plan = planMultiAgent(jobOptions);
+    const { connection, queues, flowProducer, getQueueEvents } = context;
+    const queueEvents = listQueueNames().map(getQueueEvents);
+
+    // 投入前に購読を開始し、ワーカーが先に送信した進捗を取りこぼさないようにする（子ジョブのIDは実行IDで始まる）
+    const onProgress = ({ jobId, data }: { jobId: string; data: unknown }) => {
+      if (jobId !== runId && !jobId.startsWith(`${runId}-`)) {
+        return;
+      }
+      const progress = data as MultiAgentProgress;
+      if (progress.type === "event") {
+        onEvent?.(progress.event);
+        emit(progress.event);
+      } else if (progress.type === "usage") {
+        onUsage?.(progress.agent, progress.usage);
+      }
+    };
+    queueEvents.forEach((events) => events.on("progress", onProgress));
+
+    try {
+      await Promise.all(queueEvents.map((events) => events.waitUntilReady()));
+      const params = beginRound({ prompt, options: jobOptions, round: 0, roundStart: 0, deadline: 0, slots: [], rounds: [] }, 1);
+      const { job: flowJob } = await withEnqueueSpan(MULTI_AGENT_KIND, DEFAULT_QUEUE_NAME, () => {
+        const meta: JobMeta = { correlationId: getCorrelationId(), trace: injectTraceContext(), keyId };
+        return flowProducer.add({
+          name: MULTI_AGENT_KIND,
+          queueName: DEFAULT_QUEUE_NAME,
+          data: { kind: MULTI_AGENT_KIND, params, meta },
+          // 実行全体を再試行すると完了済みのエージェントも再実行されるため、1回のみ実行する
+          opts: { jobId: runId, priority: 1, attempts: 1 },
+          children: params.slots.map((_, slot) => buildTaskJob(runId, params, slot, meta)),
+        });
+      });
+      log.info("ジョブを投入しました", { runId, agents: params.slots.length, rounds: plan.rounds });
+      // キャンセルにはキューから取得したジョブを使用する（FlowProducerが返すジョブはキューの一部の機能のみを持つ）
+      const job = (await Job.fromId(queues.get(DEFAULT_QUEUE_NAME), runId)) ?? flowJob;
+
+      const cancel = () => {
+        log.info("ジョブのキャンセルを要求します", { runId });
+        requestJobCancel(connection, job).catch((error: Error) => {
+          log.warn("ジョブのキャンセルに失敗しました", { runId, error });
+        });
+      };
+      if (signal?.aborted) {
+        cancel();
+      } else {
+        signal?.addEventListener("abort", cancel, { once: true });
+      }
+
+      // 各ラウンドの期限と統合（審査・統合役の実行）に、キューでの待ち時間の余裕を加えた時間まで待つ
+      const ttl = (jobOptions.timeout ?? DEFAULT_TIMEOUT) * (plan.rounds + 1) + QUEUE_WAIT_MARGIN;
+      const waitStart = Date.now();
+      try {
+        return (await job.waitUntilFinished(getQueueEvents(DEFAULT_QUEUE_NAME), ttl)) as MultiAgentResult;
+      } catch (error) {
+        // ジョブの失敗はすぐに通知されるため、待ち時間を過ぎた場合のみ期限切れとする
+        if (Date.now() - waitStart < ttl) {
+          throw error;
+        }
+        log.warn("期限までに完了しなかったため、ジョブのキャンセルを要求します", { runId, ttlMs: ttl });
+        await requestJobCancel(connection, job).catch((cancelError: Error) => {
+          log.warn("ジョブのキャンセルに失敗しました", { runId, error: cancelError });
+        });
+        throw new ApiError("timeout", `queued run did not finish within ${ttl}ms: ${runId}`, { runId, ttlMs: ttl });
+      } finally {
+        signal?.removeEventListener("abort", cancel);
+      }
+    } finally {
+      queueEvents.forEach((events) => events.off("progress", onProgress));
+    }
+  });
+}
+
+/**
+ * マルチエージェント実行をジョブとして投入し、完了を待つ
+ *
+ * @param context キューへの接続
+ * @param runId 実行ID（ジョブIDとして使用）
+ * @param prompt 実行するプロンプト
+ * @param options 実行オプション
+ * @param keyId 実行を開始したAPIキーID
+ * @returns ワーカーでの実行結果（executeMultiAgent と同じ形式）
+ * @throws {ApiError} ヘッジ実行を指定した場合（invalid_request）、期限までに完了しなかった場合（timeout）
+ */
+export async function executeMultiAgentViaQueue(
+  context: QueueExecutionContext,
+  runId: string,
+  prompt: string,
+  options: MultiAgentOptions = {},
+  keyId?: string
+): Promise<MultiAgentResult> {
+  const events = streamMultiAgentViaQueue(context, runId, prompt, options, keyId);
+  let next = await events.next();
+  while (!next.done) {
+    next = await events.next();
+  }
+  return next.value;
+}
+
+/**
+ * マルチエージェント実行ジョブ（親ジョブ）を処理する（ワーカーから呼び出す）
+ *
+ * 完了した子ジョブの結果を回収し、失敗したエージェントはフォールバックチェーンの次のエージェントを、
+ * ラウンドが完了した場合は次のラウンドを子ジョブとして追加して待機状態に戻す。
+ * すべてのラウンドが完了すると結果を統合する。キャンセルされた場合は次のエージェント・ラウンドを開始せず、
+ * それまでの結果で完了する。使用量の記録と予算の確認は投入元のサーバーが行う。
+ *
+ * @param job 親ジョブ
+ * @param token ワーカーのロックトークン
+ * @param queues 子ジョブの投入先キューのプール
+ * @param signal 中断用シグナル（キャンセル時はそれまでの結果で完了する）
+ * @returns 実行結果
+ * @throws WaitingChildrenError 追加した子ジョブを待機する場合
+ */
+export async function processMultiAgentJob(
+  job: Job<{ kind: string; params: MultiAgentJobParams; meta?: JobMeta }>,
+  token: string | undefined,
+  queues: QueuePool,
+  signal: AbortSignal
+): Promise<MultiAgentResult> {
+  const runId = job.id as string;
+  const { prompt, options } = job.data.params;
+  const plan = planMultiAgent(options);
+  const { report, flush } = createProgressReporter(job);
+  let params = job.data.params;
+
+  try {
+    while (true) {
+      // 実行中だった子ジョブの結果を回収（子ジョブのキーは "bull:<queue>:<jobId>" 形式）
+      const values = await job.getChildrenValues<AgentResult>();
+      const failures = await job.getIgnoredChildrenFailures();
+      const find = <T>(record: Record<string, T>, id: string): T | undefined => {
+        const key = Object.keys(record).find((k) => k.endsWith(`:${id}`));
+        return key === undefined ? undefined : record[key];
+      };
+
+      const now = Date.now();
+      const slots = params.slots.map((slot, index) => {
+        if (slot.result) {
+          return slot;
+        }
+        const chain = chainOf(options, index);
+        const id = taskJobId(runId, params.round, index, slot.position);
+        const outcome = taskOutcome(chain[slot.position], find(values, id), find(failures, id));
+        const next = advanceSlot(slot, chain, outcome, {
+          now,
+          roundStart: params.roundStart,
+          deadline: params.deadline,
+          cancelled: signal.aborted,
+        });
+        if (!next.result) {
+          log.warn("エージェントが失敗したため次のエージェントで実行します", {
+            agent: outcome.agent,
+            error: outcome.error,
+            next: chain[next.position],
+          });
+        }
+        return next;
+      });
+      params = { ...params, slots };
+
+      let pending = slots.flatMap((slot, index) => (slot.result ? [] : [index]));
+      if (pending.length === 0) {
+        const results = slots.map((slot) => slot.result as AgentResult);
+        if (plan.debate) {
+          const round: DebateRound = { round: params.round, rounds: plan.rounds, results };
+          params = { ...params, rounds: [...params.rounds, round] };
+          report({ type: "event", event: { type: "round-complete", round } });
+        }
+
+        if (!plan.debate || params.round >= plan.rounds || signal.aborted) {
+          return await completeMultiAgent(prompt, results, plan.debate ? params.rounds : undefined, {
+            aggregation: plan.aggregation,
+            judge: options.judge,
+            signal,
+            onUsage: (agent, usage) => report({ type: "usage", agent, usage }),
+          });
+        }
+        params = beginRound(params, params.round + 1);
+        pending = params.slots.map((_, index) => index);
+      }
+
+      // 次のエージェント・ラウンドを子ジョブとして追加
+      await job.updateData({ ...job.data, params });
+      const meta: JobMeta = { ...job.data.meta, trace: injectTraceContext() };
+      for (const index of pending) {
+        const child = buildTaskJob(runId, params, index, meta);
+        await queues.get(child.queueName).add(child.name, child.data, {
+          ...child.opts,
+          parent: { id: runId, queue: job.queueQualifiedName },
+        });
+      }
+
+      if (await job.moveToWaitingChildren(token as string)) {
+        throw new WaitingChildrenError();
+      }
+      // 子ジョブがすでにすべて完了している場合はそのまま結果を回収する
+    }
+  } finally {
+    await flush();
+  }
+}
+
+/**
+ * エージェントごとの子ジョブを処理する（ワーカーから呼び出す）
+ *
+ * エージェントを1回実行し、実行中のイベントと使用量をジョブの進捗として送信する。
+ * ラウンドの期限を過ぎた場合は中断して "timeout" の結果を返す（失敗した場合も例外ではなく結果を返す）。
+ *
+ * @param job 子ジョブ
+ * @param signal 中断用シグナル（ジョブのキャンセル）
+ * @returns エージェントの結果
+ */
+export async function processMultiAgentTaskJob(
+  job: Job<{ kind: string; params: MultiAgentTaskParams }>,
+  signal: AbortSignal
+): Promise<AgentResult> {
+  const { agent, prompt, round, deadline, options } = job.data.params;
+  const plan = planMultiAgent(options);
+  const { report, flush } = createProgressReporter(job);
+  const timeoutSignal = AbortSignal.timeout(Math.max(deadline - Date.now(), 0));
+  const taskStart = Date.now();
+
+  try {
+    const result = await runAgentTask(agent, prompt, {
+      taskType: plan.taskType,
+      language: options.language,
+      model: options.model,
+      agents: agentsOf(options),
+      round,
+      debate: plan.debate,
+      signal: AbortSignal.any([signal, timeoutSignal]),
+      runSignal: signal,
+      onEvent: (event) => report({ type: "event", event }),
+      onUsage: (usageAgent, usage) => report({ type: "usage", agent: usageAgent, usage }),
+    });
+    if (result.success || !timeoutSignal.aborted || signal.aborted) {
+      return result;
+    }
+
+    log.warn("エージェントがタイムアウトしました", { agent, jobId: job.id });
+    const timedOut: AgentResult = {
+      agent,
+      success: false,
+      error: TIMEOUT_ERROR,
+      executionTime: Date.now() - taskStart,
+    };
+    report({ type: "event", event: { type: "agent-error", agent, result: timedOut, round: plan.debate ? round : undefined } });
+    return timedOut;
+  } finally {
+    await flush();
+  }
+}
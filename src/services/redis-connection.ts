@@ -0,0 +1,22 @@
+/**
+ * Redis接続
+ * CLI・ワーカー・サーバーで共通のRedis接続設定
+ *
+ * @module services/redis-connection
+ */
+
+import IORedis from "ioredis";
+
+/**
+ * 環境変数の設定でRedisに接続する
+ *
+ * @returns IORedisインスタンス（BullMQ用に maxRetriesPerRequest: null を設定）
+ */
+export function createRedisConnection(): IORedis {
+  return new IORedis({
+    host: process.env.REDIS_HOST || "localhost",
+    port: parseInt(process.env.REDIS_PORT || "6379", 10),
+    db: parseInt(process.env.REDIS_DB || "0", 10),
+    maxRetriesPerRequest: null,
+  });
+}
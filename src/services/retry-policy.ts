@@ -0,0 +1,76 @@
+/**
+ * リトライポリシー
+ * qezu.config.yaml の retry 設定とジョブごとの指定から、BullMQのattempts/backoffを決定する
+ *
+ * @module services/retry-policy
+ */
+
+import { loadQezuConfig, QezuConfig } from "./qezu-config.js";
+
+/**
+ * リトライポリシー（qezu.config.yaml・ジョブごとの指定で共通）
+ * backoff に数値を指定した場合は指数バックオフの初期遅延（ミリ秒）として扱う
+ */
+export interface RetryPolicy {
+  attempts?: number;
+  backoff?: number | { type: "exponential" | "fixed"; delay: number };
+}
+
+/**
+ * BullMQのジョブオプションのうちリトライに関するもの
+ */
+export interface RetryJobOptions {
+  attempts: number;
+  backoff: { type: "exponential" | "fixed"; delay: number };
+}
+
+/**
+ * 設定がない場合のデフォルトポリシー（3回まで、5秒からの指数バックオフ）
+ */
+const DEFAULT_POLICY: RetryJobOptions = {
+  attempts: 3,
+  backoff: { type: "exponential", delay: 5000 },
+};
+
+/**
+ * ポリシーを上書きしてマージする
+ */
+function mergePolicy(base: RetryJobOptions, override?: RetryPolicy): RetryJobOptions {
+  if (!override) {
+    return base;
+  }
+
+  const attempts = override.attempts !== undefined ? Number(override.attempts) : base.attempts;
+  if (!Number.isInteger(attempts) || attempts < 1) {
+    throw new Error(`attempts は1以上の整数で指定してください [attempts=${override.attempts}]`);
+  }
+
+  let backoff = base.backoff;
+  if (typeof override.backoff === "number" || typeof override.backoff === "string") {
+    backoff = { type: "exponential", delay: Number(override.backoff) };
+  } else if (override.backoff) {
+    backoff = { ...base.backoff, ...override.backoff };
+  }
+
+  return { attempts, backoff };
+}
+
+/**
+ * エージェントの種類に応じたリトライ設定を解決する
+ *
+ * 優先順位: ジョブごとの指定 > retry.<kind> > retry.default > 組み込みのデフォルト
+ *
+ * @param kind エージェントID
+ * @param override ジョブごとの指定
+ * @param config 設定（未指定時は qezu.config.yaml を読み込む）
+ * @returns BullMQのジョブオプション（attempts/backoff）
+ * @throws 設定値が不正な場合
+ */
+export function resolveRetryOptions(
+  kind: string,
+  override?: RetryPolicy,
+  config: QezuConfig = loadQezuConfig()
+): RetryJobOptions {
+  const retry = config.retry || {};
+  return mergePolicy(mergePolicy(mergePolicy(DEFAULT_POLICY, retry.default), retry[kind]), override);
+}
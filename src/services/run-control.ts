@@ -0,0 +1,103 @@
+/**
+ * 実行中の操作
+ * 実行中のマルチエージェント実行に対する操作（エージェント単位の中断、並列スライド生成の一時停止・再開・再生成・テーマ変更）を
+ * オーケストレーターと並列スライド生成に中継する
+ *
+ * 実行オプションの control に渡すと、実行中のエージェントと並列スライド生成のキューが登録される。
+ * サーバーのプロセス内で実行する場合（inline）のみ使用できる。
+ *
+ * @module services/run-control
+ */
+
+import { ApiError } from "./api-errors.js";
+
+/**
+ * 並列スライド生成のキューの操作（generateSlidesInParallel が登録する）
+ */
+export interface SlideQueueController {
+  /** 未開始のタスクの開始を止める（生成中のスライドは継続） */
+  pause(): void;
+  resume(): void;
+  /**
+   * スライドを生成し直す（未開始のタスクより先に開始する）
+   * @throws {ApiError} スライド番号が範囲外、または生成中の場合
+   */
+  regenerate(slideNumber: number): void;
+  /** 未開始のタスクと再生成するスライドのテーマを変更する */
+  setTheme(theme: string): void;
+  /** 状態（一時停止中か、テーマ） */
+  status(): { paused: boolean; theme?: string };
+}
+
+/**
+ * 実行中の操作（1回の実行ごとに作成する）
+ */
+export class RunControl {
+  /** 実行中のエージェントID → 中断する関数 */
+  private readonly agents = new Map<string, () => void>();
+  private slideQueue?: SlideQueueController;
+
+  /**
+   * 実行中のエージェントを登録する（オーケストレーターが呼び出す）
+   *
+   * @param agent エージェントID
+   * @param cancel エージェントを中断する関数
+   * @returns 登録を解除する関数
+   */
+  registerAgent(agent: string, cancel: () => void): () => void {
+    this.agents.set(agent, cancel);
+    return () => {
+      if (this.agents.get(agent) === cancel) {
+        this.agents.delete(agent);
+      }
+    };
+  }
+
+  /**
+   * 並列スライド生成のキューを登録する（generateSlidesInParallel が呼び出す）
+   *
+   * @param controller キューの操作
+   * @returns 登録を解除する関数
+   */
+  attachSlideQueue(controller: SlideQueueController): () => void {
+    this.slideQueue = controller;
+    return () => {
+      if (this.slideQueue === controller) {
+        this.slideQueue = undefined;
+      }
+    };
+  }
+
+  /**
+   * 実行中のエージェントを中断する（結果は `{ success: false, error: "cancelled" }`、他のエージェントは継続）
+   *
+   * @param agent エージェントID
+   * @throws {ApiError} エージェントが実行中でない場合（conflict）
+   */
+  cancelAgent(agent: string): void {
+    const cancel = this.agents.get(agent);
+    if (!cancel) {
+      throw new ApiError("conflict", `agent is not running: ${agent}`);
+    }
+    cancel();
+  }
+
+  /**
+   * 実行中のエージェントID
+   */
+  runningAgents(): string[] {
+    return Array.from(this.agents.keys());
+  }
+
+  /**
+   * 並列スライド生成のキューを取得する
+   *
+   * @throws {ApiError} 並列スライド生成が実行中でない場合（conflict）
+   */
+  slides(): SlideQueueController {
+    if (!this.slideQueue) {
+      throw new ApiError("conflict", "parallel slide generation is not running");
+    }
+    return this.slideQueue;
+  }
+}
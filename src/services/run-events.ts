@@ -0,0 +1,212 @@
+/**
+ * 実行イベントのバッファ
+ * ストリーミング実行（/api/execute/stream）のイベントに連番のIDを付けて保持し、
+ * 切断したクライアントが GET /api/runs/:id/events（Last-Event-ID）で再接続して続きを受信できるようにする
+ *
+ * イベントはサーバーのメモリに保持し、実行の終了後も retention の間は再接続・再送に使用できる。
+ *
+ * @module services/run-events
+ */
+
+import { loadQezuConfig, QezuConfig } from "./qezu-config.js";
+
+/**
+ * 再接続時に受信済みの後のイベントが破棄されていたことを通知するイベント名
+ * データは { lastEventId, firstEventId, dropped }（クライアントは GET /api/runs/:id で実行の結果を取得し直す）
+ */
+export const GAP_EVENT = "gap";
+
+/**
+ * ストリーミングの設定（qezu.config.yaml の stream）
+ */
+export interface StreamConfig {
+  /** クライアントがすべて切断してから実行を中断するまでの時間（ミリ秒、デフォルト60000、0の場合はすぐに中断） */
+  resumeTimeout?: number;
+  /** 実行の終了後にイベントを保持する時間（秒、デフォルト600） */
+  retention?: number;
+  /** 実行ごとに保持するイベント数の上限（超えた場合は古いイベントから破棄、デフォルト20000） */
+  maxEvents?: number;
+}
+
+/**
+ * バッファに保持したイベント
+ */
+export interface RunEvent {
+  /** 実行ごとの連番（1から開始、SSEの id） */
+  id: number;
+  event: string;
+  data: unknown;
+}
+
+/**
+ * イベントの購読者
+ */
+export interface RunEventSubscriber {
+  onEvent: (event: RunEvent) => void;
+  /** 実行のイベントがすべて送信された */
+  onEnd: () => void;
+}
+
+/**
+ * 実行ごとのイベント
+ */
+interface RunStream {
+  events: RunEvent[];
+  nextId: number;
+  /** 保持している最も古いイベントのID（イベントがない場合は nextId） */
+  firstId: number;
+  finished: boolean;
+  /** 実行したAPIキーID（再接続できる利用者の確認に使用） */
+  keyId?: string;
+  subscribers: Set<RunEventSubscriber>;
+  /** 購読者がいなくなった場合に呼び出す */
+  onIdle?: () => void;
+}
+
+/**
+ * ストリーミングの設定を取得する（QEZU_STREAM_RESUME_TIMEOUT で resumeTimeout を上書き可能）
+ *
+ * @param config 設定（未指定時は qezu.config.yaml を読み込む）
+ * @returns デフォルト値を適用した設定
+ * @throws 設定値が不正な場合
+ */
+export function getStreamConfig(config: QezuConfig = loadQezuConfig()): Required<StreamConfig> {
+  const env = process.env.QEZU_STREAM_RESUME_TIMEOUT;
+  const stream = {
+    resumeTimeout: env !== undefined ? Number(env) : config.stream?.resumeTimeout ?? 60000,
+    retention: config.stream?.retention ?? 600,
+    maxEvents: config.stream?.maxEvents ?? 20000,
+  };
+  for (const [name, value] of Object.entries(stream)) {
+    if (!Number.isFinite(value) || value < 0) {
+      throw new Error(`stream.${name} は0以上の数値で指定してください [${name}=${value}]`);
+    }
+  }
+  return stream;
+}
+
+/**
+ * 実行イベントのバッファ（サーバーのプロセスごとに1つ）
+ */
+export class RunEventBuffer {
+  private readonly streams = new Map<string, RunStream>();
+
+  constructor(private readonly config: Required<StreamConfig>) {}
+
+  /**
+   * 実行のイベントの記録を開始する
+   *
+   * @param runId 実行ID
+   * @param options.keyId 実行したAPIキーID
+   * @param options.onIdle 購読者がすべて切断した場合に呼び出す（実行中のみ）
+   */
+  create(runId: string, options: { keyId?: string; onIdle?: () => void } = {}): void {
+    this.streams.set(runId, {
+      events: [],
+      nextId: 1,
+      firstId: 1,
+      finished: false,
+      keyId: options.keyId,
+      subscribers: new Set(),
+      onIdle: options.onIdle,
+    });
+  }
+
+  /**
+   * イベントを記録して購読者に送信する
+   *
+   * @param runId 実行ID
+   * @param event イベント名
+   * @param data イベントのデータ
+   * @returns 記録したイベント（記録を開始していない・終了済みの場合はundefined）
+   */
+  publish(runId: string, event: string, data: unknown): RunEvent | undefined {
+    const stream = this.streams.get(runId);
+    if (!stream || stream.finished) {
+      return undefined;
+    }
+
+    const runEvent: RunEvent = { id: stream.nextId++, event, data };
+    stream.events.push(runEvent);
+    if (stream.events.length > this.config.maxEvents) {
+      stream.events.shift();
+      stream.firstId = stream.events[0]?.id ?? stream.nextId;
+    }
+    for (const subscriber of stream.subscribers) {
+      subscriber.onEvent(runEvent);
+    }
+    return runEvent;
+  }
+
+  /**
+   * 実行のイベントの記録を終了する（購読者に終了を通知し、retention の後にイベントを破棄する）
+   *
+   * @param runId 実行ID
+   */
+  finish(runId: string): void {
+    const stream = this.streams.get(runId);
+    if (!stream || stream.finished) {
+      return;
+    }
+
+    stream.finished = true;
+    for (const subscriber of stream.subscribers) {
+      subscriber.onEnd();
+    }
+    stream.subscribers.clear();
+    setTimeout(() => this.streams.delete(runId), this.config.retention * 1000).unref();
+  }
+
+  /**
+   * イベントを購読する（lastEventId より後の記録済みのイベントを先に送信する）
+   *
+   * lastEventId の次のイベントが maxEvents を超えて破棄されている場合は、記録済みのイベントの前に
+   * GAP_EVENT を送信する（id は保持している最も古いイベントの直前、以降の再接続はそこから続ける）。
+   *
+   * @param runId 実行ID
+   * @param lastEventId 受信済みの最後のイベントID（0の場合は最初から）
+   * @param subscriber 購読者
+   * @returns 購読を解除する関数（実行のイベントが存在しない場合はundefined）
+   */
+  subscribe(runId: string, lastEventId: number, subscriber: RunEventSubscriber): (() => void) | undefined {
+    const stream = this.streams.get(runId);
+    if (!stream) {
+      return undefined;
+    }
+
+    if (lastEventId + 1 < stream.firstId) {
+      subscriber.onEvent({
+        id: stream.firstId - 1,
+        event: GAP_EVENT,
+        data: { lastEventId, firstEventId: stream.firstId, dropped: stream.firstId - 1 - lastEventId },
+      });
+    }
+    for (const event of stream.events) {
+      if (event.id > lastEventId) {
+        subscriber.onEvent(event);
+      }
+    }
+    if (stream.finished) {
+      subscriber.onEnd();
+      return () => {};
+    }
+
+    stream.subscribers.add(subscriber);
+    return () => {
+      if (stream.subscribers.delete(subscriber) && stream.subscribers.size === 0 && !stream.finished) {
+        stream.onIdle?.();
+      }
+    };
+  }
+
+  /**
+   * 実行のイベントが存在するか（存在する場合は実行したAPIキーID）
+   *
+   * @param runId 実行ID
+   * @returns 実行のイベントの情報（存在しない場合はundefined）
+   */
+  get(runId: string): { keyId?: string; finished: boolean; subscribers: number } | undefined {
+    const stream = this.streams.get(runId);
+    return stream && { keyId: stream.keyId, finished: stream.finished, subscribers: stream.subscribers.size };
+  }
+}
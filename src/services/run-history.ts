@@ -0,0 +1,224 @@
+/**
+ * 実行履歴ストア
+ * /api/execute・/api/execute/stream・ワーカーのジョブの実行結果をJSONファイルとして保存し、後から参照・再実行できるようにする
+ *
+ * @module services/run-history
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { join, resolve } from "path";
+import { loadQezuConfig, QezuConfig } from "./qezu-config.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("RunHistory");
+
+/**
+ * 実行の種類
+ * - execute: /api/execute
+ * - stream: /api/execute/stream
+ * - job: ワーカーが処理したジョブ（ワークフローの子ジョブを除く）
+ */
+export type RunSource = "execute" | "stream" | "job";
+
+/**
+ * 実行履歴の設定（qezu.config.yaml の history）
+ */
+export interface RunHistoryConfig {
+  /** 保存先ディレクトリ（デフォルトは .qezu/runs、QEZU_HISTORY_DIR で上書き可能） */
+  dir?: string;
+  /** false の場合は保存しない */
+  enabled?: boolean;
+}
+
+/**
+ * 実行履歴
+ */
+export interface RunRecord {
+  /** 実行ID（Webの実行は runId、ジョブはジョブID） */
+  id: string;
+  source: RunSource;
+  status: "completed" | "failed";
+  prompt?: string;
+  /** 実行オプション（Webの実行は MultiAgentOptions、ジョブは kind と params） */
+  options: Record<string, any>;
+  /** エージェントごとの結果 */
+  results?: any[];
+  aggregated?: string;
+  aggregation?: Record<string, any>;
+  rounds?: any[];
+  summary?: Record<string, any>;
+  slideDeck?: any;
+  /** ジョブの戻り値 */
+  result?: any;
+  error?: string;
+  budgetExceeded?: string;
+  /** 再実行の場合の元の実行ID */
+  replayOf?: string;
+  /** 実行したAPIキーID（Webサーバーの認証が有効な場合） */
+  keyId?: string;
+  createdAt: string;
+  completedAt: string;
+  totalExecutionTime: number;
+}
+
+/**
+ * 一覧表示用の実行履歴（結果の本文を除く）
+ */
+export type RunSummary = Pick<
+  RunRecord,
+  "id" | "source" | "status" | "prompt" | "replayOf" | "keyId" | "createdAt" | "completedAt" | "totalExecutionTime"
+> & {
+  agents?: string[];
+  success?: number;
+  failed?: number;
+};
+
+/**
+ * 一覧の絞り込み条件
+ */
+export interface RunQuery {
+  /** プロンプトに含まれる文字列 */
+  prompt?: string;
+  source?: RunSource;
+  /** この日時以降に作成された実行（ISO 8601） */
+  since?: string;
+  /** この日時より前に作成された実行（ISO 8601） */
+  until?: string;
+  /** 実行したAPIキーID（認証が有効な場合は利用者のキーの実行のみ） */
+  keyId?: string;
+  /** 件数の上限（デフォルト50） */
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * 実行IDとして使用できる文字（ファイル名に使用するため）
+ */
+const RUN_ID_PATTERN = /^[A-Za-z0-9:_-]+$/;
+
+/**
+ * 保存先ディレクトリを取得する（優先順位: QEZU_HISTORY_DIR > history.dir > .qezu/runs）
+ *
+ * @param config 設定（未指定時は qezu.config.yaml を読み込む）
+ */
+export function getHistoryDir(config: QezuConfig = loadQezuConfig()): string {
+  return resolve(process.env.QEZU_HISTORY_DIR || config.history?.dir || join(process.cwd(), ".qezu", "runs"));
+}
+
+/**
+ * 実行履歴のファイルパスを取得する
+ *
+ * @throws 実行IDにファイル名として使用できない文字が含まれる場合
+ */
+function getRunPath(dir: string, id: string): string {
+  if (!RUN_ID_PATTERN.test(id)) {
+    throw new Error(`不正な実行IDです [id=${id}]`);
+  }
+  return join(dir, `${id}.json`);
+}
+
+/**
+ * 実行履歴を保存する（同じIDは上書き）
+ *
+ * @param record 実行履歴
+ * @param config 設定（未指定時は qezu.config.yaml を読み込む）
+ */
+export function saveRun(record: RunRecord, config: QezuConfig = loadQezuConfig()): void {
+  if (config.history?.enabled === false) {
+    return;
+  }
+  const dir = getHistoryDir(config);
+  mkdirSync(dir, { recursive: true });
+
+  // 書き込み途中のファイルを読み込まないよう、一時ファイルに書き込んでから置き換える
+  const path = getRunPath(dir, record.id);
+  const tmpPath = `${path}.${process.pid}.tmp`;
+  writeFileSync(tmpPath, JSON.stringify(record, null, 2));
+  renameSync(tmpPath, path);
+}
+
+/**
+ * 実行履歴を取得する
+ *
+ * @param id 実行ID
+ * @returns 実行履歴（存在しない場合・不正なIDの場合はundefined）
+ */
+export function getRun(id: string): RunRecord | undefined {
+  if (!RUN_ID_PATTERN.test(id)) {
+    return undefined;
+  }
+  const path = getRunPath(getHistoryDir(), id);
+  if (!existsSync(path)) {
+    return undefined;
+  }
+  return JSON.parse(readFileSync(path, "utf-8")) as RunRecord;
+}
+
+/**
+ * 実行履歴の一覧を取得する（新しい順）
+ *
+ * @param query 絞り込み条件
+ * @returns 条件に一致した件数と、一覧表示用の実行履歴
+ */
+export function listRuns(query: RunQuery = {}): { total: number; runs: RunSummary[] } {
+  const dir = getHistoryDir();
+  if (!existsSync(dir)) {
+    return { total: 0, runs: [] };
+  }
+
+  const records: RunRecord[] = [];
+  for (const file of readdirSync(dir)) {
+    if (!file.endsWith(".json")) {
+      continue;
+    }
+    try {
+      records.push(JSON.parse(readFileSync(join(dir, file), "utf-8")));
+    } catch (error: any) {
+      log.warn("実行履歴の読み込みに失敗しました", { file, error });
+    }
+  }
+
+  const matched = records
+    .filter(
+      (r) =>
+        (!query.prompt || (r.prompt || "").includes(query.prompt)) &&
+        (!query.source || r.source === query.source) &&
+        (!query.keyId || r.keyId === query.keyId) &&
+        (!query.since || r.createdAt >= new Date(query.since).toISOString()) &&
+        (!query.until || r.createdAt < new Date(query.until).toISOString())
+    )
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  const offset = query.offset || 0;
+  const limit = query.limit || 50;
+  return {
+    total: matched.length,
+    runs: matched.slice(offset, offset + limit).map((r) => ({
+      id: r.id,
+      source: r.source,
+      status: r.status,
+      prompt: r.prompt,
+      replayOf: r.replayOf,
+      keyId: r.keyId,
+      createdAt: r.createdAt,
+      completedAt: r.completedAt,
+      totalExecutionTime: r.totalExecutionTime,
+      agents: r.results?.map((result) => result.agent),
+      success: r.summary?.success,
+      failed: r.summary?.failed,
+    })),
+  };
+}
+
+/**
+ * 実行履歴を保存する（失敗しても呼び出し元の処理は継続する）
+ *
+ * @param record 実行履歴
+ */
+export function recordRun(record: RunRecord): void {
+  try {
+    saveRun(record);
+  } catch (error: any) {
+    log.warn("実行履歴の保存に失敗しました", { id: record.id, error });
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * スライド生成タスク
+ * オーケストレーターがスライド生成（taskType: "slide"）でエージェントを実行する際のプロンプトと、
+ * Codexの並列スライド生成を提供する
+ *
+ * @module services/slide-task
+ */
+
+import { generateCode, generateCodeStream } from "../adapters/codex.js";
+import { generateSlidesInParallel } from "./parallel-slide-generator.js";
+import { extractSlideCount, extractTheme } from "./prompt-parser.js";
+import { IncrementalSlideParser } from "./incremental-slide-parser.js";
+import { generateMarpMarkdown, SlideDeck } from "./slide-generator.js";
+import type { RunControl } from "./run-control.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("SlideTask");
+
+/**
+ * スライド生成タスクのオプション
+ */
+export interface SlideTaskOptions {
+  /** 並列スライド生成でスライドを分担するエージェント */
+  agents: string[];
+  language?: string;
+  signal?: AbortSignal;
+  /** スライドの進捗イベント（slide-progress・slide-stream・slide-complete）の送信先 */
+  onSlideEvent?: (event: string, data: any) => void;
+  /** 並列生成に失敗してストリーミングで生成する場合の出力の送信先 */
+  onChunk?: (chunk: string) => void;
+  /** 実行中の操作（並列スライド生成のキューを登録する） */
+  control?: RunControl;
+}
+
+/**
+ * スライド生成のプロンプトを作成する（Codex以外のエージェント）
+ *
+ * @param prompt ユーザーのプロンプト
+ * @returns スライド形式（## タイトル、--- 区切り）での出力を指示するプロンプト
+ */
+export function buildSlidePrompt(prompt: string): string {
+  return `Create a slide deck presentation about: ${prompt}. Format each slide with ## Slide Title followed by content. Use --- to separate slides. Generate 10-16 slides.`;
+}
+
+/**
+ * Figma Makeを参考にした高品質なスライド生成プロンプトを作成する（Codexのストリーミング生成）
+ *
+ * @param prompt ユーザーのプロンプト
+ * @returns スライド生成プロンプト
+ */
+function buildDetailedSlidePrompt(prompt: string): string {
+  return `IMPORTANT: Reference Figma Make's design principles and search for the latest professional slide design best practices. Use web search to find information about Figma Make and modern presentation design trends.
+
+Create a professional slide deck presentation about: ${prompt}.
+
+CRITICAL DESIGN REQUIREMENTS (Figma Make level quality):
+1. Each slide must have ONE powerful sentence (max 15 words, impactful and memorable)
+2. Format: ## Slide Title (one line, bold and clear)
+3. Content: One compelling sentence that delivers the message (max 15 words)
+4. Separate slides with --- on a new line
+5. Design thinking: Each slide should be visually stunning, with clear hierarchy
+6. Professional presentation standards: Clean, modern, and engaging
+7. Visual storytelling: Each slide tells a story, not just information
+8. Typography: Use clear, readable fonts and proper spacing
+9. Color psychology: Suggest appropriate colors based on content (e.g., tech=blue, business=purple, creative=pink)
+10. Layout: Balanced composition with proper white space
+
+Example format:
+## Introduction
+Multi-agent systems revolutionize how AI agents collaborate and solve complex problems.
+
+---
+
+## Core Architecture
+Distributed agents communicate through message passing and shared knowledge bases.
+
+---
+
+Generate 12-16 slides following this format. Make each slide visually distinct and professionally designed.`;
+}
+
+/**
+ * Codexでスライドを生成する
+ *
+ * スライドごとのタスクに分けて並列生成し（Figma Makeを参考）、失敗した場合は1回のストリーミング生成で
+ * インクリメンタルにスライドを更新する。
+ *
+ * @param prompt ユーザーのプロンプト
+ * @param options オプション
+ * @returns スライドのMarkdown
+ */
+export async function generateSlidesWithCodex(prompt: string, options: SlideTaskOptions): Promise<string> {
+  const { agents, language, signal, onSlideEvent, onChunk, control } = options;
+  const codexOptions = { language, cwd: process.cwd(), maxTokens: 4000, signal };
+  const title = prompt.substring(0, 50) + "...";
+
+  try {
+    // プロンプトからスライド枚数を抽出
+    const slideCount = extractSlideCount(prompt);
+    const theme = extractTheme(prompt);
+
+    // 並列数を決定（デフォルト16、スライド枚数が多い場合はスライド枚数を使用）
+    const parallelCount = Math.max(slideCount, 16);
+
+    log.info("並列スライド生成を開始します", { slides: slideCount, theme, parallel: parallelCount });
+
+    const slides: any[] = [];
+    for await (const slideBatch of generateSlidesInParallel(
+      prompt,
+      slideCount,
+      agents,
+      onSlideEvent,
+      true, // Web検索とFigma Make参照を有効化（プロンプト内に含まれる）
+      theme,
+      parallelCount,
+      signal,
+      control
+    )) {
+      slides.push(...slideBatch);
+    }
+
+    // 最終スライドデッキを送信
+    if (slides.length > 0) {
+      const finalSlideDeck: SlideDeck = {
+        title,
+        slides,
+        createdAt: new Date().toISOString(),
+      };
+      finalSlideDeck.marpMarkdown = generateMarpMarkdown(finalSlideDeck);
+      onSlideEvent?.("slide-complete", {
+        agent: "codex",
+        slideDeck: finalSlideDeck,
+      });
+    }
+
+    return slides.map((s) => `## ${s.title}\n\n${s.content}`).join("\n\n---\n\n");
+  } catch (parallelError: any) {
+    // 並列生成が失敗した場合は通常のストリーミングで実行
+    log.error("並列スライド生成エラー", { error: parallelError });
+  }
+
+  const slidePrompt = buildDetailedSlidePrompt(prompt);
+  const parser = new IncrementalSlideParser();
+  parser.setTheme(extractTheme(prompt));
+  let streamedResult = "";
+
+  try {
+    for await (const chunk of generateCodeStream(slidePrompt, codexOptions)) {
+      streamedResult += chunk;
+      onChunk?.(chunk);
+
+      // インクリメンタルパーサーでスライドを更新
+      const previousSlideCount = parser.getSlideDeck("").slides.length;
+      await parser.append(chunk);
+      const partialSlideDeck = parser.getSlideDeck(title);
+      const currentSlideCount = partialSlideDeck.slides.length;
+
+      // スライドが追加された場合、または定期的に更新（より頻繁に）
+      if (currentSlideCount > previousSlideCount || chunk.length > 0) {
+        partialSlideDeck.marpMarkdown = generateMarpMarkdown(partialSlideDeck);
+        onSlideEvent?.("slide-stream", {
+          agent: "codex",
+          chunk,
+          currentText: streamedResult,
+          slideDeck: partialSlideDeck,
+          newSlideCount: currentSlideCount,
+          previousSlideCount: previousSlideCount,
+        });
+      }
+    }
+    return streamedResult;
+  } catch (streamError: any) {
+    log.error("ストリーミングエラー", { error: streamError });
+    return generateCode(slidePrompt, codexOptions);
+  }
+}
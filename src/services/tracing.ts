@@ -0,0 +1,216 @@
+/**
+ * 分散トレーシング（OpenTelemetry）
+ * HTTPリクエスト・ジョブの投入・ワーカーでの処理・エージェントの子プロセス・スライドのタスクをスパンとして記録し、
+ * OTLP（HTTP）でコレクターに送信する（デフォルトは無効）
+ *
+ * トレースのコンテキストはジョブの meta.trace（W3C Trace Context の traceparent・tracestate）でワーカーに引き継ぐ。
+ * 無効な場合は OpenTelemetry API のno-op実装となり、スパンの作成・コンテキストの引き継ぎは何もしない。
+ *
+ * @module services/tracing
+ */
+
+import {
+  Attributes,
+  context,
+  Context,
+  propagation,
+  Span,
+  SpanKind,
+  SpanOptions,
+  SpanStatusCode,
+  trace,
+} from "@opentelemetry/api";
+import { OTLPTraceExporter } from "@opentelemetry/exporter-trace-otlp-http";
+import { resourceFromAttributes } from "@opentelemetry/resources";
+import {
+  BatchSpanProcessor,
+  NodeTracerProvider,
+  ParentBasedSampler,
+  TraceIdRatioBasedSampler,
+} from "@opentelemetry/sdk-trace-node";
+import { ATTR_SERVICE_NAME } from "@opentelemetry/semantic-conventions";
+import { loadQezuConfig, QezuConfig } from "./qezu-config.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("Tracing");
+
+/**
+ * トレーシングの設定（qezu.config.yaml の tracing）
+ */
+export interface TracingConfig {
+  /** トレースを送信する（デフォルトfalse） */
+  enabled?: boolean;
+  /** OTLP（HTTP）のエンドポイント（未指定時は OTEL_EXPORTER_OTLP_TRACES_ENDPOINT、または http://localhost:4318/v1/traces） */
+  endpoint?: string;
+  /** 記録するトレースの割合（0〜1、親スパンがある場合は親の判定に従う、デフォルト1） */
+  sampleRatio?: number;
+}
+
+/**
+ * ジョブの meta.trace に保存するトレースのコンテキスト（traceparent・tracestate）
+ */
+export type TraceCarrier = Record<string, string>;
+
+/**
+ * qezu のスパンを作成するトレーサー（initTracing の前に取得しても、登録後のプロバイダーが使用される）
+ */
+export const tracer = trace.getTracer("qezu");
+
+/**
+ * 登録したプロバイダー（無効な場合はundefined）
+ */
+let provider: NodeTracerProvider | undefined;
+
+/**
+ * トレーシングの設定を取得する（QEZU_TRACING=true で有効化、QEZU_TRACING_ENDPOINT・QEZU_TRACING_SAMPLE_RATIO で上書き可能）
+ *
+ * @param config 設定（未指定時は qezu.config.yaml を読み込む）
+ * @returns 設定（endpoint は未指定の場合undefined）
+ * @throws 記録する割合が不正な場合
+ */
+export function getTracingConfig(config: QezuConfig = loadQezuConfig()): TracingConfig & { enabled: boolean; sampleRatio: number } {
+  const env = process.env.QEZU_TRACING;
+  const ratio = process.env.QEZU_TRACING_SAMPLE_RATIO;
+  const tracing = {
+    enabled: env !== undefined ? env === "true" || env === "1" : config.tracing?.enabled ?? false,
+    endpoint: process.env.QEZU_TRACING_ENDPOINT || config.tracing?.endpoint,
+    sampleRatio: ratio !== undefined ? Number(ratio) : config.tracing?.sampleRatio ?? 1,
+  };
+  if (!Number.isFinite(tracing.sampleRatio) || tracing.sampleRatio < 0 || tracing.sampleRatio > 1) {
+    throw new Error(`tracing.sampleRatio は0〜1の数値で指定してください [sampleRatio=${tracing.sampleRatio}]`);
+  }
+  return tracing;
+}
+
+/**
+ * トレーシングを開始する（無効な場合は何もしない）
+ *
+ * @param service プロセスの種類（サービス名は qezu-<service>）
+ * @returns 有効な場合true
+ */
+export function initTracing(service: "server" | "worker" | "cli"): boolean {
+  const config = getTracingConfig();
+  if (!config.enabled) {
+    return false;
+  }
+
+  provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({ [ATTR_SERVICE_NAME]: `qezu-${service}` }),
+    sampler: new ParentBasedSampler({ root: new TraceIdRatioBasedSampler(config.sampleRatio) }),
+    spanProcessors: [new BatchSpanProcessor(new OTLPTraceExporter({ url: config.endpoint }))],
+  });
+  // AsyncLocalStorage のコンテキストマネージャーと W3C Trace Context のプロパゲーターを登録
+  provider.register();
+  log.info("トレーシング: 有効", { endpoint: config.endpoint ?? "default", sampleRatio: config.sampleRatio });
+  return true;
+}
+
+/**
+ * 未送信のスパンを送信してトレーシングを終了する（プロセスの終了前に呼び出す）
+ */
+export async function shutdownTracing(): Promise<void> {
+  try {
+    await provider?.shutdown();
+  } catch (error: any) {
+    log.warn("スパンの送信に失敗しました", { error });
+  }
+}
+
+/**
+ * スパンを作成して関数を実行する（関数内で作成したスパンは子スパンになる）
+ *
+ * 関数が例外を投げた場合はスパンに記録してエラーとする。
+ *
+ * @param name スパン名
+ * @param options スパンの種類・属性
+ * @param fn 実行する関数
+ * @returns 関数の戻り値
+ */
+export function withSpan<T>(name: string, options: SpanOptions, fn: (span: Span) => Promise<T>): Promise<T> {
+  return tracer.startActiveSpan(name, options, async (span) => {
+    try {
+      return await fn(span);
+    } catch (error: any) {
+      failSpan(span, error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+/**
+ * ジョブの投入をスパンとして記録する（関数内で injectTraceContext を呼び出すと、ワーカーでの処理のスパンはこのスパンの子になる）
+ *
+ * @param kind ジョブの種類
+ * @param queueName 投入先のキュー名
+ * @param fn ジョブを投入する関数
+ * @returns 関数の戻り値
+ */
+export function withEnqueueSpan<T>(kind: string, queueName: string, fn: () => Promise<T>): Promise<T> {
+  return withSpan(
+    `enqueue ${kind}`,
+    { kind: SpanKind.PRODUCER, attributes: { "messaging.system": "bullmq", "messaging.destination.name": queueName } },
+    fn
+  );
+}
+
+/**
+ * スパンに例外を記録してエラーとする
+ *
+ * @param span スパン
+ * @param error 例外
+ */
+export function failSpan(span: Span, error: any): void {
+  span.recordException(error instanceof Error ? error : String(error));
+  span.setStatus({ code: SpanStatusCode.ERROR, message: error?.shortMessage ?? error?.message ?? String(error) });
+}
+
+/**
+ * 現在のトレースのコンテキストをジョブに保存する形式で取得する
+ *
+ * @returns traceparent・tracestate（無効な場合やスパンの外ではundefined）
+ */
+export function injectTraceContext(): TraceCarrier | undefined {
+  const carrier: TraceCarrier = {};
+  propagation.inject(context.active(), carrier);
+  return Object.keys(carrier).length > 0 ? carrier : undefined;
+}
+
+/**
+ * ジョブ・HTTPヘッダーのトレースのコンテキストを取得する
+ *
+ * @param carrier traceparent・tracestate を含むオブジェクト（ジョブの meta.trace・リクエストヘッダー）
+ * @returns 親のコンテキスト（ない場合は現在のコンテキスト）
+ */
+export function extractTraceContext(carrier?: Record<string, string | string[] | undefined>): Context {
+  return carrier ? propagation.extract(context.active(), carrier) : context.active();
+}
+
+/**
+ * エージェントの子プロセスをスパンとして記録する（execa の子プロセスの終了時にスパンを終了する）
+ *
+ * @param agent エージェントID
+ * @param command 実行するコマンド
+ * @param subprocess execa の子プロセス
+ */
+export function traceChildProcess(agent: string, command: string, subprocess: PromiseLike<unknown>): void {
+  const attributes: Attributes = { "qezu.agent": agent, "process.executable.name": command };
+  const span = tracer.startSpan(`exec ${agent}`, { attributes });
+  subprocess.then(
+    () => {
+      span.setAttribute("process.exit.code", 0);
+      span.end();
+    },
+    (error: any) => {
+      if (typeof error?.exitCode === "number") {
+        span.setAttribute("process.exit.code", error.exitCode);
+      }
+      if (error?.isCanceled || error?.timedOut) {
+        span.setAttribute("qezu.exit_reason", error.isCanceled ? "aborted" : "timeout");
+      }
+      failSpan(span, error);
+      span.end();
+    }
+  );
+}
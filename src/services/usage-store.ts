@@ -0,0 +1,249 @@
+/**
+ * 使用量ストア
+ * 実行（run）ごと・日ごと（WebサーバーのAPIキーごとを含む）のトークン・コストをRedisに集計し、PM2クラスター全体で共有する
+ *
+ * @module services/usage-store
+ */
+
+import IORedis from "ioredis";
+import { AgentUsage, BudgetConfig, UsageTotals, exceedsBudget, getBudget } from "./usage.js";
+import type { ApiKeyQuota } from "./auth.js";
+
+/**
+ * 実行ごとの集計キーの接頭辞
+ */
+const RUN_KEY_PREFIX = "qezu:usage:run:";
+
+/**
+ * 日ごとの集計キーの接頭辞
+ */
+const DAY_KEY_PREFIX = "qezu:usage:day:";
+
+/**
+ * APIキーごと・日ごとの集計キーの接頭辞（`<接頭辞><キーID>:<日付>`）
+ */
+const KEY_KEY_PREFIX = "qezu:usage:key:";
+
+/**
+ * APIキーごと・日ごとの実行回数のキーの接頭辞（`<接頭辞><キーID>:<日付>`）
+ */
+const KEY_RUNS_PREFIX = "qezu:runs:key:";
+
+/**
+ * 実行ごとの集計の保持期間（秒）
+ */
+const RUN_TTL_SECONDS = 7 * 86400;
+
+/**
+ * 日ごとの集計の保持期間（秒）
+ */
+const DAY_TTL_SECONDS = 90 * 86400;
+
+/**
+ * 集計する項目
+ */
+const FIELDS = ["calls", "inputTokens", "outputTokens", "costUsd"] as const;
+
+/**
+ * 使用量の集計結果
+ */
+export interface UsageReport {
+  total: UsageTotals;
+  /** エージェントID → 合計 */
+  agents: Record<string, UsageTotals>;
+}
+
+/**
+ * ローカル時刻の日付（YYYY-MM-DD）を取得する
+ *
+ * @param date 対象の日時（未指定時は現在）
+ */
+export function formatUsageDate(date: Date = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Redisのハッシュを集計結果に変換する（フィールドは `<agent>:<項目>`）
+ */
+function toReport(hash: Record<string, string>): UsageReport {
+  const empty = (): UsageTotals => ({ calls: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0, costUsd: 0 });
+  const total = empty();
+  const agents: Record<string, UsageTotals> = {};
+
+  for (const [field, value] of Object.entries(hash)) {
+    const idx = field.lastIndexOf(":");
+    const agent = field.slice(0, idx);
+    const key = field.slice(idx + 1) as (typeof FIELDS)[number];
+    const n = Number(value) || 0;
+    agents[agent] ??= empty();
+    agents[agent][key] += n;
+    total[key] += n;
+  }
+
+  for (const totals of [total, ...Object.values(agents)]) {
+    totals.totalTokens = totals.inputTokens + totals.outputTokens;
+  }
+  return { total, agents };
+}
+
+/**
+ * 使用量を記録する
+ *
+ * @param connection Redis接続
+ * @param runId 実行ID（ジョブはワークフローの親ジョブID、Webの実行は実行ごとのID）
+ * @param agent エージェントID
+ * @param usage 使用量
+ * @param keyId Webサーバーの実行の場合のAPIキーID（キーごとの利用枠に計上する）
+ * @returns 記録後の実行ごと・当日の集計（keyId を指定した場合はキーの当日の集計を含む）
+ */
+export async function recordUsage(
+  connection: IORedis,
+  runId: string,
+  agent: string,
+  usage: AgentUsage,
+  keyId?: string
+): Promise<{ run: UsageReport; day: UsageReport; key?: UsageReport }> {
+  const runKey = `${RUN_KEY_PREFIX}${runId}`;
+  const dayKey = `${DAY_KEY_PREFIX}${formatUsageDate()}`;
+  const apiKeyKey = keyId ? `${KEY_KEY_PREFIX}${keyId}:${formatUsageDate()}` : undefined;
+  const keys = apiKeyKey ? [runKey, dayKey, apiKeyKey] : [runKey, dayKey];
+
+  const multi = connection.multi();
+  for (const key of keys) {
+    multi.hincrby(key, `${agent}:calls`, 1);
+    multi.hincrby(key, `${agent}:inputTokens`, usage.inputTokens);
+    multi.hincrby(key, `${agent}:outputTokens`, usage.outputTokens);
+    multi.hincrbyfloat(key, `${agent}:costUsd`, usage.costUsd);
+  }
+  multi.expire(runKey, RUN_TTL_SECONDS);
+  multi.expire(dayKey, DAY_TTL_SECONDS);
+  if (apiKeyKey) {
+    multi.expire(apiKeyKey, DAY_TTL_SECONDS);
+  }
+  for (const key of keys) {
+    multi.hgetall(key);
+  }
+
+  const results = (await multi.exec()) || [];
+  const [runHash, dayHash, keyHash] = results.slice(-keys.length).map(([error, value]) => {
+    if (error) {
+      throw error;
+    }
+    return value as Record<string, string>;
+  });
+
+  return { run: toReport(runHash), day: toReport(dayHash), key: keyHash ? toReport(keyHash) : undefined };
+}
+
+/**
+ * 実行ごとの使用量を取得する
+ *
+ * @param connection Redis接続
+ * @param runId 実行ID
+ * @returns 集計結果（記録がない場合は0）
+ */
+export async function getRunUsage(connection: IORedis, runId: string): Promise<UsageReport> {
+  return toReport(await connection.hgetall(`${RUN_KEY_PREFIX}${runId}`));
+}
+
+/**
+ * 日ごとの使用量を取得する
+ *
+ * @param connection Redis接続
+ * @param date 日付（YYYY-MM-DD、未指定時は当日）
+ * @returns 集計結果（記録がない場合は0）
+ */
+export async function getDayUsage(connection: IORedis, date: string = formatUsageDate()): Promise<UsageReport> {
+  return toReport(await connection.hgetall(`${DAY_KEY_PREFIX}${date}`));
+}
+
+/**
+ * APIキーごとの当日の実行回数と使用量を取得する
+ *
+ * @param connection Redis接続
+ * @param keyId APIキーID
+ * @param date 日付（YYYY-MM-DD、未指定時は当日）
+ * @returns 実行回数と集計結果
+ */
+export async function getKeyUsage(
+  connection: IORedis,
+  keyId: string,
+  date: string = formatUsageDate()
+): Promise<{ runs: number; usage: UsageReport }> {
+  const [runs, hash] = await Promise.all([
+    connection.get(`${KEY_RUNS_PREFIX}${keyId}:${date}`),
+    connection.hgetall(`${KEY_KEY_PREFIX}${keyId}:${date}`),
+  ]);
+  return { runs: Number(runs) || 0, usage: toReport(hash) };
+}
+
+/**
+ * APIキーの当日の使用量・実行回数が利用枠に達しているか確認し、達していない場合は実行回数に計上する（実行前に呼び出す）
+ *
+ * 実行回数は INCR の結果で判定し、上限を超えた場合は DECR で戻す（同時に開始した実行が上限を超えて計上されないようにする）。
+ *
+ * @param connection Redis接続
+ * @param keyId APIキーID
+ * @param quota 利用枠
+ * @returns 達している場合はその理由（実行回数には計上しない）、達していない場合はundefined
+ */
+export async function reserveKeyRun(
+  connection: IORedis,
+  keyId: string,
+  quota: ApiKeyQuota
+): Promise<string | undefined> {
+  const date = formatUsageDate();
+  const { usage } = await getKeyUsage(connection, keyId, date);
+  const exceeded = exceedsBudget(usage.total, quota);
+  if (exceeded) {
+    return `quota ${exceeded}`;
+  }
+
+  const key = `${KEY_RUNS_PREFIX}${keyId}:${date}`;
+  const [[error, runs]] = (await connection.multi().incr(key).expire(key, DAY_TTL_SECONDS).exec()) ?? [[null, 0]];
+  if (error) {
+    throw error;
+  }
+  if (quota.maxRuns && (runs as number) > quota.maxRuns) {
+    await connection.decr(key);
+    return `quota runs=${(runs as number) - 1}/${quota.maxRuns}`;
+  }
+  return undefined;
+}
+
+/**
+ * 実行ごと・当日の使用量が予算を超えているか判定する
+ *
+ * @param connection Redis接続
+ * @param runId 実行ID
+ * @param budget 予算設定（未指定時は qezu.config.yaml を読み込む）
+ * @returns 超えている場合はその理由、超えていない場合はundefined
+ */
+export async function checkBudget(
+  connection: IORedis,
+  runId: string,
+  budget: BudgetConfig = getBudget()
+): Promise<string | undefined> {
+  const [run, day] = await Promise.all([getRunUsage(connection, runId), getDayUsage(connection)]);
+  return checkReports({ run, day }, budget);
+}
+
+/**
+ * 集計結果が予算を超えているか判定する
+ *
+ * @param reports 実行ごと・当日の集計（recordUsage の戻り値）
+ * @param budget 予算設定（未指定時は qezu.config.yaml を読み込む）
+ * @returns 超えている場合はその理由、超えていない場合はundefined
+ */
+export function checkReports(
+  reports: { run: UsageReport; day: UsageReport },
+  budget: BudgetConfig = getBudget()
+): string | undefined {
+  const perRun = exceedsBudget(reports.run.total, budget.perRun);
+  if (perRun) {
+    return `perRun ${perRun}`;
+  }
+  const perDay = exceedsBudget(reports.day.total, budget.perDay);
+  return perDay ? `perDay ${perDay}` : undefined;
+}
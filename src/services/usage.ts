@@ -0,0 +1,236 @@
+/**
+ * トークン・コストの集計
+ * アダプタが報告した使用量（またはプロンプトと出力からの推定値）に料金を適用し、予算と比較する
+ *
+ * @module services/usage
+ */
+
+import { loadQezuConfig, QezuConfig } from "./qezu-config.js";
+
+/**
+ * アダプタがCLIの出力から取得した使用量
+ */
+export interface ReportedUsage {
+  inputTokens: number;
+  outputTokens: number;
+  /** CLIが報告した料金（USD、報告がない場合は料金表から計算） */
+  costUsd?: number;
+  model?: string;
+}
+
+/**
+ * エージェント1回の実行の使用量
+ */
+export interface AgentUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  /** CLIの出力から取得できず、文字数から推定した場合true */
+  estimated: boolean;
+  model?: string;
+}
+
+/**
+ * 使用量の合計
+ */
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+/**
+ * 料金（100万トークンあたりのUSD）
+ */
+export interface TokenPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * 予算の上限（いずれかを超えた時点で超過）
+ */
+export interface UsageBudget {
+  maxTokens?: number;
+  maxCostUsd?: number;
+}
+
+/**
+ * 予算設定（qezu.config.yaml の budget）
+ */
+export interface BudgetConfig {
+  /** 1回の実行（/api/execute・ワークフロー・ジョブ）あたりの上限 */
+  perRun?: UsageBudget;
+  /** 1日あたりの上限（全プロセス合計） */
+  perDay?: UsageBudget;
+}
+
+/**
+ * 組み込みの料金表（エージェントID → 料金）
+ * qezu.config.yaml の pricing でモデル名またはエージェントIDごとに上書きできる
+ */
+const DEFAULT_PRICING: Record<string, TokenPrice> = {
+  codex: { input: 1.25, output: 10 },
+  claude: { input: 15, output: 75 },
+  gemini: { input: 1.25, output: 5 },
+  flowise: { input: 0, output: 0 },
+};
+
+/**
+ * 文字数からトークン数を推定する（ASCIIは4文字で1トークン、それ以外は1文字1トークン）
+ *
+ * @param text 対象テキスト
+ * @returns 推定トークン数
+ */
+export function estimateTokens(text: string): number {
+  let ascii = 0;
+  let other = 0;
+  for (const ch of text) {
+    if (ch.charCodeAt(0) < 128) {
+      ascii++;
+    } else {
+      other++;
+    }
+  }
+  return Math.ceil(ascii / 4) + other;
+}
+
+/**
+ * 料金を取得する（優先順位: pricing.<モデル名> > pricing.<エージェントID> > 組み込みの料金表）
+ *
+ * @param agent エージェントID
+ * @param model モデル名
+ * @param config 設定（未指定時は qezu.config.yaml を読み込む）
+ * @returns 料金（不明な場合は0）
+ */
+export function getTokenPrice(agent: string, model?: string, config: QezuConfig = loadQezuConfig()): TokenPrice {
+  const pricing = config.pricing || {};
+  return (
+    (model && pricing[model]) || pricing[agent] || DEFAULT_PRICING[agent] || { input: 0, output: 0 }
+  );
+}
+
+/**
+ * 実行結果の使用量を確定する
+ *
+ * アダプタが使用量を報告した場合はその値を、報告がない場合はプロンプトと出力の文字数から推定する。
+ *
+ * @param agent エージェントID
+ * @param model モデル名
+ * @param reported アダプタが報告した使用量
+ * @param prompt プロンプト（推定用）
+ * @param output 出力（推定用）
+ * @param config 設定（未指定時は qezu.config.yaml を読み込む）
+ * @returns 使用量
+ */
+export function resolveUsage(
+  agent: string,
+  model: string | undefined,
+  reported: ReportedUsage | undefined,
+  prompt: string,
+  output: string,
+  config: QezuConfig = loadQezuConfig()
+): AgentUsage {
+  const inputTokens = reported ? reported.inputTokens : estimateTokens(prompt);
+  const outputTokens = reported ? reported.outputTokens : estimateTokens(output);
+  const usedModel = reported?.model || model;
+  const price = getTokenPrice(agent, usedModel, config);
+  const costUsd =
+    reported?.costUsd ?? (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+
+  return {
+    inputTokens,
+    outputTokens,
+    totalTokens: inputTokens + outputTokens,
+    costUsd,
+    estimated: !reported,
+    model: usedModel,
+  };
+}
+
+/**
+ * 報告された使用量を加算する（1回の実行で複数回報告された場合）
+ *
+ * @param current これまでの使用量
+ * @param next 追加の使用量
+ * @returns 合計
+ */
+export function addReportedUsage(current: ReportedUsage | undefined, next: ReportedUsage): ReportedUsage {
+  if (!current) {
+    return next;
+  }
+  return {
+    inputTokens: current.inputTokens + next.inputTokens,
+    outputTokens: current.outputTokens + next.outputTokens,
+    costUsd:
+      current.costUsd !== undefined || next.costUsd !== undefined
+        ? (current.costUsd || 0) + (next.costUsd || 0)
+        : undefined,
+    model: next.model || current.model,
+  };
+}
+
+/**
+ * 使用量を合計する
+ *
+ * @param usages 使用量の一覧
+ * @returns 合計
+ */
+export function sumUsage(usages: AgentUsage[]): UsageTotals {
+  return usages.reduce<UsageTotals>(
+    (totals, usage) => ({
+      calls: totals.calls + 1,
+      inputTokens: totals.inputTokens + usage.inputTokens,
+      outputTokens: totals.outputTokens + usage.outputTokens,
+      totalTokens: totals.totalTokens + usage.totalTokens,
+      costUsd: totals.costUsd + usage.costUsd,
+    }),
+    { calls: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0, costUsd: 0 }
+  );
+}
+
+/**
+ * 予算設定を取得する
+ *
+ * @param config 設定（未指定時は qezu.config.yaml を読み込む）
+ * @returns 予算設定
+ * @throws 上限値が正の数でない場合
+ */
+export function getBudget(config: QezuConfig = loadQezuConfig()): BudgetConfig {
+  const budget = config.budget || {};
+  for (const [scope, limit] of Object.entries(budget)) {
+    for (const [key, value] of Object.entries(limit || {})) {
+      if (value !== undefined && (typeof value !== "number" || value <= 0)) {
+        throw new Error(`budget の値は正の数で指定してください [${scope}.${key}=${value}]`);
+      }
+    }
+  }
+  return budget;
+}
+
+/**
+ * 予算が設定されているか判定する
+ */
+export function hasBudget(budget: BudgetConfig): boolean {
+  return [budget.perRun, budget.perDay].some((b) => b?.maxTokens || b?.maxCostUsd);
+}
+
+/**
+ * 使用量が予算を超えているか判定する
+ *
+ * @param totals 使用量の合計
+ * @param budget 予算の上限
+ * @returns 超えている場合はその理由、超えていない場合はundefined
+ */
+export function exceedsBudget(totals: UsageTotals, budget?: UsageBudget): string | undefined {
+  if (budget?.maxTokens && totals.totalTokens >= budget.maxTokens) {
+    return `tokens=${totals.totalTokens}/${budget.maxTokens}`;
+  }
+  if (budget?.maxCostUsd && totals.costUsd >= budget.maxCostUsd) {
+    return `costUsd=${totals.costUsd.toFixed(4)}/${budget.maxCostUsd}`;
+  }
+  return undefined;
+}
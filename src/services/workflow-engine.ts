@@ -0,0 +1,308 @@
+/**
+ * ワークフローエンジン
+ * qezu.config.yaml のワークフローをDAGとして解釈し、BullMQのフロー（親子ジョブ）で実行する
+ *
+ * 実行モデル:
+ *   - ステップは `needs` に従ってレベル（同時実行可能なグループ）に分割する
+ *   - 親ジョブ（kind=workflow）の子として最初のレベルのステップを投入する
+ *   - 子がすべて完了すると親ジョブが処理され、結果を保存して次のレベルを子として追加する
+ *   - 後続ステップのパラメータ内の `{{steps.<id>.<path>}}` は完了済みステップの結果で置換する
+ *
+ * @module services/workflow-engine
+ */
+
+import { randomUUID } from "crypto";
+import { FlowProducer, Job, UnrecoverableError, WaitingChildrenError } from "bullmq";
+import { loadQezuConfig } from "./qezu-config.js";
+import { DEFAULT_QUEUE_NAME, queueNameForKind, QueuePool } from "./job-queues.js";
+import { resolveRetryOptions, RetryJobOptions, RetryPolicy } from "./retry-policy.js";
+import { getCorrelationId } from "./logger.js";
+import { injectTraceContext, withEnqueueSpan } from "./tracing.js";
+
+/**
+ * ワークフローのステップ定義（agent/id/needs/retry 以外のキーはジョブのparamsになる）
+ */
+export interface WorkflowStep {
+  id?: string;
+  agent: string;
+  needs?: string[];
+  retry?: RetryPolicy;
+  [key: string]: any;
+}
+
+/**
+ * ワークフロー定義
+ */
+export interface WorkflowDefinition {
+  steps?: WorkflowStep[];
+}
+
+/**
+ * 実行計画上のステップ（IDが確定済み）
+ */
+export interface PlannedStep {
+  id: string;
+  agent: string;
+  needs: string[];
+  params: Record<string, any>;
+  retry: RetryJobOptions;
+  /** 投入先キュー（エージェントごとの制限に応じて決定） */
+  queueName: string;
+}
+
+/**
+ * ワークフロー親ジョブのparams
+ */
+export interface WorkflowJobParams {
+  name: string;
+  levels: PlannedStep[][];
+  /** 次に結果を回収するレベルのインデックス */
+  stage: number;
+  /** 完了済みステップの結果（ステップID → ジョブの戻り値） */
+  outputs: Record<string, any>;
+}
+
+/**
+ * テンプレート参照のパターン（例: {{steps.outline.text}}）
+ */
+const TEMPLATE_PATTERN = /\{\{\s*steps\.([\w-]+)((?:\.[\w-]+)*)\s*\}\}/g;
+
+/**
+ * ワークフロー定義を検証し、依存関係に従ってレベルに分割する
+ *
+ * @param name ワークフロー名
+ * @param workflow ワークフロー定義
+ * @returns レベルごとのステップ一覧（先頭から順に実行）
+ * @throws IDの重複、未定義のneeds、循環依存がある場合
+ */
+export function planWorkflow(name: string, workflow: WorkflowDefinition): PlannedStep[][] {
+  const config = loadQezuConfig();
+  const steps: PlannedStep[] = (workflow.steps || []).map((step, idx) => {
+    const { id, agent, needs, retry, ...params } = step;
+    return {
+      id: id ? String(id) : `step-${idx + 1}`,
+      agent,
+      needs: (needs || []).map(String),
+      params,
+      retry: resolveRetryOptions(agent, retry, config),
+      queueName: queueNameForKind(agent, config),
+    };
+  });
+
+  if (steps.length === 0) {
+    throw new Error(`ワークフローにステップがありません [workflow=${name}]`);
+  }
+
+  const byId = new Map<string, PlannedStep>();
+  for (const step of steps) {
+    if (!step.agent) {
+      throw new Error(`ステップにagentが指定されていません [workflow=${name}, step=${step.id}]`);
+    }
+    if (byId.has(step.id)) {
+      throw new Error(`ステップIDが重複しています [workflow=${name}, step=${step.id}]`);
+    }
+    byId.set(step.id, step);
+  }
+
+  for (const step of steps) {
+    for (const dep of step.needs) {
+      if (!byId.has(dep)) {
+        throw new Error(`未定義のステップを参照しています [workflow=${name}, step=${step.id}, needs=${dep}]`);
+      }
+    }
+    // テンプレートで参照するステップは needs に含まれている必要がある
+    for (const ref of collectTemplateRefs(step.params)) {
+      if (!step.needs.includes(ref)) {
+        throw new Error(`テンプレートの参照先が needs にありません [workflow=${name}, step=${step.id}, ref=${ref}]`);
+      }
+    }
+  }
+
+  // 依存がすべて解決済みのステップを順にレベルへ振り分ける
+  const levels: PlannedStep[][] = [];
+  const done = new Set<string>();
+  let remaining = steps;
+
+  while (remaining.length > 0) {
+    const ready = remaining.filter((s) => s.needs.every((dep) => done.has(dep)));
+    if (ready.length === 0) {
+      throw new Error(
+        `ステップの依存関係が循環しています [workflow=${name}, steps=${remaining.map((s) => s.id).join(",")}]`
+      );
+    }
+    levels.push(ready);
+    ready.forEach((s) => done.add(s.id));
+    remaining = remaining.filter((s) => !done.has(s.id));
+  }
+
+  return levels;
+}
+
+/**
+ * 値に含まれるテンプレート参照のステップIDを収集する
+ */
+function collectTemplateRefs(value: any, refs: Set<string> = new Set()): Set<string> {
+  if (typeof value === "string") {
+    for (const match of value.matchAll(TEMPLATE_PATTERN)) {
+      refs.add(match[1]);
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach((v) => collectTemplateRefs(v, refs));
+  } else if (value && typeof value === "object") {
+    Object.values(value).forEach((v) => collectTemplateRefs(v, refs));
+  }
+  return refs;
+}
+
+/**
+ * パラメータ内の `{{steps.<id>.<path>}}` を完了済みステップの結果で置換する
+ *
+ * @param value 置換対象（文字列・配列・オブジェクトを再帰的に処理）
+ * @param outputs ステップID → ジョブの戻り値
+ * @returns 置換後の値
+ * @throws 参照先の値が存在しない場合
+ */
+export function resolveTemplates(value: any, outputs: Record<string, any>): any {
+  if (typeof value === "string") {
+    return value.replace(TEMPLATE_PATTERN, (whole, stepId: string, path: string) => {
+      let current = outputs[stepId];
+      for (const key of path.split(".").filter(Boolean)) {
+        current = current?.[key];
+      }
+      if (current === undefined || current === null) {
+        throw new Error(`テンプレートの参照先に値がありません [ref=${whole.trim()}]`);
+      }
+      return typeof current === "string" ? current : JSON.stringify(current);
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map((v) => resolveTemplates(v, outputs));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, resolveTemplates(v, outputs)])
+    );
+  }
+  return value;
+}
+
+/**
+ * 子ジョブ（ステップ）のジョブIDを生成する
+ */
+function stepJobId(rootId: string, stepId: string): string {
+  return `${rootId}-${stepId}`;
+}
+
+/**
+ * ステップを子ジョブとして投入するための定義を作成する（投入時の相関ID・トレースのコンテキストを引き継ぐ）
+ */
+function buildStepJob(rootId: string, step: PlannedStep, outputs: Record<string, any>) {
+  return {
+    name: "task",
+    queueName: step.queueName,
+    data: {
+      kind: step.agent,
+      params: resolveTemplates(step.params, outputs),
+      meta: { correlationId: getCorrelationId(), trace: injectTraceContext() },
+    },
+    opts: {
+      jobId: stepJobId(rootId, step.id),
+      priority: 2,
+      ...step.retry,
+      // ステップが失敗したらワークフロー全体を失敗させる
+      failParentOnFailure: true,
+    },
+  };
+}
+
+/**
+ * ワークフローをBullMQのフローとして投入する
+ *
+ * @param flowProducer FlowProducerインスタンス
+ * @param name ワークフロー名
+ * @param workflow ワークフロー定義
+ * @returns 親ジョブのIDと実行計画
+ */
+export async function enqueueWorkflow(
+  flowProducer: FlowProducer,
+  name: string,
+  workflow: WorkflowDefinition
+): Promise<{ jobId: string; levels: PlannedStep[][] }> {
+  const levels = planWorkflow(name, workflow);
+  const rootId = `wf-${randomUUID()}`;
+  const params: WorkflowJobParams = { name, levels, stage: 0, outputs: {} };
+
+  await withEnqueueSpan("workflow", DEFAULT_QUEUE_NAME, () =>
+    flowProducer.add({
+      name: "workflow",
+      queueName: DEFAULT_QUEUE_NAME,
+      data: { kind: "workflow", params, meta: { correlationId: getCorrelationId(), trace: injectTraceContext() } },
+      opts: { jobId: rootId, priority: 2 },
+      children: levels[0].map((step) => buildStepJob(rootId, step, {})),
+    })
+  );
+
+  return { jobId: rootId, levels };
+}
+
+/**
+ * ワークフロー親ジョブを処理する（ワーカーから呼び出す）
+ *
+ * 完了したレベルの結果を回収し、次のレベルがあれば子ジョブとして追加して待機状態に戻す。
+ *
+ * @param job 親ジョブ
+ * @param token ワーカーのロックトークン
+ * @param queues 子ジョブの投入先キューのプール
+ * @returns 全ステップの結果
+ * @throws WaitingChildrenError 次のレベルの子ジョブを待機する場合
+ */
+export async function processWorkflowJob(
+  job: Job<{ kind: string; params: WorkflowJobParams }>,
+  token: string | undefined,
+  queues: QueuePool
+): Promise<{ ok: true; workflow: string; outputs: Record<string, any> }> {
+  const params = job.data.params;
+  const rootId = job.id as string;
+  const outputs = { ...params.outputs };
+  let stage = params.stage;
+
+  while (true) {
+    // 直前のレベルの結果を回収
+    const childrenValues = await job.getChildrenValues();
+    for (const step of params.levels[stage]) {
+      const key = Object.keys(childrenValues).find((k) =>
+        k.endsWith(`:${stepJobId(rootId, step.id)}`)
+      );
+      outputs[step.id] = key ? childrenValues[key] : undefined;
+    }
+
+    stage += 1;
+    if (stage >= params.levels.length) {
+      return { ok: true, workflow: params.name, outputs };
+    }
+
+    // 次のレベルのステップを子ジョブとして追加
+    await job.updateData({ ...job.data, params: { ...params, stage, outputs } });
+    await job.log(
+      `${new Date().toISOString()} レベル${stage + 1}/${params.levels.length}を投入 [steps=${params.levels[stage].map((s) => s.id).join(",")}]`
+    );
+    for (const step of params.levels[stage]) {
+      let child: ReturnType<typeof buildStepJob>;
+      try {
+        child = buildStepJob(rootId, step, outputs);
+      } catch (error: any) {
+        // テンプレートの参照先がない場合は再試行しても解決しない
+        throw new UnrecoverableError(`${error.message} [workflow=${params.name}, step=${step.id}]`);
+      }
+      await queues.get(child.queueName).add(child.name, child.data, {
+        ...child.opts,
+        parent: { id: rootId, queue: job.queueQualifiedName },
+      });
+    }
+
+    if (await job.moveToWaitingChildren(token as string)) {
+      throw new WaitingChildrenError();
+    }
+    // 子ジョブがすでにすべて完了している場合はそのまま次のレベルへ進む
+  }
+}
@@ -6,16 +6,49 @@
  */
 
 import { config } from "dotenv";
-import { Worker, Job } from "bullmq";
-import IORedis from "ioredis";
-import { callFlowise } from "./adapters/flowise.js";
-import { callCodex, generateCode, completeCode } from "./adapters/codex.js";
-import { callClaude, chatWithClaude, generateCodeWithClaude } from "./adapters/claude.js";
-import { callGemini, chatWithGemini, generateCodeWithGemini } from "./adapters/gemini.js";
+import { Worker, Job, WaitingChildrenError, UnrecoverableError } from "bullmq";
+import { context, Span, SpanKind } from "@opentelemetry/api";
+import { requireAgent, loadAgentPlugins } from "./adapters/registry.js";
+import { classifyAgentError } from "./adapters/errors.js";
+import { processWorkflowJob } from "./services/workflow-engine.js";
+import { createRedisConnection } from "./services/redis-connection.js";
+import {
+  JOB_CANCELLED_MESSAGE,
+  isCancelRequested,
+  requestJobCancel,
+  subscribeJobCancellation,
+} from "./services/job-cancellation.js";
+import { ReportedUsage, addReportedUsage, resolveUsage } from "./services/usage.js";
+import { checkBudget, checkReports, getRunUsage, recordUsage } from "./services/usage-store.js";
+import { recordRun } from "./services/run-history.js";
+import {
+  MULTI_AGENT_KIND,
+  MULTI_AGENT_TASK_KIND,
+  processMultiAgentJob,
+  processMultiAgentTaskJob,
+} from "./services/queued-execution.js";
+import {
+  AgentLimit,
+  DEFAULT_QUEUE_NAME,
+  createQueuePool,
+  getAgentLimits,
+  queueNameForKind,
+} from "./services/job-queues.js";
+import { getMetricsConfig, initMetrics, JobOutcome, recordJob, startMetricsServer } from "./services/metrics.js";
+import { createLogger, withLogContext } from "./services/logger.js";
+import { extractTraceContext, failSpan, initTracing, shutdownTracing, tracer } from "./services/tracing.js";
+
+const log = createLogger("Worker");
 
 // 環境変数を読み込み
 config();
 
+// プラグインのエージェントを登録
+await loadAgentPlugins();
+
+// ジョブの処理をトレースに記録（tracing.enabled の場合のみ）
+initTracing("worker");
+
 /**
  * ジョブのペイロード型定義
  */
@@ -28,105 +61,294 @@ type Payload = {
 /**
  * Redis接続設定
  */
-const connection = new IORedis({
-  host: process.env.REDIS_HOST || "localhost",
-  port: parseInt(process.env.REDIS_PORT || "6379", 10),
-  db: parseInt(process.env.REDIS_DB || "0", 10),
-  maxRetriesPerRequest: null,
-});
+const connection = createRedisConnection();
 
 /**
- * 並列実行数（環境変数から取得、デフォルトは2）
+ * プロセス・キューごとの並列実行数（環境変数から取得、デフォルトは2）
  */
 const concurrency = parseInt(process.env.QEZU_CONCURRENCY || "2", 10);
 
 /**
- * ワーカーインスタンス
- * qezu:jobsキューからジョブを取得して処理する
- */
-const w = new Worker<Payload>(
-  "qezu-jobs",
-  async (job: Job<Payload>) => {
-    const { kind, params, meta } = job.data;
-
-    console.log(`[Worker] ジョブ開始 [kind=${kind}, jobId=${job.id}]`);
-
-    try {
-      if (kind === "flowise") {
-        // params.flowId と params.vars を想定
-        const res = await callFlowise(params.flowId, params.vars || {}, {
-          mode: params.mode,
-        });
-        console.log(`[Worker] Flowise完了 [flowId=${params.flowId}, jobId=${job.id}]`);
-        return { ok: true, text: res.text, raw: res.raw };
-      }
+ * ジョブのログに時刻付きで追記する（`qezu logs <jobId>` で参照）
+ * @param job 対象ジョブ
+ * @param message ログメッセージ
+ */
+async function appendJobLog(job: Job, message: string): Promise<void> {
+  try {
+    await job.log(`${new Date().toISOString()} ${message}`);
+  } catch (error: any) {
+    log.warn("ジョブログの書き込みに失敗しました", { jobId: job.id, error });
+  }
+}
 
-      if (kind === "codex") {
-        // Codex CLIを実行
-        const { command, args, options } = params;
-        let result;
-
-        if (command === "generate") {
-          result = await generateCode(params.prompt, options);
-        } else if (command === "complete") {
-          result = await completeCode(params.code, options);
-        } else {
-          result = await callCodex(command, args || [], options);
-        }
+/**
+ * キュープール（ワークフローの子ジョブ投入・キュー設定に使用）
+ */
+const queues = createQueuePool(connection);
 
-        console.log(`[Worker] Codex完了 [command=${command}, jobId=${job.id}]`);
-        return { ok: true, result };
-      }
+/**
+ * 実行中ジョブの中断用コントローラー（ジョブID → AbortController）
+ */
+const activeJobs = new Map<string, AbortController>();
 
-      if (kind === "claude") {
-        // Claude CLIを実行
-        const { command, args, options } = params;
-        let result;
-
-        if (command === "chat") {
-          result = await chatWithClaude(params.message, options);
-        } else if (command === "generate") {
-          result = await generateCodeWithClaude(params.prompt, options);
-        } else {
-          result = await callClaude(command, args || [], options);
-        }
+/**
+ * キャンセル通知の購読（このプロセスで実行中のジョブであれば中断する）
+ */
+const cancelSubscriber = await subscribeJobCancellation(connection, (jobId) => {
+  const controller = activeJobs.get(jobId);
+  if (controller) {
+    log.info("キャンセル要求を受信", { jobId });
+    controller.abort();
+  }
+});
 
-        console.log(`[Worker] Claude完了 [command=${command}, jobId=${job.id}]`);
-        return { ok: true, result };
-      }
+/**
+ * 予算超過時にワークフローの残りのステップをキャンセルする
+ * @param job 予算を超えたジョブ（ワークフローのステップ）
+ * @param reason 超過の理由
+ */
+async function cancelParentRun(job: Job, reason: string): Promise<void> {
+  if (!job.parent?.id) {
+    return;
+  }
+  // queueKey は "bull:<キュー名>" 形式
+  const { id, queueKey } = job.parent;
+  const parent = await Job.fromId(queues.get(queueKey.slice(queueKey.indexOf(":") + 1)), id);
+  if (parent) {
+    log.warn("予算の上限を超えたためワークフローをキャンセルします", { jobId: parent.id, reason });
+    await requestJobCancel(connection, parent);
+  }
+}
+
+/**
+ * ジョブを処理する（すべてのキューのワーカーで共通）
+ *
+ * 処理中のログには投入元の相関ID（meta.correlationId、ない場合はジョブID）とジョブIDを付与する。
+ * 処理は投入時のスパン（meta.trace）の子のスパンとして記録する。
+ *
+ * @param job 処理対象のジョブ
+ * @param token ワーカーのロックトークン
+ * @returns ジョブの結果
+ */
+function processJob(job: Job<Payload>, token?: string): Promise<any> {
+  const { kind, meta } = job.data;
+  const correlationId = meta?.correlationId ?? job.id;
+  const attributes = {
+    "messaging.system": "bullmq",
+    "messaging.destination.name": job.queueName,
+    "messaging.message.id": job.id,
+    "qezu.correlation_id": correlationId,
+    "qezu.job.attempt": job.attemptsMade + 1,
+  };
 
-      if (kind === "gemini") {
-        // Gemini CLIを実行
-        const { command, args, options } = params;
-        let result;
-
-        if (command === "chat") {
-          result = await chatWithGemini(params.message, options);
-        } else if (command === "generate") {
-          result = await generateCodeWithGemini(params.prompt, options);
-        } else {
-          result = await callGemini(command, args || [], options);
+  return withLogContext({ correlationId, jobId: job.id }, () =>
+    context.with(extractTraceContext(meta?.trace), () =>
+      tracer.startActiveSpan(`process ${kind}`, { kind: SpanKind.CONSUMER, attributes }, async (span) => {
+        try {
+          return await runJob(job, span, token);
+        } catch (error: any) {
+          // 子ジョブの待機はエラーとして記録しない
+          if (!(error instanceof WaitingChildrenError)) {
+            failSpan(span, error);
+          }
+          throw error;
+        } finally {
+          span.end();
         }
+      })
+    )
+  );
+}
 
-        console.log(`[Worker] Gemini完了 [command=${command}, jobId=${job.id}]`);
-        return { ok: true, result };
+/**
+ * ジョブを実行する（processJob から相関ID・スパンのコンテキスト内で呼び出す）
+ */
+async function runJob(job: Job<Payload>, span: Span, token?: string): Promise<any> {
+  const { kind, params, meta } = job.data;
+
+  log.info("ジョブ開始", { kind, jobId: job.id });
+  await appendJobLog(job, `ジョブ開始 [kind=${kind}, attempt=${job.attemptsMade + 1}]`);
+
+  const controller = new AbortController();
+  activeJobs.set(job.id as string, controller);
+  const startTime = Date.now();
+  // メトリクスに記録する処理結果（再試行されるエラーは retrying）
+  let outcome: JobOutcome = "failed";
+
+  try {
+    // 待機中にキャンセルされたジョブは実行しない（Webからの実行の親ジョブはそれまでの結果で完了する）
+    if (await isCancelRequested(connection, job.id as string)) {
+      controller.abort();
+      if (kind !== MULTI_AGENT_KIND) {
+        throw new UnrecoverableError(JOB_CANCELLED_MESSAGE);
       }
+    }
 
-      // 既存のエージェント（slides/code/mcp）は後で追加可能
-      // if (kind === "slides") return await runSlidesLocal(params, meta);
-      // if (kind === "code")   return await runCodeLocal(params, meta);
-      // if (kind === "mcp")    return await callMCP(params.server, params.serverArgs || [], params.method, params.params);
+    // Webからの実行の親ジョブ（子ジョブの結果を回収して次のエージェント・ラウンドを投入し、最後に統合する）
+    // 使用量の記録と予算の確認は投入元のサーバーが行う
+    if (kind === MULTI_AGENT_KIND) {
+      const result = await processMultiAgentJob(job, token, queues, controller.signal);
+      await appendJobLog(
+        job,
+        `マルチエージェント実行完了 [success=${result.summary.success}/${result.summary.total}, aborted=${controller.signal.aborted}]`
+      );
+      outcome = "completed";
+      return result;
+    }
 
-      throw new Error(`unknown agent kind: ${kind}`);
-    } catch (error: any) {
-      const errorMessage = `ワーカーエラー [kind=${kind}, jobId=${job.id}, error=${error.message}, stack=${error.stack}]`;
-      console.error(`[Worker] ${errorMessage}`);
-      throw new Error(errorMessage);
+    // 使用量はワークフローの親ジョブ単位（単独のジョブはジョブ単位）で集計する
+    const runId = job.parent?.id ?? (job.id as string);
+
+    // 予算の上限に達している場合は実行しない
+    const exceeded = await checkBudget(connection, runId);
+    if (exceeded) {
+      await appendJobLog(job, `予算の上限を超えているため実行しません [${exceeded}]`);
+      throw new UnrecoverableError(`予算の上限を超えました [${exceeded}]`);
+    }
+
+    // ワークフローの親ジョブ（子ジョブの結果を回収して次のステップを投入）
+    if (kind === "workflow") {
+      const result = await processWorkflowJob(job, token, queues);
+      await appendJobLog(job, `ワークフロー完了 [workflow=${result.workflow}]`);
+      outcome = "completed";
+      return { ...result, usage: (await getRunUsage(connection, runId)).total };
     }
-  },
-  {
+
+    // Webからの実行のエージェントごとの子ジョブ（失敗・タイムアウトも結果として親ジョブへ返す）
+    if (kind === MULTI_AGENT_TASK_KIND) {
+      const result = await processMultiAgentTaskJob(job, controller.signal);
+      await appendJobLog(job, `エージェント実行完了 [agent=${result.agent}, success=${result.success}]`);
+      outcome = controller.signal.aborted ? "cancelled" : "completed";
+      return result;
+    }
+
+    // kindに対応するアダプタをレジストリから解決して実行
+    const adapter = requireAgent(kind);
+    let reported: ReportedUsage | undefined;
+    const result = await adapter.runJob(params, {
+      signal: controller.signal,
+      onUsage: (usage) => {
+        reported = addReportedUsage(reported, usage);
+      },
+    });
+
+    // 使用量を記録（CLIが報告しない場合はparamsと結果の文字数から推定）
+    const usage = resolveUsage(
+      kind,
+      params?.options?.model || adapter.defaultModel,
+      reported,
+      JSON.stringify(params ?? {}),
+      JSON.stringify(result ?? {})
+    );
+    const reports = await recordUsage(connection, runId, kind, usage);
+    const overBudget = checkReports(reports);
+    if (overBudget) {
+      await appendJobLog(job, `予算の上限を超えました [${overBudget}]`);
+      await cancelParentRun(job, overBudget);
+    }
+
+    log.info(`${adapter.name}完了`, { command: params?.command, jobId: job.id, tokens: usage.totalTokens });
+    await appendJobLog(
+      job,
+      `${adapter.name}完了 [command=${params?.command}, tokens=${usage.totalTokens}${usage.estimated ? "（推定）" : ""}, costUsd=${usage.costUsd.toFixed(4)}]`
+    );
+    outcome = "completed";
+    return { ...result, usage };
+  } catch (error: any) {
+    // 子ジョブ待機はエラーではないためそのままBullMQへ返す
+    if (error instanceof WaitingChildrenError) {
+      outcome = "waiting-children";
+      log.info("子ジョブ待機", { kind, jobId: job.id });
+      await appendJobLog(job, "子ジョブの完了を待機します");
+      throw error;
+    }
+
+    // キャンセルされたジョブは再試行せずに失敗させる
+    if (controller.signal.aborted) {
+      outcome = "cancelled";
+      log.info("ジョブキャンセル", { kind, jobId: job.id });
+      await appendJobLog(job, "ジョブはキャンセルされました");
+      throw new UnrecoverableError(JOB_CANCELLED_MESSAGE);
+    }
+
+    // スタックトレースはログのみに出力し、ジョブのエラーメッセージには含めない
+    const errorMessage = `ワーカーエラー [kind=${kind}, jobId=${job.id}, error=${error.message}]`;
+    log.error("ワーカーエラー", { kind, error });
+
+    // 致命的なエラーは再試行せずに失敗させる
+    if (error instanceof UnrecoverableError || classifyAgentError(error) === "fatal") {
+      await appendJobLog(job, `致命的なエラー（再試行しません） [error=${error.message}]`);
+      throw new UnrecoverableError(errorMessage);
+    }
+
+    const attempts = job.opts.attempts || 1;
+    if (job.attemptsMade + 1 < attempts) {
+      outcome = "retrying";
+    }
+    await appendJobLog(
+      job,
+      job.attemptsMade + 1 < attempts
+        ? `エラー（再試行します ${job.attemptsMade + 1}/${attempts}） [error=${error.message}]`
+        : `エラー（再試行回数の上限に達しました） [error=${error.message}]`
+    );
+    throw new Error(errorMessage);
+  } finally {
+    activeJobs.delete(job.id as string);
+    recordJob(kind, outcome, (Date.now() - startTime) / 1000);
+    span.setAttribute("qezu.job.outcome", outcome);
+  }
+}
+
+/**
+ * ジョブの結果を実行履歴に保存する（ワークフローの子ジョブは親ジョブの結果に含まれるため保存しない）
+ *
+ * BullMQのジョブは removeOnComplete で削除されるため、後から比較できるよう別に保存する。
+ * Webからの実行のジョブは投入元のサーバーが同じ実行IDで保存する。
+ *
+ * @param job 完了・失敗したジョブ
+ * @param status 実行結果
+ * @param result ジョブの戻り値
+ * @param error 失敗した場合のエラーメッセージ
+ */
+function recordJobRun(job: Job<Payload>, status: "completed" | "failed", result?: any, error?: string): void {
+  const { kind, params } = job.data;
+  if (job.parent || kind === MULTI_AGENT_KIND) {
+    return;
+  }
+  const finishedOn = job.finishedOn ?? Date.now();
+  recordRun({
+    id: job.id as string,
+    source: "job",
+    status,
+    prompt: params?.prompt ?? params?.message,
+    options: { kind, params },
+    result,
+    error,
+    createdAt: new Date(job.timestamp).toISOString(),
+    completedAt: new Date(finishedOn).toISOString(),
+    totalExecutionTime: finishedOn - (job.processedOn ?? job.timestamp),
+  });
+}
+
+/**
+ * 実行制限（qezu.config.yaml の limits）
+ */
+const limits = getAgentLimits();
+
+/**
+ * ワーカーを作成する
+ *
+ * @param queueName 処理対象のキュー名
+ * @param limit 専用キューの場合のエージェントの実行制限
+ * @returns ワーカーインスタンス
+ */
+function createWorker(queueName: string, limit?: AgentLimit): Worker<Payload> {
+  const worker = new Worker<Payload>(queueName, processJob, {
     connection,
-    concurrency,
+    // プロセス内の並列数はクラスター全体の上限を超えないようにする
+    concurrency: limit?.maxConcurrent ? Math.min(concurrency, limit.maxConcurrent) : concurrency,
+    // レートリミッターはキュー単位でクラスター全体に適用される
+    limiter: limit?.maxPerMinute ? { max: limit.maxPerMinute, duration: 60000 } : undefined,
     stalledInterval: 30000,
     lockDuration: 90000,
     removeOnComplete: {
@@ -136,40 +358,81 @@ const w = new Worker<Payload>(
     removeOnFail: {
       age: 86400, // 24時間後に失敗ジョブを削除
     },
-  }
-);
+  });
+
+  worker.on("completed", (job: Job<Payload>, result: any) => {
+    log.info("ジョブ完了", { queue: queueName, jobId: job.id, kind: job.data.kind });
+    recordJobRun(job, "completed", result);
+  });
+
+  worker.on("failed", (job: Job<Payload> | undefined, error: Error) => {
+    log.error("ジョブ失敗", { queue: queueName, jobId: job?.id, kind: job?.data.kind, error });
+    // 再試行されるジョブは最終的な結果のみ保存する
+    if (job && (error instanceof UnrecoverableError || job.attemptsMade >= (job.opts.attempts || 1))) {
+      recordJobRun(job, "failed", undefined, error.message);
+    }
+  });
+
+  worker.on("error", (error: Error) => {
+    log.error("ワーカーエラー", { queue: queueName, error });
+  });
+
+  return worker;
+}
 
 /**
- * ワーカーのイベントハンドラ
+ * ワーカーインスタンス
+ * 共通キュー（qezu-jobs）と、制限付きエージェントごとの専用キューからジョブを取得して処理する
  */
-w.on("completed", (job: Job) => {
-  console.log(`[Worker] ジョブ完了 [jobId=${job.id}, kind=${job.data.kind}]`);
-});
+const workers: Worker<Payload>[] = [createWorker(DEFAULT_QUEUE_NAME)];
 
-w.on("failed", (job: Job | undefined, error: Error) => {
-  console.error(
-    `[Worker] ジョブ失敗 [jobId=${job?.id}, kind=${job?.data.kind}, error=${error.message}]`
-  );
-});
+for (const [kind, limit] of Object.entries(limits)) {
+  const queueName = queueNameForKind(kind);
+  // 同時実行数の上限はRedis上のキュー設定としてクラスター全体に適用
+  if (limit.maxConcurrent) {
+    await queues.get(queueName).setGlobalConcurrency(limit.maxConcurrent);
+  } else {
+    await queues.get(queueName).removeGlobalConcurrency();
+  }
+  workers.push(createWorker(queueName, limit));
+  log.info("実行制限を適用", {
+    kind,
+    queue: queueName,
+    maxConcurrent: limit.maxConcurrent,
+    maxPerMinute: limit.maxPerMinute,
+  });
+}
 
-w.on("error", (error: Error) => {
-  console.error(`[Worker] ワーカーエラー [error=${error.message}]`);
-});
+log.info("ワーカー起動", { concurrency, queues: workers.map((w) => w.name) });
 
-console.log(`[Worker] ワーカー起動 [concurrency=${concurrency}]`);
+/**
+ * メトリクスの公開（PM2のクラスターではインスタンスごとに workerPort + インスタンス番号のポートを使用）
+ * キューの深さはクラスター全体で共通のため、サーバーの /metrics のみで公開する
+ */
+const metricsConfig = getMetricsConfig();
+if (metricsConfig.enabled) {
+  initMetrics("worker");
+  startMetricsServer(metricsConfig.workerPort + parseInt(process.env.NODE_APP_INSTANCE || "0", 10));
+}
 
 // グレースフルシャットダウン
 process.on("SIGTERM", async () => {
-  console.log("[Worker] SIGTERM受信、ワーカーを停止します");
-  await w.close();
+  log.info("SIGTERM受信、ワーカーを停止します");
+  await Promise.all(workers.map((w) => w.close()));
+  await cancelSubscriber.quit();
+  await queues.close();
   await connection.quit();
+  await shutdownTracing();
   process.exit(0);
 });
 
 process.on("SIGINT", async () => {
-  console.log("[Worker] SIGINT受信、ワーカーを停止します");
-  await w.close();
+  log.info("SIGINT受信、ワーカーを停止します");
+  await Promise.all(workers.map((w) => w.close()));
+  await cancelSubscriber.quit();
+  await queues.close();
   await connection.quit();
+  await shutdownTracing();
   process.exit(0);
 });
 
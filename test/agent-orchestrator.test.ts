@@ -0,0 +1,180 @@
+/**
+ * マルチエージェントオーケストレーターのテスト
+ * 子プロセスを起動しないテスト用のエージェントを登録して実行する
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { setTimeout as sleep } from "node:timers/promises";
+import { registerAgent } from "../src/adapters/registry.js";
+import {
+  executeMultiAgent,
+  OrchestratorEvent,
+  streamMultiAgent,
+  TIMEOUT_ERROR,
+} from "../src/services/agent-orchestrator.js";
+
+/**
+ * 中断されたテスト用エージェントのID
+ */
+const aborted: string[] = [];
+
+/**
+ * テスト用のエージェントを登録する
+ *
+ * @param id エージェントID
+ * @param run プロンプトと中断用シグナルを受け取って回答を返す関数
+ */
+function registerTestAgent(id: string, run: (prompt: string, signal?: AbortSignal) => Promise<string>): void {
+  registerAgent({
+    id,
+    name: id,
+    description: "テスト用",
+    capabilities: ["general"],
+    run: ({ prompt, signal }) => run(prompt, signal),
+    runJob: async () => ({}),
+  });
+}
+
+/**
+ * 中断されるまで応答しない
+ */
+function waitForAbort(id: string, signal?: AbortSignal): Promise<string> {
+  return new Promise((_, reject) => {
+    signal?.addEventListener("abort", () => {
+      aborted.push(id);
+      reject(new Error(`${id} aborted`));
+    });
+  });
+}
+
+registerTestAgent("test-echo", async (prompt) => {
+  await sleep(5);
+  return `echo: ${prompt}`;
+});
+registerTestAgent("test-slow", (_prompt, signal) => waitForAbort("test-slow", signal));
+registerTestAgent("test-fail", async () => {
+  throw new Error("test failure");
+});
+// ディベートの2ラウンド目以降は批評と改訂後の回答を返す
+registerTestAgent("test-debater", async (prompt) =>
+  prompt.includes("## Other participants' answers") ? "## Critique\n同意します\n\n## Revised answer\n改訂した回答" : "最初の回答"
+);
+
+describe("executeMultiAgent", () => {
+  it("登録されていないエージェントは失敗の結果として summary に含める", async () => {
+    const result = await executeMultiAgent("hello", { agents: ["no-such-agent"] });
+
+    assert.equal(result.results.length, 1);
+    assert.equal(result.results[0].agent, "no-such-agent");
+    assert.equal(result.results[0].success, false);
+    assert.equal(result.results[0].error, "Unknown agent: no-such-agent");
+    assert.equal(result.summary.total, 1);
+    assert.equal(result.summary.failed, 1);
+    assert.equal(result.summary.success, 0);
+    assert.equal(result.aggregated, "すべてのエージェントが失敗しました");
+  });
+
+  it("期限を過ぎたエージェントは中断して timeout とし、完了したエージェントの結果は保持する", async () => {
+    const result = await executeMultiAgent("hello", { agents: ["test-echo", "test-slow"], timeout: 100 });
+
+    assert.deepEqual(
+      result.results.map((r) => [r.agent, r.success, r.result ?? r.error]),
+      [
+        ["test-echo", true, "echo: hello"],
+        ["test-slow", false, TIMEOUT_ERROR],
+      ]
+    );
+    assert.ok(result.results[1].executionTime >= 100);
+    assert.ok(aborted.includes("test-slow"));
+    assert.equal(result.summary.timedOut, 1);
+    assert.equal(result.summary.success, 1);
+    assert.equal(result.aggregated, "## TEST-ECHO\n\necho: hello");
+  });
+
+  it("実行全体を中断した場合は実行中のエージェントを中断して結果を返す", async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+
+    const result = await executeMultiAgent("hello", {
+      agents: ["test-echo", "test-slow"],
+      timeout: 10000,
+      signal: controller.signal,
+    });
+
+    assert.equal(result.results[0].success, true);
+    assert.equal(result.results[1].success, false);
+    assert.equal(result.results[1].error, "test-slow aborted");
+    assert.equal(result.summary.timedOut, 0);
+  });
+});
+
+describe("executeMultiAgent（ディベートモード）", () => {
+  it("各ラウンドの結果を返し、2ラウンド目以降は批評と改訂後の回答に分ける", async () => {
+    const result = await executeMultiAgent("hello", {
+      agents: ["test-debater", "test-echo"],
+      rounds: 2,
+      aggregation: "concat",
+    });
+
+    assert.equal(result.rounds?.length, 2);
+    assert.deepEqual(
+      result.rounds?.[0].results.map((r) => r.result),
+      ["最初の回答", "echo: hello"]
+    );
+    assert.equal(result.results[0].result, "改訂した回答");
+    assert.equal(result.results[0].critique, "同意します");
+    // 2ラウンド目のプロンプトには前のラウンドの他のエージェントの回答が含まれる（test-echo はプロンプトを返す）
+    assert.match(result.rounds?.[1].results[1].critique as string, /### test-debater\n最初の回答/);
+    assert.deepEqual(result.results, result.rounds?.[1].results);
+  });
+
+  it("rounds が範囲外の場合はエラーにする", async () => {
+    await assert.rejects(executeMultiAgent("hello", { agents: ["test-echo"], rounds: 6 }), /rounds は1〜5の整数/);
+  });
+});
+
+describe("executeMultiAgent（フォールバック）", () => {
+  it("失敗したエージェントはフォールバックチェーンの次のエージェントで実行する", async () => {
+    const result = await executeMultiAgent("hello", {
+      agents: ["test-fail"],
+      fallbacks: { "test-fail": ["test-echo"] },
+    });
+
+    assert.equal(result.results[0].agent, "test-echo");
+    assert.equal(result.results[0].result, "echo: hello");
+    assert.equal(result.results[0].fallbackFrom, "test-fail");
+    assert.deepEqual(result.results[0].attempts?.map((a) => a.error), ["test failure"]);
+    assert.equal(result.summary.success, 1);
+  });
+
+  it("期限はフォールバックチェーン全体に適用する", async () => {
+    const result = await executeMultiAgent("hello", {
+      agents: ["test-fail"],
+      fallbacks: { "test-fail": ["test-slow"] },
+      timeout: 100,
+    });
+
+    assert.equal(result.results[0].agent, "test-fail");
+    assert.equal(result.results[0].error, TIMEOUT_ERROR);
+  });
+});
+
+describe("streamMultiAgent", () => {
+  it("実行中のイベントを順にyieldし、最後に実行結果を返す", async () => {
+    const events: OrchestratorEvent[] = [];
+    const stream = streamMultiAgent("hello", { agents: ["test-echo", "test-fail"] });
+    let next = await stream.next();
+    while (!next.done) {
+      events.push(next.value);
+      next = await stream.next();
+    }
+
+    assert.deepEqual(
+      events.map((event) => ("agent" in event ? `${event.type}:${event.agent}` : event.type)),
+      ["agent-start:test-echo", "agent-start:test-fail", "agent-error:test-fail", "agent-complete:test-echo"]
+    );
+    assert.equal(next.value.summary.success, 1);
+    assert.equal(next.value.aggregated, "## TEST-ECHO\n\necho: hello");
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * 結果統合のテスト
+ * judge・synthesis は応答を指定できるテスト用の審査役エージェントを登録して実行する
+ */
+
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { registerAgent } from "../src/adapters/registry.js";
+import type { AgentResult } from "../src/services/agent-orchestrator.js";
+import { aggregateResults } from "../src/services/aggregation.js";
+
+let judgeOutput: string | Error;
+let judgePrompts: string[];
+
+registerAgent({
+  id: "test-judge",
+  name: "Test Judge",
+  description: "テスト用の審査役",
+  capabilities: ["general"],
+  run: async ({ prompt, onUsage }) => {
+    judgePrompts.push(prompt);
+    if (judgeOutput instanceof Error) {
+      throw judgeOutput;
+    }
+    onUsage?.({ inputTokens: 100, outputTokens: 10 });
+    return judgeOutput;
+  },
+  runJob: async () => ({}),
+});
+
+beforeEach(() => {
+  judgeOutput = "";
+  judgePrompts = [];
+});
+
+/**
+ * エージェントの結果を作成する
+ */
+function result(agent: string, text: string | undefined, executionTime: number): AgentResult {
+  return text === undefined
+    ? { agent, success: false, error: "failed", executionTime }
+    : { agent, success: true, result: text, executionTime };
+}
+
+const results = [
+  result("codex", "Answer A", 300),
+  result("claude", "answer a.", 200),
+  result("gemini", "Answer B", 100),
+  result("flowise", undefined, 50),
+];
+
+describe("aggregateResults", () => {
+  it("concat はすべての成功結果を見出し付きで連結する", async () => {
+    const aggregated = await aggregateResults("task", results);
+
+    assert.equal(aggregated.strategy, "concat");
+    assert.equal(
+      aggregated.aggregated,
+      "## CODEX\n\nAnswer A\n\n---\n\n## CLAUDE\n\nanswer a.\n\n---\n\n## GEMINI\n\nAnswer B"
+    );
+  });
+
+  it("成功結果がない場合は失敗を返す", async () => {
+    const aggregated = await aggregateResults("task", [result("codex", undefined, 1)], { strategy: "judge" });
+
+    assert.deepEqual(aggregated, { strategy: "judge", aggregated: "すべてのエージェントが失敗しました" });
+    assert.deepEqual(judgePrompts, []);
+  });
+
+  it("first-success は実行時間が最短の成功結果を採用する", async () => {
+    const aggregated = await aggregateResults("task", results, { strategy: "first-success" });
+
+    assert.equal(aggregated.winner, "gemini");
+    assert.equal(aggregated.aggregated, "Answer B");
+  });
+
+  it("majority は正規化して最も多い回答を採用する", async () => {
+    const aggregated = await aggregateResults("task", results, { strategy: "majority" });
+
+    assert.equal(aggregated.winner, "codex");
+    assert.equal(aggregated.aggregated, "Answer A");
+    assert.match(aggregated.rationale as string, /3件中2件が同じ回答でした \[agents=codex,claude\]/);
+  });
+
+  it("majority は票数が同じ場合に先に完了した回答を優先する", async () => {
+    const aggregated = await aggregateResults("task", [result("codex", "x", 200), result("claude", "y", 100)], {
+      strategy: "majority",
+    });
+
+    assert.equal(aggregated.winner, "claude");
+  });
+
+  it("judge は候補を番号で示し、審査役が選んだ結果と検証した点数を返す", async () => {
+    const duplicated = [result("codex", "first", 100), result("codex", "second", 200), result("claude", "third", 300)];
+    judgeOutput = `評価です: {"scores": {"1": 4, "Candidate 2": 9, "3": 11, "9": 5, "x": 3}, "winner": "2", "rationale": "詳しい"}`;
+
+    const aggregated = await aggregateResults("task", duplicated, { strategy: "judge", judge: "test-judge" });
+
+    assert.match(judgePrompts[0], /### Candidate 1\nfirst\n\n### Candidate 2\nsecond\n\n### Candidate 3\nthird/);
+    assert.equal(aggregated.aggregated, "second");
+    assert.equal(aggregated.winner, "codex");
+    assert.equal(aggregated.rationale, "詳しい");
+    assert.deepEqual(aggregated.scores, { codex: 9 });
+    assert.equal(aggregated.judge, "test-judge");
+    assert.equal(aggregated.usage?.totalTokens, 110);
+    assert.equal(aggregated.usage?.estimated, false);
+  });
+
+  it("judge の結果を解釈できない場合は最初の成功結果を採用する", async () => {
+    judgeOutput = '{"winner": "codex"}';
+
+    const aggregated = await aggregateResults("task", results, { strategy: "judge", judge: "test-judge" });
+
+    assert.equal(aggregated.winner, "gemini");
+    assert.match(aggregated.rationale as string, /審査結果を解釈できなかった/);
+    assert.equal(aggregated.scores, undefined);
+  });
+
+  it("synthesis は統合役の回答を返す", async () => {
+    judgeOutput = "統合した回答";
+
+    const aggregated = await aggregateResults("task", results, { strategy: "synthesis", judge: "test-judge" });
+
+    assert.equal(aggregated.aggregated, "統合した回答");
+    assert.equal(aggregated.winner, undefined);
+    assert.match(aggregated.rationale as string, /test-judgeが3件の回答を統合しました/);
+  });
+
+  it("審査・統合に失敗した場合はすべての結果を連結する", async () => {
+    judgeOutput = new Error("judge crashed");
+
+    const aggregated = await aggregateResults("task", results, { strategy: "synthesis", judge: "test-judge" });
+
+    assert.match(aggregated.aggregated, /^## CODEX/);
+    assert.match(aggregated.rationale as string, /審査・統合に失敗した.*error=judge crashed/);
+  });
+
+  it("不明な戦略はエラーにする", async () => {
+    await assert.rejects(aggregateResults("task", results, { strategy: "unknown" as any }), /Unknown aggregation strategy/);
+  });
+});
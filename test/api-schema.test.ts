@@ -0,0 +1,102 @@
+/**
+ * リクエストスキーマの検証とAPIエラーのテスト
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ApiError, toErrorResponse, validationError } from "../src/services/api-errors.js";
+import { executeRequestSchema, LIST_RUNS_QUERY_SCHEMA, validateSchema } from "../src/services/api-schema.js";
+
+const schema = executeRequestSchema(["codex", "claude"]);
+
+describe("validateSchema", () => {
+  it("正しいリクエストは検証エラーを返さない", () => {
+    const issues = validateSchema(
+      schema,
+      {
+        prompt: "hello",
+        agents: ["codex", "claude"],
+        model: { claude: "sonnet" },
+        timeout: 60000,
+        aggregation: "judge",
+        judge: "claude",
+        fallbacks: { codex: ["claude"] },
+        hedgeAfter: 1.5,
+      },
+      "body"
+    );
+
+    assert.deepEqual(issues, []);
+  });
+
+  it("必須・型・列挙値・範囲・追加プロパティの検証エラーを位置付きで返す", () => {
+    const issues = validateSchema(
+      schema,
+      {
+        agents: ["codex", "unknown"],
+        model: { unknown: "x", claude: "" },
+        timeout: 100.5,
+        rounds: 9,
+        hedgeAfter: 0,
+        extra: true,
+      },
+      "body"
+    );
+
+    assert.deepEqual(issues, [
+      { path: "body.prompt", message: "is required" },
+      { path: "body.agents[1]", message: "must be one of: codex, claude" },
+      { path: "body.model.unknown", message: "must be one of: codex, claude" },
+      { path: "body.model.claude", message: "must not be empty" },
+      { path: "body.timeout", message: "must be of type integer" },
+      { path: "body.rounds", message: "must be <= 5" },
+      { path: "body.hedgeAfter", message: "must be > 0" },
+      { path: "body.extra", message: "is not allowed" },
+    ]);
+  });
+
+  it("値が undefined のプロパティは未指定として扱う", () => {
+    assert.deepEqual(validateSchema(schema, { prompt: "hello", agents: undefined }, "body"), []);
+    assert.deepEqual(validateSchema(schema, null, "body"), [{ path: "body", message: "must be of type object" }]);
+  });
+
+  it("クエリの整数はパターンで検証する", () => {
+    assert.deepEqual(validateSchema(LIST_RUNS_QUERY_SCHEMA, { limit: "10", offset: "0" }, "query"), []);
+    assert.deepEqual(validateSchema(LIST_RUNS_QUERY_SCHEMA, { limit: "-1" }, "query"), [
+      { path: "query.limit", message: "must match ^[0-9]+$" },
+    ]);
+  });
+});
+
+describe("toErrorResponse / validationError", () => {
+  it("ApiError はコードに対応するステータスで返す", () => {
+    const { status, body } = toErrorResponse(new ApiError("not_found", "Run not found", { runId: "x" }));
+
+    assert.equal(status, 404);
+    assert.equal(body.success, false);
+    assert.equal(body.code, "not_found");
+    assert.equal(body.error, "Run not found");
+    assert.deepEqual(body.details, { runId: "x" });
+  });
+
+  it("ApiError 以外は internal_error として返す", () => {
+    const { status, body } = toErrorResponse(new Error("boom"));
+
+    assert.equal(status, 500);
+    assert.equal(body.code, "internal_error");
+    assert.equal(body.error, "boom");
+  });
+
+  it("検証エラーは最初の検証エラーをメッセージにし、すべてを details に含める", () => {
+    const issues = [
+      { path: "body.prompt", message: "is required" },
+      { path: "body.extra", message: "is not allowed" },
+    ];
+    const error = validationError(issues);
+
+    assert.equal(error.status, 400);
+    assert.equal(error.code, "invalid_request");
+    assert.equal(error.message, "body.prompt is required");
+    assert.deepEqual(error.details, issues);
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * 認証・アクセス制御とAPIキーの利用枠のテスト
+ * 利用枠の計上は必要なコマンドだけを実装したRedis接続の代わりで確認する
+ */
+
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createHash } from "node:crypto";
+import type IORedis from "ioredis";
+import {
+  authenticateApiKey,
+  canAccess,
+  canManageJob,
+  createSessionToken,
+  findDisallowedAgents,
+  getCorsOrigins,
+  loadApiKeys,
+  Principal,
+  verifySessionToken,
+} from "../src/services/auth.js";
+import { formatUsageDate, reserveKeyRun } from "../src/services/usage-store.js";
+
+afterEach(() => {
+  delete process.env.QEZU_API_KEYS;
+  delete process.env.QEZU_CORS_ORIGINS;
+  delete process.env.QEZU_TEST_KEY;
+});
+
+describe("canAccess / canManageJob", () => {
+  const user: Principal = { keyId: "alice", via: "api-key" };
+  const admin: Principal = { keyId: "root", via: "api-key", admin: true };
+
+  it("認証が無効な場合はすべて、それ以外は同じキーの実行・ジョブのみ操作できる", () => {
+    assert.equal(canAccess(undefined, "bob"), true);
+    assert.equal(canAccess(user, "alice"), true);
+    assert.equal(canAccess(user, "bob"), false);
+    assert.equal(canAccess(user, undefined), false);
+  });
+
+  it("管理者はほかのキーが投入したジョブも操作できる", () => {
+    assert.equal(canManageJob(admin, "alice"), true);
+    assert.equal(canManageJob(admin, undefined), true);
+    assert.equal(canManageJob(user, undefined), false);
+    // 実行履歴へのアクセスは管理者でも同じキーのみ
+    assert.equal(canAccess(admin, "alice"), false);
+  });
+});
+
+describe("loadApiKeys / authenticateApiKey", () => {
+  it("key・keyHash・keyEnv・QEZU_API_KEYS のキーを読み込んで検証する", () => {
+    process.env.QEZU_TEST_KEY = "env-secret";
+    process.env.QEZU_API_KEYS = "ci=ci-secret";
+    const keys = loadApiKeys({
+      auth: {
+        keys: [
+          { id: "plain", key: "plain-secret", agents: ["claude"], quota: { maxRuns: 10 } },
+          { id: "hashed", keyHash: createHash("sha256").update("hashed-secret").digest("hex"), admin: true },
+          { id: "env", keyEnv: "QEZU_TEST_KEY" },
+        ],
+      },
+    });
+
+    assert.deepEqual(
+      keys.map((key) => key.id),
+      ["plain", "hashed", "env", "ci"]
+    );
+    assert.deepEqual(authenticateApiKey(keys, "plain-secret")?.agents, ["claude"]);
+    assert.equal(authenticateApiKey(keys, "hashed-secret")?.admin, true);
+    assert.equal(authenticateApiKey(keys, "env-secret")?.id, "env");
+    assert.equal(authenticateApiKey(keys, "ci-secret")?.id, "ci");
+    assert.equal(authenticateApiKey(keys, "wrong"), undefined);
+  });
+
+  it("キーの設定が不正な場合はエラーにする", () => {
+    assert.throws(
+      () => loadApiKeys({ auth: { keys: [{ id: "a", key: "x", keyEnv: "QEZU_TEST_KEY" }] } }),
+      /いずれか1つを指定してください \[id=a\]/
+    );
+    assert.throws(() => loadApiKeys({ auth: { keys: [{ id: "a", keyHash: "abc" }] } }), /keyHash はSHA-256/);
+    assert.throws(() => loadApiKeys({ auth: { keys: [{ id: "a", keyEnv: "QEZU_TEST_KEY" }] } }), /APIキーが設定されていません/);
+    assert.throws(
+      () => loadApiKeys({ auth: { keys: [{ id: "a", key: "x", quota: { maxRuns: 0 } }] } }),
+      /quota の値は正の数/
+    );
+    assert.throws(() => loadApiKeys({ auth: { keys: [{ id: "a b", key: "x" }] } }), /APIキーのIDは英数字/);
+    assert.throws(
+      () => loadApiKeys({ auth: { keys: [{ id: "a", key: "x" }, { id: "a", key: "y" }] } }),
+      /APIキーのIDが重複しています/
+    );
+
+    process.env.QEZU_API_KEYS = "no-separator";
+    assert.throws(() => loadApiKeys({}), /QEZU_API_KEYS は id=key のカンマ区切り/);
+  });
+});
+
+describe("createSessionToken / verifySessionToken", () => {
+  const session = { secret: "session-secret", ttl: 60 };
+
+  it("署名が正しく期限内のトークンからキーIDを取り出す", () => {
+    const token = createSessionToken("team.alice", session);
+
+    assert.equal(verifySessionToken(token, session.secret), "team.alice");
+    assert.equal(verifySessionToken(token, "other-secret"), undefined);
+    assert.equal(verifySessionToken(token.replace("team.alice", "team.bob"), session.secret), undefined);
+    assert.equal(verifySessionToken("no-signature", session.secret), undefined);
+  });
+
+  it("期限切れのトークンは拒否する", () => {
+    const token = createSessionToken("alice", { ...session, ttl: -1 });
+
+    assert.equal(verifySessionToken(token, session.secret), undefined);
+  });
+});
+
+describe("getCorsOrigins", () => {
+  it("QEZU_CORS_ORIGINS を auth.corsOrigins より優先する", () => {
+    assert.deepEqual(getCorsOrigins({ auth: { corsOrigins: ["https://a.example"] } }), ["https://a.example"]);
+    assert.equal(getCorsOrigins({}), undefined);
+
+    process.env.QEZU_CORS_ORIGINS = "https://b.example, https://c.example,";
+    assert.deepEqual(getCorsOrigins({ auth: { corsOrigins: ["https://a.example"] } }), [
+      "https://b.example",
+      "https://c.example",
+    ]);
+  });
+});
+
+describe("findDisallowedAgents", () => {
+  const principal: Principal = { keyId: "alice", via: "api-key", agents: ["codex", "claude"] };
+
+  it("実行・フォールバック・統合に使用するエージェントのうち許可されていないものを返す", () => {
+    assert.deepEqual(findDisallowedAgents(principal, { agents: ["codex"] }), []);
+    assert.deepEqual(findDisallowedAgents(principal, {}), ["gemini"]);
+    assert.deepEqual(findDisallowedAgents(principal, { agents: ["codex"], fallbacks: { codex: ["gemini"] } }), ["gemini"]);
+    assert.deepEqual(findDisallowedAgents(principal, { agents: ["codex"], aggregation: "judge", judge: "flowise" }), [
+      "flowise",
+    ]);
+    // ディベートは synthesis で統合するため、既定の統合役（claude）を含める
+    assert.deepEqual(findDisallowedAgents({ ...principal, agents: ["codex"] }, { agents: ["codex"], rounds: 2 }), [
+      "claude",
+    ]);
+  });
+
+  it("エージェントの制限がない利用者はすべて許可する", () => {
+    assert.deepEqual(findDisallowedAgents({ keyId: "alice", via: "api-key" }, { agents: ["gemini"] }), []);
+  });
+});
+
+/**
+ * reserveKeyRun が使用するコマンドだけを実装したRedis接続
+ */
+function fakeRedis(values: Map<string, number>, usage: Record<string, string> = {}): IORedis {
+  return {
+    get: async (key: string) => (values.has(key) ? String(values.get(key)) : null),
+    hgetall: async () => usage,
+    decr: async (key: string) => {
+      values.set(key, (values.get(key) || 0) - 1);
+      return values.get(key);
+    },
+    multi: () => {
+      let runs = 0;
+      const pipeline = {
+        incr: (key: string) => {
+          values.set(key, (values.get(key) || 0) + 1);
+          runs = values.get(key) as number;
+          return pipeline;
+        },
+        expire: () => pipeline,
+        exec: async () => [
+          [null, runs],
+          [null, 1],
+        ],
+      };
+      return pipeline;
+    },
+  } as unknown as IORedis;
+}
+
+describe("reserveKeyRun", () => {
+  const key = `qezu:runs:key:alice:${formatUsageDate()}`;
+
+  it("実行回数の上限までは計上し、超えた分は計上を戻して理由を返す", async () => {
+    const values = new Map<string, number>();
+    const connection = fakeRedis(values);
+
+    assert.equal(await reserveKeyRun(connection, "alice", { maxRuns: 2 }), undefined);
+    assert.equal(await reserveKeyRun(connection, "alice", { maxRuns: 2 }), undefined);
+    assert.equal(await reserveKeyRun(connection, "alice", { maxRuns: 2 }), "quota runs=2/2");
+    assert.equal(values.get(key), 2);
+  });
+
+  it("トークン数の上限に達している場合は計上せずに理由を返す", async () => {
+    const values = new Map<string, number>();
+    const connection = fakeRedis(values, { "claude:inputTokens": "800", "claude:outputTokens": "200" });
+
+    assert.equal(await reserveKeyRun(connection, "alice", { maxTokens: 1000 }), "quota tokens=1000/1000");
+    assert.equal(values.has(key), false);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * バッチ投入ファイルローダーのテスト
+ * JSONL・CSVのパースとテンプレートの置換を確認する
+ */
+
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fillTemplate, loadBatchJobs, parseCsv, parseJsonlJobs } from "../src/services/batch-loader.js";
+
+const dir = mkdtempSync(join(tmpdir(), "qezu-batch-"));
+
+after(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("parseJsonlJobs", () => {
+  it("空行・コメント行を無視し、command を params.command に設定する", () => {
+    const jobs = parseJsonlJobs(
+      [
+        "# コメント",
+        '{"kind": "codex", "command": "generate", "params": {"prompt": "a"}}',
+        "",
+        '{"kind": "claude", "params": {"prompt": "b"}}',
+      ].join("\r\n")
+    );
+
+    assert.equal(jobs.length, 2);
+    assert.equal(jobs[0].line, 2);
+    assert.equal(jobs[0].kind, "codex");
+    assert.deepEqual(jobs[0].params, { prompt: "a", command: "generate" });
+    assert.equal(jobs[1].line, 4);
+    assert.deepEqual(jobs[1].params, { prompt: "b" });
+  });
+
+  it("パースに失敗した行・kind のない行は行番号を含めてエラーにする", () => {
+    assert.throws(() => parseJsonlJobs('{"kind": "codex"}\n{broken'), /JSONのパースに失敗しました \[line=2/);
+    assert.throws(() => parseJsonlJobs('{"params": {}}'), /kind が指定されていません \[line=1\]/);
+  });
+});
+
+describe("parseCsv", () => {
+  it("クォート・エスケープ・改行を含むフィールドを扱う", () => {
+    const rows = parseCsv('topic,note\r\n"A, B","say ""hi"""\n\n"複数\n行",\n');
+
+    assert.deepEqual(rows, [
+      { topic: "A, B", note: 'say "hi"' },
+      { topic: "複数\n行", note: "" },
+    ]);
+  });
+
+  it("列が足りない行は空文字で埋め、ヘッダーのみの場合は空にする", () => {
+    assert.deepEqual(parseCsv(" a , b \n1"), [{ a: "1", b: "" }]);
+    assert.deepEqual(parseCsv("a,b\n"), []);
+    assert.deepEqual(parseCsv(""), []);
+  });
+
+  it("クォートが閉じられていない場合はエラーにする", () => {
+    assert.throws(() => parseCsv('a\n"open'), /クォートが閉じられていません/);
+  });
+});
+
+describe("fillTemplate", () => {
+  it("文字列・配列・オブジェクトの {{列名}} を置換する", () => {
+    const filled = fillTemplate({ prompt: "{{ topic }}について", tags: ["{{tag}}"], count: 2 }, { topic: "AI", tag: "x" });
+
+    assert.deepEqual(filled, { prompt: "AIについて", tags: ["x"], count: 2 });
+  });
+
+  it("存在しない列を参照した場合はエラーにする", () => {
+    assert.throws(() => fillTemplate("{{missing}}", { topic: "AI" }), /CSVに列がありません \[column=missing\]/);
+  });
+});
+
+describe("loadBatchJobs", () => {
+  it("CSVの各行をテンプレートに当てはめてジョブにする", () => {
+    const csv = join(dir, "topics.csv");
+    writeFileSync(csv, "topic\n生成AI\n量子計算\n");
+
+    const jobs = loadBatchJobs(csv, '{"kind": "claude", "command": "chat", "params": {"prompt": "{{topic}}を説明"}}');
+
+    assert.deepEqual(
+      jobs.map((job) => [job.line, job.kind, job.params]),
+      [
+        [1, "claude", { prompt: "生成AIを説明", command: "chat" }],
+        [2, "claude", { prompt: "量子計算を説明", command: "chat" }],
+      ]
+    );
+  });
+
+  it("CSVでテンプレートがない場合・対応していない形式はエラーにする", () => {
+    const csv = join(dir, "no-template.csv");
+    const txt = join(dir, "jobs.txt");
+    writeFileSync(csv, "topic\nAI\n");
+    writeFileSync(txt, "");
+
+    assert.throws(() => loadBatchJobs(csv), /--template/);
+    assert.throws(() => loadBatchJobs(txt), /対応していないファイル形式です/);
+  });
+});
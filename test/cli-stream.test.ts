@@ -0,0 +1,134 @@
+/**
+ * CLIのストリーミング出力のテスト
+ * stream-json を出力するテスト用のCLI（シェルスクリプト）を CLAUDE_CLI_PATH・GEMINI_CLI_PATH に指定して実行する
+ */
+
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { chmodSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { readCliLines } from "../src/adapters/cli-stream.js";
+import { chatWithClaudeStream, generateCodeWithClaude } from "../src/adapters/claude.js";
+import { chatWithGeminiStream } from "../src/adapters/gemini.js";
+
+const dir = mkdtempSync(join(tmpdir(), "qezu-cli-"));
+
+after(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+/**
+ * 引数を記録して指定の行を出力するテスト用のCLIを作成する
+ *
+ * @param name ファイル名
+ * @param lines 出力する行（オブジェクトはJSONにする）
+ * @param exitCode 終了コード
+ * @returns CLIのパス
+ */
+function fakeCli(name: string, lines: (string | object)[], exitCode = 0): string {
+  const path = join(dir, name);
+  const output = lines.map((line) => (typeof line === "string" ? line : JSON.stringify(line))).join("\n");
+  writeFileSync(path, `#!/bin/sh\nprintf '%s\\n' "$@" > "${path}.args"\ncat <<'EOF'\n${output}\nEOF\nexit ${exitCode}\n`);
+  chmodSync(path, 0o755);
+  return path;
+}
+
+/**
+ * ストリームのチャンクを集める
+ */
+async function collect(stream: AsyncGenerator<string, void, unknown>): Promise<string[]> {
+  const chunks: string[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+describe("readCliLines", () => {
+  it("チャンク境界で分割された行・マルチバイト文字を復元し、JSONの行はパースする", async () => {
+    const bytes = Buffer.from('{"type":"a"}\r\nこんにちは\n{broken\n末尾');
+    async function* chunks() {
+      for (let i = 0; i < bytes.length; i += 4) {
+        yield bytes.subarray(i, i + 4);
+      }
+    }
+
+    const lines = [];
+    for await (const line of readCliLines(chunks())) {
+      lines.push(line);
+    }
+
+    assert.deepEqual(lines, [
+      { line: '{"type":"a"}', json: { type: "a" } },
+      { line: "こんにちは" },
+      { line: "{broken" },
+      { line: "末尾" },
+    ]);
+  });
+});
+
+describe("chatWithClaudeStream", () => {
+  it("text_delta を順にyieldし、差分を受信した場合は確定したメッセージを送信しない", async () => {
+    process.env.CLAUDE_CLI_PATH = fakeCli("claude-delta", [
+      { type: "system", subtype: "init" },
+      { type: "stream_event", event: { delta: { type: "text_delta", text: "こん" } } },
+      { type: "stream_event", event: { delta: { type: "text_delta", text: "にちは" } } },
+      { type: "assistant", message: { content: [{ type: "text", text: "こんにちは" }] } },
+      { type: "result", is_error: false, result: "こんにちは" },
+    ]);
+
+    assert.deepEqual(await collect(chatWithClaudeStream("hi", { model: "sonnet" })), ["こん", "にちは"]);
+    const args = readFileSync(`${process.env.CLAUDE_CLI_PATH}.args`, "utf-8").trim().split("\n");
+    assert.deepEqual(args.slice(0, 2), ["--print", "--output-format"]);
+    assert.ok(args.includes("--include-partial-messages"));
+    assert.deepEqual(args.slice(-3), ["--model", "sonnet", "hi"]);
+  });
+
+  it("差分がない場合は確定したメッセージのテキストをyieldする", async () => {
+    process.env.CLAUDE_CLI_PATH = fakeCli("claude-message", [
+      { type: "assistant", message: { content: [{ type: "text", text: "全体" }, { type: "tool_use" }] } },
+      "JSONでない行",
+      { type: "result", is_error: false },
+    ]);
+
+    assert.deepEqual(await collect(chatWithClaudeStream("hi")), ["全体", "JSONでない行\n"]);
+  });
+
+  it("エラーの結果で失敗する", async () => {
+    process.env.CLAUDE_CLI_PATH = fakeCli("claude-error", [{ type: "result", is_error: true, subtype: "error_max_turns" }]);
+
+    await assert.rejects(collect(chatWithClaudeStream("hi")), /Claude CLIストリーミングエラー .*subtype=error_max_turns/);
+  });
+
+  it("コード生成にもリクエストのタイムアウトを適用する", async () => {
+    const path = join(dir, "claude-slow");
+    writeFileSync(path, "#!/bin/sh\nexec sleep 5\n");
+    chmodSync(path, 0o755);
+    process.env.CLAUDE_CLI_PATH = path;
+
+    const start = Date.now();
+    await assert.rejects(generateCodeWithClaude("hi", { timeout: 200 }));
+    assert.ok(Date.now() - start < 4000);
+  });
+});
+
+describe("chatWithGeminiStream", () => {
+  it("assistant のメッセージを順にyieldする", async () => {
+    process.env.GEMINI_CLI_PATH = fakeCli("gemini-ok", [
+      { type: "init" },
+      { type: "message", role: "user", content: "hi" },
+      { type: "message", role: "assistant", content: "こんにちは", delta: true },
+      { type: "message", role: "assistant", content: "、世界", delta: true },
+      { type: "result", status: "success" },
+    ]);
+
+    assert.deepEqual(await collect(chatWithGeminiStream("hi")), ["こんにちは", "、世界"]);
+  });
+
+  it("error イベントで失敗する", async () => {
+    process.env.GEMINI_CLI_PATH = fakeCli("gemini-error", [{ type: "error", message: "quota exhausted" }]);
+
+    await assert.rejects(collect(chatWithGeminiStream("hi")), /Gemini CLIストリーミングエラー .*quota exhausted/);
+  });
+});
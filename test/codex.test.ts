@@ -0,0 +1,71 @@
+/**
+ * Codexアダプタのテスト
+ * `exec --json` のイベントを出力するテスト用のCLI（シェルスクリプト）を CODEX_CLI_PATH に指定して実行する
+ */
+
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { chmodSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { AgentError } from "../src/adapters/errors.js";
+import { generateCode } from "../src/adapters/codex.js";
+import type { ReportedUsage } from "../src/services/usage.js";
+
+const dir = mkdtempSync(join(tmpdir(), "qezu-codex-"));
+
+after(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+/**
+ * 引数を記録して指定の行を出力するテスト用のCLIを作成し、CODEX_CLI_PATH に設定する
+ */
+function fakeCodex(name: string, lines: (string | object)[]): string {
+  const path = join(dir, name);
+  const output = lines.map((line) => (typeof line === "string" ? line : JSON.stringify(line))).join("\n");
+  writeFileSync(path, `#!/bin/sh\nprintf '%s\\n' "$@" > "${path}.args"\ncat <<'EOF'\n${output}\nEOF\n`);
+  chmodSync(path, 0o755);
+  process.env.CODEX_CLI_PATH = path;
+  return path;
+}
+
+describe("generateCode", () => {
+  it("--json のイベントから応答を取り出し、ターンごとの使用量を報告する", async () => {
+    const path = fakeCodex("codex-json", [
+      { type: "thread.started", thread_id: "t1" },
+      { type: "item.completed", item: { type: "reasoning", text: "考え中" } },
+      { type: "item.completed", item: { type: "agent_message", text: "const a = 1;" } },
+      { type: "turn.completed", usage: { input_tokens: 120, cached_input_tokens: 100, output_tokens: 30 } },
+      { type: "item.completed", item: { type: "agent_message", text: "const b = 2;" } },
+      { type: "turn.completed", usage: { input_tokens: 10, output_tokens: 5 } },
+    ]);
+    const usages: ReportedUsage[] = [];
+
+    const output = await generateCode("hello", { onUsage: (usage) => usages.push(usage) });
+
+    assert.equal(output, "const a = 1;\n\nconst b = 2;");
+    assert.deepEqual(usages, [
+      { inputTokens: 120, outputTokens: 30 },
+      { inputTokens: 10, outputTokens: 5 },
+    ]);
+    const args = readFileSync(`${path}.args`, "utf-8").trim().split("\n");
+    assert.deepEqual(args, ["exec", "--json", "--skip-git-repo-check", "hello"]);
+  });
+
+  it("JSONの行がない場合は出力をそのまま返す", async () => {
+    fakeCodex("codex-text", ["plain output"]);
+
+    assert.equal(await generateCode("hello"), "plain output");
+  });
+
+  it("turn.failed で失敗する", async () => {
+    fakeCodex("codex-failed", [{ type: "turn.failed", error: { message: "model overloaded" } }]);
+
+    await assert.rejects(generateCode("hello"), (error: any) => {
+      assert.ok(error instanceof AgentError);
+      assert.match(error.message, /Codex CLIがエラーを返しました \[error=model overloaded\]/);
+      return true;
+    });
+  });
+});
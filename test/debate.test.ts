@@ -0,0 +1,45 @@
+/**
+ * ディベートモードのプロンプト作成・出力の分割のテスト
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { buildDebatePrompt, splitDebateOutput } from "../src/services/debate.js";
+
+describe("buildDebatePrompt", () => {
+  const previous = [
+    { agent: "codex", success: true, result: "Codexの回答", executionTime: 1 },
+    { agent: "claude", success: true, result: "Claudeの回答", executionTime: 1 },
+    { agent: "gemini", success: false, error: "timeout", executionTime: 1 },
+  ];
+
+  it("自分の前の回答と、成功した他のエージェントの回答を含める", () => {
+    const prompt = buildDebatePrompt("タスク", "codex", previous);
+
+    assert.match(prompt, /## Task\nタスク/);
+    assert.match(prompt, /## Your previous answer\nCodexの回答/);
+    assert.match(prompt, /## Other participants' answers\n### claude\nClaudeの回答\n\nRespond in this format/);
+    assert.doesNotMatch(prompt, /### gemini/);
+  });
+
+  it("他のエージェントの回答がない場合は (none) とする", () => {
+    const prompt = buildDebatePrompt("タスク", "gemini", [previous[2]]);
+
+    assert.doesNotMatch(prompt, /## Your previous answer/);
+    assert.match(prompt, /## Other participants' answers\n\(none\)/);
+  });
+});
+
+describe("splitDebateOutput", () => {
+  it("批評と改訂後の回答に分ける", () => {
+    assert.deepEqual(splitDebateOutput("## Critique\n誤りがあります\n\n## Revised answer\n改訂版"), {
+      answer: "改訂版",
+      critique: "誤りがあります",
+    });
+  });
+
+  it("見出しがない場合・回答が空の場合は出力全体を回答とする", () => {
+    assert.deepEqual(splitDebateOutput("回答のみ"), { answer: "回答のみ" });
+    assert.deepEqual(splitDebateOutput("## Revised answer\n"), { answer: "## Revised answer\n", critique: undefined });
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * アダプタエラー分類のテスト
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { AgentError, classifyAgentError, classifyHttpStatus } from "../src/adapters/errors.js";
+import { requireAgent } from "../src/adapters/registry.js";
+
+describe("classifyAgentError", () => {
+  it("未登録のエージェントは致命的とする", () => {
+    assert.throws(
+      () => requireAgent("no-such-agent"),
+      (error: any) => error instanceof AgentError && classifyAgentError(error) === "fatal"
+    );
+    // プラグイン・ワークフローで包まれたメッセージも致命的とする
+    assert.equal(classifyAgentError(new Error("step failed: unknown agent kind: no-such-agent")), "fatal");
+  });
+
+  it("AgentErrorはその分類を返す", () => {
+    assert.equal(classifyAgentError(new AgentError("x", "fatal")), "fatal");
+    assert.equal(classifyAgentError(new AgentError("x", "retryable")), "retryable");
+  });
+
+  it("キャンセル・CLI未インストールは致命的、タイムアウト・接続エラーは再試行可能とする", () => {
+    assert.equal(classifyAgentError({ name: "AbortError", message: "aborted" }), "fatal");
+    assert.equal(classifyAgentError({ code: "ENOENT", message: "spawn codex ENOENT" }), "fatal");
+    assert.equal(classifyAgentError({ name: "TimeoutError", message: "timeout" }), "retryable");
+    assert.equal(classifyAgentError({ message: "fetch failed", cause: { code: "ECONNREFUSED" } }), "retryable");
+  });
+
+  it("メッセージから推定し、判定できない場合は再試行可能とする", () => {
+    assert.equal(classifyAgentError(new Error("429 Too Many Requests: check your API key")), "retryable");
+    assert.equal(classifyAgentError(new Error("Invalid API key")), "fatal");
+    assert.equal(classifyAgentError(new Error("something went wrong")), "retryable");
+  });
+});
+
+describe("classifyHttpStatus", () => {
+  it("408・429・5xxは再試行可能、それ以外は致命的とする", () => {
+    for (const status of [408, 429, 500, 503]) {
+      assert.equal(classifyHttpStatus(status), "retryable");
+    }
+    for (const status of [400, 401, 403, 404]) {
+      assert.equal(classifyHttpStatus(status), "fatal");
+    }
+  });
+});
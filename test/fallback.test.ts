@@ -0,0 +1,131 @@
+/**
+ * フォールバックチェーン・ヘッジ実行のテスト
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { setTimeout as sleep } from "node:timers/promises";
+import type { AgentResult } from "../src/services/agent-orchestrator.js";
+import { HEDGE_CANCELLED_ERROR, runWithFallback } from "../src/services/fallback.js";
+
+/**
+ * エージェントごとの応答（遅延と成否）を指定したテスト用の実行関数を作成する
+ *
+ * @param behaviors エージェントID → [遅延（ミリ秒）, 成功するか]（同じエージェントは呼び出し順に使用）
+ * @returns 実行関数と、開始・中断されたエージェントの記録
+ */
+function fakeRun(behaviors: Record<string, [number, boolean][]>) {
+  const started: string[] = [];
+  const aborted: string[] = [];
+  const run = async (agent: string, signal: AbortSignal): Promise<AgentResult> => {
+    started.push(agent);
+    const [delay, success] = behaviors[agent].shift() as [number, boolean];
+    try {
+      await sleep(delay, undefined, { signal });
+    } catch {
+      aborted.push(agent);
+      return { agent, success: false, error: "aborted", executionTime: delay };
+    }
+    return success
+      ? { agent, success: true, result: `${agent}の回答`, executionTime: delay }
+      : { agent, success: false, error: `${agent} failed`, executionTime: delay };
+  };
+  return { run, started, aborted };
+}
+
+describe("runWithFallback", () => {
+  it("本来のエージェントが成功した場合は fallbackFrom・attempts を設定しない", async () => {
+    const { run, started } = fakeRun({ codex: [[5, true]], claude: [[5, true]] });
+
+    const result = await runWithFallback(["codex", "claude"], run);
+
+    assert.equal(result.agent, "codex");
+    assert.equal(result.fallbackFrom, undefined);
+    assert.equal(result.attempts, undefined);
+    assert.deepEqual(started, ["codex"]);
+  });
+
+  it("失敗した場合はチェーンの次のエージェントで実行する", async () => {
+    const { run, started } = fakeRun({ codex: [[5, false]], claude: [[5, false]], gemini: [[5, true]] });
+
+    const result = await runWithFallback(["codex", "claude", "gemini"], run);
+
+    assert.equal(result.agent, "gemini");
+    assert.equal(result.fallbackFrom, "codex");
+    assert.deepEqual(
+      result.attempts?.map((a) => a.error),
+      ["codex failed", "claude failed"]
+    );
+    assert.deepEqual(started, ["codex", "claude", "gemini"]);
+  });
+
+  it("すべて失敗した場合は本来のエージェント自身の失敗を返す", async () => {
+    const { run } = fakeRun({ codex: [[5, false]], claude: [[5, false]] });
+
+    const result = await runWithFallback(["codex", "claude"], run);
+
+    assert.equal(result.agent, "codex");
+    assert.equal(result.error, "codex failed");
+    assert.deepEqual(
+      result.attempts?.map((a) => a.agent),
+      ["claude"]
+    );
+    assert.ok(result.executionTime >= 10);
+  });
+
+  it("例外は失敗の結果として扱う", async () => {
+    const result = await runWithFallback(["codex"], async () => {
+      throw new Error("spawn failed");
+    });
+
+    assert.equal(result.success, false);
+    assert.equal(result.error, "spawn failed");
+  });
+
+  it("ヘッジ実行では応答がない場合に次のエージェントを並行して開始し、先に成功した結果を採用する", async () => {
+    const { run, started, aborted } = fakeRun({ codex: [[1000, true]], claude: [[10, true]] });
+
+    const result = await runWithFallback(["codex", "claude"], run, { hedgeAfter: 20 });
+    await sleep(1);
+
+    assert.equal(result.agent, "claude");
+    assert.equal(result.fallbackFrom, "codex");
+    assert.deepEqual(result.attempts?.map((a) => [a.agent, a.error]), [["codex", HEDGE_CANCELLED_ERROR]]);
+    assert.deepEqual(started, ["codex", "claude"]);
+    assert.deepEqual(aborted, ["codex"]);
+  });
+
+  it("ヘッジ実行でチェーンに同じエージェントが複数ある場合も実行中のエージェントを区別する", async () => {
+    const { run, aborted } = fakeRun({ claude: [[1000, true], [10, true]] });
+
+    const result = await runWithFallback(["claude", "claude"], run, { hedgeAfter: 20 });
+    await sleep(1);
+
+    assert.equal(result.agent, "claude");
+    assert.equal(result.fallbackFrom, undefined);
+    assert.deepEqual(result.attempts?.map((a) => a.error), [HEDGE_CANCELLED_ERROR]);
+    assert.deepEqual(aborted, ["claude"]);
+  });
+
+  it("ヘッジ実行で並行して実行中のエージェントが失敗した場合は他のエージェントの結果を待つ", async () => {
+    const { run, started } = fakeRun({ codex: [[60, true]], claude: [[5, false]] });
+
+    const result = await runWithFallback(["codex", "claude"], run, { hedgeAfter: 20 });
+
+    assert.equal(result.agent, "codex");
+    assert.deepEqual(result.attempts?.map((a) => a.error), ["claude failed"]);
+    assert.deepEqual(started, ["codex", "claude"]);
+  });
+
+  it("中断された場合は次のエージェントを開始しない", async () => {
+    const { run, started } = fakeRun({ codex: [[1000, true]], claude: [[5, true]] });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 10);
+
+    const result = await runWithFallback(["codex", "claude"], run, { signal: controller.signal });
+
+    assert.equal(result.success, false);
+    assert.equal(result.agent, "codex");
+    assert.deepEqual(started, ["codex"]);
+  });
+});
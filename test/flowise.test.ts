@@ -0,0 +1,272 @@
+/**
+ * Flowiseアダプタのテスト
+ * ローカルのモックFlowiseサーバー（Prediction API）に対して呼び出す
+ */
+
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import { AddressInfo } from "node:net";
+import { setTimeout as sleep } from "node:timers/promises";
+import { AgentError } from "../src/adapters/errors.js";
+import { callFlowise, callFlowiseStream, FlowiseResponse, readSseEvents } from "../src/adapters/flowise.js";
+
+/**
+ * モックサーバーが受け取ったリクエスト
+ */
+interface ReceivedRequest {
+  url?: string;
+  headers: IncomingMessage["headers"];
+  body: any;
+}
+
+let server: Server;
+let handler: (req: IncomingMessage, res: ServerResponse) => void;
+let received: ReceivedRequest | undefined;
+
+before(async () => {
+  server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      received = { url: req.url, headers: req.headers, body: JSON.parse(Buffer.concat(chunks).toString()) };
+      handler(req, res);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  process.env.QEZU_FLOWISE_URL = `http://127.0.0.1:${port}/api/v1/prediction/`;
+  process.env.QEZU_FLOWISE_KEY = "flowise-test-key";
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+beforeEach(() => {
+  received = undefined;
+});
+
+/**
+ * JSONで応答する
+ */
+function replyJson(status: number, body: unknown): void {
+  handler = (_req, res) => {
+    res.writeHead(status, { "content-type": "application/json" });
+    res.end(JSON.stringify(body));
+  };
+}
+
+/**
+ * SSEで応答する（本文をバイト単位で分割し、間隔を空けて別々のチャンクとして送信する）
+ */
+function replySse(payload: string, chunkSize: number): void {
+  handler = async (_req, res) => {
+    res.writeHead(200, { "content-type": "text/event-stream" });
+    const bytes = Buffer.from(payload);
+    for (let i = 0; i < bytes.length; i += chunkSize) {
+      res.write(bytes.subarray(i, i + chunkSize));
+      await sleep(2);
+    }
+    res.end();
+  };
+}
+
+/**
+ * SSEのイベントを1件の文字列にする
+ */
+function sseFrame(event: string, data: unknown): string {
+  return `data: ${JSON.stringify({ event, data })}\n\n`;
+}
+
+/**
+ * ストリーミング呼び出しのトークンと戻り値を集める
+ */
+async function collectStream(
+  stream: AsyncGenerator<string, FlowiseResponse, unknown>
+): Promise<{ tokens: string[]; response: FlowiseResponse }> {
+  const tokens: string[] = [];
+  let next = await stream.next();
+  while (!next.done) {
+    tokens.push(next.value);
+    next = await stream.next();
+  }
+  return { tokens, response: next.value };
+}
+
+/**
+ * AgentErrorで失敗し、分類が一致することを確認する
+ */
+async function assertAgentError(promise: Promise<unknown>, errorClass: string, pattern: RegExp): Promise<void> {
+  await assert.rejects(promise, (error: any) => {
+    assert.ok(error instanceof AgentError);
+    assert.equal(error.errorClass, errorClass);
+    assert.match(error.message, pattern);
+    return true;
+  });
+}
+
+describe("callFlowise", () => {
+  it("JSONのレスポンスから回答を取り出す", async () => {
+    replyJson(200, { text: "こんにちは", chatId: "c1" });
+
+    const response = await callFlowise("flow-1", { topic: "生成AIの歴史" });
+
+    assert.equal(response.text, "こんにちは");
+    assert.equal(response.status, 200);
+    assert.deepEqual(response.raw, { text: "こんにちは", chatId: "c1" });
+    assert.match(response.headers["content-type"], /application\/json/);
+    assert.equal(received?.url, "/api/v1/prediction/flow-1");
+    assert.equal(received?.headers.authorization, "Bearer flowise-test-key");
+    assert.deepEqual(received?.body, { question: JSON.stringify({ topic: "生成AIの歴史" }), overrideConfig: {} });
+  });
+
+  it("JSONでないレスポンスは本文をそのまま返す", async () => {
+    handler = (_req, res) => {
+      res.writeHead(200, { "content-type": "text/plain" });
+      res.end("plain answer");
+    };
+
+    const response = await callFlowise("flow-1", {});
+
+    assert.equal(response.text, "plain answer");
+    assert.equal(response.raw, "plain answer");
+  });
+
+  it("uploads・overrideConfig・history・sessionId をリクエストボディに含める", async () => {
+    replyJson(200, { text: "ok" });
+    const history = [
+      { role: "userMessage" as const, content: "前の質問" },
+      { role: "apiMessage" as const, content: "前の回答" },
+    ];
+    const uploads = [{ data: "data:image/png;base64,AAAA", type: "file" as const, name: "a.png", mime: "image/png" }];
+
+    await callFlowise(
+      "flow-1",
+      { question: "この画像は？" },
+      { mode: "chat", overrideConfig: { temperature: 0.2 }, sessionId: "s1", history, uploads }
+    );
+
+    assert.deepEqual(received?.body, {
+      question: "この画像は？",
+      overrideConfig: { temperature: 0.2, sessionId: "s1" },
+      history,
+      uploads,
+    });
+  });
+
+  it("2xx以外のステータスを分類する", async () => {
+    const cases: [number, string][] = [
+      [400, "fatal"],
+      [401, "fatal"],
+      [404, "fatal"],
+      [408, "retryable"],
+      [429, "retryable"],
+      [500, "retryable"],
+      [503, "retryable"],
+    ];
+    for (const [status, errorClass] of cases) {
+      replyJson(status, { statusCode: status, message: `mock error ${status}` });
+      await assertAgentError(
+        callFlowise("flow-1", {}),
+        errorClass,
+        new RegExp(`status=${status}, message=mock error ${status}`)
+      );
+    }
+  });
+
+  it("タイムアウトした場合は再試行可能とする", async () => {
+    // 応答しない（テスト終了時に接続を閉じる）
+    handler = () => {};
+
+    await assertAgentError(callFlowise("flow-1", {}, { timeout: 100 }), "retryable", /flowId=flow-1/);
+  });
+
+  it("中断された場合は再試行しない", async () => {
+    handler = () => {};
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+
+    await assertAgentError(callFlowise("flow-1", {}, { signal: controller.signal }), "fatal", /flowId=flow-1/);
+  });
+
+  it("flowId が指定されていない場合は致命的とする", async () => {
+    await assertAgentError(callFlowise("", {}), "fatal", /flowId が指定されていません/);
+    assert.equal(received, undefined);
+  });
+});
+
+describe("callFlowiseStream", () => {
+  it("イベントの区切りやマルチバイト文字の途中で分割されたSSEを受け取る", async () => {
+    replySse(
+      [
+        sseFrame("start", ""),
+        sseFrame("token", "こんにちは"),
+        sseFrame("token", "、世界"),
+        sseFrame("metadata", { chatId: "c1" }),
+        sseFrame("end", "[DONE]"),
+        sseFrame("token", "終了後のトークン"),
+      ].join(""),
+      7
+    );
+
+    const { tokens, response } = await collectStream(callFlowiseStream("flow-1", { question: "hi" }, { mode: "chat" }));
+
+    assert.deepEqual(tokens, ["こんにちは", "、世界"]);
+    assert.equal(response.text, "こんにちは、世界");
+    assert.deepEqual(response.raw, { metadata: { chatId: "c1" } });
+    assert.equal(received?.body.streaming, true);
+    assert.equal(received?.body.question, "hi");
+  });
+
+  it("errorイベントで失敗する", async () => {
+    replySse(sseFrame("token", "途中") + sseFrame("error", "flow failed"), 5);
+
+    await assertAgentError(
+      collectStream(callFlowiseStream("flow-1", {})),
+      "retryable",
+      /Flowiseストリームエラー \[error=flow failed\]/
+    );
+  });
+
+  it("ストリーミングに対応していないフローは回答全体を1回でyieldする", async () => {
+    replyJson(200, { text: "まとめた回答" });
+
+    const { tokens, response } = await collectStream(callFlowiseStream("flow-1", {}));
+
+    assert.deepEqual(tokens, ["まとめた回答"]);
+    assert.equal(response.text, "まとめた回答");
+  });
+
+  it("2xx以外のステータスを分類する", async () => {
+    replyJson(404, { statusCode: 404, message: "Chatflow flow-1 not found" });
+
+    await assertAgentError(collectStream(callFlowiseStream("flow-1", {})), "fatal", /status=404/);
+  });
+});
+
+describe("readSseEvents", () => {
+  it("CRLFの区切り・複数行のdata・event行・末尾の区切りのないイベントを扱う", async () => {
+    const payload = "event: custom\r\ndata: line1\r\ndata: line2\r\n\r\n: comment\r\n\r\ndata: {\"a\":1}";
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const bytes = new TextEncoder().encode(payload);
+        for (let i = 0; i < bytes.length; i += 3) {
+          controller.enqueue(bytes.subarray(i, i + 3));
+        }
+        controller.close();
+      },
+    });
+
+    const events = [];
+    for await (const event of readSseEvents(body)) {
+      events.push(event);
+    }
+
+    assert.deepEqual(events, [
+      { event: "custom", data: "line1\nline2" },
+      { event: "message", data: { a: 1 } },
+    ]);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * ジョブキャンセルのテスト
+ * Redis・BullMQに接続しないテスト用の接続とジョブで、状態ごとのキャンセルの扱いを確認する
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Job } from "bullmq";
+import IORedis from "ioredis";
+import { CANCEL_CHANNEL, isCancelRequested, requestJobCancel } from "../src/services/job-cancellation.js";
+
+/**
+ * キャンセルフラグと通知を記録するテスト用の接続
+ */
+function fakeConnection(): { connection: IORedis; keys: Set<string>; published: string[] } {
+  const keys = new Set<string>();
+  const published: string[] = [];
+  const connection = {
+    set: async (key: string) => {
+      keys.add(key);
+      return "OK";
+    },
+    publish: async (channel: string, message: string) => {
+      assert.equal(channel, CANCEL_CHANNEL);
+      published.push(message);
+      return 1;
+    },
+    exists: async (key: string) => (keys.has(key) ? 1 : 0),
+  } as unknown as IORedis;
+  return { connection, keys, published };
+}
+
+/**
+ * テスト用のジョブを作成する
+ *
+ * @param state ジョブの状態
+ * @param options 親ジョブのキー・削除に失敗するか・未完了の子ジョブ（削除後も残る実行中の子ジョブ）
+ */
+function fakeJob(
+  state: string,
+  options: { parentKey?: string; locked?: boolean; children?: string[]; running?: string[] } = {}
+): Job & { removed: boolean } {
+  let children = options.children || [];
+  const job = {
+    id: "job-1",
+    parentKey: options.parentKey,
+    removed: false,
+    getState: async () => state,
+    remove: async () => {
+      if (options.locked) {
+        throw new Error("Job job-1 could not be removed because it is locked by another worker");
+      }
+      job.removed = true;
+    },
+    getDependencies: async () => ({ unprocessed: children.map((id) => `bull:qezu-jobs:${id}`) }),
+    removeUnprocessedChildren: async () => {
+      children = children.filter((id) => options.running?.includes(id));
+    },
+  };
+  return job as unknown as Job & { removed: boolean };
+}
+
+describe("requestJobCancel", () => {
+  it("完了・失敗済みのジョブは対象外とする", async () => {
+    const { connection, published } = fakeConnection();
+
+    for (const state of ["completed", "failed"]) {
+      assert.deepEqual(await requestJobCancel(connection, fakeJob(state)), {
+        jobId: "job-1",
+        state,
+        cancelled: [],
+        removed: [],
+      });
+    }
+    assert.deepEqual(published, []);
+  });
+
+  it("処理が開始されていないジョブはキューから削除する", async () => {
+    const { connection, published } = fakeConnection();
+    const job = fakeJob("delayed");
+
+    const result = await requestJobCancel(connection, job);
+
+    assert.deepEqual(result, { jobId: "job-1", state: "delayed", cancelled: ["job-1"], removed: ["job-1"] });
+    assert.equal(job.removed, true);
+    assert.deepEqual(published, []);
+  });
+
+  it("削除できなかったジョブ・ワークフローの子ジョブ・実行中のジョブはフラグを設定して通知する", async () => {
+    for (const job of [fakeJob("waiting", { locked: true }), fakeJob("waiting", { parentKey: "bull:qezu-jobs:p" }), fakeJob("active")]) {
+      const { connection, published } = fakeConnection();
+
+      const result = await requestJobCancel(connection, job);
+
+      assert.deepEqual(result.cancelled, ["job-1"]);
+      assert.deepEqual(result.removed, []);
+      assert.equal(job.removed, false);
+      assert.deepEqual(published, ["job-1"]);
+      assert.equal(await isCancelRequested(connection, "job-1"), true);
+    }
+  });
+
+  it("子ジョブを待機中の親ジョブは未開始の子ジョブを削除し、実行中の子ジョブに通知する", async () => {
+    const { connection, published } = fakeConnection();
+    const job = fakeJob("waiting-children", { children: ["c1", "c2", "c3"], running: ["c2"] });
+
+    const result = await requestJobCancel(connection, job);
+
+    assert.deepEqual(result, {
+      jobId: "job-1",
+      state: "waiting-children",
+      cancelled: ["job-1", "c1", "c3", "c2"],
+      removed: ["c1", "c3"],
+    });
+    assert.deepEqual(published, ["job-1", "c2"]);
+    assert.equal(await isCancelRequested(connection, "c1"), false);
+  });
+});
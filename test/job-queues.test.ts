@@ -0,0 +1,141 @@
+/**
+ * ジョブキューのルーティング・一覧のテスト
+ * 一覧はRedisに接続しないテスト用のキューで確認する
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Job, Queue } from "bullmq";
+import { getAgentLimits, listJobs, listQueueNames, queueNameForKind, QueuePool } from "../src/services/job-queues.js";
+
+const config = {
+  limits: {
+    codex: { maxConcurrent: 2 },
+    claude: { maxPerMinute: 10 },
+    gemini: {},
+  },
+};
+
+describe("getAgentLimits", () => {
+  it("同時実行数・実行開始数のいずれかを設定したエージェントの制限を返す", () => {
+    assert.deepEqual(getAgentLimits(config), {
+      codex: { maxConcurrent: 2 },
+      claude: { maxPerMinute: 10 },
+    });
+    assert.deepEqual(getAgentLimits({}), {});
+  });
+
+  it("制限値が1以上の整数でない場合はエラーにする", () => {
+    assert.throws(
+      () => getAgentLimits({ limits: { codex: { maxConcurrent: 0 } } }),
+      /1以上の整数で指定してください \[kind=codex, maxConcurrent=0\]/
+    );
+    assert.throws(() => getAgentLimits({ limits: { codex: { maxPerMinute: 1.5 } } }), /maxPerMinute=1.5/);
+  });
+});
+
+describe("queueNameForKind", () => {
+  it("制限のあるエージェントは専用キュー、それ以外は共通キューに振り分ける", () => {
+    assert.equal(queueNameForKind("codex", config), "qezu-jobs-codex");
+    assert.equal(queueNameForKind("gemini", config), "qezu-jobs");
+    assert.equal(queueNameForKind("workflow", config), "qezu-jobs");
+  });
+});
+
+describe("listQueueNames", () => {
+  it("共通キューと制限付きエージェントの専用キューを返す", () => {
+    assert.deepEqual(listQueueNames(config), ["qezu-jobs", "qezu-jobs-codex", "qezu-jobs-claude"]);
+    assert.deepEqual(listQueueNames({}), ["qezu-jobs"]);
+  });
+});
+
+/**
+ * テスト用のジョブを作成する（一覧に必要なプロパティのみ）
+ */
+function fakeJob(id: string, queueName: string, timestamp: number): Job {
+  return {
+    id,
+    queueName,
+    name: "task",
+    data: { kind: "codex" },
+    attemptsMade: 1,
+    opts: { attempts: 3 },
+    failedReason: "boom",
+    timestamp,
+  } as unknown as Job;
+}
+
+/**
+ * キュー名ごとのジョブを返すテスト用のキュープールを作成する
+ */
+function fakePool(jobs: Record<string, Job[]>, requested: string[][]): QueuePool {
+  return {
+    get: (name: string) =>
+      ({
+        getJobCountByTypes: async (...types: string[]) => {
+          requested.push(types);
+          return (jobs[name] || []).length;
+        },
+        getJobs: async (_types: string[], start: number, end: number) => (jobs[name] || []).slice(start, end + 1),
+      }) as unknown as Queue,
+    close: async () => {},
+  };
+}
+
+describe("listJobs", () => {
+  const dir = mkdtempSync(join(tmpdir(), "qezu-queues-"));
+
+  // キューを指定しない場合は qezu.config.yaml の limits からキューの一覧を決定する
+  before(() => {
+    process.env.QEZU_CONFIG = join(dir, "qezu.config.yaml");
+    writeFileSync(process.env.QEZU_CONFIG, "limits:\n  gemini:\n    maxConcurrent: 1\n");
+  });
+
+  after(() => {
+    delete process.env.QEZU_CONFIG;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const jobs = {
+    "qezu-jobs": [fakeJob("a", "qezu-jobs", 300), fakeJob("b", "qezu-jobs", 100)],
+    "qezu-jobs-gemini": [fakeJob("c", "qezu-jobs-gemini", 200)],
+  };
+
+  it("指定したキューのジョブを概要にして返す", async () => {
+    const requested: string[][] = [];
+    const result = await listJobs(fakePool(jobs, requested), "failed", { queue: "qezu-jobs", limit: 1 });
+
+    assert.equal(result.total, 2);
+    assert.deepEqual(result.jobs, [
+      {
+        jobId: "a",
+        queue: "qezu-jobs",
+        name: "task",
+        kind: "codex",
+        state: "failed",
+        attemptsMade: 1,
+        attempts: 3,
+        failedReason: "boom",
+        parentId: undefined,
+        createdAt: new Date(300).toISOString(),
+        processedAt: undefined,
+        finishedAt: undefined,
+      },
+    ]);
+    assert.deepEqual(requested, [["failed"]]);
+  });
+
+  it("waiting は優先度付きのジョブを含め、すべてのキューを新しい順に並べてページングする", async () => {
+    const requested: string[][] = [];
+    const result = await listJobs(fakePool(jobs, requested), "waiting", { offset: 1, limit: 2 });
+
+    assert.deepEqual(
+      result.jobs.map((job) => job.jobId),
+      ["c", "b"]
+    );
+    assert.ok(requested.every((types) => types.join(",") === "waiting,prioritized"));
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * 構造化ログのテスト
+ * ログの設定は最初の出力時に読み込まれるため、QEZU_LOG_FORMAT=json・QEZU_LOG_LEVEL=info で出力を確認する
+ */
+
+import { afterEach, before, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import {
+  correlationEnv,
+  createLogger,
+  getCorrelationId,
+  getLoggingConfig,
+  withLogContext,
+} from "../src/services/logger.js";
+
+const log = createLogger("Test");
+
+/**
+ * 出力されたログ（JSON）
+ */
+let lines: any[];
+
+before(() => {
+  process.env.QEZU_LOG_FORMAT = "json";
+  process.env.QEZU_LOG_LEVEL = "info";
+});
+
+beforeEach(() => {
+  lines = [];
+  for (const method of ["log", "warn", "error"] as const) {
+    mock.method(console, method, (line: string) => lines.push(JSON.parse(line)));
+  }
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe("getLoggingConfig", () => {
+  it("環境変数を設定ファイルより優先し、不正な値はエラーにする", () => {
+    assert.deepEqual(getLoggingConfig({ logging: { level: "debug" } }), { level: "info", format: "json" });
+    process.env.QEZU_LOG_LEVEL = "verbose";
+    try {
+      assert.throws(() => getLoggingConfig({}), /logging.level は debug・info・warn・error のいずれか/);
+    } finally {
+      process.env.QEZU_LOG_LEVEL = "info";
+    }
+  });
+});
+
+describe("createLogger", () => {
+  it("レベル未満のログは出力せず、モジュール名とフィールドをJSONで出力する", () => {
+    log.debug("出力しない");
+    log.info("開始", { agent: "codex", skipped: undefined });
+    log.error("失敗", { error: new Error("boom") });
+
+    assert.equal(lines.length, 2);
+    assert.equal(lines[0].level, "info");
+    assert.equal(lines[0].module, "Test");
+    assert.equal(lines[0].message, "開始");
+    assert.equal(lines[0].agent, "codex");
+    assert.equal("skipped" in lines[0], false);
+    assert.equal(lines[1].error.message, "boom");
+  });
+
+  it("コンテキストを非同期処理のログに引き継ぎ、呼び出し時のフィールドを優先する", async () => {
+    await withLogContext({ correlationId: "cid-1", runId: "run-1" }, async () => {
+      await new Promise((resolve) => setImmediate(resolve));
+      log.info("実行中", { runId: "run-2" });
+
+      assert.equal(getCorrelationId(), "cid-1");
+      assert.deepEqual(correlationEnv(), { QEZU_CORRELATION_ID: "cid-1" });
+    });
+
+    assert.equal(lines[0].correlationId, "cid-1");
+    assert.equal(lines[0].runId, "run-2");
+    assert.equal(getCorrelationId(), undefined);
+    assert.deepEqual(correlationEnv(), {});
+  });
+
+  it("シリアライズできない値は文字列にして出力する", () => {
+    const circular: any = { name: "loop" };
+    circular.self = circular;
+    log.warn("循環参照", { circular });
+
+    assert.equal(lines[0].level, "warn");
+    assert.equal(typeof lines[0].circular, "string");
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Prometheusメトリクスのテスト
+ */
+
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { once } from "node:events";
+import type { AddressInfo } from "node:net";
+import type { QueuePool } from "../src/services/job-queues.js";
+import {
+  getMetricsConfig,
+  observeChildProcess,
+  recordJob,
+  renderMetrics,
+  startMetricsServer,
+  trackQueueDepth,
+} from "../src/services/metrics.js";
+
+describe("getMetricsConfig", () => {
+  afterEach(() => {
+    delete process.env.QEZU_METRICS;
+    delete process.env.QEZU_METRICS_PORT;
+  });
+
+  it("環境変数を設定ファイルより優先する", () => {
+    assert.deepEqual(getMetricsConfig({}), { enabled: true, workerPort: 9464 });
+    assert.deepEqual(getMetricsConfig({ metrics: { enabled: false, workerPort: 9000 } }), {
+      enabled: false,
+      workerPort: 9000,
+    });
+
+    process.env.QEZU_METRICS = "0";
+    process.env.QEZU_METRICS_PORT = "9500";
+    assert.deepEqual(getMetricsConfig({ metrics: { enabled: true } }), { enabled: false, workerPort: 9500 });
+  });
+
+  it("ポート番号が不正な場合はエラーにする", () => {
+    assert.throws(() => getMetricsConfig({ metrics: { workerPort: 70000 } }), /metrics.workerPort は1〜65535/);
+  });
+});
+
+describe("メトリクスの記録", () => {
+  it("ジョブの処理と子プロセスの終了理由を記録する", async () => {
+    recordJob("multi-agent", "completed", 2);
+    observeChildProcess("claude", Promise.resolve());
+    observeChildProcess("claude", Promise.reject({ exitCode: 2 }));
+    observeChildProcess("codex", Promise.reject({ timedOut: true }));
+    observeChildProcess("codex", Promise.reject({ isCanceled: true }));
+    await new Promise((resolve) => setImmediate(resolve));
+
+    const { body } = await renderMetrics();
+    assert.match(body, /qezu_jobs_total\{kind="multi-agent",state="completed"\} 1/);
+    assert.match(body, /qezu_job_duration_seconds_bucket\{le="5",kind="multi-agent",state="completed"\} 1/);
+    assert.match(body, /qezu_adapter_exits_total\{agent="claude",exit_code="0"\} 1/);
+    assert.match(body, /qezu_adapter_exits_total\{agent="claude",exit_code="2"\} 1/);
+    assert.match(body, /qezu_adapter_exits_total\{agent="codex",exit_code="timeout"\} 1/);
+    assert.match(body, /qezu_adapter_exits_total\{agent="codex",exit_code="aborted"\} 1/);
+  });
+
+  it("キューの深さをメトリクスの取得時に集計する", async () => {
+    const queues = {
+      get: (name: string) => ({ getJobCounts: async () => ({ waiting: name.length, active: 1 }) }),
+    } as unknown as QueuePool;
+    trackQueueDepth(() => queues);
+
+    const { body } = await renderMetrics();
+    assert.match(body, /qezu_queue_jobs\{queue="qezu-jobs",state="waiting"\} 9/);
+    assert.match(body, /qezu_queue_jobs\{queue="qezu-jobs",state="active"\} 1/);
+    assert.match(body, /qezu_queue_jobs\{queue="qezu-jobs",state="delayed"\} 0/);
+  });
+});
+
+describe("startMetricsServer", () => {
+  it("GET /metrics でメトリクスを返し、それ以外は404にする", async () => {
+    const server = startMetricsServer(0);
+    await once(server, "listening");
+    const { port } = server.address() as AddressInfo;
+    try {
+      const metrics = await fetch(`http://127.0.0.1:${port}/metrics?x=1`);
+      assert.equal(metrics.status, 200);
+      assert.match(await metrics.text(), /qezu_jobs_total/);
+
+      assert.equal((await fetch(`http://127.0.0.1:${port}/other`)).status, 404);
+    } finally {
+      server.close();
+    }
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * 設定ファイルの読み込みのテスト
+ */
+
+import { after, afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, utimesSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { loadQezuConfig } from "../src/services/qezu-config.js";
+
+const dir = mkdtempSync(join(tmpdir(), "qezu-config-"));
+
+after(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  delete process.env.QEZU_CONFIG;
+});
+
+describe("loadQezuConfig", () => {
+  it("ファイルが存在しない場合は空の設定を返す", () => {
+    process.env.QEZU_CONFIG = join(dir, "missing.yaml");
+
+    assert.deepEqual(loadQezuConfig(), {});
+  });
+
+  it("ファイルが変更されるまで同じ設定を返し、変更後は読み込み直す", () => {
+    const path = join(dir, "qezu.config.yaml");
+    process.env.QEZU_CONFIG = path;
+    writeFileSync(path, "plugins:\n  - ./a.mjs\n");
+
+    const first = loadQezuConfig();
+    assert.deepEqual(first.plugins, ["./a.mjs"]);
+    assert.equal(loadQezuConfig(), first);
+
+    writeFileSync(path, "plugins:\n  - ./bb.mjs\n");
+    utimesSync(path, new Date(), new Date(Date.now() + 1000));
+    assert.deepEqual(loadQezuConfig().plugins, ["./bb.mjs"]);
+  });
+});
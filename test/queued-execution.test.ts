@@ -0,0 +1,78 @@
+/**
+ * キュー経由の実行のテスト
+ * 親ジョブが子ジョブの結果からフォールバック・期限を扱う処理（advanceSlot）を確認する
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { AgentResult, CANCELLED_ERROR, TIMEOUT_ERROR } from "../src/services/agent-orchestrator.js";
+import { advanceSlot, AgentSlot } from "../src/services/queued-execution.js";
+
+const chain = ["codex", "claude", "gemini"];
+const context = { now: 1500, roundStart: 1000, deadline: 2000, cancelled: false };
+
+/**
+ * エージェントの結果を作成する
+ */
+function result(agent: string, success: boolean, error?: string): AgentResult {
+  return { agent, success, result: success ? `${agent}の回答` : undefined, error, executionTime: 100 };
+}
+
+describe("advanceSlot", () => {
+  it("本来のエージェントが成功した場合はそのまま確定する", () => {
+    const slot = advanceSlot({ position: 0, attempts: [] }, chain, result("codex", true), context);
+
+    assert.deepEqual(slot.result, { ...result("codex", true), fallbackFrom: undefined, attempts: undefined });
+  });
+
+  it("失敗した場合はチェーンの次のエージェントに進み、成功すると fallbackFrom と失敗した結果を記録する", () => {
+    const failed = result("codex", false, "rate limited");
+    const next = advanceSlot({ position: 0, attempts: [] }, chain, failed, context);
+    assert.deepEqual(next, { position: 1, attempts: [failed] });
+
+    const slot = advanceSlot(next, chain, result("claude", true), context);
+    assert.equal(slot.result?.agent, "claude");
+    assert.equal(slot.result?.fallbackFrom, "codex");
+    assert.deepEqual(slot.result?.attempts, [failed]);
+  });
+
+  it("すべて失敗した場合は本来のエージェントの失敗を返し、ラウンド開始からの時間を executionTime とする", () => {
+    let slot: AgentSlot = { position: 0, attempts: [] };
+    for (const agent of chain) {
+      slot = advanceSlot(slot, chain, result(agent, false, `${agent} failed`), context);
+    }
+
+    assert.equal(slot.result?.agent, "codex");
+    assert.equal(slot.result?.error, "codex failed");
+    assert.equal(slot.result?.executionTime, 500);
+    assert.deepEqual(
+      slot.result?.attempts?.map((attempt) => attempt.agent),
+      ["claude", "gemini"]
+    );
+  });
+
+  it("期限を過ぎた場合は次のエージェントに進まず本来のエージェントの timeout とする", () => {
+    const slot = advanceSlot({ position: 1, attempts: [result("codex", false, "x")] }, chain, result("claude", false, "y"), {
+      ...context,
+      now: 2000,
+    });
+
+    assert.deepEqual(slot.result, { agent: "codex", success: false, error: TIMEOUT_ERROR, executionTime: 1000 });
+  });
+
+  it("キャンセルされた場合は次のエージェントに進まない", () => {
+    const slot = advanceSlot({ position: 0, attempts: [] }, chain, result("codex", false, CANCELLED_ERROR), {
+      ...context,
+      cancelled: true,
+    });
+
+    assert.equal(slot.result?.error, CANCELLED_ERROR);
+    assert.equal(slot.result?.attempts, undefined);
+  });
+
+  it("フォールバックがない場合は失敗をそのまま返す", () => {
+    const slot = advanceSlot({ position: 0, attempts: [] }, ["codex"], result("codex", false, "boom"), context);
+
+    assert.deepEqual(slot.result, { ...result("codex", false, "boom"), attempts: undefined });
+  });
+});
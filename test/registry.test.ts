@@ -0,0 +1,94 @@
+/**
+ * エージェントアダプタレジストリのテスト
+ * 組み込みエージェントの登録・プラグインの読み込みを確認する
+ */
+
+import { after, afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { AgentAdapter, getAgent, listAgents, loadAgentPlugins, registerAgent, requireAgent } from "../src/adapters/registry.js";
+
+const dir = mkdtempSync(join(tmpdir(), "qezu-plugins-"));
+
+after(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  delete process.env.QEZU_PLUGINS;
+});
+
+/**
+ * テスト用のアダプタを作成する
+ */
+function fakeAdapter(id: string): AgentAdapter {
+  return {
+    id,
+    name: id,
+    description: "テスト用",
+    capabilities: ["general"],
+    run: async (request) => `echo: ${request.prompt}`,
+    runJob: async (params) => ({ params }),
+  };
+}
+
+/**
+ * プラグインのモジュールを作成する
+ */
+function writePlugin(name: string, source: string): string {
+  const path = join(dir, name);
+  writeFileSync(path, source);
+  return path;
+}
+
+describe("registry", () => {
+  it("組み込みエージェントを登録順に返す", () => {
+    assert.deepEqual(
+      listAgents()
+        .map((agent) => agent.id)
+        .slice(0, 4),
+      ["codex", "claude", "gemini", "flowise"]
+    );
+  });
+
+  it("同じIDで登録するとアダプタを上書きする", async () => {
+    registerAgent(fakeAdapter("test-echo"));
+    const replaced = { ...fakeAdapter("test-echo"), name: "上書き" };
+    registerAgent(replaced);
+
+    assert.equal(getAgent("test-echo"), replaced);
+    assert.equal(await requireAgent("test-echo").run({ prompt: "hi" }), "echo: hi");
+  });
+
+  it("不正なアダプタ・未登録のエージェントはエラーにする", () => {
+    assert.throws(() => registerAgent({ id: "broken" } as AgentAdapter), /不正なエージェントアダプタです \[id=broken\]/);
+    assert.equal(getAgent("no-such-agent"), undefined);
+    assert.throws(() => requireAgent("no-such-agent"), /unknown agent kind: no-such-agent/);
+  });
+});
+
+describe("loadAgentPlugins", () => {
+  it("アダプタ・配列・登録関数のいずれかをdefaultエクスポートするプラグインを読み込む", async () => {
+    const adapter = (id: string) =>
+      `{ id: "${id}", name: "${id}", description: "", capabilities: ["general"], run: async () => "", runJob: async () => ({}) }`;
+    process.env.QEZU_PLUGINS = [
+      writePlugin("single.mjs", `export default ${adapter("plugin-single")};`),
+      writePlugin("array.mjs", `export default [${adapter("plugin-a")}, ${adapter("plugin-b")}];`),
+      writePlugin("fn.mjs", `export default ({ registerAgent }) => registerAgent(${adapter("plugin-fn")});`),
+    ].join(",");
+
+    await loadAgentPlugins();
+
+    for (const id of ["plugin-single", "plugin-a", "plugin-b", "plugin-fn"]) {
+      assert.ok(getAgent(id), id);
+    }
+  });
+
+  it("読み込みに失敗した場合はプラグイン名を含めてエラーにする", async () => {
+    process.env.QEZU_PLUGINS = join(dir, "missing.mjs");
+
+    await assert.rejects(loadAgentPlugins(), /プラグインの読み込みに失敗しました \[plugin=.*missing\.mjs/);
+  });
+});
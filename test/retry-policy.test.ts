@@ -0,0 +1,43 @@
+/**
+ * リトライポリシーのテスト
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { resolveRetryOptions } from "../src/services/retry-policy.js";
+
+describe("resolveRetryOptions", () => {
+  it("設定がない場合は3回・5秒からの指数バックオフとする", () => {
+    assert.deepEqual(resolveRetryOptions("codex", undefined, {}), {
+      attempts: 3,
+      backoff: { type: "exponential", delay: 5000 },
+    });
+  });
+
+  it("ジョブごとの指定 > retry.<kind> > retry.default の順に上書きする", () => {
+    const config = {
+      retry: {
+        default: { attempts: 5, backoff: 1000 },
+        claude: { backoff: { type: "fixed" as const, delay: 2000 } },
+      },
+    };
+
+    assert.deepEqual(resolveRetryOptions("codex", undefined, config), {
+      attempts: 5,
+      backoff: { type: "exponential", delay: 1000 },
+    });
+    assert.deepEqual(resolveRetryOptions("claude", undefined, config), {
+      attempts: 5,
+      backoff: { type: "fixed", delay: 2000 },
+    });
+    assert.deepEqual(resolveRetryOptions("claude", { attempts: 1 }, config), {
+      attempts: 1,
+      backoff: { type: "fixed", delay: 2000 },
+    });
+  });
+
+  it("attempts が1以上の整数でない場合はエラーにする", () => {
+    assert.throws(() => resolveRetryOptions("codex", { attempts: 0 }, {}), /attempts は1以上の整数/);
+    assert.throws(() => resolveRetryOptions("codex", { attempts: 1.5 }, {}), /attempts=1.5/);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * 実行中の操作のテスト
+ * 中断されるまで応答しないテスト用のエージェントを登録して、実行中のエージェントを中断する
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { setTimeout as sleep } from "node:timers/promises";
+import { registerAgent } from "../src/adapters/registry.js";
+import { CANCELLED_ERROR, executeMultiAgent } from "../src/services/agent-orchestrator.js";
+import { ApiError } from "../src/services/api-errors.js";
+import { RunControl, SlideQueueController } from "../src/services/run-control.js";
+
+registerAgent({
+  id: "test-wait",
+  name: "test-wait",
+  description: "テスト用",
+  capabilities: ["general"],
+  run: ({ signal }) =>
+    new Promise((_, reject) => signal?.addEventListener("abort", () => reject(new Error("test-wait aborted")))),
+  runJob: async () => ({}),
+});
+registerAgent({
+  id: "test-quick",
+  name: "test-quick",
+  description: "テスト用",
+  capabilities: ["general"],
+  run: async () => {
+    await sleep(50);
+    return "done";
+  },
+  runJob: async () => ({}),
+});
+
+describe("RunControl", () => {
+  it("登録したエージェントを中断し、解除後は conflict にする", () => {
+    const control = new RunControl();
+    let cancelled = 0;
+    const unregister = control.registerAgent("codex", () => cancelled++);
+
+    assert.deepEqual(control.runningAgents(), ["codex"]);
+    control.cancelAgent("codex");
+    assert.equal(cancelled, 1);
+
+    unregister();
+    assert.deepEqual(control.runningAgents(), []);
+    assert.throws(
+      () => control.cancelAgent("codex"),
+      (error: any) => error instanceof ApiError && error.code === "conflict"
+    );
+  });
+
+  it("並列スライド生成のキューは登録中のみ取得できる", () => {
+    const control = new RunControl();
+    assert.throws(() => control.slides(), /parallel slide generation is not running/);
+
+    const queue = { status: () => ({ paused: false }) } as SlideQueueController;
+    const detach = control.attachSlideQueue(queue);
+    assert.equal(control.slides(), queue);
+
+    // 別のキューが登録された後は、先のキューの解除で外さない
+    const next = { status: () => ({ paused: true }) } as SlideQueueController;
+    control.attachSlideQueue(next);
+    detach();
+    assert.equal(control.slides(), next);
+  });
+});
+
+describe("executeMultiAgent（実行中の操作）", () => {
+  it("中断したエージェントは cancelled とし、他のエージェントは継続する", async () => {
+    const control = new RunControl();
+    setTimeout(() => control.cancelAgent("test-wait"), 10);
+
+    const result = await executeMultiAgent("hello", { agents: ["test-wait", "test-quick"], control });
+
+    assert.deepEqual(
+      result.results.map((r) => [r.agent, r.success, r.result ?? r.error]),
+      [
+        ["test-wait", false, CANCELLED_ERROR],
+        ["test-quick", true, "done"],
+      ]
+    );
+    assert.deepEqual(control.runningAgents(), []);
+  });
+});
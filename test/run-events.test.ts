@@ -0,0 +1,129 @@
+/**
+ * 実行イベントのバッファのテスト
+ */
+
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { GAP_EVENT, getStreamConfig, RunEvent, RunEventBuffer } from "../src/services/run-events.js";
+
+/**
+ * 受信したイベントを記録する購読者
+ */
+function recorder() {
+  const received: RunEvent[] = [];
+  let ended = false;
+  return {
+    received,
+    ended: () => ended,
+    subscriber: { onEvent: (event: RunEvent) => received.push(event), onEnd: () => (ended = true) },
+  };
+}
+
+describe("getStreamConfig", () => {
+  afterEach(() => {
+    delete process.env.QEZU_STREAM_RESUME_TIMEOUT;
+  });
+
+  it("未指定の値にはデフォルトを適用し、QEZU_STREAM_RESUME_TIMEOUT で resumeTimeout を上書きする", () => {
+    assert.deepEqual(getStreamConfig({}), { resumeTimeout: 60000, retention: 600, maxEvents: 20000 });
+    assert.equal(getStreamConfig({ stream: { resumeTimeout: 0 } }).resumeTimeout, 0);
+
+    process.env.QEZU_STREAM_RESUME_TIMEOUT = "5000";
+    assert.equal(getStreamConfig({ stream: { resumeTimeout: 0 } }).resumeTimeout, 5000);
+  });
+
+  it("負の値・数値でない値はエラーにする", () => {
+    assert.throws(() => getStreamConfig({ stream: { retention: -1 } }), /stream.retention は0以上の数値/);
+
+    process.env.QEZU_STREAM_RESUME_TIMEOUT = "soon";
+    assert.throws(() => getStreamConfig({}), /stream.resumeTimeout は0以上の数値/);
+  });
+});
+
+describe("RunEventBuffer", () => {
+  it("連番のIDを付けて購読者に送信し、再接続時は受信済みの後のイベントから送信する", () => {
+    const buffer = new RunEventBuffer({ resumeTimeout: 0, retention: 0, maxEvents: 100 });
+    buffer.create("run-1", { keyId: "alice" });
+    const first = recorder();
+    const unsubscribe = buffer.subscribe("run-1", 0, first.subscriber);
+
+    buffer.publish("run-1", "agent-start", { agent: "codex" });
+    buffer.publish("run-1", "agent-complete", { agent: "codex" });
+    unsubscribe?.();
+    buffer.publish("run-1", "complete", {});
+
+    assert.deepEqual(
+      first.received.map((event) => event.id),
+      [1, 2]
+    );
+
+    const resumed = recorder();
+    buffer.subscribe("run-1", 1, resumed.subscriber);
+    assert.deepEqual(
+      resumed.received.map((event) => [event.id, event.event]),
+      [
+        [2, "agent-complete"],
+        [3, "complete"],
+      ]
+    );
+    assert.deepEqual(buffer.get("run-1"), { keyId: "alice", finished: false, subscribers: 1 });
+  });
+
+  it("終了後はイベントを記録せず、購読者に終了を通知する", () => {
+    const buffer = new RunEventBuffer({ resumeTimeout: 0, retention: 0, maxEvents: 100 });
+    buffer.create("run-2");
+    const live = recorder();
+    buffer.subscribe("run-2", 0, live.subscriber);
+    buffer.publish("run-2", "complete", {});
+    buffer.finish("run-2");
+
+    assert.equal(buffer.publish("run-2", "late", {}), undefined);
+    assert.equal(live.ended(), true);
+
+    const late = recorder();
+    buffer.subscribe("run-2", 0, late.subscriber);
+    assert.deepEqual(
+      late.received.map((event) => event.event),
+      ["complete"]
+    );
+    assert.equal(late.ended(), true);
+    assert.equal(buffer.subscribe("no-such-run", 0, late.subscriber), undefined);
+  });
+
+  it("購読者がすべて切断した場合は onIdle を呼び出す", () => {
+    const buffer = new RunEventBuffer({ resumeTimeout: 0, retention: 0, maxEvents: 100 });
+    let idle = 0;
+    buffer.create("run-3", { onIdle: () => idle++ });
+    const a = buffer.subscribe("run-3", 0, recorder().subscriber);
+    const b = buffer.subscribe("run-3", 0, recorder().subscriber);
+
+    a?.();
+    assert.equal(idle, 0);
+    b?.();
+    b?.();
+    assert.equal(idle, 1);
+  });
+
+  it("maxEvents を超えて破棄したイベントは gap イベントで通知する", () => {
+    const buffer = new RunEventBuffer({ resumeTimeout: 0, retention: 0, maxEvents: 2 });
+    buffer.create("run-4");
+    for (const name of ["a", "b", "c", "d"]) {
+      buffer.publish("run-4", name, {});
+    }
+
+    const resumed = recorder();
+    buffer.subscribe("run-4", 1, resumed.subscriber);
+    assert.deepEqual(resumed.received, [
+      { id: 2, event: GAP_EVENT, data: { lastEventId: 1, firstEventId: 3, dropped: 1 } },
+      { id: 3, event: "c", data: {} },
+      { id: 4, event: "d", data: {} },
+    ]);
+
+    const current = recorder();
+    buffer.subscribe("run-4", 2, current.subscriber);
+    assert.deepEqual(
+      current.received.map((event) => event.event),
+      ["c", "d"]
+    );
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * 実行履歴のテスト
+ * QEZU_HISTORY_DIR に一時ディレクトリを指定して保存・取得する
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync, mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { getRun, listRuns, RunRecord, saveRun } from "../src/services/run-history.js";
+
+const dir = mkdtempSync(join(tmpdir(), "qezu-runs-"));
+
+before(() => {
+  process.env.QEZU_HISTORY_DIR = dir;
+});
+
+after(() => {
+  delete process.env.QEZU_HISTORY_DIR;
+  rmSync(dir, { recursive: true, force: true });
+});
+
+/**
+ * 実行履歴を作成する
+ */
+function record(id: string, createdAt: string, overrides: Partial<RunRecord> = {}): RunRecord {
+  return {
+    id,
+    source: "execute",
+    status: "completed",
+    prompt: `${id}のプロンプト`,
+    options: { agents: ["codex", "claude"] },
+    results: [
+      { agent: "codex", success: true },
+      { agent: "claude", success: false },
+    ],
+    summary: { success: 1, failed: 1 },
+    createdAt,
+    completedAt: createdAt,
+    totalExecutionTime: 10,
+    ...overrides,
+  };
+}
+
+describe("run-history", () => {
+  before(() => {
+    saveRun(record("run-1", "2026-01-01T00:00:00.000Z"), {});
+    saveRun(record("run-2", "2026-01-02T00:00:00.000Z", { source: "stream" }), {});
+    saveRun(record("run-3", "2026-01-03T00:00:00.000Z", { status: "failed", error: "boom", prompt: "別の依頼" }), {});
+  });
+
+  it("保存した実行履歴を取得する", () => {
+    const run = getRun("run-3");
+
+    assert.equal(run?.status, "failed");
+    assert.equal(run?.error, "boom");
+    assert.equal(getRun("no-such-run"), undefined);
+    assert.equal(getRun("../etc/passwd"), undefined);
+  });
+
+  it("新しい順に一覧し、結果の本文を除いた概要を返す", () => {
+    const { total, runs } = listRuns();
+
+    assert.equal(total, 3);
+    assert.deepEqual(
+      runs.map((run) => run.id),
+      ["run-3", "run-2", "run-1"]
+    );
+    assert.deepEqual(runs[2].agents, ["codex", "claude"]);
+    assert.equal(runs[2].success, 1);
+    assert.equal(runs[2].failed, 1);
+    assert.equal("results" in runs[2], false);
+  });
+
+  it("プロンプト・実行元・作成日時で絞り込み、ページングする", () => {
+    assert.deepEqual(
+      listRuns({ prompt: "プロンプト" }).runs.map((run) => run.id),
+      ["run-2", "run-1"]
+    );
+    assert.deepEqual(
+      listRuns({ source: "stream" }).runs.map((run) => run.id),
+      ["run-2"]
+    );
+    assert.deepEqual(
+      listRuns({ since: "2026-01-02", until: "2026-01-03" }).runs.map((run) => run.id),
+      ["run-2"]
+    );
+
+    const page = listRuns({ offset: 1, limit: 1 });
+    assert.equal(page.total, 3);
+    assert.deepEqual(
+      page.runs.map((run) => run.id),
+      ["run-2"]
+    );
+  });
+
+  it("同じIDは上書きし、不正なIDはエラーにする", () => {
+    saveRun(record("run-1", "2026-01-01T00:00:00.000Z", { prompt: "上書き" }), {});
+
+    assert.equal(getRun("run-1")?.prompt, "上書き");
+    assert.throws(() => saveRun(record("../escape", "2026-01-01T00:00:00.000Z"), {}), /不正な実行IDです/);
+  });
+
+  it("history.enabled が false の場合は保存しない", () => {
+    saveRun(record("run-disabled", "2026-01-04T00:00:00.000Z"), { history: { enabled: false } });
+
+    assert.equal(existsSync(join(dir, "run-disabled.json")), false);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * 分散トレーシングのテスト
+ * メモリに保持するエクスポーターのプロバイダーを登録して、記録したスパンを確認する
+ */
+
+import { afterEach, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { SpanKind, SpanStatusCode, trace } from "@opentelemetry/api";
+import { InMemorySpanExporter, NodeTracerProvider, SimpleSpanProcessor } from "@opentelemetry/sdk-trace-node";
+import {
+  extractTraceContext,
+  getTracingConfig,
+  injectTraceContext,
+  traceChildProcess,
+  withEnqueueSpan,
+  withSpan,
+} from "../src/services/tracing.js";
+
+const exporter = new InMemorySpanExporter();
+
+before(() => {
+  new NodeTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] }).register();
+});
+
+afterEach(() => {
+  exporter.reset();
+});
+
+describe("getTracingConfig", () => {
+  afterEach(() => {
+    delete process.env.QEZU_TRACING;
+    delete process.env.QEZU_TRACING_SAMPLE_RATIO;
+  });
+
+  it("デフォルトは無効で、環境変数を設定ファイルより優先する", () => {
+    assert.deepEqual(getTracingConfig({}), { enabled: false, endpoint: undefined, sampleRatio: 1 });
+
+    process.env.QEZU_TRACING = "1";
+    process.env.QEZU_TRACING_SAMPLE_RATIO = "0.5";
+    const config = getTracingConfig({ tracing: { enabled: false, sampleRatio: 1, endpoint: "http://collector/v1/traces" } });
+    assert.deepEqual(config, { enabled: true, endpoint: "http://collector/v1/traces", sampleRatio: 0.5 });
+  });
+
+  it("記録する割合が0〜1でない場合はエラーにする", () => {
+    assert.throws(() => getTracingConfig({ tracing: { sampleRatio: 2 } }), /tracing.sampleRatio は0〜1の数値/);
+  });
+});
+
+describe("withSpan / withEnqueueSpan", () => {
+  it("関数内で作成したスパンを子スパンにし、投入時のコンテキストをジョブに引き継げる形式で返す", async () => {
+    const carrier = await withEnqueueSpan("multi-agent", "qezu-jobs", async () =>
+      withSpan("inner", {}, async () => injectTraceContext())
+    );
+
+    const [inner, enqueue] = exporter.getFinishedSpans();
+    assert.equal(enqueue.name, "enqueue multi-agent");
+    assert.equal(enqueue.kind, SpanKind.PRODUCER);
+    assert.equal(enqueue.attributes["messaging.destination.name"], "qezu-jobs");
+    assert.equal(inner.parentSpanContext?.spanId, enqueue.spanContext().spanId);
+
+    // ワーカーでは meta.trace から親のコンテキストを復元する
+    const parent = trace.getSpanContext(extractTraceContext(carrier));
+    assert.equal(parent?.spanId, inner.spanContext().spanId);
+    assert.equal(injectTraceContext(), undefined);
+  });
+
+  it("関数が例外を投げた場合はスパンをエラーとして記録する", async () => {
+    await assert.rejects(
+      withSpan("failing", {}, async () => {
+        throw new Error("boom");
+      }),
+      /boom/
+    );
+
+    const [span] = exporter.getFinishedSpans();
+    assert.equal(span.status.code, SpanStatusCode.ERROR);
+    assert.equal(span.status.message, "boom");
+    assert.equal(span.events[0].name, "exception");
+  });
+});
+
+describe("traceChildProcess", () => {
+  it("子プロセスの終了コードと中断・タイムアウトの理由を記録する", async () => {
+    traceChildProcess("claude", "claude", Promise.resolve());
+    traceChildProcess("codex", "codex", Promise.reject({ exitCode: 1, timedOut: true, message: "timed out" }));
+    await new Promise((resolve) => setImmediate(resolve));
+
+    const [ok, failed] = exporter.getFinishedSpans();
+    assert.equal(ok.name, "exec claude");
+    assert.equal(ok.attributes["process.exit.code"], 0);
+    assert.equal(failed.attributes["process.exit.code"], 1);
+    assert.equal(failed.attributes["qezu.exit_reason"], "timeout");
+    assert.equal(failed.status.code, SpanStatusCode.ERROR);
+  });
+});
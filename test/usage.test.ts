@@ -0,0 +1,114 @@
+/**
+ * 使用量・コストの計算と予算判定のテスト
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  addReportedUsage,
+  estimateTokens,
+  exceedsBudget,
+  getBudget,
+  getTokenPrice,
+  hasBudget,
+  resolveUsage,
+  sumUsage,
+} from "../src/services/usage.js";
+
+const config = {
+  pricing: {
+    "test-model": { input: 1, output: 2 },
+    "test-agent": { input: 10, output: 20 },
+  },
+};
+
+describe("estimateTokens", () => {
+  it("ASCIIは4文字で1トークン、それ以外は1文字1トークンとして推定する", () => {
+    assert.equal(estimateTokens(""), 0);
+    assert.equal(estimateTokens("abcde"), 2);
+    assert.equal(estimateTokens("abcdこんにちは"), 6);
+  });
+});
+
+describe("getTokenPrice", () => {
+  it("モデル名 > エージェントID > 組み込みの料金表の順に料金を決定する", () => {
+    assert.deepEqual(getTokenPrice("test-agent", "test-model", config), { input: 1, output: 2 });
+    assert.deepEqual(getTokenPrice("test-agent", "other-model", config), { input: 10, output: 20 });
+    assert.deepEqual(getTokenPrice("unknown-agent", undefined, config), { input: 0, output: 0 });
+  });
+});
+
+describe("resolveUsage", () => {
+  it("報告された使用量から料金を計算する", () => {
+    const usage = resolveUsage(
+      "test-agent",
+      undefined,
+      { inputTokens: 1000, outputTokens: 500, model: "test-model" },
+      "",
+      "",
+      config
+    );
+
+    assert.deepEqual(usage, {
+      inputTokens: 1000,
+      outputTokens: 500,
+      totalTokens: 1500,
+      costUsd: (1000 * 1 + 500 * 2) / 1_000_000,
+      estimated: false,
+      model: "test-model",
+    });
+  });
+
+  it("報告されたコストはそのまま使用する", () => {
+    const usage = resolveUsage("test-agent", undefined, { inputTokens: 1, outputTokens: 1, costUsd: 0.5 }, "", "", config);
+
+    assert.equal(usage.costUsd, 0.5);
+  });
+
+  it("報告がない場合はプロンプトと出力の文字数から推定する", () => {
+    const usage = resolveUsage("test-agent", undefined, undefined, "abcdefgh", "回答", config);
+
+    assert.equal(usage.inputTokens, 2);
+    assert.equal(usage.outputTokens, 2);
+    assert.equal(usage.estimated, true);
+    assert.equal(usage.costUsd, (2 * 10 + 2 * 20) / 1_000_000);
+  });
+});
+
+describe("addReportedUsage / sumUsage", () => {
+  it("複数回の報告を加算する（コストはいずれかが報告した場合のみ）", () => {
+    assert.deepEqual(addReportedUsage(undefined, { inputTokens: 1, outputTokens: 2 }), { inputTokens: 1, outputTokens: 2 });
+    assert.deepEqual(
+      addReportedUsage({ inputTokens: 1, outputTokens: 2, model: "a" }, { inputTokens: 3, outputTokens: 4 }),
+      { inputTokens: 4, outputTokens: 6, costUsd: undefined, model: "a" }
+    );
+    assert.equal(
+      addReportedUsage({ inputTokens: 0, outputTokens: 0, costUsd: 0.1 }, { inputTokens: 0, outputTokens: 0 }).costUsd,
+      0.1
+    );
+  });
+
+  it("使用量を合計する", () => {
+    const usage = { inputTokens: 1, outputTokens: 2, totalTokens: 3, costUsd: 0.5, estimated: false };
+
+    assert.deepEqual(sumUsage([usage, usage]), { calls: 2, inputTokens: 2, outputTokens: 4, totalTokens: 6, costUsd: 1 });
+    assert.deepEqual(sumUsage([]), { calls: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0, costUsd: 0 });
+  });
+});
+
+describe("getBudget / exceedsBudget", () => {
+  const totals = { calls: 1, inputTokens: 600, outputTokens: 400, totalTokens: 1000, costUsd: 0.25 };
+
+  it("トークン数・コストが上限に達した場合は理由を返す", () => {
+    assert.equal(exceedsBudget(totals, { maxTokens: 1000 }), "tokens=1000/1000");
+    assert.equal(exceedsBudget(totals, { maxCostUsd: 0.2 }), "costUsd=0.2500/0.2");
+    assert.equal(exceedsBudget(totals, { maxTokens: 2000, maxCostUsd: 1 }), undefined);
+    assert.equal(exceedsBudget(totals, undefined), undefined);
+  });
+
+  it("上限値が正の数でない場合はエラーにする", () => {
+    assert.throws(() => getBudget({ budget: { perRun: { maxTokens: 0 } } }), /perRun.maxTokens=0/);
+    assert.equal(hasBudget(getBudget({ budget: { perDay: { maxCostUsd: 5 } } })), true);
+    assert.equal(hasBudget(getBudget({})), false);
+  });
+});
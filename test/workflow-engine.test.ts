@@ -0,0 +1,96 @@
+/**
+ * ワークフローエンジンのテスト
+ * ステップのレベル分割と `{{steps.*}}` テンプレートの置換を確認する
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { planWorkflow, resolveTemplates } from "../src/services/workflow-engine.js";
+
+describe("planWorkflow", () => {
+  it("依存関係に従ってステップをレベルに分割する", () => {
+    const levels = planWorkflow("article", {
+      steps: [
+        { id: "outline", agent: "claude", prompt: "構成を作成" },
+        { id: "draft", agent: "codex", needs: ["outline"], prompt: "{{steps.outline.text}}" },
+        { id: "review", agent: "gemini", needs: ["outline"], prompt: "レビュー" },
+        { id: "final", agent: "claude", needs: ["draft", "review"], prompt: "まとめ" },
+      ],
+    });
+
+    assert.deepEqual(
+      levels.map((level) => level.map((step) => step.id)),
+      [["outline"], ["draft", "review"], ["final"]]
+    );
+    assert.deepEqual(levels[1][0].params, { prompt: "{{steps.outline.text}}" });
+    assert.deepEqual(levels[2][0].needs, ["draft", "review"]);
+  });
+
+  it("IDを省略したステップは step-<番号> とする", () => {
+    const levels = planWorkflow("simple", { steps: [{ agent: "codex" }, { agent: "claude", needs: ["step-1"] }] });
+
+    assert.deepEqual(
+      levels.map((level) => level.map((step) => step.id)),
+      [["step-1"], ["step-2"]]
+    );
+  });
+
+  it("不正な定義はエラーにする", () => {
+    assert.throws(() => planWorkflow("empty", { steps: [] }), /ステップがありません/);
+    assert.throws(() => planWorkflow("no-agent", { steps: [{ id: "a" } as any] }), /agentが指定されていません/);
+    assert.throws(
+      () => planWorkflow("dup", { steps: [{ id: "a", agent: "codex" }, { id: "a", agent: "claude" }] }),
+      /ステップIDが重複しています/
+    );
+    assert.throws(
+      () => planWorkflow("missing", { steps: [{ id: "a", agent: "codex", needs: ["b"] }] }),
+      /未定義のステップを参照しています .*needs=b/
+    );
+    assert.throws(
+      () =>
+        planWorkflow("cycle", {
+          steps: [
+            { id: "a", agent: "codex", needs: ["b"] },
+            { id: "b", agent: "claude", needs: ["a"] },
+          ],
+        }),
+      /循環しています .*steps=a,b/
+    );
+  });
+
+  it("テンプレートで参照するステップが needs にない場合はエラーにする", () => {
+    assert.throws(
+      () =>
+        planWorkflow("ref", {
+          steps: [
+            { id: "a", agent: "codex" },
+            { id: "b", agent: "claude", options: { context: ["{{ steps.a.text }}"] } },
+          ],
+        }),
+      /needs にありません .*ref=a/
+    );
+  });
+});
+
+describe("resolveTemplates", () => {
+  const outputs = { outline: { text: "構成案", meta: { pages: 3 } }, list: { items: ["a", "b"] } };
+
+  it("文字列・配列・オブジェクトのテンプレートを再帰的に置換する", () => {
+    const resolved = resolveTemplates(
+      { prompt: "次の構成で書く: {{steps.outline.text}}", extra: ["{{ steps.outline.meta.pages }}ページ"], count: 1 },
+      outputs
+    );
+
+    assert.deepEqual(resolved, { prompt: "次の構成で書く: 構成案", extra: ["3ページ"], count: 1 });
+  });
+
+  it("文字列以外の値はJSONとして埋め込む", () => {
+    assert.equal(resolveTemplates("{{steps.outline.meta}}", outputs), '{"pages":3}');
+    assert.equal(resolveTemplates("{{steps.list.items}}", outputs), '["a","b"]');
+  });
+
+  it("参照先に値がない場合はエラーにする", () => {
+    assert.throws(() => resolveTemplates("{{steps.outline.missing}}", outputs), /参照先に値がありません \[ref=\{\{steps.outline.missing\}\}\]/);
+    assert.throws(() => resolveTemplates("{{steps.unknown.text}}", outputs), /参照先に値がありません/);
+  });
+});